@@ -0,0 +1,110 @@
+/**
+ * PHI Access Audit Middleware
+ * Records who touched which student, evaluation, goal or session resource
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { recordAuditEvent } from '../../services/audit/index.js';
+import { getOrganizationIdForChild } from '../../services/organization/index.js';
+import type { AuditAction, AuditEvent, AuditResourceType } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+
+const METHOD_ACTIONS: Record<string, AuditAction> = {
+  GET: 'read',
+  HEAD: 'read',
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+/**
+ * Ids a handler can set when they are not in the route params
+ * (e.g. the student behind a session)
+ */
+export interface AuditContext {
+  resource_id?: number | null;
+  student_id?: number | null;
+}
+
+export function setAuditContext(res: Response, context: AuditContext): void {
+  res.locals.audit = { ...(res.locals.audit as AuditContext | undefined), ...context };
+}
+
+function parseId(value: unknown): number | null {
+  const id = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return Number.isNaN(id) ? null : id;
+}
+
+function buildEvent(
+  req: Request,
+  res: Response,
+  resourceType: AuditResourceType,
+  action: AuditAction
+): AuditEvent | null {
+  const context = (res.locals.audit as AuditContext | undefined) ?? {};
+  const paramId = parseId(req.params.id);
+
+  // Student, evaluation and goal routes are all keyed by the student id
+  const resourceId = context.resource_id !== undefined ? context.resource_id : paramId;
+  const studentId = context.student_id !== undefined
+    ? context.student_id
+    : resourceType === 'session' ? null : paramId;
+
+  // Requests rejected before authentication never reached PHI
+  let actor: Pick<AuditEvent, 'organization_id' | 'actor_type' | 'actor_id'>;
+  if (req.therapist) {
+    actor = {
+      organization_id: req.therapist.organization_id,
+      actor_type: 'therapist',
+      actor_id: req.therapist.therapist_id,
+    };
+  } else if (req.member) {
+    actor = {
+      organization_id: req.member.organization_id,
+      actor_type: 'member',
+      actor_id: req.member.member_id,
+    };
+  } else if (req.child) {
+    actor = {
+      organization_id: getOrganizationIdForChild(req.child.child_id),
+      actor_type: 'child',
+      actor_id: req.child.child_id,
+    };
+  } else {
+    return null;
+  }
+
+  return {
+    ...actor,
+    action,
+    resource_type: resourceType,
+    resource_id: resourceId,
+    student_id: studentId,
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    status_code: res.statusCode,
+    ip: req.ip ?? req.socket.remoteAddress ?? null,
+  };
+}
+
+/**
+ * Audit a route once its response has been sent. Denied and failed requests
+ * by an authenticated therapist, member or child are recorded with their status code.
+ */
+export function auditAccess(resourceType: AuditResourceType, options: { action?: AuditAction } = {}) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    res.on('finish', () => {
+      const action = options.action ?? METHOD_ACTIONS[req.method] ?? 'read';
+      try {
+        const event = buildEvent(req, res, resourceType, action);
+        if (event) {
+          recordAuditEvent(event);
+        }
+      } catch (error) {
+        logger.error(`Failed to record audit event for ${req.method} ${req.originalUrl}:`, error);
+      }
+    });
+    next();
+  };
+}
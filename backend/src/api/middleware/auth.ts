@@ -1,6 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../../services/auth/index.js';
+import { verifyToken, isTherapistAdmin } from '../../services/auth/index.js';
+import { getOrganizationIdForTherapist } from '../../services/organization/index.js';
+import { getMemberById, verifyMemberToken } from '../../services/member/index.js';
+import { hasPermission } from '../../services/access/index.js';
+import { bindLogContext } from '../../utils/logger.js';
+import type { Permission } from '../../types/index.js';
 
+/**
+ * Authenticate a dashboard user: the therapist, or a member signed in under
+ * their roles. Sets req.actor for both; req.therapist or req.member by kind.
+ */
 export function authenticate(req: Request, res: Response, next: NextFunction): void {
   const authHeader = req.headers.authorization;
 
@@ -9,14 +18,99 @@ export function authenticate(req: Request, res: Response, next: NextFunction): v
     return;
   }
 
+  // Also rejects tokens whose auth session was revoked (logout, sign out all devices)
   const token = authHeader.substring(7);
   const decoded = verifyToken(token);
 
   if (!decoded) {
+    authenticateMember(token, req, res, next);
+    return;
+  }
+
+  // Resolve the therapist's organization (tenant) for scoping schools and members
+  const organizationId = getOrganizationIdForTherapist(decoded.therapist_id);
+  if (organizationId === null) {
     res.status(401).json({ error: 'Invalid or expired token' });
     return;
   }
 
-  req.therapist = { therapist_id: decoded.therapist_id };
+  req.therapist = {
+    therapist_id: decoded.therapist_id,
+    organization_id: organizationId,
+    session_id: decoded.session_id,
+  };
+  req.actor = {
+    kind: 'therapist',
+    id: decoded.therapist_id,
+    organization_id: organizationId,
+    session_id: decoded.session_id,
+  };
+  bindLogContext({ therapist_id: decoded.therapist_id });
+  next();
+}
+
+function authenticateMember(token: string, req: Request, res: Response, next: NextFunction): void {
+  const decoded = verifyMemberToken(token);
+  const member = decoded ? getMemberById(decoded.member_id) : undefined;
+
+  if (!decoded || !member) {
+    res.status(401).json({ error: 'Invalid or expired token' });
+    return;
+  }
+
+  // Roles and school are read on every request so changes apply immediately
+  req.member = {
+    member_id: member.id,
+    organization_id: member.organization_id,
+    session_id: decoded.session_id,
+  };
+  req.actor = {
+    kind: 'member',
+    id: member.id,
+    organization_id: member.organization_id,
+    session_id: decoded.session_id,
+    roles: JSON.parse(member.roles || '[]'),
+    school_id: member.school_id,
+  };
+  bindLogContext({ member_id: member.id });
+  next();
+}
+
+/**
+ * Restrict a route to actors holding every listed permission (use after authenticate)
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const actor = req.actor;
+    if (!actor || !permissions.every((permission) => hasPermission(actor, permission))) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Restrict a route to therapists, for their own account settings (use after authenticate)
+ */
+export function requireTherapist(req: Request, res: Response, next: NextFunction): void {
+  if (!req.therapist) {
+    res.status(403).json({ error: 'Therapist access required' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Restrict a route to admin therapists (use after authenticate)
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.therapist || !isTherapistAdmin(req.therapist.therapist_id)) {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+
   next();
 }
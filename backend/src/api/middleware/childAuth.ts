@@ -5,6 +5,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { verifyChildToken } from '../../services/student/index.js';
+import { bindLogContext } from '../../utils/logger.js';
 
 export function authenticateChild(req: Request, res: Response, next: NextFunction): void {
   const authHeader = req.headers.authorization;
@@ -14,6 +15,7 @@ export function authenticateChild(req: Request, res: Response, next: NextFunctio
     return;
   }
 
+  // Also rejects tokens whose auth session was revoked (logout, sign out all devices)
   const token = authHeader.substring(7);
   const decoded = verifyChildToken(token);
 
@@ -22,6 +24,7 @@ export function authenticateChild(req: Request, res: Response, next: NextFunctio
     return;
   }
 
-  req.child = { child_id: decoded.child_id };
+  req.child = { child_id: decoded.child_id, session_id: decoded.session_id };
+  bindLogContext({ child_id: decoded.child_id });
   next();
 }
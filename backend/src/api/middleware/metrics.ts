@@ -0,0 +1,37 @@
+/**
+ * HTTP Metrics Middleware
+ * Records request latency by route pattern for /api/metrics
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration } from '../../services/metrics/index.js';
+
+/**
+ * Register before the routers. The route label is the matched pattern
+ * (e.g. /api/therapist/students/:id) so IDs don't create new series.
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const endTimer = httpRequestDuration.startTimer({ method: req.method });
+
+  // Capture the full pattern when Express assigns req.route: routers reset
+  // req.baseUrl when an error leaves them, so it is gone by 'finish'
+  let matchedRoute = 'unmatched';
+  let route: Request['route'];
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => route,
+    set: (value: Request['route']) => {
+      route = value;
+      if (value?.path) {
+        matchedRoute = value.path === '/' && req.baseUrl ? req.baseUrl : `${req.baseUrl}${value.path}`;
+      }
+    },
+  });
+
+  res.on('finish', () => {
+    endTimer({ route: matchedRoute, status_code: res.statusCode });
+  });
+
+  next();
+}
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { refreshRateLimit } from './rateLimit.js';
+
+/**
+ * Run the refresh limiter for one request and return 'next' or the status it answered with
+ */
+async function refresh(ip: string, refreshToken: string): Promise<'next' | number> {
+  let status = 200;
+  let nextCalled = false;
+  const res = {
+    setHeader() { return this; },
+    status(code: number) { status = code; return this; },
+    json() { return this; },
+  } as unknown as Response;
+  await refreshRateLimit({ ip, body: { refresh_token: refreshToken } } as Request, res, () => { nextCalled = true; });
+  return nextCalled ? 'next' : status;
+}
+
+test('token refresh is limited per refresh token, not only per IP', async () => {
+  for (let i = 0; i < 10; i++) {
+    assert.equal(await refresh('203.0.113.7', 'replayed-token'), 'next');
+  }
+  assert.equal(await refresh('203.0.113.7', 'replayed-token'), 429);
+  assert.equal(await refresh('198.51.100.9', 'replayed-token'), 429, 'another IP does not reset it');
+});
+
+test('a classroom refreshing behind one IP is not cut off', async () => {
+  for (let tablet = 0; tablet < 30; tablet++) {
+    for (let refreshes = 0; refreshes < 5; refreshes++) {
+      assert.equal(await refresh('192.0.2.1', `tablet-${tablet}-token-${refreshes}`), 'next');
+    }
+  }
+});
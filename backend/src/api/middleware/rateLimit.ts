@@ -1,30 +1,27 @@
 /**
- * Simple Rate Limiting Middleware
+ * Rate Limiting Middleware
  * Protects against brute force attacks
+ *
+ * Each limiter counts requests per IP and, for login-style routes, per target
+ * account (the email, username or refresh token in the body), so a school network sharing
+ * one IP is not lumped together and one account cannot be hammered from many
+ * IPs. Counters live in the configured rate limit store, so with the SQLite
+ * store they survive restarts and are shared between instances.
  */
 
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
-
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Clean up old entries every 10 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key);
-    }
-  }
-}, 10 * 60 * 1000);
+import { getRateLimitStore } from '../../services/rate-limit/index.js';
+import type { RateLimitCounter } from '../../types/index.js';
 
 export interface RateLimitOptions {
+  name: string; // Keeps each limiter's counters apart in the shared store
   windowMs: number; // Time window in milliseconds
-  maxRequests: number; // Max requests per window
+  maxRequests: number; // Max requests per IP per window
+  account?: {
+    key: (req: Request) => string | undefined; // The account the request targets, if any
+    maxRequests: number; // Max requests per account per window
+  };
   message?: string;
 }
 
@@ -32,40 +29,63 @@ export interface RateLimitOptions {
  * Create a rate limiter middleware
  */
 export function rateLimit(options: RateLimitOptions) {
-  const { windowMs, maxRequests, message = 'Too many requests, please try again later' } = options;
-
-  return (req: Request, res: Response, next: NextFunction): void => {
-    // Use IP address as identifier (in production, consider using user ID for authenticated routes)
-    const identifier = req.ip || req.socket.remoteAddress || 'unknown';
-    const now = Date.now();
-
-    let entry = rateLimitStore.get(identifier);
-
-    // Create new entry or reset if window expired
-    if (!entry || entry.resetTime < now) {
-      entry = {
-        count: 0,
-        resetTime: now + windowMs,
-      };
-      rateLimitStore.set(identifier, entry);
+  const { name, windowMs, maxRequests, account, message = 'Too many requests, please try again later' } = options;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const store = getRateLimitStore();
+      const ip = req.ip || req.socket.remoteAddress || 'unknown';
+
+      const limits: Array<{ counter: RateLimitCounter; max: number }> = [
+        { counter: await store.hit(`${name}:ip:${ip}`, windowMs), max: maxRequests },
+      ];
+      const accountKey = account?.key(req);
+      if (account && accountKey) {
+        limits.push({ counter: await store.hit(`${name}:account:${accountKey}`, windowMs), max: account.maxRequests });
+      }
+
+      // Report whichever limit is closest to running out
+      const tightest = limits.reduce((a, b) => (b.max - b.counter.count < a.max - a.counter.count ? b : a));
+      const exceeded = limits.filter((limit) => limit.counter.count > limit.max);
+      const now = Date.now();
+
+      res.setHeader('X-RateLimit-Limit', tightest.max);
+      res.setHeader('X-RateLimit-Remaining', Math.max(0, tightest.max - tightest.counter.count));
+      res.setHeader('X-RateLimit-Reset', new Date(tightest.counter.reset_at).toISOString());
+
+      if (exceeded.length > 0) {
+        const resetAt = Math.max(...exceeded.map((limit) => limit.counter.reset_at));
+        res.status(429).json({
+          error: message,
+          retryAfter: Math.ceil((resetAt - now) / 1000),
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
     }
+  };
+}
 
-    entry.count++;
-
-    // Set rate limit headers
-    res.setHeader('X-RateLimit-Limit', maxRequests);
-    res.setHeader('X-RateLimit-Remaining', Math.max(0, maxRequests - entry.count));
-    res.setHeader('X-RateLimit-Reset', new Date(entry.resetTime).toISOString());
-
-    if (entry.count > maxRequests) {
-      res.status(429).json({
-        error: message,
-        retryAfter: Math.ceil((entry.resetTime - now) / 1000),
-      });
-      return;
-    }
+/**
+ * Read a string field from the body as an account key (case and spaces ignored)
+ */
+function bodyField(field: string) {
+  return (req: Request): string | undefined => {
+    const value: unknown = req.body?.[field];
+    return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : undefined;
+  };
+}
 
-    next();
+/**
+ * Key by the hash of a token in the body, so the store never holds the token itself
+ */
+function bodyTokenHash(field: string) {
+  return (req: Request): string | undefined => {
+    const value: unknown = req.body?.[field];
+    return typeof value === 'string' && value ? crypto.createHash('sha256').update(value).digest('hex') : undefined;
   };
 }
 
@@ -73,22 +93,66 @@ export function rateLimit(options: RateLimitOptions) {
  * Pre-configured rate limiters
  */
 
-// Strict rate limit for login (5 requests per 15 minutes)
+// Therapist and member login (20 requests per IP, 10 per email per 15 minutes)
+// Wrong passwords also lock the account itself, see services/auth/lockout.ts
 export const authRateLimit = rateLimit({
+  name: 'auth',
   windowMs: 15 * 60 * 1000, // 15 minutes
-  maxRequests: 5,
+  maxRequests: 20,
+  account: { key: bodyField('email'), maxRequests: 10 },
   message: 'Too many login attempts, please try again in 15 minutes',
 });
 
+// Child login from the boardgame (200 requests per IP, 20 per username per 15 minutes)
+// A classroom of tablets often shares one IP, so the per-IP limit is generous
+export const childLoginRateLimit = rateLimit({
+  name: 'child-login',
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 200,
+  account: { key: bodyField('username'), maxRequests: 20 },
+  message: 'Too many login attempts, please ask your therapist for help',
+});
+
 // More lenient rate limit for registration (20 requests per 15 minutes)
 export const registerRateLimit = rateLimit({
+  name: 'register',
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 20,
   message: 'Too many registration attempts, please try again later',
 });
 
+// Password reset requests send email (5 requests per IP or email per 15 minutes)
+export const passwordResetRateLimit = rateLimit({
+  name: 'password-reset',
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 5,
+  account: { key: bodyField('email'), maxRequests: 5 },
+  message: 'Too many password reset attempts, please try again in 15 minutes',
+});
+
+// Looking up and accepting member invites (20 requests per 15 minutes)
+export const inviteRateLimit = rateLimit({
+  name: 'invite',
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 20,
+  message: 'Too many invite attempts, please try again later',
+});
+
+// Token refresh runs every few minutes per open tab, therapist or child
+// (600 requests per IP, 10 per refresh token per 15 minutes). Tokens rotate on
+// every refresh, so the per-token limit only catches retries of one token; the
+// per-IP limit leaves room for a classroom of tablets behind one address.
+export const refreshRateLimit = rateLimit({
+  name: 'refresh',
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  maxRequests: 600,
+  account: { key: bodyTokenHash('refresh_token'), maxRequests: 10 },
+  message: 'Too many token refresh attempts, please try again later',
+});
+
 // Moderate rate limit for API endpoints (100 requests per 15 minutes)
 export const apiRateLimit = rateLimit({
+  name: 'api',
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 100,
   message: 'Too many requests, please slow down',
@@ -0,0 +1,43 @@
+/**
+ * Request Context Middleware
+ * Gives every HTTP request a correlation ID and logs its completion
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { logger, runWithLogContext, newCorrelationId } from '../../utils/logger.js';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Accept a caller's ID (e.g. from a proxy) only if it is short and plain
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Register after the body parsers: their stream callbacks would otherwise
+ * run outside the request's log context.
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : newCorrelationId();
+  const startedAt = process.hrtime.bigint();
+
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  // 'finish' fires outside the async context, so bind the ID explicitly
+  const requestLogger = logger.child({ request_id: requestId });
+  res.on('finish', () => {
+    const durationMs = Number(process.hrtime.bigint() - startedAt) / 1e6;
+    requestLogger
+      .child({
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        status: res.statusCode,
+        duration_ms: Math.round(durationMs),
+        ...(req.therapist && { therapist_id: req.therapist.therapist_id }),
+        ...(req.member && { member_id: req.member.member_id }),
+        ...(req.child && { child_id: req.child.child_id }),
+      })
+      .info('HTTP request completed');
+  });
+
+  runWithLogContext({ request_id: requestId }, next);
+}
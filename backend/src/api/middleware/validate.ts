@@ -5,6 +5,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodError, ZodSchema } from 'zod';
+import { PICTURE_ICON_IDS, PICTURE_PASSWORD_LENGTH, type PictureIconId } from '@shared/picture-passwords';
 
 /**
  * Validation targets
@@ -62,6 +63,15 @@ export const idParamSchema = z.object({
   id: z.string().regex(/^\d+$/, 'Invalid ID').transform(Number),
 });
 
+// A numeric query string parameter (IDs, page sizes)
+const queryIdSchema = z.string().regex(/^\d+$/, 'Invalid ID').transform(Number);
+
+// A calendar date query string parameter
+const queryDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
 // ============================================
 // Auth Schemas
 // ============================================
@@ -70,7 +80,7 @@ export const idParamSchema = z.object({
  * Strong password validation for therapist accounts
  * Requires: 8+ chars, uppercase, lowercase, number, special char
  */
-const therapistPasswordSchema = z
+export const therapistPasswordSchema = z
   .string()
   .min(8, 'Password must be at least 8 characters')
   .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
@@ -90,6 +100,61 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+export const deviceParamSchema = z.object({
+  sessionId: z.string().uuid('Invalid session ID'),
+});
+
+export const refreshTokenSchema = z.object({
+  refresh_token: z.string().min(1, 'Refresh token is required').max(200),
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+/**
+ * The password policy depends on whose token it is, so it is checked in the route
+ */
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, 'Reset token is required').max(200),
+  password: z.string().min(1, 'Password is required').max(200),
+});
+
+export const memberInviteSchema = z.object({
+  token: z.string().min(1, 'Invite token is required').max(200),
+});
+
+/**
+ * The member password policy lives in config, so it is checked in the route
+ */
+export const acceptMemberInviteSchema = z.object({
+  token: z.string().min(1, 'Invite token is required').max(200),
+  password: z.string().min(1, 'Password is required').max(200),
+});
+
+// ============================================
+// Two-Factor Schemas
+// ============================================
+
+// An authenticator code or a recovery code
+const twoFactorCodeSchema = z.string().trim().min(1, 'Code is required').max(32);
+
+export const twoFactorCodeBodySchema = z.object({
+  code: twoFactorCodeSchema,
+});
+
+export const twoFactorChallengeSchema = z.object({
+  challenge_token: z.string().min(1, 'Challenge token is required').max(200),
+});
+
+export const twoFactorLoginSchema = twoFactorChallengeSchema.extend({
+  code: twoFactorCodeSchema,
+});
+
+export const twoFactorRequirementSchema = z.object({
+  required: z.boolean(),
+});
+
 // ============================================
 // Student Schemas
 // ============================================
@@ -115,6 +180,10 @@ export const createStudentSchema = z.object({
   school_id: z.number().optional(),
 });
 
+export const studentPasswordResetSchema = z.object({
+  password: studentPasswordSchema,
+});
+
 export const updateStudentSchema = z.object({
   first_name: z.string().min(1).optional(),
   last_name: z.string().min(1).optional(),
@@ -122,6 +191,97 @@ export const updateStudentSchema = z.object({
   grade_level: z.string().optional(),
   problem_type: z.enum(['language', 'articulation', 'both']).optional(),
   eval_data: z.record(z.string(), z.unknown()).optional(),
+  session_duration_minutes: z.number().int().min(1).max(480).optional(),
+  session_frequency: z.string().max(100).optional(),
+});
+
+export const studentListQuerySchema = z.object({
+  status: z.enum(['active', 'archived', 'all']).optional(),
+  q: z.string().max(100).optional(),
+  school_id: queryIdSchema.optional(),
+  slp_id: queryIdSchema.optional(),
+  problem_type: z.enum(['language', 'articulation', 'both']).optional(),
+  grade: z.string().max(50).optional(),
+  goal_status: z.enum(['active', 'achieved', 'discontinued', 'none']).optional(),
+  last_session_from: queryDateSchema.optional(),
+  last_session_to: queryDateSchema.optional(),
+  sort: z
+    .enum([
+      'name', '-name', 'last_name', '-last_name',
+      'created_at', '-created_at', 'last_session_at', '-last_session_at',
+    ])
+    .optional(),
+  cursor: z.string().max(500).optional(),
+  limit: queryIdSchema.optional(),
+});
+
+export const archiveStudentSchema = z.object({
+  reason: z.string().trim().min(1, 'A discharge reason is required').max(500),
+  discharged_on: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Discharge date must be YYYY-MM-DD')
+    .refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid discharge date')
+    .optional(),
+});
+
+// Multipart form fields arrive as text; the mapping is sent as JSON
+function parseFormJson(value: unknown): unknown {
+  if (value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export const studentImportSchema = z.object({
+  mapping: z.preprocess(
+    parseFormJson,
+    z.partialRecord(
+      z.enum([
+        'first_name', 'last_name', 'date_of_birth', 'grade_level', 'problem_type', 'school', 'slp',
+        'username', 'password', 'session_duration_minutes', 'session_frequency',
+      ]),
+      z.number().int().min(0),
+      'Invalid column mapping'
+    ).optional()
+  ),
+  skip_invalid: z.preprocess((value) => value === 'true' || value === true, z.boolean()).optional(),
+});
+
+// ============================================
+// Child Login Schemas
+// ============================================
+
+/**
+ * Picture password: a fixed-length sequence of shared icon ids
+ */
+export const pictureSequenceSchema = z
+  .array(z.enum(PICTURE_ICON_IDS as [PictureIconId, ...PictureIconId[]]))
+  .length(PICTURE_PASSWORD_LENGTH, `Pick exactly ${PICTURE_PASSWORD_LENGTH} pictures`);
+
+export const setPicturePasswordSchema = z.object({
+  // Omitted: the server picks a random sequence
+  pictures: pictureSequenceSchema.optional(),
+});
+
+export const createLoginBadgeSchema = z.object({
+  label: z.string().max(60).optional(),
+});
+
+export const loginBadgeParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID').transform(Number),
+  badgeId: z.string().regex(/^\d+$/, 'Invalid badge ID').transform(Number),
+});
+
+export const studentDeviceParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID').transform(Number),
+  sessionId: z.string().uuid('Invalid session ID'),
 });
 
 // ============================================
@@ -229,10 +389,130 @@ export const confirmGoalsSchema = z.object({
   ),
 });
 
+// ============================================
+// Audit Schemas
+// ============================================
+
+export const auditLogQuerySchema = z.object({
+  student_id: queryIdSchema.optional(),
+  actor_type: z.enum(['therapist', 'child', 'member', 'system']).optional(),
+  actor_id: queryIdSchema.optional(),
+  resource_type: z.enum(['student', 'evaluation', 'goal', 'session']).optional(),
+  action: z.enum(['read', 'create', 'update', 'delete', 'erase']).optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  before: queryIdSchema.optional(),
+  limit: queryIdSchema.optional(),
+});
+
+// ============================================
+// Report Schemas
+// ============================================
+
+export const schoolReportQuerySchema = z.object({
+  school_id: queryIdSchema.optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  status: z.enum(['active', 'archived', 'all']).optional(),
+});
+
+// ============================================
+// Parent Portal Schemas
+// ============================================
+
+export const scheduledSessionParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID').transform(Number),
+  sessionId: z.string().regex(/^\d+$/, 'Invalid session ID').transform(Number),
+});
+
+export const createScheduledSessionSchema = z.object({
+  scheduled_for: z.string().min(1, 'scheduled_for is required'),
+  duration_minutes: z.number().int().min(1).max(480).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+export const updateParentSharingSchema = z.object({
+  share_eval_data: z.boolean().optional(),
+  share_safety_signals: z.boolean().optional(),
+  home_practice_note: z.string().max(2000).nullable().optional(),
+});
+
+// ============================================
+// Service Minutes Schemas
+// ============================================
+
+export const serviceLedgerQuerySchema = z.object({
+  from: queryDateSchema.optional(),
+  to: queryDateSchema.optional(),
+});
+
+export const createServiceLogSchema = z.object({
+  delivered_on: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Service date must be YYYY-MM-DD'),
+  minutes: z.number().int().min(1, 'Minutes must be at least 1').max(480),
+  notes: z.string().max(500).optional(),
+});
+
+export const serviceLogParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID').transform(Number),
+  logId: z.string().regex(/^\d+$/, 'Invalid log ID').transform(Number),
+});
+
+// ============================================
+// Privacy Schemas
+// ============================================
+
+export const confirmErasureSchema = z.object({
+  confirmation_code: z.string().min(1, 'Confirmation code is required').max(20),
+});
+
+// ============================================
+// Student Sharing Schemas
+// ============================================
+
+const studentShareAccessSchema = z.enum(['view', 'treat']);
+
+export const shareStudentSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  access: studentShareAccessSchema,
+});
+
+export const transferStudentSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  keep_access: studentShareAccessSchema.optional(),
+});
+
+export const studentShareParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID').transform(Number),
+  shareId: z.string().regex(/^\d+$/, 'Invalid share ID').transform(Number),
+});
+
 // Export types inferred from schemas
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type PasswordResetRequestInput = z.infer<typeof passwordResetRequestSchema>;
+export type PasswordResetConfirmInput = z.infer<typeof passwordResetConfirmSchema>;
+export type MemberInviteInput = z.infer<typeof memberInviteSchema>;
+export type AcceptMemberInviteInput = z.infer<typeof acceptMemberInviteSchema>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeBodySchema>;
+export type TwoFactorChallengeInput = z.infer<typeof twoFactorChallengeSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
+export type TwoFactorRequirementInput = z.infer<typeof twoFactorRequirementSchema>;
 export type CreateStudentInput = z.infer<typeof createStudentSchema>;
 export type UpdateStudentInput = z.infer<typeof updateStudentSchema>;
+export type StudentListQueryInput = z.infer<typeof studentListQuerySchema>;
+export type ArchiveStudentInput = z.infer<typeof archiveStudentSchema>;
+export type StudentImportInput = z.infer<typeof studentImportSchema>;
+export type SetPicturePasswordInput = z.infer<typeof setPicturePasswordSchema>;
+export type CreateLoginBadgeInput = z.infer<typeof createLoginBadgeSchema>;
 export type ConfirmEvaluationInput = z.infer<typeof confirmEvaluationSchema>;
 export type ConfirmGoalsInput = z.infer<typeof confirmGoalsSchema>;
+export type AuditLogQueryInput = z.infer<typeof auditLogQuerySchema>;
+export type SchoolReportQueryInput = z.infer<typeof schoolReportQuerySchema>;
+export type CreateScheduledSessionInput = z.infer<typeof createScheduledSessionSchema>;
+export type ServiceLedgerQueryInput = z.infer<typeof serviceLedgerQuerySchema>;
+export type CreateServiceLogInput = z.infer<typeof createServiceLogSchema>;
+export type UpdateParentSharingInput = z.infer<typeof updateParentSharingSchema>;
+export type ConfirmErasureInput = z.infer<typeof confirmErasureSchema>;
+export type ShareStudentInput = z.infer<typeof shareStudentSchema>;
+export type TransferStudentInput = z.infer<typeof transferStudentSchema>;
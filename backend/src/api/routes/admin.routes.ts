@@ -0,0 +1,62 @@
+/**
+ * Admin Routes
+ * Operational endpoints restricted to admin therapists (backups)
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import {
+  createBackup,
+  listBackups,
+  getBackupPath,
+} from '../../services/backup/index.js';
+
+const router = Router();
+
+router.use(authenticate, requireAdmin);
+
+/**
+ * GET /admin/backups
+ * List backup archives on the server
+ */
+router.get('/backups', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const backups = await listBackups();
+    res.json({ backups });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/backups
+ * Take a backup of the database and documents
+ */
+router.post('/backups', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const backup = await createBackup();
+    res.status(201).json({ backup });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/backups/:name
+ * Download a backup archive
+ */
+router.get('/backups/:name', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const backupPath = getBackupPath(req.params.name);
+    if (!backupPath) {
+      throw ApiError.notFound('Backup not found');
+    }
+
+    res.download(backupPath, req.params.name);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
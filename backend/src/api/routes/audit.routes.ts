@@ -0,0 +1,64 @@
+/**
+ * Audit Routes
+ * PHI access audit log for the therapist's organization
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireAdmin, requirePermission } from '../middleware/auth.js';
+import { validateQuery, auditLogQuerySchema, type AuditLogQueryInput } from '../middleware/validate.js';
+import {
+  queryAuditLog,
+  listAuditActors,
+  verifyAuditChain,
+} from '../../services/audit/index.js';
+
+const router = Router();
+
+router.use(authenticate, requirePermission('audit:read'));
+
+/**
+ * GET /audit
+ * Audit entries for the organization, newest first
+ * Query: student_id, actor_type, actor_id, resource_type, action, from, to, before, limit
+ */
+router.get(
+  '/',
+  validateQuery(auditLogQuerySchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const filters = req.query as unknown as AuditLogQueryInput;
+      const page = queryAuditLog({ ...filters, organization_id: req.therapist!.organization_id });
+      res.json(page);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /audit/actors
+ * Therapists, members and children that appear in the organization's audit log
+ */
+router.get('/actors', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const actors = listAuditActors(req.therapist!.organization_id);
+    res.json({ actors });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /audit/verify
+ * Recompute the hash chain over the whole log (admin only)
+ */
+router.get('/verify', requireAdmin, (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = verifyAuditChain();
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
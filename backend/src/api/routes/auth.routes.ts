@@ -1,14 +1,60 @@
 /**
  * Authentication Routes
- * Handles therapist registration, login, and profile
+ * Handles therapist registration, therapist and member login (with the
+ * therapist two-factor step), member invites, token refresh, logout, password
+ * reset, and profile
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { registerTherapist, loginTherapist, getTherapistById } from '../../services/auth/index.js';
+import {
+  registerTherapist,
+  loginTherapist,
+  completeTwoFactorLogin,
+  completeTwoFactorEnrollment,
+  beginChallengeEnrollment,
+  getTherapistById,
+  rotateRefreshToken,
+  revokeAuthSession,
+  listActiveAuthSessions,
+  revokeSubjectAuthSession,
+  revokeAllAuthSessions,
+  requestPasswordReset,
+  getPasswordResetSubject,
+  completePasswordReset,
+} from '../../services/auth/index.js';
+import { getMemberProfile, loginMember, getMemberInvite, acceptMemberInvite } from '../../services/member/index.js';
+import { describeActorPermissions } from '../../services/access/index.js';
 import { authenticate } from '../middleware/auth.js';
-import { validate, registerSchema, loginSchema } from '../middleware/validate.js';
+import {
+  validate,
+  validateParams,
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  deviceParamSchema,
+  passwordResetRequestSchema,
+  passwordResetConfirmSchema,
+  memberInviteSchema,
+  acceptMemberInviteSchema,
+  therapistPasswordSchema,
+  twoFactorChallengeSchema,
+  twoFactorLoginSchema,
+  type PasswordResetRequestInput,
+  type PasswordResetConfirmInput,
+  type MemberInviteInput,
+  type AcceptMemberInviteInput,
+  type TwoFactorChallengeInput,
+  type TwoFactorLoginInput,
+} from '../middleware/validate.js';
 import { ApiError } from '../middleware/errorHandler.js';
-import { authRateLimit, registerRateLimit } from '../middleware/rateLimit.js';
+import {
+  authRateLimit,
+  registerRateLimit,
+  refreshRateLimit,
+  passwordResetRateLimit,
+  inviteRateLimit,
+} from '../middleware/rateLimit.js';
+import { config } from '../../config/index.js';
 
 const router = Router();
 
@@ -22,7 +68,7 @@ router.post(
   validate(registerSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const result = await registerTherapist(req.body);
+      const result = await registerTherapist(req.body, { user_agent: req.get('user-agent'), ip: req.ip });
       res.status(201).json(result);
     } catch (error) {
       if (error instanceof Error) {
@@ -37,6 +83,8 @@ router.post(
 /**
  * POST /login
  * Login a therapist
+ * With two-factor on (or required by the organization) this answers with a
+ * challenge_token for /login/2fa (or /login/2fa/setup and /enable) instead of tokens.
  */
 router.post(
   '/login',
@@ -44,7 +92,30 @@ router.post(
   validate(loginSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const result = await loginTherapist(req.body);
+      const result = await loginTherapist(req.body, { user_agent: req.get('user-agent'), ip: req.ip });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof Error) {
+        next(ApiError.unauthorized(error.message));
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
+/**
+ * POST /login/2fa
+ * Second login step: an authenticator code or a recovery code
+ */
+router.post(
+  '/login/2fa',
+  authRateLimit,
+  validate(twoFactorLoginSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { challenge_token, code } = req.body as TwoFactorLoginInput;
+      const result = completeTwoFactorLogin(challenge_token, code, { user_agent: req.get('user-agent'), ip: req.ip });
       res.json(result);
     } catch (error) {
       if (error instanceof Error) {
@@ -56,17 +127,289 @@ router.post(
   }
 );
 
+/**
+ * POST /login/2fa/setup
+ * Authenticator secret and QR code for a therapist whose organization requires two-factor
+ */
+router.post(
+  '/login/2fa/setup',
+  authRateLimit,
+  validate(twoFactorChallengeSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { challenge_token } = req.body as TwoFactorChallengeInput;
+      res.json(beginChallengeEnrollment(challenge_token));
+    } catch (error) {
+      if (error instanceof Error) {
+        next(ApiError.unauthorized(error.message));
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
+/**
+ * POST /login/2fa/enable
+ * Confirm the new authenticator and sign in; recovery codes are only returned here
+ */
+router.post(
+  '/login/2fa/enable',
+  authRateLimit,
+  validate(twoFactorLoginSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { challenge_token, code } = req.body as TwoFactorLoginInput;
+      const result = completeTwoFactorEnrollment(challenge_token, code, { user_agent: req.get('user-agent'), ip: req.ip });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof Error) {
+        next(ApiError.unauthorized(error.message));
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
+/**
+ * POST /member/login
+ * Login a member (School Admin, SLP, Parent or Student)
+ */
+router.post(
+  '/member/login',
+  authRateLimit,
+  validate(loginSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = await loginMember(req.body, { user_agent: req.get('user-agent'), ip: req.ip });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof Error) {
+        next(ApiError.unauthorized(error.message));
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
+/**
+ * POST /member/invite
+ * Who an invite link is for, shown before the invitee chooses a password
+ */
+router.post(
+  '/member/invite',
+  inviteRateLimit,
+  validate(memberInviteSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { token } = req.body as MemberInviteInput;
+      const invite = getMemberInvite(token);
+      if (!invite) {
+        throw ApiError.badRequest('Invalid or expired invite link');
+      }
+      res.json(invite);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /member/invite/accept
+ * Choose a password with the token from an invite link; the member can then log in
+ */
+router.post(
+  '/member/invite/accept',
+  inviteRateLimit,
+  validate(acceptMemberInviteSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { token, password } = req.body as AcceptMemberInviteInput;
+
+      // Same rule as password resets for members
+      if (password.length < config.auth.minPasswordLength) {
+        throw ApiError.badRequest(`Password must be at least ${config.auth.minPasswordLength} characters`);
+      }
+
+      const member = await acceptMemberInvite(token, password);
+      res.json({ success: true, email: member.email, roles: member.roles });
+    } catch (error) {
+      if (error instanceof Error && !(error instanceof ApiError)) {
+        next(ApiError.badRequest(error.message));
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
+/**
+ * POST /refresh
+ * Exchange a refresh token (therapist or member) for a new access token and refresh token
+ */
+router.post(
+  '/refresh',
+  refreshRateLimit,
+  validate(refreshTokenSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tokens } = rotateRefreshToken(['therapist', 'member'], req.body.refresh_token);
+      res.json(tokens);
+    } catch (error) {
+      if (error instanceof Error) {
+        next(ApiError.unauthorized(error.message));
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
+/**
+ * POST /password-reset/request
+ * Email a reset link to the therapist and/or member account using this address
+ * Always answers the same way so it cannot be used to discover accounts.
+ */
+router.post(
+  '/password-reset/request',
+  passwordResetRateLimit,
+  validate(passwordResetRequestSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { email } = req.body as PasswordResetRequestInput;
+      requestPasswordReset(email, { ip: req.ip });
+      res.json({ success: true, message: 'If an account uses that email, a reset link is on its way' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /password-reset/confirm
+ * Set a new password with the token from a reset link (signs out every device)
+ */
+router.post(
+  '/password-reset/confirm',
+  passwordResetRateLimit,
+  validate(passwordResetConfirmSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { token, password } = req.body as PasswordResetConfirmInput;
+
+      const subject = getPasswordResetSubject(token);
+      if (!subject) {
+        throw ApiError.badRequest('Invalid or expired reset link');
+      }
+
+      // Same rules as registration and member creation
+      if (subject.subject_type === 'therapist') {
+        const policy = therapistPasswordSchema.safeParse(password);
+        if (!policy.success) {
+          throw ApiError.badRequest(policy.error.issues[0].message);
+        }
+      } else if (password.length < config.auth.minPasswordLength) {
+        throw ApiError.badRequest(`Password must be at least ${config.auth.minPasswordLength} characters`);
+      }
+
+      await completePasswordReset(token, password);
+      res.json({ success: true, account_type: subject.subject_type });
+    } catch (error) {
+      if (error instanceof Error && !(error instanceof ApiError)) {
+        next(ApiError.badRequest(error.message));
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
+/**
+ * POST /logout
+ * Revoke the current session's access and refresh tokens
+ */
+router.post('/logout', authenticate, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    revokeAuthSession(req.actor!.session_id);
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /logout-all
+ * Sign out all devices (revokes every session, including this one)
+ */
+router.post('/logout-all', authenticate, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const actor = req.actor!;
+    const revoked = revokeAllAuthSessions(actor.kind, actor.id);
+    res.json({ success: true, revoked });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /devices
+ * Devices the caller is signed in on (the one making the request is marked current)
+ */
+router.get('/devices', authenticate, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const actor = req.actor!;
+    res.json(listActiveAuthSessions(actor.kind, actor.id, actor.session_id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /devices/:sessionId
+ * Sign one device out (a shared computer left signed in)
+ */
+router.delete(
+  '/devices/:sessionId',
+  authenticate,
+  validateParams(deviceParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const actor = req.actor!;
+      if (!revokeSubjectAuthSession(actor.kind, actor.id, req.params.sessionId)) {
+        throw ApiError.notFound('Device not found');
+      }
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * GET /me
- * Get current therapist info
+ * Get the current therapist or member, with what they are allowed to do
  */
 router.get('/me', authenticate, (req: Request, res: Response, next: NextFunction) => {
   try {
-    const therapist = getTherapistById(req.therapist!.therapist_id);
+    const actor = req.actor!;
+    const access = describeActorPermissions(actor);
+
+    if (actor.kind === 'member') {
+      const member = getMemberProfile(actor.id);
+      if (!member) {
+        throw ApiError.notFound('Member not found');
+      }
+      res.json({ member, access });
+      return;
+    }
+
+    const therapist = getTherapistById(actor.id);
     if (!therapist) {
       throw ApiError.notFound('Therapist not found');
     }
-    res.json({ therapist });
+    res.json({ therapist, access });
   } catch (error) {
     next(error);
   }
@@ -1,46 +1,182 @@
 /**
  * Child Authentication Routes
- * Handles child login and calibration for the boardgame
+ * Handles child login (password, picture password or QR badge), token refresh,
+ * logout, and calibration for the boardgame
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { loginChild, getStudentById } from '../../services/student/index.js';
+import { loginChildWithPictures, loginChildWithBadge } from '../../services/child-login/index.js';
+import {
+  rotateRefreshToken,
+  revokeAuthSession,
+  revokeAllAuthSessions,
+} from '../../services/auth/index.js';
 import { authenticateChild } from '../middleware/childAuth.js';
+import { auditAccess, setAuditContext } from '../middleware/audit.js';
 import { ApiError } from '../middleware/errorHandler.js';
+import { childLoginRateLimit, refreshRateLimit } from '../middleware/rateLimit.js';
 import {
   getCalibrationByChildId,
   saveCalibration,
 } from '../../services/calibration/index.js';
-import { validateBody, LoginSchema, CalibrationSchema } from '../validation/index.js';
+import {
+  validateBody,
+  LoginSchema,
+  PictureLoginSchema,
+  BadgeLoginSchema,
+  RefreshTokenSchema,
+  CalibrationSchema,
+} from '../validation/index.js';
+import type { ChildAuthResult } from '../../types/index.js';
 
 const router = Router();
 
+// Errors from the child login services that are safe to show
+const INVALID_LOGIN_ERRORS = [
+  'Invalid username or password',
+  'Invalid username or pictures',
+  'Invalid login badge',
+];
+const BLOCKED_LOGIN_ERRORS = [
+  'Too many tries, please ask your therapist to unlock your account',
+  'This badge no longer works, please ask your therapist for a new one',
+  'This account has been archived, please ask your therapist for help',
+];
+
+/**
+ * Same response for every way a child can sign in
+ */
+function sendChildLogin(res: Response, result: ChildAuthResult): void {
+  res.json({
+    success: true,
+    child: {
+      id: result.child.id,
+      username: result.child.username,
+      first_name: result.child.first_name,
+      last_name: result.child.last_name,
+      therapist_id: result.child.therapist_id,
+      problem_type: result.child.problem_type,
+    },
+    token: result.token,
+    refresh_token: result.refresh_token,
+    expires_in: result.expires_in,
+  });
+}
+
+function toLoginError(error: unknown): unknown {
+  if (error instanceof Error && INVALID_LOGIN_ERRORS.includes(error.message)) {
+    return ApiError.unauthorized(error.message);
+  }
+  if (error instanceof Error && BLOCKED_LOGIN_ERRORS.includes(error.message)) {
+    return ApiError.forbidden(error.message);
+  }
+  return error;
+}
+
 /**
  * POST /api/child/login
  * Login a child with username and password
  */
-router.post('/login', validateBody(LoginSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post(
+  '/login',
+  childLoginRateLimit,
+  validateBody(LoginSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { username, password } = req.body;
+      const result = await loginChild({ username, password }, { user_agent: req.get('user-agent'), ip: req.ip });
+      sendChildLogin(res, result);
+    } catch (error) {
+      next(toLoginError(error));
+    }
+  }
+);
+
+/**
+ * POST /api/child/picture-login
+ * Login a child with username and picture sequence
+ */
+router.post(
+  '/picture-login',
+  childLoginRateLimit,
+  validateBody(PictureLoginSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { username, pictures } = req.body;
+      const result = await loginChildWithPictures(
+        { username, pictures },
+        { user_agent: req.get('user-agent'), ip: req.ip }
+      );
+      sendChildLogin(res, result);
+    } catch (error) {
+      next(toLoginError(error));
+    }
+  }
+);
+
+/**
+ * POST /api/child/badge-login
+ * Login a child with the token from a printed QR badge
+ */
+router.post(
+  '/badge-login',
+  childLoginRateLimit,
+  validateBody(BadgeLoginSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const result = loginChildWithBadge(req.body.token, { user_agent: req.get('user-agent'), ip: req.ip });
+      sendChildLogin(res, result);
+    } catch (error) {
+      next(toLoginError(error));
+    }
+  }
+);
+
+/**
+ * POST /api/child/refresh
+ * Exchange a refresh token for a new access token and refresh token
+ */
+router.post(
+  '/refresh',
+  refreshRateLimit,
+  validateBody(RefreshTokenSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { tokens } = rotateRefreshToken('child', req.body.refresh_token);
+      res.json(tokens);
+    } catch (error) {
+      if (error instanceof Error) {
+        next(ApiError.unauthorized(error.message));
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/child/logout
+ * Revoke the current session's access and refresh tokens
+ */
+router.post('/logout', authenticateChild, (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { username, password } = req.body;
-    const result = await loginChild({ username, password });
+    revokeAuthSession(req.child!.session_id);
+    res.json({ success: true });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    res.json({
-      success: true,
-      child: {
-        id: result.child.id,
-        username: result.child.username,
-        first_name: result.child.first_name,
-        last_name: result.child.last_name,
-        therapist_id: result.child.therapist_id,
-        problem_type: result.child.problem_type,
-      },
-      token: result.token,
-    });
+/**
+ * POST /api/child/logout-all
+ * Sign the child out on every device (revokes every session, including this one)
+ */
+router.post('/logout-all', authenticateChild, (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const revoked = revokeAllAuthSessions('child', req.child!.child_id);
+    res.json({ success: true, revoked });
   } catch (error) {
-    if (error instanceof Error && error.message === 'Invalid username or password') {
-      next(ApiError.unauthorized('Invalid username or password'));
-      return;
-    }
     next(error);
   }
 });
@@ -49,9 +185,10 @@ router.post('/login', validateBody(LoginSchema), async (req: Request, res: Respo
  * GET /api/child/me
  * Get current child's info (requires authentication)
  */
-router.get('/me', authenticateChild, (req: Request, res: Response, next: NextFunction) => {
+router.get('/me', authenticateChild, auditAccess('student'), (req: Request, res: Response, next: NextFunction) => {
   try {
     const child = getStudentById(req.child!.child_id);
+    setAuditContext(res, { resource_id: req.child!.child_id, student_id: req.child!.child_id });
 
     if (!child) {
       throw ApiError.notFound('Child not found');
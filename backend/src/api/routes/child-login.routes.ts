@@ -0,0 +1,227 @@
+/**
+ * Child Login Method Routes
+ * Picture passwords and printable QR badges for a student's boardgame sign-in,
+ * the devices the student is signed in on, and unlocking a student locked out
+ * by too many wrong tries
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { getStudentForActor } from '../../services/access/index.js';
+import {
+  getChildLoginMethods,
+  setPicturePassword,
+  removePicturePassword,
+  issueLoginBadge,
+  revokeLoginBadge,
+} from '../../services/child-login/index.js';
+import {
+  clearAccountLockout,
+  listActiveAuthSessions,
+  revokeSubjectAuthSession,
+} from '../../services/auth/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { auditAccess } from '../middleware/audit.js';
+import {
+  validate,
+  validateParams,
+  idParamSchema,
+  loginBadgeParamSchema,
+  studentDeviceParamSchema,
+  setPicturePasswordSchema,
+  createLoginBadgeSchema,
+  type SetPicturePasswordInput,
+  type CreateLoginBadgeInput,
+} from '../middleware/validate.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { AccessActor } from '../../types/index.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+// Sign-in credentials are managed by whoever may edit the student
+function getVerifiedStudent(studentId: number, actor: AccessActor) {
+  const student = getStudentForActor(actor, studentId, 'students:update');
+  if (!student) {
+    throw ApiError.notFound('Student not found');
+  }
+  return student;
+}
+
+/**
+ * GET /students/:id/login-methods
+ * Whether a picture password is set, the badges that still work, and any lock on the account
+ */
+router.get(
+  '/:id/login-methods',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!);
+      res.json(getChildLoginMethods(studentId));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /students/:id/picture-password
+ * Set the picture sequence (random unless given); the sequence is only returned here
+ */
+router.put(
+  '/:id/picture-password',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(idParamSchema),
+  validate(setPicturePasswordSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!);
+      const { pictures } = req.body as SetPicturePasswordInput;
+      res.json(await setPicturePassword(studentId, pictures));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /students/:id/picture-password
+ * Turn picture sign-in off for the student
+ */
+router.delete(
+  '/:id/picture-password',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!);
+      if (!removePicturePassword(studentId)) {
+        throw ApiError.notFound('No picture password is set');
+      }
+      res.json({ message: 'Picture password removed' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /students/:id/badges
+ * Issue a printable QR badge; the token, login URL and QR code are only returned here
+ */
+router.post(
+  '/:id/badges',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(idParamSchema),
+  validate(createLoginBadgeSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!);
+      const { label } = req.body as CreateLoginBadgeInput;
+      res.status(201).json(issueLoginBadge(studentId, label));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /students/:id/badges/:badgeId
+ * Revoke a badge (a lost badge stops working immediately)
+ */
+router.delete(
+  '/:id/badges/:badgeId',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(loginBadgeParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!);
+      if (!revokeLoginBadge(studentId, parseInt(req.params.badgeId))) {
+        throw ApiError.notFound('Badge not found');
+      }
+      res.json({ message: 'Badge revoked' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /students/:id/devices
+ * Devices the student is signed in on in the boardgame
+ */
+router.get(
+  '/:id/devices',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!);
+      res.json(listActiveAuthSessions('child', studentId));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /students/:id/devices/:sessionId
+ * Sign the student out of one device (a lost or shared tablet)
+ */
+router.delete(
+  '/:id/devices/:sessionId',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(studentDeviceParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!);
+      if (!revokeSubjectAuthSession('child', studentId, req.params.sessionId)) {
+        throw ApiError.notFound('Device not found');
+      }
+      res.json({ message: 'Device signed out' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /students/:id/unlock
+ * Let a student locked out by too many wrong passwords or pictures sign in again
+ */
+router.post(
+  '/:id/unlock',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!);
+      if (!clearAccountLockout('child', studentId)) {
+        throw ApiError.notFound('Account is not locked');
+      }
+      res.json({ message: 'Account unlocked' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
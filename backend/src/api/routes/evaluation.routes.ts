@@ -5,18 +5,19 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
-import fs from 'fs';
-import { getStudentForTherapist, updateStudent } from '../../services/student/index.js';
+import { updateStudent } from '../../services/student/index.js';
+import { getStudentForActor } from '../../services/access/index.js';
 import {
   validatePdfFile,
   saveEvaluationPdf,
   updateStudentPdfMetadata,
-  getEvaluationPdfPath,
+  readEvaluationPdf,
   deleteEvaluationPdf,
   extractEvaluationData,
   PasswordRequiredError,
 } from '../../services/evaluation/index.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { auditAccess } from '../middleware/audit.js';
 import {
   validate,
   validateParams,
@@ -24,7 +25,7 @@ import {
   idParamSchema,
 } from '../middleware/validate.js';
 import { ApiError } from '../middleware/errorHandler.js';
-import type { UpdateChildRequest, EvalData } from '../../types/index.js';
+import type { UpdateChildRequest, EvalData, AccessActor, Permission } from '../../types/index.js';
 
 // Configure multer for file uploads
 const upload = multer({
@@ -45,10 +46,10 @@ const router = Router();
 router.use(authenticate);
 
 /**
- * Helper to verify student ownership
+ * Helper to verify the caller holds a permission for the student
  */
-function getVerifiedStudent(studentId: number, therapistId: number) {
-  const student = getStudentForTherapist(studentId, therapistId);
+function getVerifiedStudent(studentId: number, actor: AccessActor, permission: Permission) {
+  const student = getStudentForActor(actor, studentId, permission);
   if (!student) {
     throw ApiError.notFound('Student not found');
   }
@@ -61,14 +62,16 @@ function getVerifiedStudent(studentId: number, therapistId: number) {
  */
 router.post(
   '/:id/evaluation/upload',
+  auditAccess('evaluation'),
+  requirePermission('evaluations:write'),
   validateParams(idParamSchema),
   upload.single('file'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
 
-      // Verify student belongs to therapist
-      getVerifiedStudent(studentId, req.therapist!.therapist_id);
+      // Verify the caller can edit this student's evaluation
+      getVerifiedStudent(studentId, req.actor!, 'evaluations:write');
 
       // Check if file was uploaded
       if (!req.file) {
@@ -87,14 +90,14 @@ router.post(
       }
 
       // Save PDF file
-      const { filePath } = await saveEvaluationPdf(
+      const { storageKey } = await saveEvaluationPdf(
         studentId,
         req.file.buffer,
         req.file.originalname
       );
 
       // Update student metadata
-      updateStudentPdfMetadata(studentId, filePath, req.file.originalname);
+      await updateStudentPdfMetadata(studentId, storageKey, req.file.originalname);
 
       // Get password if provided
       const password = req.body?.password || undefined;
@@ -124,17 +127,19 @@ router.post(
  */
 router.get(
   '/:id/evaluation/pdf',
+  auditAccess('evaluation'),
+  requirePermission('evaluations:read'),
   validateParams(idParamSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
 
-      // Verify student belongs to therapist
-      const student = getVerifiedStudent(studentId, req.therapist!.therapist_id);
+      // Verify the caller can read this student's evaluation
+      const student = getVerifiedStudent(studentId, req.actor!, 'evaluations:read');
 
-      // Get PDF path
-      const pdfPath = getEvaluationPdfPath(studentId);
-      if (!pdfPath || !fs.existsSync(pdfPath)) {
+      // Load PDF from the document store
+      const pdf = await readEvaluationPdf(studentId);
+      if (!pdf) {
         throw ApiError.notFound('No evaluation PDF found');
       }
 
@@ -145,8 +150,7 @@ router.get(
         `inline; filename="${student.eval_pdf_original_name || 'evaluation.pdf'}"`
       );
 
-      const fileStream = fs.createReadStream(pdfPath);
-      fileStream.pipe(res);
+      res.send(pdf);
     } catch (error) {
       next(error);
     }
@@ -181,6 +185,8 @@ function extractEvalDataValues(structuredData: Record<string, { value: unknown;
 
 router.post(
   '/:id/evaluation/confirm',
+  auditAccess('evaluation', { action: 'update' }),
+  requirePermission('evaluations:write'),
   validateParams(idParamSchema),
   validate(confirmEvaluationSchema),
   async (req: Request, res: Response, next: NextFunction) => {
@@ -197,10 +203,11 @@ router.post(
         updateData.problem_type = service_type;
       }
 
-      // Update student
+      // Update student (under its owning therapist once the caller is verified)
+      const student = getVerifiedStudent(studentId, req.actor!, 'evaluations:write');
       const updatedStudent = updateStudent(
         studentId,
-        req.therapist!.therapist_id,
+        student.therapist_id,
         updateData
       );
 
@@ -224,13 +231,15 @@ router.post(
  */
 router.delete(
   '/:id/evaluation/pdf',
+  auditAccess('evaluation'),
+  requirePermission('evaluations:write'),
   validateParams(idParamSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
 
-      // Verify student belongs to therapist
-      getVerifiedStudent(studentId, req.therapist!.therapist_id);
+      // Verify the caller can edit this student's evaluation
+      getVerifiedStudent(studentId, req.actor!, 'evaluations:write');
 
       await deleteEvaluationPdf(studentId);
       res.json({ success: true });
@@ -5,13 +5,12 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import multer from 'multer';
-import fs from 'fs';
-import { getStudentForTherapist } from '../../services/student/index.js';
+import { getStudentForActor } from '../../services/access/index.js';
 import {
   validatePdfFile,
   saveGoalsPdf,
   updateStudentGoalsPdfMetadata,
-  getGoalsPdfPath,
+  readGoalsPdf,
   deleteGoalsPdf,
   extractGoalsData,
   PasswordRequiredError,
@@ -19,7 +18,8 @@ import {
   listGoalsByStudent,
   deleteAllGoalsForStudent,
 } from '../../services/goal/index.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { auditAccess } from '../middleware/audit.js';
 import {
   validate,
   validateParams,
@@ -27,6 +27,7 @@ import {
   idParamSchema,
 } from '../middleware/validate.js';
 import { ApiError } from '../middleware/errorHandler.js';
+import type { AccessActor, Permission } from '../../types/index.js';
 
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -44,8 +45,8 @@ const router = Router();
 
 router.use(authenticate);
 
-function getVerifiedStudent(studentId: number, therapistId: number) {
-  const student = getStudentForTherapist(studentId, therapistId);
+function getVerifiedStudent(studentId: number, actor: AccessActor, permission: Permission) {
+  const student = getStudentForActor(actor, studentId, permission);
   if (!student) {
     throw ApiError.notFound('Student not found');
   }
@@ -58,13 +59,15 @@ function getVerifiedStudent(studentId: number, therapistId: number) {
  */
 router.post(
   '/:id/goals/upload',
+  auditAccess('goal'),
+  requirePermission('goals:write'),
   validateParams(idParamSchema),
   upload.single('file'),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
 
-      getVerifiedStudent(studentId, req.therapist!.therapist_id);
+      getVerifiedStudent(studentId, req.actor!, 'goals:write');
 
       if (!req.file) {
         throw ApiError.badRequest('No file uploaded');
@@ -80,13 +83,13 @@ router.post(
         throw ApiError.badRequest(validation.error || 'Invalid PDF file');
       }
 
-      const { filePath } = await saveGoalsPdf(
+      const { storageKey } = await saveGoalsPdf(
         studentId,
         req.file.buffer,
         req.file.originalname
       );
 
-      updateStudentGoalsPdfMetadata(studentId, filePath, req.file.originalname);
+      await updateStudentGoalsPdfMetadata(studentId, storageKey, req.file.originalname);
 
       const password = req.body?.password || undefined;
 
@@ -114,15 +117,17 @@ router.post(
  */
 router.get(
   '/:id/goals/pdf',
+  auditAccess('goal'),
+  requirePermission('goals:read'),
   validateParams(idParamSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
 
-      const student = getVerifiedStudent(studentId, req.therapist!.therapist_id);
+      const student = getVerifiedStudent(studentId, req.actor!, 'goals:read');
 
-      const pdfPath = getGoalsPdfPath(studentId);
-      if (!pdfPath || !fs.existsSync(pdfPath)) {
+      const pdf = await readGoalsPdf(studentId);
+      if (!pdf) {
         throw ApiError.notFound('No goals PDF found');
       }
 
@@ -132,8 +137,7 @@ router.get(
         `inline; filename="${student.goals_pdf_original_name || 'goals.pdf'}"`
       );
 
-      const fileStream = fs.createReadStream(pdfPath);
-      fileStream.pipe(res);
+      res.send(pdf);
     } catch (error) {
       next(error);
     }
@@ -146,6 +150,8 @@ router.get(
  */
 router.post(
   '/:id/goals/confirm',
+  auditAccess('goal', { action: 'update' }),
+  requirePermission('goals:write'),
   validateParams(idParamSchema),
   validate(confirmGoalsSchema),
   async (req: Request, res: Response, next: NextFunction) => {
@@ -153,7 +159,7 @@ router.post(
       const studentId = parseInt(req.params.id);
       const { goals } = req.body;
 
-      getVerifiedStudent(studentId, req.therapist!.therapist_id);
+      getVerifiedStudent(studentId, req.actor!, 'goals:write');
 
       // Delete existing goals and create new ones from extraction
       deleteAllGoalsForStudent(studentId);
@@ -175,6 +181,8 @@ router.post(
  */
 router.post(
   '/:id/goals/add',
+  auditAccess('goal'),
+  requirePermission('goals:write'),
   validateParams(idParamSchema),
   validate(confirmGoalsSchema),
   async (req: Request, res: Response, next: NextFunction) => {
@@ -182,7 +190,7 @@ router.post(
       const studentId = parseInt(req.params.id);
       const { goals } = req.body;
 
-      getVerifiedStudent(studentId, req.therapist!.therapist_id);
+      getVerifiedStudent(studentId, req.actor!, 'goals:write');
 
       // Add new goals without deleting existing ones
       const createdGoals = createGoalsFromExtraction(studentId, goals);
@@ -203,12 +211,14 @@ router.post(
  */
 router.get(
   '/:id/goals',
+  auditAccess('goal'),
+  requirePermission('goals:read'),
   validateParams(idParamSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
 
-      getVerifiedStudent(studentId, req.therapist!.therapist_id);
+      getVerifiedStudent(studentId, req.actor!, 'goals:read');
 
       const goals = listGoalsByStudent(studentId);
       res.json({ goals });
@@ -224,12 +234,14 @@ router.get(
  */
 router.delete(
   '/:id/goals/pdf',
+  auditAccess('goal'),
+  requirePermission('goals:write'),
   validateParams(idParamSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
 
-      getVerifiedStudent(studentId, req.therapist!.therapist_id);
+      getVerifiedStudent(studentId, req.actor!, 'goals:write');
 
       await deleteGoalsPdf(studentId);
       res.json({ success: true });
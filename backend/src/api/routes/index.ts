@@ -10,15 +10,35 @@ import evaluationRoutes from './evaluation.routes.js';
 import goalRoutes from './goal.routes.js';
 import schoolRoutes from './school.routes.js';
 import memberRoutes from './member.routes.js';
+import adminRoutes from './admin.routes.js';
+import auditRoutes from './audit.routes.js';
+import privacyRoutes from './privacy.routes.js';
+import reportRoutes from './report.routes.js';
+import parentPortalRoutes from './parent-portal.routes.js';
+import parentRoutes from './parent.routes.js';
+import childLoginRoutes from './child-login.routes.js';
+import studentSharingRoutes from './student-sharing.routes.js';
+import twoFactorRoutes from './two-factor.routes.js';
+import serviceMinutesRoutes from './service-minutes.routes.js';
 
 const router = Router();
 
 // Mount routes
-router.use('/', authRoutes);           // /api/therapist/register, /login, /me
+router.use('/', authRoutes);           // /api/therapist/register, /login, /member/login, /member/invite, /refresh, /devices, /logout, /me
 router.use('/students', studentRoutes); // /api/therapist/students/*
 router.use('/students', evaluationRoutes); // /api/therapist/students/:id/evaluation/*
 router.use('/students', goalRoutes);   // /api/therapist/students/:id/goals/*
+router.use('/students', privacyRoutes); // /api/therapist/students/:id/export, /erasure
+router.use('/students', parentPortalRoutes); // /api/therapist/students/:id/schedule, /parent-sharing
+router.use('/students', childLoginRoutes); // /api/therapist/students/:id/login-methods, /picture-password, /badges, /devices, /unlock
+router.use('/students', studentSharingRoutes); // /api/therapist/students/:id/shares, /transfer, /transfers
+router.use('/', serviceMinutesRoutes);  // /api/therapist/service-minutes, /students/:id/service-minutes, /service-logs
+router.use('/two-factor', twoFactorRoutes); // /api/therapist/two-factor/* (therapist's own account)
 router.use('/schools', schoolRoutes);  // /api/therapist/schools/*
 router.use('/members', memberRoutes);  // /api/therapist/members/*
+router.use('/admin', adminRoutes);      // /api/therapist/admin/* (admin only)
+router.use('/audit', auditRoutes);      // /api/therapist/audit/*
+router.use('/reports', reportRoutes);   // /api/therapist/reports/*
+router.use('/parent', parentRoutes);    // /api/therapist/parent/* (parent portal)
 
 export default router;
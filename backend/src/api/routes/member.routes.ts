@@ -1,29 +1,48 @@
 /**
  * Member Routes
- * Handles member CRUD operations for therapist dashboard
+ * Handles member CRUD operations and invites for therapist dashboard
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 import { ApiError } from '../middleware/errorHandler.js';
 import {
   listMembers,
-  createMember,
+  inviteMember,
+  sendMemberInvite,
+  revokeMemberInvite,
   updateMember,
   deleteMember,
 } from '../../services/member/index.js';
+import {
+  AccessDeniedError,
+  assertCanManageMember,
+  filterMembersForActor,
+} from '../../services/access/index.js';
 import { config } from '../../config/index.js';
 
 const router = Router();
 const { minPasswordLength } = config.auth;
 
+function toApiError(error: unknown): unknown {
+  if (error instanceof AccessDeniedError) {
+    return ApiError.forbidden(error.message);
+  }
+  if (error instanceof Error) {
+    return error.message === 'Member not found'
+      ? ApiError.notFound(error.message)
+      : ApiError.badRequest(error.message);
+  }
+  return error;
+}
+
 /**
  * GET /members
- * List all members with school names
+ * List the organization's members with school names (School Admins see their school only)
  */
-router.get('/', authenticate, (req: Request, res: Response, next: NextFunction) => {
+router.get('/', authenticate, requirePermission('members:read'), (req: Request, res: Response, next: NextFunction) => {
   try {
-    const members = listMembers();
+    const members = filterMembersForActor(req.actor!, listMembers(req.actor!.organization_id));
     res.json(members);
   } catch (error) {
     next(error);
@@ -32,11 +51,16 @@ router.get('/', authenticate, (req: Request, res: Response, next: NextFunction)
 
 /**
  * POST /members
- * Invite/create a new member
+ * Invite a new member: they stay pending until they choose a password from the emailed link
  */
-router.post('/', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+router.post('/', authenticate, requirePermission('members:manage'), (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { name, email, password, roles, school_id } = req.body;
+    const { name, email, roles, student_ids } = req.body;
+    // School Admins add members to their own school
+    const actor = req.actor!;
+    const school_id = req.body.school_id === undefined && actor.kind === 'member'
+      ? actor.school_id
+      : req.body.school_id;
 
     // Validate required fields
     if (!name || typeof name !== 'string' || name.trim().length === 0) {
@@ -47,22 +71,49 @@ router.post('/', authenticate, async (req: Request, res: Response, next: NextFun
       throw ApiError.badRequest('Member email is required');
     }
 
-    if (!password || typeof password !== 'string' || password.length < minPasswordLength) {
-      throw ApiError.badRequest(`Password is required (minimum ${minPasswordLength} characters)`);
-    }
-
     if (!roles || !Array.isArray(roles) || roles.length === 0) {
       throw ApiError.badRequest('At least one role is required');
     }
 
-    const member = await createMember({ name, email, password, roles, school_id });
+    if (student_ids !== undefined && !Array.isArray(student_ids)) {
+      throw ApiError.badRequest('student_ids must be an array');
+    }
+
+    assertCanManageMember(actor, null, { school_id, roles, student_ids });
+
+    const member = inviteMember(actor.organization_id, { name, email, roles, school_id, student_ids }, actor);
     res.status(201).json(member);
   } catch (error) {
-    if (error instanceof Error) {
-      next(ApiError.badRequest(error.message));
-    } else {
-      next(error);
-    }
+    next(toApiError(error));
+  }
+});
+
+/**
+ * POST /members/:id/invite
+ * Resend a pending member's invite with a new link (the old one stops working)
+ */
+router.post('/:id/invite', authenticate, requirePermission('members:manage'), (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = Number(req.params.id);
+    assertCanManageMember(req.actor!, id, {});
+    res.json(sendMemberInvite(id, req.actor!.organization_id, req.actor!));
+  } catch (error) {
+    next(toApiError(error));
+  }
+});
+
+/**
+ * DELETE /members/:id/invite
+ * Revoke a pending member's invite, removing the member
+ */
+router.delete('/:id/invite', authenticate, requirePermission('members:manage'), (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = Number(req.params.id);
+    assertCanManageMember(req.actor!, id, {});
+    revokeMemberInvite(id, req.actor!.organization_id);
+    res.json({ success: true });
+  } catch (error) {
+    next(toApiError(error));
   }
 });
 
@@ -70,28 +121,28 @@ router.post('/', authenticate, async (req: Request, res: Response, next: NextFun
  * PUT /members/:id
  * Update a member
  */
-router.put('/:id', authenticate, async (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id', authenticate, requirePermission('members:manage'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { name, email, password, roles, school_id } = req.body;
+    const { name, email, password, roles, school_id, student_ids } = req.body;
 
     // Validate password if provided
     if (password !== undefined && (typeof password !== 'string' || password.length < minPasswordLength)) {
       throw ApiError.badRequest(`Password must be at least ${minPasswordLength} characters`);
     }
 
-    const member = await updateMember(Number(id), { name, email, password, roles, school_id });
+    if (student_ids !== undefined && !Array.isArray(student_ids)) {
+      throw ApiError.badRequest('student_ids must be an array');
+    }
+
+    assertCanManageMember(req.actor!, Number(id), { roles, school_id, student_ids });
+
+    const member = await updateMember(Number(id), req.actor!.organization_id, {
+      name, email, password, roles, school_id, student_ids,
+    });
     res.json(member);
   } catch (error) {
-    if (error instanceof Error) {
-      if (error.message === 'Member not found') {
-        next(ApiError.notFound(error.message));
-      } else {
-        next(ApiError.badRequest(error.message));
-      }
-    } else {
-      next(error);
-    }
+    next(toApiError(error));
   }
 });
 
@@ -99,21 +150,14 @@ router.put('/:id', authenticate, async (req: Request, res: Response, next: NextF
  * DELETE /members/:id
  * Delete a member
  */
-router.delete('/:id', authenticate, (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', authenticate, requirePermission('members:manage'), (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    deleteMember(Number(id));
+    assertCanManageMember(req.actor!, Number(id), {});
+    deleteMember(Number(id), req.actor!.organization_id);
     res.json({ success: true });
   } catch (error) {
-    if (error instanceof Error) {
-      if (error.message === 'Member not found') {
-        next(ApiError.notFound(error.message));
-      } else {
-        next(ApiError.badRequest(error.message));
-      }
-    } else {
-      next(error);
-    }
+    next(toApiError(error));
   }
 });
 
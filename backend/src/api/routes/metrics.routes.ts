@@ -0,0 +1,60 @@
+/**
+ * Metrics Routes
+ * Prometheus scrape endpoint
+ */
+
+import crypto from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import { config } from '../../config/index.js';
+import {
+  registry,
+  voiceSessionsActive,
+  gameplaySessionsActive,
+  therapistLiveSubscribers,
+  processResidentMemory,
+  processUptime,
+} from '../../services/metrics/index.js';
+import { voiceSessionManager } from '../../services/voice/index.js';
+import { gameplaySessionManager, liveSessionBroadcaster } from '../../services/session/index.js';
+
+const router = Router();
+
+/**
+ * When METRICS_TOKEN is set, scrapers must send it as a bearer token
+ * (production refuses to start without one, see config)
+ */
+function requireMetricsToken(req: Request, res: Response, next: NextFunction): void {
+  const expected = config.metrics.token;
+  if (!expected) {
+    next();
+    return;
+  }
+
+  const header = req.headers.authorization || '';
+  const provided = header.startsWith('Bearer ') ? header.substring(7) : '';
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  if (!crypto.timingSafeEqual(a, b)) {
+    res.status(401).json({ error: 'Invalid metrics token' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * GET /api/metrics
+ * All metrics in the Prometheus text format
+ */
+router.get('/', requireMetricsToken, (_req: Request, res: Response) => {
+  // Point-in-time values are read on scrape
+  voiceSessionsActive.set(voiceSessionManager.getActiveSessionCount());
+  gameplaySessionsActive.set(gameplaySessionManager.getActiveSessionCount());
+  therapistLiveSubscribers.set(liveSessionBroadcaster.getSubscriberCount());
+  processResidentMemory.set(process.memoryUsage().rss);
+  processUptime.set(process.uptime());
+
+  res.type('text/plain; version=0.0.4; charset=utf-8').send(registry.render());
+});
+
+export default router;
@@ -0,0 +1,155 @@
+/**
+ * Parent Portal Routes
+ * Upcoming sessions and what a student's parents are allowed to see
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { getStudentForActor } from '../../services/access/index.js';
+import {
+  listScheduledSessions,
+  createScheduledSession,
+  deleteScheduledSession,
+  getParentSharing,
+  updateParentSharing,
+} from '../../services/parent-portal/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { auditAccess } from '../middleware/audit.js';
+import {
+  validate,
+  validateParams,
+  idParamSchema,
+  scheduledSessionParamSchema,
+  createScheduledSessionSchema,
+  updateParentSharingSchema,
+  type CreateScheduledSessionInput,
+  type UpdateParentSharingInput,
+} from '../middleware/validate.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { AccessActor, Permission } from '../../types/index.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+function getVerifiedStudent(studentId: number, actor: AccessActor, permission: Permission) {
+  const student = getStudentForActor(actor, studentId, permission);
+  if (!student) {
+    throw ApiError.notFound('Student not found');
+  }
+  return student;
+}
+
+function toApiError(error: unknown): unknown {
+  if (error instanceof Error && !(error instanceof ApiError)) {
+    return ApiError.badRequest(error.message);
+  }
+  return error;
+}
+
+/**
+ * GET /students/:id/schedule
+ * Every scheduled session for a student, oldest first
+ */
+router.get(
+  '/:id/schedule',
+  auditAccess('student'),
+  requirePermission('students:read'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!, 'students:read');
+      res.json(listScheduledSessions(studentId));
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * POST /students/:id/schedule
+ * Book an upcoming session
+ */
+router.post(
+  '/:id/schedule',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(idParamSchema),
+  validate(createScheduledSessionSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!, 'students:update');
+      const scheduled = createScheduledSession(studentId, req.body as CreateScheduledSessionInput);
+      res.status(201).json(scheduled);
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * DELETE /students/:id/schedule/:sessionId
+ * Cancel a scheduled session
+ */
+router.delete(
+  '/:id/schedule/:sessionId',
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(scheduledSessionParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!, 'students:update');
+      if (!deleteScheduledSession(parseInt(req.params.sessionId), studentId)) {
+        throw ApiError.notFound('Scheduled session not found');
+      }
+      res.json({ message: 'Scheduled session cancelled' });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * GET /students/:id/parent-sharing
+ * What the student's parents can see beyond the default progress view
+ */
+router.get(
+  '/:id/parent-sharing',
+  auditAccess('student'),
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!, 'privacy:manage');
+      res.json(getParentSharing(studentId));
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * PUT /students/:id/parent-sharing
+ * Share evaluation details or safety signals with parents, or set a home-practice note
+ */
+router.put(
+  '/:id/parent-sharing',
+  auditAccess('student'),
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  validate(updateParentSharingSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!, 'privacy:manage');
+      res.json(updateParentSharing(studentId, req.body as UpdateParentSharingInput));
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+export default router;
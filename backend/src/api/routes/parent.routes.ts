@@ -0,0 +1,65 @@
+/**
+ * Parent Routes
+ * Read-only progress view for Parent members (the therapist can preview it)
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { getStudentForActor, listStudentsForActor, listStudentIdsForActor } from '../../services/access/index.js';
+import { getParentProgressView } from '../../services/parent-portal/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { auditAccess } from '../middleware/audit.js';
+import { validateParams, idParamSchema } from '../middleware/validate.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { ParentChild } from '../../types/index.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * GET /parent/children
+ * The children the caller can see in the parent portal
+ */
+router.get('/children', requirePermission('portal:read'), (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const ids = new Set(listStudentIdsForActor(req.actor!, 'portal:read'));
+    const children: ParentChild[] = listStudentsForActor(req.actor!)
+      .filter((student) => ids.has(student.id))
+      .map((student) => ({
+        id: student.id,
+        first_name: student.first_name,
+        last_name: student.last_name,
+        grade_level: student.grade_level ?? null,
+      }));
+    res.json(children);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /parent/children/:id
+ * Upcoming sessions, session summaries, goal progress and home-practice ideas
+ */
+router.get(
+  '/children/:id',
+  auditAccess('student'),
+  requirePermission('portal:read'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      const view = getStudentForActor(req.actor!, studentId, 'portal:read')
+        ? getParentProgressView(studentId)
+        : null;
+      if (!view) {
+        throw ApiError.notFound('Student not found');
+      }
+      res.json(view);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,153 @@
+/**
+ * Privacy Routes
+ * Student data export and right-to-erasure workflow
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  exportStudentData,
+  getPendingErasureRequest,
+  requestErasure,
+  cancelErasure,
+  confirmErasure,
+} from '../../services/privacy/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { auditAccess } from '../middleware/audit.js';
+import {
+  validate,
+  validateParams,
+  confirmErasureSchema,
+  idParamSchema,
+} from '../middleware/validate.js';
+import { ApiError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+function toApiError(error: unknown): unknown {
+  if (error instanceof Error && !(error instanceof ApiError)) {
+    return error.message === 'Student not found'
+      ? ApiError.notFound(error.message)
+      : ApiError.badRequest(error.message);
+  }
+  return error;
+}
+
+/**
+ * GET /students/:id/export
+ * Download everything held about a student as a zip (JSON + original PDFs)
+ */
+router.get(
+  '/:id/export',
+  auditAccess('student'),
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      const { fileName, data } = await exportStudentData(studentId, req.therapist!.therapist_id);
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(data);
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * GET /students/:id/erasure
+ * Pending erasure request for a student, if any
+ */
+router.get(
+  '/:id/erasure',
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      const request = getPendingErasureRequest(studentId, req.therapist!.therapist_id);
+      res.json({ request });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * POST /students/:id/erasure
+ * Start an erasure; the confirmation code is only returned by this call
+ */
+router.post(
+  '/:id/erasure',
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      const result = requestErasure(
+        studentId,
+        req.therapist!.therapist_id,
+        req.therapist!.organization_id
+      );
+      res.status(201).json(result);
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * POST /students/:id/erasure/confirm
+ * Confirm with the code and purge the student's data.
+ * Not wrapped in auditAccess: the service writes the 'erase' tombstone itself.
+ */
+router.post(
+  '/:id/erasure/confirm',
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  validate(confirmErasureSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      const request = await confirmErasure(
+        studentId,
+        req.therapist!,
+        req.body.confirmation_code,
+        {
+          method: req.method,
+          path: req.originalUrl.split('?')[0],
+          ip: req.ip ?? req.socket.remoteAddress ?? null,
+        }
+      );
+      res.json({ success: true, request });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * DELETE /students/:id/erasure
+ * Cancel a pending erasure request
+ */
+router.delete(
+  '/:id/erasure',
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      if (!cancelErasure(studentId, req.therapist!.therapist_id)) {
+        throw ApiError.notFound('No pending erasure request');
+      }
+      res.json({ success: true });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,56 @@
+/**
+ * Report Routes
+ * School-wide reports for the therapist and School Admins
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { validateQuery, schoolReportQuerySchema, type SchoolReportQueryInput } from '../middleware/validate.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import { getSchoolReport } from '../../services/report/index.js';
+
+const router = Router();
+
+router.use(authenticate, requirePermission('reports:read'));
+
+/**
+ * GET /reports/school
+ * Session totals for every student at a school
+ * Query: school_id (required for the therapist; School Admins get their own school), from, to,
+ * status (active, archived or all students; all by default)
+ */
+router.get(
+  '/school',
+  validateQuery(schoolReportQuerySchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { school_id, from, to, status } = req.query as unknown as SchoolReportQueryInput;
+      const actor = req.actor!;
+
+      let schoolId = school_id;
+      if (actor.kind === 'member') {
+        if (actor.school_id === null || (schoolId !== undefined && schoolId !== actor.school_id)) {
+          throw ApiError.forbidden('Reports are limited to your school');
+        }
+        schoolId = actor.school_id;
+      }
+      if (schoolId === undefined) {
+        throw ApiError.badRequest('school_id is required');
+      }
+
+      const report = getSchoolReport(actor.organization_id, schoolId, { from, to, status });
+      if (!report) {
+        throw ApiError.notFound('School not found');
+      }
+      res.json(report);
+    } catch (error) {
+      if (error instanceof Error && !(error instanceof ApiError)) {
+        next(ApiError.badRequest(error.message));
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
+export default router;
@@ -4,7 +4,7 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
 import { ApiError } from '../middleware/errorHandler.js';
 import {
   listSchools,
@@ -17,11 +17,11 @@ const router = Router();
 
 /**
  * GET /schools
- * List all schools with member counts
+ * List the organization's schools with member counts
  */
-router.get('/', authenticate, (req: Request, res: Response, next: NextFunction) => {
+router.get('/', authenticate, requirePermission('schools:read'), (req: Request, res: Response, next: NextFunction) => {
   try {
-    const schools = listSchools();
+    const schools = listSchools(req.actor!.organization_id);
     res.json(schools);
   } catch (error) {
     next(error);
@@ -32,7 +32,7 @@ router.get('/', authenticate, (req: Request, res: Response, next: NextFunction)
  * POST /schools
  * Create a new school
  */
-router.post('/', authenticate, (req: Request, res: Response, next: NextFunction) => {
+router.post('/', authenticate, requirePermission('schools:manage'), (req: Request, res: Response, next: NextFunction) => {
   try {
     const { name, contact_name, contact_email, contact_phone, admin_id, member_ids } = req.body;
 
@@ -40,7 +40,9 @@ router.post('/', authenticate, (req: Request, res: Response, next: NextFunction)
       throw ApiError.badRequest('School name is required');
     }
 
-    const school = createSchool({ name, contact_name, contact_email, contact_phone, admin_id, member_ids });
+    const school = createSchool(req.therapist!.organization_id, {
+      name, contact_name, contact_email, contact_phone, admin_id, member_ids,
+    });
     res.status(201).json(school);
   } catch (error) {
     if (error instanceof Error) {
@@ -55,12 +57,14 @@ router.post('/', authenticate, (req: Request, res: Response, next: NextFunction)
  * PUT /schools/:id
  * Update a school
  */
-router.put('/:id', authenticate, (req: Request, res: Response, next: NextFunction) => {
+router.put('/:id', authenticate, requirePermission('schools:manage'), (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
     const { name, contact_name, contact_email, contact_phone } = req.body;
 
-    const school = updateSchool(Number(id), { name, contact_name, contact_email, contact_phone });
+    const school = updateSchool(Number(id), req.therapist!.organization_id, {
+      name, contact_name, contact_email, contact_phone,
+    });
     res.json(school);
   } catch (error) {
     if (error instanceof Error) {
@@ -79,10 +83,10 @@ router.put('/:id', authenticate, (req: Request, res: Response, next: NextFunctio
  * DELETE /schools/:id
  * Delete a school
  */
-router.delete('/:id', authenticate, (req: Request, res: Response, next: NextFunction) => {
+router.delete('/:id', authenticate, requirePermission('schools:manage'), (req: Request, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    deleteSchool(Number(id));
+    deleteSchool(Number(id), req.therapist!.organization_id);
     res.json({ success: true });
   } catch (error) {
     if (error instanceof Error) {
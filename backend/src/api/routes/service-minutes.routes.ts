@@ -0,0 +1,162 @@
+/**
+ * Service Minutes Routes
+ * IEP service-minutes compliance across the caseload, a per-student minutes
+ * ledger and service logged outside the boardgame
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { getStudentForActor, listStudentIdsForActor } from '../../services/access/index.js';
+import {
+  getServiceCompliance,
+  getServiceLedger,
+  listServiceLogs,
+  createServiceLog,
+  deleteServiceLog,
+} from '../../services/service-minutes/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { auditAccess } from '../middleware/audit.js';
+import {
+  validate,
+  validateParams,
+  validateQuery,
+  idParamSchema,
+  serviceLedgerQuerySchema,
+  createServiceLogSchema,
+  serviceLogParamSchema,
+  type ServiceLedgerQueryInput,
+  type CreateServiceLogInput,
+} from '../middleware/validate.js';
+import { ApiError } from '../middleware/errorHandler.js';
+import type { AccessActor, Permission } from '../../types/index.js';
+
+// Mounted at the API root: the overview is not about one student
+const router = Router();
+
+function getVerifiedStudent(studentId: number, actor: AccessActor, permission: Permission) {
+  const student = getStudentForActor(actor, studentId, permission);
+  if (!student) {
+    throw ApiError.notFound('Student not found');
+  }
+  return student;
+}
+
+/**
+ * Write routes: a service error is a problem with the submitted entry
+ */
+function toApiError(error: unknown): unknown {
+  if (error instanceof Error && !(error instanceof ApiError)) {
+    return ApiError.badRequest(error.message);
+  }
+  return error;
+}
+
+/**
+ * GET /service-minutes
+ * Where each active student the caller can see stands against their IEP
+ * service minutes, this period and last (under-served students first)
+ */
+router.get(
+  '/service-minutes',
+  authenticate,
+  requirePermission('sessions:read'),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(getServiceCompliance(listStudentIdsForActor(req.actor!, 'sessions:read')));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /students/:id/service-minutes
+ * Minutes ledger per week or month for an IEP meeting
+ * Query: from, to (YYYY-MM-DD; the last 90 days by default)
+ */
+router.get(
+  '/students/:id/service-minutes',
+  authenticate,
+  auditAccess('student'),
+  requirePermission('sessions:read'),
+  validateParams(idParamSchema),
+  validateQuery(serviceLedgerQuerySchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!, 'sessions:read');
+      res.json(getServiceLedger(studentId, req.query as unknown as ServiceLedgerQueryInput));
+    } catch (error) {
+      next(error instanceof RangeError ? ApiError.badRequest(error.message) : error);
+    }
+  }
+);
+
+/**
+ * GET /students/:id/service-logs
+ * Service logged by hand, newest first
+ */
+router.get(
+  '/students/:id/service-logs',
+  authenticate,
+  auditAccess('student'),
+  requirePermission('sessions:read'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!, 'sessions:read');
+      res.json(listServiceLogs(studentId));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /students/:id/service-logs
+ * Log service delivered outside the boardgame (in person, teletherapy)
+ */
+router.post(
+  '/students/:id/service-logs',
+  authenticate,
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(idParamSchema),
+  validate(createServiceLogSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!, 'students:update');
+      const log = createServiceLog(studentId, req.actor!, req.body as CreateServiceLogInput);
+      res.status(201).json(log);
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * DELETE /students/:id/service-logs/:logId
+ * Remove a service log entered by mistake
+ */
+router.delete(
+  '/students/:id/service-logs/:logId',
+  authenticate,
+  auditAccess('student'),
+  requirePermission('students:update'),
+  validateParams(serviceLogParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      getVerifiedStudent(studentId, req.actor!, 'students:update');
+      if (!deleteServiceLog(parseInt(req.params.logId), studentId)) {
+        throw ApiError.notFound('Service log not found');
+      }
+      res.json({ message: 'Service log deleted' });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+export default router;
@@ -5,15 +5,16 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { authenticateChild } from '../middleware/childAuth.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { auditAccess, setAuditContext } from '../middleware/audit.js';
 import { getStudentById } from '../../services/student/index.js';
+import { getStudentForActor, listStudentIdsForActor } from '../../services/access/index.js';
 import {
   gameplaySessionManager,
   getSessionById,
   getSessionHistoryByChild,
-  getSessionHistoryForTherapist,
+  getSessionHistoryForChildren,
   getSessionWithResponses,
-  getActiveSessionsForTherapist,
 } from '../../services/session/index.js';
 import { ApiError } from '../middleware/errorHandler.js';
 import { validateBody, CreateSessionSchema, EndSessionSchema } from '../validation/index.js';
@@ -30,6 +31,7 @@ const router = Router();
  */
 router.post(
   '/start',
+  auditAccess('session'),
   authenticateChild,
   validateBody(CreateSessionSchema),
   async (req: Request, res: Response, next: NextFunction) => {
@@ -37,6 +39,11 @@ router.post(
       const childId = req.child!.child_id;
       const { categories, theme, character, voiceSessionId } = req.body;
 
+      // Only the child's own (authenticated) voice session can be linked
+      if (voiceSessionId && gameplaySessionManager.getVoiceSessionOwner(voiceSessionId) !== childId) {
+        throw ApiError.forbidden('Voice session does not belong to this child');
+      }
+
       // Start gameplay session
       const session = await gameplaySessionManager.startGameplaySession(
       voiceSessionId || `http_${Date.now()}`,
@@ -45,6 +52,7 @@ router.post(
       theme,
       character
     );
+      setAuditContext(res, { resource_id: session.id, student_id: childId });
 
       res.json({
         success: true,
@@ -70,6 +78,7 @@ router.post(
  */
 router.post(
   '/:id/end',
+  auditAccess('session', { action: 'update' }),
   authenticateChild,
   validateBody(EndSessionSchema),
   async (req: Request, res: Response, next: NextFunction) => {
@@ -83,9 +92,14 @@ router.post(
       if (!session) {
         throw ApiError.notFound('Session not found');
       }
+      setAuditContext(res, { student_id: session.child_id });
       if (session.child_id !== childId) {
         throw ApiError.forbidden('Not authorized to end this session');
       }
+      const voiceOwner = voiceSessionId ? gameplaySessionManager.getVoiceSessionOwner(voiceSessionId) : null;
+      if (voiceOwner !== null && voiceOwner !== childId) {
+        throw ApiError.forbidden('Voice session does not belong to this child');
+      }
 
       // End the session
       gameplaySessionManager.endGameplaySession(
@@ -126,17 +140,23 @@ router.get('/active', authenticateChild, (req: Request, res: Response, next: Nex
 });
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Therapist Endpoints (require therapist authentication)
+// Therapist Endpoints (therapist or member authentication, sessions:read)
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
  * GET /api/session/therapist/active
- * Get all active sessions for therapist's children
+ * Get all active sessions for the caller's children
  */
-router.get('/therapist/active', authenticate, (req: Request, res: Response, next: NextFunction) => {
+router.get('/therapist/active', authenticate, requirePermission('sessions:read'), (req: Request, res: Response, next: NextFunction) => {
   try {
-    const therapistId = req.therapist!.therapist_id;
-    const sessions = gameplaySessionManager.getActiveSessionsForTherapist(therapistId);
+    const actor = req.actor!;
+    let sessions;
+    if (actor.kind === 'therapist') {
+      sessions = gameplaySessionManager.getActiveSessionsForTherapist(actor.id);
+    } else {
+      // Members see their students' live sessions, whichever therapist owns them
+      sessions = gameplaySessionManager.getActiveSessionsForChildren(listStudentIdsForActor(actor, 'sessions:read'));
+    }
 
     res.json({
       sessions,
@@ -150,22 +170,24 @@ router.get('/therapist/active', authenticate, (req: Request, res: Response, next
  * GET /api/session/therapist/history
  * Get session history for therapist (optionally filtered by child)
  */
-router.get('/therapist/history', authenticate, (req: Request, res: Response, next: NextFunction) => {
+router.get('/therapist/history', authenticate, auditAccess('session'), requirePermission('sessions:read'), (req: Request, res: Response, next: NextFunction) => {
   try {
-    const therapistId = req.therapist!.therapist_id;
+    const actor = req.actor!;
     const childId = req.query.childId ? parseInt(req.query.childId as string) : undefined;
     const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
 
+    setAuditContext(res, { student_id: childId ?? null });
+
     let sessions;
     if (childId) {
-      // Verify child belongs to therapist
-      const child = getStudentById(childId);
-      if (!child || child.therapist_id !== therapistId) {
+      // Verify the caller can see this child's sessions
+      if (!getStudentForActor(actor, childId, 'sessions:read')) {
         throw ApiError.notFound('Child not found');
       }
       sessions = getSessionHistoryByChild(childId, limit);
     } else {
-      sessions = getSessionHistoryForTherapist(therapistId, limit);
+      // Own and shared students for therapists, linked students for members
+      sessions = getSessionHistoryForChildren(listStudentIdsForActor(actor, 'sessions:read'), limit);
     }
 
     // Add child names to sessions
@@ -189,9 +211,8 @@ router.get('/therapist/history', authenticate, (req: Request, res: Response, nex
  * GET /api/session/therapist/:id
  * Get detailed session with all responses
  */
-router.get('/therapist/:id', authenticate, (req: Request, res: Response, next: NextFunction) => {
+router.get('/therapist/:id', authenticate, auditAccess('session'), requirePermission('sessions:read'), (req: Request, res: Response, next: NextFunction) => {
   try {
-    const therapistId = req.therapist!.therapist_id;
     const sessionId = parseInt(req.params.id);
 
     const data = getSessionWithResponses(sessionId);
@@ -199,8 +220,10 @@ router.get('/therapist/:id', authenticate, (req: Request, res: Response, next: N
       throw ApiError.notFound('Session not found');
     }
 
-    // Verify session belongs to therapist's child
-    if (data.session.therapist_id !== therapistId) {
+    setAuditContext(res, { student_id: data.session.child_id });
+
+    // Verify the caller can see this child's sessions
+    if (!getStudentForActor(req.actor!, data.session.child_id, 'sessions:read')) {
       throw ApiError.forbidden('Not authorized to view this session');
     }
 
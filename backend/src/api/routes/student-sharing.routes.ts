@@ -0,0 +1,148 @@
+/**
+ * Student Sharing Routes
+ * Co-treatment shares with other therapists and transfers of ownership
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { getStudentForActor } from '../../services/access/index.js';
+import {
+  listStudentShares,
+  shareStudent,
+  revokeStudentShare,
+  transferStudent,
+  listStudentTransfers,
+} from '../../services/student/index.js';
+import { authenticate, requirePermission } from '../middleware/auth.js';
+import { auditAccess } from '../middleware/audit.js';
+import {
+  validate,
+  validateParams,
+  idParamSchema,
+  shareStudentSchema,
+  transferStudentSchema,
+  studentShareParamSchema,
+  type ShareStudentInput,
+  type TransferStudentInput,
+} from '../middleware/validate.js';
+import { ApiError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+router.use(authenticate);
+
+function toApiError(error: unknown): unknown {
+  if (error instanceof Error && !(error instanceof ApiError)) {
+    return error.message === 'Student not found' || error.message === 'Share not found'
+      ? ApiError.notFound(error.message)
+      : ApiError.badRequest(error.message);
+  }
+  return error;
+}
+
+/**
+ * GET /students/:id/shares
+ * Therapists the student is shared with (owner only)
+ */
+router.get(
+  '/:id/shares',
+  auditAccess('student'),
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      const shares = listStudentShares(studentId, req.therapist!.therapist_id);
+      res.json({ shares });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * POST /students/:id/shares
+ * Share the student with another therapist by email, or change their access
+ */
+router.post(
+  '/:id/shares',
+  auditAccess('student'),
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  validate(shareStudentSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      const { email, access } = req.body as ShareStudentInput;
+      const share = shareStudent(studentId, req.therapist!.therapist_id, email, access);
+      res.status(201).json({ share });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * DELETE /students/:id/shares/:shareId
+ * Stop sharing the student with a therapist
+ */
+router.delete(
+  '/:id/shares/:shareId',
+  auditAccess('student'),
+  requirePermission('privacy:manage'),
+  validateParams(studentShareParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      revokeStudentShare(studentId, req.therapist!.therapist_id, parseInt(req.params.shareId));
+      res.json({ success: true });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * POST /students/:id/transfer
+ * Hand the student over to another therapist, optionally keeping access
+ */
+router.post(
+  '/:id/transfer',
+  auditAccess('student'),
+  requirePermission('privacy:manage'),
+  validateParams(idParamSchema),
+  validate(transferStudentSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      const { email, keep_access } = req.body as TransferStudentInput;
+      transferStudent(studentId, req.therapist!.therapist_id, email, keep_access);
+      res.json({ success: true });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+/**
+ * GET /students/:id/transfers
+ * Ownership history of the student
+ */
+router.get(
+  '/:id/transfers',
+  auditAccess('student'),
+  requirePermission('students:read'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      if (!getStudentForActor(req.actor!, studentId, 'students:read')) {
+        throw ApiError.notFound('Student not found');
+      }
+      res.json({ transfers: listStudentTransfers(studentId) });
+    } catch (error) {
+      next(toApiError(error));
+    }
+  }
+);
+
+export default router;
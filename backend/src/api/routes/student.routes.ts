@@ -4,23 +4,44 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
 import {
   createStudent,
-  listStudentsByTherapist,
-  getStudentForTherapist,
   updateStudent,
-  deleteStudent,
+  archiveStudent,
+  restoreStudent,
+  resetStudentPassword,
+  previewStudentImport,
+  importStudents,
 } from '../../services/student/index.js';
-import { authenticate } from '../middleware/auth.js';
+import { searchStudentsForActor, getStudentForActor } from '../../services/access/index.js';
+import { deleteArchivedStudent } from '../../services/privacy/index.js';
+import { authenticate, requireAdmin, requirePermission } from '../middleware/auth.js';
+import { auditAccess, setAuditContext } from '../middleware/audit.js';
 import {
   validate,
   validateParams,
+  validateQuery,
   createStudentSchema,
   updateStudentSchema,
+  studentListQuerySchema,
+  archiveStudentSchema,
+  studentPasswordResetSchema,
+  studentImportSchema,
+  confirmErasureSchema,
   idParamSchema,
+  type StudentImportInput,
+  type StudentListQueryInput,
+  type ArchiveStudentInput,
 } from '../middleware/validate.js';
 import { ApiError } from '../middleware/errorHandler.js';
 
+// Caseload spreadsheets are read in memory (CSV or XLSX, told apart by content)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 20 * 1024 * 1024 }, // 20MB
+});
+
 const router = Router();
 
 // All routes require authentication
@@ -28,16 +49,24 @@ router.use(authenticate);
 
 /**
  * GET /students
- * List all students for the logged-in therapist
+ * List the students the caller can see (the therapist's caseload, or a member's scope)
+ * One page of active students unless ?status=archived or all, filtered, sorted and paged by the
+ * query (see studentListQuerySchema); next_cursor fetches the following page.
  */
-router.get('/', (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const students = listStudentsByTherapist(req.therapist!.therapist_id);
-    res.json(students);
-  } catch (error) {
-    next(error);
+router.get(
+  '/',
+  auditAccess('student'),
+  requirePermission('students:read'),
+  validateQuery(studentListQuerySchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const page = searchStudentsForActor(req.actor!, req.query as unknown as StudentListQueryInput);
+      res.json(page);
+    } catch (error) {
+      next(error instanceof Error && error.message === 'Invalid cursor' ? ApiError.badRequest(error.message) : error);
+    }
   }
-});
+);
 
 /**
  * POST /students
@@ -45,10 +74,13 @@ router.get('/', (req: Request, res: Response, next: NextFunction) => {
  */
 router.post(
   '/',
+  auditAccess('student'),
+  requirePermission('students:create'),
   validate(createStudentSchema),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const student = await createStudent(req.therapist!.therapist_id, req.body);
+      setAuditContext(res, { resource_id: student.id, student_id: student.id });
       res.status(201).json(student);
     } catch (error) {
       if (error instanceof Error) {
@@ -60,17 +92,70 @@ router.post(
   }
 );
 
+/**
+ * POST /students/import/preview
+ * Dry run of a caseload spreadsheet: the column mapping (guessed from the
+ * headers unless given) and every row as it would be imported, with its errors
+ */
+router.post(
+  '/import/preview',
+  requirePermission('students:create'),
+  upload.single('file'),
+  validate(studentImportSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        throw ApiError.badRequest('No file uploaded');
+      }
+      const { mapping } = req.body as StudentImportInput;
+      res.json(previewStudentImport(req.therapist!.organization_id, req.file.buffer, mapping));
+    } catch (error) {
+      next(error instanceof Error && !(error instanceof ApiError) ? ApiError.badRequest(error.message) : error);
+    }
+  }
+);
+
+/**
+ * POST /students/import
+ * Create every student of a caseload spreadsheet in one go
+ * Rows with errors stop the import unless skip_invalid is set. The response
+ * carries the usernames and passwords for the credential sheet; they are not
+ * shown again.
+ */
+router.post(
+  '/import',
+  auditAccess('student'),
+  requirePermission('students:create'),
+  upload.single('file'),
+  validate(studentImportSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.file) {
+        throw ApiError.badRequest('No file uploaded');
+      }
+      const { mapping, skip_invalid } = req.body as StudentImportInput;
+      const { therapist_id, organization_id } = req.therapist!;
+      const result = await importStudents(therapist_id, organization_id, req.file.buffer, mapping, skip_invalid ?? false);
+      res.status(201).json(result);
+    } catch (error) {
+      next(error instanceof Error && !(error instanceof ApiError) ? ApiError.badRequest(error.message) : error);
+    }
+  }
+);
+
 /**
  * GET /students/:id
  * Get a student by ID
  */
 router.get(
   '/:id',
+  auditAccess('student'),
+  requirePermission('students:read'),
   validateParams(idParamSchema),
   (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
-      const student = getStudentForTherapist(studentId, req.therapist!.therapist_id);
+      const student = getStudentForActor(req.actor!, studentId, 'students:read');
 
       if (!student) {
         throw ApiError.notFound('Student not found');
@@ -89,22 +174,29 @@ router.get(
  */
 router.patch(
   '/:id',
+  auditAccess('student'),
+  requirePermission('students:update'),
   validateParams(idParamSchema),
   validate(updateStudentSchema),
   (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
-      const updatedStudent = updateStudent(
-        studentId,
-        req.therapist!.therapist_id,
-        req.body
-      );
+      const student = getStudentForActor(req.actor!, studentId, 'students:update');
+      if (!student) {
+        throw ApiError.notFound('Student not found');
+      }
+
+      // eval_data is part of the evaluation, not the student record
+      if (req.body.eval_data !== undefined && !getStudentForActor(req.actor!, studentId, 'evaluations:write')) {
+        throw ApiError.forbidden('Insufficient permissions');
+      }
 
+      const updatedStudent = updateStudent(studentId, student.therapist_id, req.body);
       if (!updatedStudent) {
         throw ApiError.notFound('Student not found');
       }
 
-      res.json(updatedStudent);
+      res.json(getStudentForActor(req.actor!, studentId, 'students:read'));
     } catch (error) {
       next(error);
     }
@@ -112,21 +204,23 @@ router.patch(
 );
 
 /**
- * DELETE /students/:id
- * Delete a student
+ * PUT /students/:id/password
+ * Set a new password for a child who lost theirs (signs the child out everywhere)
  */
-router.delete(
-  '/:id',
+router.put(
+  '/:id/password',
+  auditAccess('student'),
+  requirePermission('students:update'),
   validateParams(idParamSchema),
-  (req: Request, res: Response, next: NextFunction) => {
+  validate(studentPasswordResetSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
     try {
       const studentId = parseInt(req.params.id);
-      const success = deleteStudent(studentId, req.therapist!.therapist_id);
-
-      if (!success) {
+      if (!getStudentForActor(req.actor!, studentId, 'students:update')) {
         throw ApiError.notFound('Student not found');
       }
 
+      await resetStudentPassword(studentId, req.body.password);
       res.json({ success: true });
     } catch (error) {
       next(error);
@@ -134,4 +228,90 @@ router.delete(
   }
 );
 
+/**
+ * POST /students/:id/archive
+ * Discharge a student: off the active caseload and signed out, records kept
+ */
+router.post(
+  '/:id/archive',
+  auditAccess('student'),
+  requirePermission('students:archive'),
+  validateParams(idParamSchema),
+  validate(archiveStudentSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      if (!getStudentForActor(req.actor!, studentId, 'students:archive')) {
+        throw ApiError.notFound('Student not found');
+      }
+
+      archiveStudent(studentId, req.body as ArchiveStudentInput);
+      res.json(getStudentForActor(req.actor!, studentId, 'students:read'));
+    } catch (error) {
+      next(error instanceof Error && !(error instanceof ApiError) ? ApiError.badRequest(error.message) : error);
+    }
+  }
+);
+
+/**
+ * POST /students/:id/restore
+ * Bring an archived student back to the active caseload
+ */
+router.post(
+  '/:id/restore',
+  auditAccess('student'),
+  requirePermission('students:archive'),
+  validateParams(idParamSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      if (!getStudentForActor(req.actor!, studentId, 'students:archive')) {
+        throw ApiError.notFound('Student not found');
+      }
+
+      restoreStudent(studentId);
+      res.json(getStudentForActor(req.actor!, studentId, 'students:read'));
+    } catch (error) {
+      next(error instanceof Error && !(error instanceof ApiError) ? ApiError.badRequest(error.message) : error);
+    }
+  }
+);
+
+/**
+ * DELETE /students/:id
+ * Permanently delete an archived student and everything recorded about them
+ * (archive to discharge; this is for records that should never have existed).
+ * Admin only, and confirmed with the code from POST /students/:id/erasure.
+ * Not wrapped in auditAccess: the erasure writes the 'erase' tombstone itself.
+ */
+router.delete(
+  '/:id',
+  requireAdmin,
+  requirePermission('students:delete'),
+  validateParams(idParamSchema),
+  validate(confirmErasureSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const studentId = parseInt(req.params.id);
+      const request = await deleteArchivedStudent(
+        studentId,
+        req.therapist!,
+        req.body.confirmation_code,
+        {
+          method: req.method,
+          path: req.originalUrl.split('?')[0],
+          ip: req.ip ?? req.socket.remoteAddress ?? null,
+        }
+      );
+      res.json({ success: true, request });
+    } catch (error) {
+      if (error instanceof Error && !(error instanceof ApiError)) {
+        next(error.message === 'Student not found' ? ApiError.notFound(error.message) : ApiError.badRequest(error.message));
+      } else {
+        next(error);
+      }
+    }
+  }
+);
+
 export default router;
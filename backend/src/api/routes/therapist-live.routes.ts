@@ -10,7 +10,7 @@ import { URL } from 'url';
 import { verifyToken } from '../../services/auth/index.js';
 import { liveSessionBroadcaster, gameplaySessionManager } from '../../services/session/index.js';
 import type { TherapistLiveClientMessage } from '../../types/index.js';
-import { logger } from '../../utils/logger.js';
+import { logger, runWithLogContext, newCorrelationId } from '../../utils/logger.js';
 
 /**
  * Setup therapist live WebSocket server with noServer mode
@@ -67,7 +67,7 @@ export function setupTherapistLiveWebSocket(server: Server): void {
     liveSessionBroadcaster.sendActiveSessions(ws, activeSessions);
 
     // Handle messages from client
-    ws.on('message', (data: Buffer) => {
+    const handleMessage = (data: Buffer): void => {
       try {
         const message = JSON.parse(data.toString()) as TherapistLiveClientMessage;
 
@@ -89,6 +89,13 @@ export function setupTherapistLiveWebSocket(server: Server): void {
         logger.error('Error processing therapist live message:', error);
         liveSessionBroadcaster.sendError(ws, 'Invalid message format');
       }
+    };
+
+    ws.on('message', (data: Buffer) => {
+      runWithLogContext(
+        { correlation_id: newCorrelationId(), therapist_id: therapistId },
+        () => handleMessage(data)
+      );
     });
 
     // Handle disconnect
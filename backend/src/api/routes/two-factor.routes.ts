@@ -0,0 +1,143 @@
+/**
+ * Two-Factor Routes
+ * A therapist's own authenticator setup and recovery codes, and the
+ * organization-wide requirement
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  getTwoFactorStatus,
+  isTwoFactorEnabled,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from '../../services/auth/index.js';
+import { setTwoFactorRequired } from '../../services/organization/index.js';
+import { authenticate, requireTherapist } from '../middleware/auth.js';
+import {
+  validate,
+  twoFactorCodeBodySchema,
+  twoFactorRequirementSchema,
+  type TwoFactorCodeInput,
+  type TwoFactorRequirementInput,
+} from '../middleware/validate.js';
+import { ApiError } from '../middleware/errorHandler.js';
+
+const router = Router();
+
+router.use(authenticate, requireTherapist);
+
+function toTwoFactorError(error: unknown): unknown {
+  if (!(error instanceof Error) || error instanceof ApiError) {
+    return error;
+  }
+  if (error.message === 'Your organization requires two-factor authentication') {
+    return ApiError.forbidden(error.message);
+  }
+  return ApiError.badRequest(error.message);
+}
+
+/**
+ * GET /two-factor
+ * Whether two-factor is on, recovery codes left, and whether the organization requires it
+ */
+router.get('/', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(getTwoFactorStatus(req.therapist!.therapist_id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /two-factor/setup
+ * New authenticator secret and QR code; nothing changes until /enable confirms a code
+ */
+router.post('/setup', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(beginTwoFactorSetup(req.therapist!.therapist_id));
+  } catch (error) {
+    next(toTwoFactorError(error));
+  }
+});
+
+/**
+ * POST /two-factor/enable
+ * Confirm setup with a code; the recovery codes are only returned here
+ */
+router.post(
+  '/enable',
+  validate(twoFactorCodeBodySchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { code } = req.body as TwoFactorCodeInput;
+      res.json(enableTwoFactor(req.therapist!.therapist_id, code));
+    } catch (error) {
+      next(toTwoFactorError(error));
+    }
+  }
+);
+
+/**
+ * POST /two-factor/disable
+ * Turn two-factor off with a current code (not while the organization requires it)
+ */
+router.post(
+  '/disable',
+  validate(twoFactorCodeBodySchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { code } = req.body as TwoFactorCodeInput;
+      disableTwoFactor(req.therapist!.therapist_id, code);
+      res.json({ success: true });
+    } catch (error) {
+      next(toTwoFactorError(error));
+    }
+  }
+);
+
+/**
+ * POST /two-factor/recovery-codes
+ * Replace the recovery codes with a current code; the old ones stop working
+ */
+router.post(
+  '/recovery-codes',
+  validate(twoFactorCodeBodySchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { code } = req.body as TwoFactorCodeInput;
+      res.json(regenerateRecoveryCodes(req.therapist!.therapist_id, code));
+    } catch (error) {
+      next(toTwoFactorError(error));
+    }
+  }
+);
+
+/**
+ * PUT /two-factor/organization
+ * Require two-factor for every therapist in the organization (or make it optional again)
+ * Therapists without it are asked to set it up at their next login.
+ */
+router.put(
+  '/organization',
+  validate(twoFactorRequirementSchema),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { therapist_id, organization_id } = req.therapist!;
+      const { required } = req.body as TwoFactorRequirementInput;
+
+      // Otherwise the therapist would lock themselves into setup at the next login
+      if (required && !isTwoFactorEnabled(therapist_id)) {
+        throw ApiError.badRequest('Turn on two-factor for your own account first');
+      }
+
+      setTwoFactorRequired(organization_id, required);
+      res.json(getTwoFactorStatus(therapist_id));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
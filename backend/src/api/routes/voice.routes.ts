@@ -1,20 +1,88 @@
 /**
  * Voice WebSocket Routes
  * Handles WebSocket connections for voice mode
+ *
+ * A socket must authenticate with a child access token, either as ?token= or
+ * as a first message { type: 'auth', token }, before a voice session (and its
+ * paid Realtime API connection) is created for it.
  */
 
 import { Server as HttpServer, IncomingMessage } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
 import { Duplex } from 'stream';
 import { voiceSessionManager, ClientMessage } from '../../services/voice/index.js';
+import { verifyChildToken } from '../../services/student/index.js';
+import { VoiceAuthMessageSchema, VoiceCloseCode } from '../../types/index.js';
 import { logger } from '../../utils/logger.js';
 
+// How long a new socket may take to send its auth message
+const AUTH_TIMEOUT_MS = 10 * 1000;
+
 // Store session ID by WebSocket connection
 const wsSessionMap = new Map<WebSocket, string>();
 
 // The WebSocketServer instance (created with noServer)
 let wss: WebSocketServer;
 
+/**
+ * Verify a child token, closing the socket if it is invalid, expired or revoked
+ */
+function verifySocketToken(ws: WebSocket, token: string): number | null {
+  const decoded = verifyChildToken(token);
+  if (!decoded) {
+    logger.warn('Voice WebSocket: Invalid token');
+    ws.close(VoiceCloseCode.INVALID_TOKEN, 'Invalid token');
+    return null;
+  }
+  return decoded.child_id;
+}
+
+/**
+ * Resolve the child on a new socket from ?token= or the first message.
+ * Resolves null (with the socket closed) when authentication fails.
+ */
+function authenticateSocket(ws: WebSocket, req: IncomingMessage): Promise<number | null> {
+  const url = new URL(req.url || '', `http://${req.headers.host}`);
+  const queryToken = url.searchParams.get('token');
+  if (queryToken) {
+    return Promise.resolve(verifySocketToken(ws, queryToken));
+  }
+
+  return new Promise((resolve) => {
+    const onMessage = (data: Buffer): void => {
+      clearTimeout(timer);
+      let token: string | null = null;
+      try {
+        const parsed = VoiceAuthMessageSchema.safeParse(JSON.parse(data.toString()));
+        token = parsed.success ? parsed.data.token : null;
+      } catch {
+        token = null;
+      }
+
+      if (!token) {
+        logger.warn('Voice WebSocket: No token provided');
+        ws.close(VoiceCloseCode.AUTH_REQUIRED, 'Authentication required');
+        resolve(null);
+        return;
+      }
+      resolve(verifySocketToken(ws, token));
+    };
+
+    const timer = setTimeout(() => {
+      ws.off('message', onMessage);
+      logger.warn('Voice WebSocket: Authentication timed out');
+      ws.close(VoiceCloseCode.AUTH_TIMEOUT, 'Authentication timeout');
+      resolve(null);
+    }, AUTH_TIMEOUT_MS);
+
+    ws.once('message', onMessage);
+    ws.once('close', () => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+  });
+}
+
 /**
  * Setup Voice WebSocket server with noServer mode
  * Returns the upgrade handler to be called from the main server
@@ -41,11 +109,16 @@ export function setupVoiceWebSocket(server: HttpServer): void {
 
   logger.info('Voice WebSocket server initialized on /api/voice');
 
-  wss.on('connection', async (ws: WebSocket) => {
+  wss.on('connection', async (ws: WebSocket, req: IncomingMessage) => {
     logger.info('New voice WebSocket connection');
 
-    // Create session when client connects
-    const sessionId = await voiceSessionManager.createSession(ws);
+    const childId = await authenticateSocket(ws, req);
+    if (childId === null) {
+      return;
+    }
+
+    // Create session once the child is known
+    const sessionId = await voiceSessionManager.createSession(ws, childId);
 
     if (!sessionId) {
       ws.send(JSON.stringify({
@@ -56,6 +129,12 @@ export function setupVoiceWebSocket(server: HttpServer): void {
       return;
     }
 
+    // The client may have gone while the Realtime API connection was opening
+    if (ws.readyState !== WebSocket.OPEN) {
+      voiceSessionManager.endSession(sessionId);
+      return;
+    }
+
     // Store the mapping
     wsSessionMap.set(ws, sessionId);
 
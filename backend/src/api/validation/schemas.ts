@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { PICTURE_ICON_IDS, PICTURE_PASSWORD_LENGTH, type PictureIconId } from '@shared/picture-passwords';
 
 // Child Auth Schemas
 export const LoginSchema = z.object({
@@ -11,6 +12,21 @@ export const LoginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+export const PictureLoginSchema = z.object({
+  username: z.string().min(1, 'Username is required'),
+  pictures: z
+    .array(z.enum(PICTURE_ICON_IDS as [PictureIconId, ...PictureIconId[]]))
+    .length(PICTURE_PASSWORD_LENGTH, `Pick exactly ${PICTURE_PASSWORD_LENGTH} pictures`),
+});
+
+export const BadgeLoginSchema = z.object({
+  token: z.string().min(1, 'Badge token is required').max(200),
+});
+
+export const RefreshTokenSchema = z.object({
+  refresh_token: z.string().min(1, 'Refresh token is required').max(200),
+});
+
 export const CalibrationSchema = z.object({
   amplitudeThreshold: z.number().min(0).max(1),
   peakThreshold: z.number().min(0).max(1),
@@ -51,6 +67,9 @@ export const RecordResponseSchema = z.object({
 
 // Types derived from schemas
 export type LoginRequest = z.infer<typeof LoginSchema>;
+export type PictureLoginRequest = z.infer<typeof PictureLoginSchema>;
+export type BadgeLoginRequest = z.infer<typeof BadgeLoginSchema>;
+export type RefreshTokenRequest = z.infer<typeof RefreshTokenSchema>;
 export type CalibrationRequest = z.infer<typeof CalibrationSchema>;
 export type CreateSessionRequest = z.infer<typeof CreateSessionSchema>;
 export type EndSessionRequest = z.infer<typeof EndSessionSchema>;
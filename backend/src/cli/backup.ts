@@ -0,0 +1,86 @@
+/**
+ * Backup CLI
+ *
+ * Usage:
+ *   npm run backup -- create [--out <file.tar.gz>]
+ *   npm run backup -- list
+ *   npm run backup -- restore <file.tar.gz> --data-dir <dir> [--allow-unresolved]
+ *
+ * `create` and `list` use the server's data directory (run from the backend
+ * directory). `restore` writes piper.db and uploads/ into a fresh directory;
+ * point the server at it by running from its parent with it named `data`.
+ */
+
+import { openDatabase, closeDatabase } from '../services/database.js';
+import { assertSchemaNotNewer } from '../services/migrations/index.js';
+import { createBackup, listBackups, restoreBackup } from '../services/backup/index.js';
+
+const USAGE = `Usage:
+  backup create [--out <file.tar.gz>]
+  backup list
+  backup restore <file.tar.gz> --data-dir <dir> [--allow-unresolved]`;
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'create': {
+      assertSchemaNotNewer(openDatabase());
+      const backup = await createBackup({ outputPath: readFlag(args, '--out') });
+      console.log(`${backup.path}\n  size: ${backup.size} bytes\n  sha256: ${backup.sha256}`);
+      if (backup.missing_documents && backup.missing_documents.length > 0) {
+        console.log(`  missing documents: ${backup.missing_documents.join(', ')}`);
+      }
+      break;
+    }
+
+    case 'list': {
+      for (const backup of await listBackups()) {
+        console.log(`${backup.file_name}  ${backup.size} bytes  sha256 ${backup.sha256}`);
+      }
+      break;
+    }
+
+    case 'restore': {
+      const archive = args[0];
+      const dataDir = readFlag(args, '--data-dir');
+      if (!archive || archive.startsWith('--') || !dataDir) {
+        console.log(USAGE);
+        process.exitCode = 1;
+        return;
+      }
+      const result = await restoreBackup(archive, dataDir, {
+        allowUnresolved: args.includes('--allow-unresolved'),
+      });
+      console.log(
+        `Restored into ${result.data_dir} (schema v${result.schema_version}, ${result.document_count} documents)`
+      );
+      for (const reference of result.unresolved_documents) {
+        console.log(`  unresolved: ${reference}`);
+      }
+      for (const reference of result.missing_documents) {
+        console.log(`  missing at backup time: ${reference}`);
+      }
+      break;
+    }
+
+    default: {
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[ERROR]', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    closeDatabase();
+  });
@@ -0,0 +1,80 @@
+/**
+ * Encryption CLI
+ *
+ * Usage:
+ *   npm run encryption -- status
+ *   npm run encryption -- add-key
+ *   npm run encryption -- rotate [--dry-run]
+ *
+ * To rotate the KEK: `add-key` appends a new key to the keyfile and makes it
+ * active, `rotate` rewraps every data key (and encrypts any plaintext left
+ * from before encryption). Once `status` shows nothing under an old key it can
+ * be removed from the keyfile. With ENCRYPTION_KEKS, put the new key first
+ * instead of running add-key.
+ */
+
+import { openDatabase, closeDatabase } from '../services/database.js';
+import { migrateUp } from '../services/migrations/index.js';
+import { addKeyToKeyfile, getEncryptionStatus, rotateEncryption } from '../services/encryption/index.js';
+import { config } from '../config/index.js';
+import type { EncryptionCoverage } from '../types/index.js';
+
+const USAGE = `Usage:
+  encryption status
+  encryption add-key
+  encryption rotate [--dry-run]`;
+
+function formatCoverage(coverage: EncryptionCoverage): string {
+  const keys = Object.entries(coverage.by_key).map(([id, count]) => `${id}: ${count}`);
+  return `${coverage.name.padEnd(34)} ${coverage.total} total, ${coverage.plaintext} plaintext` +
+    (keys.length > 0 ? `, ${keys.join(', ')}` : '');
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'status': {
+      migrateUp(openDatabase());
+      const status = await getEncryptionStatus();
+      console.log(`Active key: ${status.active_key} (available: ${status.available_keys.join(', ')})`);
+      for (const field of status.fields) {
+        console.log(`  ${formatCoverage(field)}`);
+      }
+      console.log(`  ${formatCoverage(status.documents)}`);
+      break;
+    }
+
+    case 'add-key': {
+      if (config.encryption.keks) {
+        throw new Error('ENCRYPTION_KEKS is set; add the new key there instead of the keyfile');
+      }
+      const id = addKeyToKeyfile();
+      console.log(`Added key ${id} to ${config.encryption.keyfile} and made it active`);
+      break;
+    }
+
+    case 'rotate': {
+      migrateUp(openDatabase());
+      const result = await rotateEncryption({ dryRun: args.includes('--dry-run') });
+      if (result.failed > 0) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+
+    default: {
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[ERROR]', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    closeDatabase();
+  });
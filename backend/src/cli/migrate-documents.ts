@@ -0,0 +1,33 @@
+/**
+ * Document Migration CLI
+ *
+ * Copies existing evaluation/goal PDFs into the configured DocumentStore
+ * (DOCUMENT_STORE=local|s3) and rewrites children rows to storage keys.
+ *
+ * Usage:
+ *   npm run documents:migrate [-- --dry-run]
+ */
+
+import { openDatabase, closeDatabase } from '../services/database.js';
+import { migrateUp } from '../services/migrations/index.js';
+import { migrateDocumentsToStore } from '../services/storage/index.js';
+
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+
+  migrateUp(openDatabase());
+
+  const result = await migrateDocumentsToStore({ dryRun });
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[ERROR]', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => {
+    closeDatabase();
+  });
@@ -0,0 +1,93 @@
+/**
+ * Schema Migration CLI
+ *
+ * Usage:
+ *   npm run migrate -- status
+ *   npm run migrate -- up [--to <version>]
+ *   npm run migrate -- down [--steps <n> | --to <version>]
+ *
+ * Run from the backend directory so the same data/piper.db as the server is used.
+ */
+
+import { openDatabase, closeDatabase } from '../services/database.js';
+import {
+  getMigrationStatus,
+  getCurrentVersion,
+  getLatestVersion,
+  migrateUp,
+  migrateDown,
+  rollback,
+} from '../services/migrations/index.js';
+
+const USAGE = `Usage:
+  migrate status
+  migrate up [--to <version>]
+  migrate down [--steps <n> | --to <version>]`;
+
+function readNumberFlag(args: string[], flag: string): number | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${flag} expects a non-negative integer`);
+  }
+  return value;
+}
+
+function printStatus(): void {
+  const db = openDatabase();
+  const status = getMigrationStatus(db);
+
+  console.log(`Schema version: ${getCurrentVersion(db)} (latest known: ${getLatestVersion()})`);
+  for (const entry of status) {
+    const version = String(entry.version).padStart(3, '0');
+    const state = entry.applied ? `applied ${entry.applied_at}` : 'pending';
+    console.log(`  ${version}_${entry.name}  ${state}`);
+  }
+}
+
+function main(): void {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'status': {
+      printStatus();
+      break;
+    }
+
+    case 'up': {
+      const db = openDatabase();
+      const applied = migrateUp(db, readNumberFlag(args, '--to'));
+      console.log(applied.length === 0 ? 'Nothing to apply' : `Applied ${applied.length} migration(s)`);
+      printStatus();
+      break;
+    }
+
+    case 'down': {
+      const db = openDatabase();
+      const to = readNumberFlag(args, '--to');
+      const rolledBack = to !== undefined
+        ? migrateDown(db, to)
+        : rollback(db, readNumberFlag(args, '--steps') ?? 1);
+      console.log(rolledBack.length === 0 ? 'Nothing to roll back' : `Rolled back ${rolledBack.length} migration(s)`);
+      printStatus();
+      break;
+    }
+
+    default: {
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+    }
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('[ERROR]', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  closeDatabase();
+}
@@ -5,11 +5,43 @@
 // Email validation regex (RFC 5322 simplified)
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
+function readPositiveInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${name} "${raw}". Expected a positive whole number.`);
+  }
+  return value;
+}
+
 export const authConfig = {
   // Password hashing
   saltRounds: 10,
   minPasswordLength: 4,
 
+  // Access JWTs are short-lived; refresh tokens rotate on every use and the
+  // session ends after this long without one
+  accessTokenTtlSeconds: readPositiveInt('ACCESS_TOKEN_TTL_MINUTES', 15) * 60,
+  refreshTokenTtlMs: readPositiveInt('REFRESH_TOKEN_TTL_DAYS', 14) * 24 * 60 * 60 * 1000,
+
+  // Password reset links are single use and expire after this long
+  passwordResetTtlMs: readPositiveInt('PASSWORD_RESET_TTL_MINUTES', 60) * 60 * 1000,
+
+  // Member invite links expire after this long (resending issues a new one)
+  memberInviteTtlMs: readPositiveInt('MEMBER_INVITE_TTL_DAYS', 7) * 24 * 60 * 60 * 1000,
+
+  // Failed logins in a row before an account is locked. Each further lock
+  // lasts longer (the last duration repeats) until a day passes without a failure.
+  lockoutThreshold: 5,
+  lockoutDurationsMs: [1, 5, 15, 60].map((minutes) => minutes * 60 * 1000),
+  lockoutResetMs: 24 * 60 * 60 * 1000,
+
+  // Name shown for the account in authenticator apps
+  twoFactorIssuer: process.env.TWO_FACTOR_ISSUER || 'PIPER',
+
   // Valid member roles
   validRoles: ['School Admin', 'SLP', 'Parent', 'Student'] as const,
 
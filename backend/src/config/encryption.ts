@@ -0,0 +1,20 @@
+/**
+ * Encryption Configuration
+ * Where the key-encryption keys (KEKs) for sensitive fields and documents come from
+ */
+
+import path from 'path';
+
+export const encryptionConfig = {
+  // Comma-separated "id:base64key" pairs; the first is used for new data.
+  // Takes precedence over the keyfile when set.
+  keks: process.env.ENCRYPTION_KEKS || '',
+
+  // JSON keyfile: { "active": "<id>", "keys": { "<id>": "<base64 key>" } }
+  keyfile: path.resolve(
+    process.env.ENCRYPTION_KEYFILE || path.join(process.cwd(), 'data', 'keys', 'kek.json')
+  ),
+
+  // Create the keyfile on first use when no keys are configured (never in production)
+  generateKeyfile: process.env.NODE_ENV !== 'production',
+};
@@ -0,0 +1,10 @@
+/**
+ * Environment Loading
+ * Reads .env into process.env. config/index.ts imports this before any other
+ * config module: imports are evaluated in order, before the importing module's
+ * own body, so every config module below it sees the loaded values.
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
@@ -2,24 +2,42 @@
  * Application Configuration
  */
 
-import dotenv from 'dotenv';
+import './env.js';
 import { safetyGateConfig } from './safety-gate.js';
 import { calibrationConfig, calibrationPrompts } from './calibration.js';
 import { gameConfig } from './game.js';
 import { authConfig } from './auth.js';
-
-dotenv.config();
+import { storageConfig } from './storage.js';
+import { encryptionConfig } from './encryption.js';
+import { llmConfig } from './llm.js';
+import { loggingConfig } from './logging.js';
+import { mailConfig } from './mail.js';
+import { rateLimitConfig } from './rate-limit.js';
 
 const isProduction = process.env.NODE_ENV === 'production';
 
 // Validate required environment variables in production
 if (isProduction) {
-  const requiredEnvVars = ['JWT_SECRET', 'OPENAI_API_KEY'];
+  // METRICS_TOKEN: /api/metrics would otherwise be open to anyone
+  // SMTP_HOST: reset and invite links must be delivered, not logged
+  const requiredEnvVars = ['JWT_SECRET', 'OPENAI_API_KEY', 'METRICS_TOKEN', 'SMTP_HOST'];
   const missing = requiredEnvVars.filter(varName => !process.env[varName]);
 
+  // ENCRYPTION_KEKS: the default keyfile path may sit on an ephemeral disk, and
+  // losing the keys loses every encrypted field and document. A keyfile is only
+  // accepted when ENCRYPTION_KEYFILE points at one explicitly.
+  if (!process.env.ENCRYPTION_KEKS && !process.env.ENCRYPTION_KEYFILE) {
+    missing.push('ENCRYPTION_KEKS');
+  }
+
   if (missing.length > 0) {
     throw new Error(`Missing required environment variables in production: ${missing.join(', ')}`);
   }
+
+  // The console and file drivers would leave account takeover links in the logs or on disk
+  if (mailConfig.driver !== 'smtp') {
+    throw new Error('MAIL_DRIVER must be "smtp" in production');
+  }
 }
 
 export const config = {
@@ -28,11 +46,26 @@ export const config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
 
+  // Base URL of the frontend, used in emailed links and on login badges
+  appUrl: (process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:5173').replace(/\/+$/, ''),
+
   // OpenAI API
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
   },
 
+  // Prometheus scrape endpoint (/api/metrics); open when no token is set, which
+  // only development allows
+  metrics: {
+    token: process.env.METRICS_TOKEN || '',
+  },
+
+  // Chat-completion provider for the safety gate and PDF extraction
+  llm: llmConfig,
+
+  // Log level and format
+  logging: loggingConfig,
+
   // Safety-gate configuration (from separate module)
   safetyGate: safetyGateConfig,
 
@@ -45,4 +78,16 @@ export const config = {
 
   // Auth configuration
   auth: authConfig,
+
+  // Document storage configuration
+  storage: storageConfig,
+
+  // Field and document encryption keys
+  encryption: encryptionConfig,
+
+  // Outgoing mail
+  mail: mailConfig,
+
+  // Where rate limit counters are kept
+  rateLimit: rateLimitConfig,
 };
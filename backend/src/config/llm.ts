@@ -0,0 +1,30 @@
+/**
+ * LLM Provider Configuration
+ * Selects the chat-completion backend and the models behind each tier
+ */
+
+import path from 'path';
+import type { LLMProviderName } from '../types/index.js';
+
+const provider = (process.env.LLM_PROVIDER || 'openai') as LLMProviderName;
+
+if (provider !== 'openai' && provider !== 'mock') {
+  throw new Error(`Invalid LLM_PROVIDER "${provider}". Expected "openai" or "mock".`);
+}
+
+export const llmConfig = {
+  provider,
+
+  // Concrete OpenAI models for each tier
+  models: {
+    fast: process.env.LLM_MODEL_FAST || 'gpt-4o-mini',
+    smart: process.env.LLM_MODEL_SMART || 'gpt-4o',
+  },
+
+  // Offline provider: <fixturesDir>/<task>.json overrides the built-in response for that task
+  mock: {
+    fixturesDir: process.env.LLM_MOCK_FIXTURES_DIR
+      ? path.resolve(process.env.LLM_MOCK_FIXTURES_DIR)
+      : '',
+  },
+};
@@ -0,0 +1,24 @@
+/**
+ * Logging Configuration
+ * Minimum level and output format for utils/logger
+ */
+
+import type { LogLevel, LogFormat } from '../types/index.js';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const level = (process.env.LOG_LEVEL || 'info') as LogLevel;
+if (!LOG_LEVELS.includes(level)) {
+  throw new Error(`Invalid LOG_LEVEL "${level}". Expected one of: ${LOG_LEVELS.join(', ')}.`);
+}
+
+const format = (process.env.LOG_FORMAT ||
+  (process.env.NODE_ENV === 'production' ? 'json' : 'pretty')) as LogFormat;
+if (format !== 'json' && format !== 'pretty') {
+  throw new Error(`Invalid LOG_FORMAT "${format}". Expected "json" or "pretty".`);
+}
+
+export const loggingConfig = {
+  level,
+  format,
+};
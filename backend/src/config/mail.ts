@@ -0,0 +1,35 @@
+/**
+ * Mail Configuration
+ * Selects how outgoing mail (password reset links) is delivered
+ */
+
+import path from 'path';
+import type { MailDriverName } from '../types/index.js';
+
+const driver = (process.env.MAIL_DRIVER || 'console') as MailDriverName;
+
+if (driver !== 'smtp' && driver !== 'file' && driver !== 'console') {
+  throw new Error(`Invalid MAIL_DRIVER "${driver}". Expected "smtp", "file" or "console".`);
+}
+
+const smtpPort = parseInt(process.env.SMTP_PORT || '587', 10);
+
+export const mailConfig = {
+  driver,
+  from: process.env.MAIL_FROM || 'PIPER <no-reply@localhost>',
+
+  // File driver: one .eml file per message
+  file: {
+    dir: path.resolve(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'data', 'mail')),
+  },
+
+  // SMTP driver
+  smtp: {
+    host: process.env.SMTP_HOST || '',
+    port: smtpPort,
+    // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : smtpPort === 465,
+    user: process.env.SMTP_USER || '',
+    password: process.env.SMTP_PASSWORD || '',
+  },
+};
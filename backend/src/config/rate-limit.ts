@@ -0,0 +1,38 @@
+/**
+ * Rate Limit Configuration
+ * Selects where rate limit counters are kept and which proxies to trust for client IPs
+ */
+
+import type { RateLimitStoreDriver } from '../types/index.js';
+
+const store = (process.env.RATE_LIMIT_STORE || 'sqlite') as RateLimitStoreDriver;
+
+if (store !== 'sqlite' && store !== 'memory') {
+  throw new Error(`Invalid RATE_LIMIT_STORE "${store}". Expected "sqlite" or "memory".`);
+}
+
+/**
+ * TRUST_PROXY: a hop count ("1" behind one load balancer) or Express's list
+ * of trusted addresses ("loopback, 10.0.0.0/8"). "true" would trust any
+ * X-Forwarded-For a client sends, letting it pick its own rate limit bucket.
+ */
+function parseTrustProxy(value: string | undefined): number | string | false {
+  const trimmed = value?.trim() ?? '';
+  if (trimmed === '' || trimmed === 'false') {
+    return false;
+  }
+  if (trimmed === 'true') {
+    throw new Error('Invalid TRUST_PROXY "true". Expected a hop count such as "1" or a list of proxy addresses.');
+  }
+  return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : trimmed;
+}
+
+export const rateLimitConfig = {
+  // sqlite survives restarts and is shared by every instance using the database;
+  // memory is per process
+  store,
+
+  // Without it, behind a reverse proxy every request seems to come from the
+  // proxy and all clients share one per-IP counter
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
+};
@@ -0,0 +1,40 @@
+/**
+ * Document Storage Configuration
+ * Selects where uploaded evaluation and goal PDFs are kept
+ */
+
+import path from 'path';
+import type { DocumentStoreDriver } from '../types/index.js';
+
+const driver = (process.env.DOCUMENT_STORE || 'local') as DocumentStoreDriver;
+
+if (driver !== 'local' && driver !== 's3') {
+  throw new Error(`Invalid DOCUMENT_STORE "${driver}". Expected "local" or "s3".`);
+}
+
+export const storageConfig = {
+  driver,
+
+  // Local filesystem driver
+  local: {
+    rootDir: path.resolve(process.env.UPLOAD_DIR || path.join(process.cwd(), 'data', 'uploads')),
+  },
+
+  // Backup archives (see npm run backup)
+  backups: {
+    dir: path.resolve(process.env.BACKUP_DIR || path.join(process.cwd(), 'data', 'backups')),
+  },
+
+  // S3-compatible driver (AWS S3, MinIO, R2, ...)
+  s3: {
+    endpoint: process.env.S3_ENDPOINT || '',
+    region: process.env.S3_REGION || 'us-east-1',
+    bucket: process.env.S3_BUCKET || '',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+    // MinIO and most self-hosted stores need path-style URLs
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : Boolean(process.env.S3_ENDPOINT),
+  },
+};
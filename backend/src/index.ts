@@ -8,6 +8,9 @@ import routes from './api/routes/index.js';
 import childAuthRoutes from './api/routes/child-auth.routes.js';
 import sessionRoutes from './api/routes/session.routes.js';
 import { globalErrorHandler, notFoundHandler } from './api/middleware/errorHandler.js';
+import { requestContext, REQUEST_ID_HEADER } from './api/middleware/requestContext.js';
+import { httpMetrics } from './api/middleware/metrics.js';
+import metricsRoutes from './api/routes/metrics.routes.js';
 import { setupVoiceWebSocket } from './api/routes/voice.routes.js';
 import { setupTherapistLiveWebSocket } from './api/routes/therapist-live.routes.js';
 import { voiceSessionManager } from './services/voice/index.js';
@@ -17,20 +20,29 @@ const FRONTEND_PATH = path.join(process.cwd(), '..', 'frontend', 'dist');
 
 const app = express();
 
+// req.ip is the client's address only if the proxies in front of us are trusted
+app.set('trust proxy', config.rateLimit.trustProxy);
+
 // Middleware
 app.use(cors({
   origin: config.corsOrigin,
   credentials: true,
   methods: ['GET', 'POST', 'PATCH', 'DELETE'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER],
+  exposedHeaders: [REQUEST_ID_HEADER]
 }));
 app.use(express.json({ limit: '10mb' }));
+app.use(requestContext);
+app.use(httpMetrics);
 
 // Health check
 app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok' });
 });
 
+// Prometheus metrics
+app.use('/api/metrics', metricsRoutes);
+
 // API Routes
 app.use('/api/therapist', routes);
 app.use('/api/child', childAuthRoutes);
@@ -57,7 +69,13 @@ app.use(notFoundHandler);
 app.use(globalErrorHandler);
 
 // Initialize and start
-initializeDatabase();
+try {
+  initializeDatabase();
+} catch (error) {
+  logger.error('Database initialization failed:', error instanceof Error ? error.message : error);
+  closeDatabase();
+  process.exit(1);
+}
 
 const server = app.listen(config.port, () => {
   logger.info(`Server running on http://localhost:${config.port}`);
@@ -0,0 +1,128 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type Database from 'better-sqlite3';
+import type { Request, Response } from 'express';
+import { createTestStudent, createTestTherapist, setupTestDatabase } from '../../test/database.js';
+import { createMember } from '../member/index.js';
+import { requirePermission } from '../../api/middleware/auth.js';
+import {
+  getStudentForActor,
+  hasPermission,
+  listStudentIdsForActor,
+  listStudentsForActor,
+} from './access.js';
+import type { AccessActor, Child, MemberResponse, Permission } from '../../types/index.js';
+
+let db: Database.Database;
+let slp: AccessActor;
+let parent: AccessActor;
+let outsider: AccessActor;
+let slpStudent: Child;
+let otherSlpStudent: Child;
+let parentChild: Child;
+
+function memberActor(member: MemberResponse): AccessActor {
+  return {
+    kind: 'member',
+    id: member.id,
+    organization_id: member.organization_id,
+    session_id: 'test-session',
+    roles: member.roles,
+    school_id: member.school_id,
+  };
+}
+
+before(async () => {
+  db = setupTestDatabase();
+  const owner = await createTestTherapist();
+  const orgId = owner.organization_id!;
+
+  const slpMember = createMember(orgId, { name: 'Sam SLP', email: 'slp@example.com', roles: ['SLP'] });
+  const otherSlp = createMember(orgId, { name: 'Olive SLP', email: 'other-slp@example.com', roles: ['SLP'] });
+  slpStudent = createTestStudent(owner.id, { slp_id: slpMember.id });
+  otherSlpStudent = createTestStudent(owner.id, { slp_id: otherSlp.id });
+  parentChild = createTestStudent(owner.id);
+  db.prepare('UPDATE children SET eval_data = ? WHERE id = ?').run('{"score": 42}', parentChild.id);
+
+  const parentMember = createMember(orgId, {
+    name: 'Pat Parent', email: 'parent@example.com', roles: ['Parent'], student_ids: [parentChild.id],
+  });
+
+  const elsewhere = await createTestTherapist();
+  const outsiderMember = createMember(elsewhere.organization_id!, {
+    name: 'Otto Outsider', email: 'outsider@example.com', roles: ['SLP', 'Parent'],
+  });
+
+  slp = memberActor(slpMember);
+  parent = memberActor(parentMember);
+  outsider = memberActor(outsiderMember);
+});
+
+test('an SLP reaches only the students assigned to them', () => {
+  assert.equal(getStudentForActor(slp, slpStudent.id, 'students:update')?.id, slpStudent.id);
+  assert.equal(getStudentForActor(slp, otherSlpStudent.id, 'students:read'), null);
+  assert.equal(getStudentForActor(slp, parentChild.id, 'students:read'), null);
+  assert.deepEqual(listStudentsForActor(slp).map((student) => student.id), [slpStudent.id]);
+});
+
+test('an SLP cannot read reports or manage privacy, even for their own students', () => {
+  for (const permission of ['reports:read', 'privacy:manage', 'students:delete', 'members:manage'] as Permission[]) {
+    assert.equal(hasPermission(slp, permission), false, permission);
+    assert.equal(getStudentForActor(slp, slpStudent.id, permission), null, permission);
+  }
+});
+
+test('a Parent reaches only linked students, read-only and without evaluations', () => {
+  const child = getStudentForActor(parent, parentChild.id, 'portal:read');
+  assert.equal(child?.id, parentChild.id);
+  assert.equal(child?.eval_data, undefined);
+
+  assert.equal(getStudentForActor(parent, slpStudent.id, 'students:read'), null);
+  for (const permission of ['students:update', 'evaluations:read', 'sessions:read', 'goals:write'] as Permission[]) {
+    assert.equal(getStudentForActor(parent, parentChild.id, permission), null, permission);
+  }
+  assert.deepEqual(listStudentIdsForActor(parent, 'goals:read'), [parentChild.id]);
+  assert.deepEqual(listStudentIdsForActor(parent, 'sessions:read'), []);
+});
+
+test('a member of another organization reaches none of the students', () => {
+  for (const student of [slpStudent, otherSlpStudent, parentChild]) {
+    assert.equal(getStudentForActor(outsider, student.id, 'students:read'), null);
+  }
+  assert.deepEqual(listStudentsForActor(outsider), []);
+});
+
+test('only admin therapists may permanently delete their students', async () => {
+  const therapist = await createTestTherapist();
+  const actor: AccessActor = {
+    kind: 'therapist', id: therapist.id, organization_id: therapist.organization_id!, session_id: 'test-session',
+  };
+  const student = createTestStudent(therapist.id);
+
+  assert.equal(hasPermission(actor, 'students:delete'), false);
+  assert.equal(getStudentForActor(actor, student.id, 'students:delete'), null);
+  assert.ok(getStudentForActor(actor, student.id, 'privacy:manage'));
+
+  db.prepare('UPDATE therapists SET is_admin = 1 WHERE id = ?').run(therapist.id);
+  assert.equal(hasPermission(actor, 'students:delete'), true);
+  assert.equal(getStudentForActor(actor, student.id, 'students:delete')?.id, student.id);
+});
+
+test('requirePermission answers 403 when the actor lacks a permission', () => {
+  const respond = (actor: AccessActor, ...permissions: Permission[]) => {
+    let status = 200;
+    let nextCalled = false;
+    const res = {
+      status(code: number) { status = code; return this; },
+      json() { return this; },
+    } as unknown as Response;
+    requirePermission(...permissions)({ actor } as Request, res, () => { nextCalled = true; });
+    return nextCalled ? 'next' : status;
+  };
+
+  assert.equal(respond(slp, 'students:read'), 'next');
+  assert.equal(respond(slp, 'students:read', 'reports:read'), 403);
+  assert.equal(respond(parent, 'portal:read'), 'next');
+  assert.equal(respond(parent, 'sessions:read'), 403);
+  assert.equal(respond(parent, 'privacy:manage'), 403);
+});
@@ -0,0 +1,340 @@
+/**
+ * Access Control Service
+ * Role permission matrix and student scoping for dashboard users
+ *
+ * The therapist who owns a caseload can do everything with it, and other
+ * therapists reach the students the owner shared with them (SHARE_PERMISSIONS).
+ * Permanently deleting a student is reserved for admin therapists.
+ * Members act under their roles, and a role's student permissions only reach
+ * the students in that role's scope:
+ *   School Admin - students at the admin's school
+ *   SLP          - students whose slp_id is the member
+ *   Parent/Student - students linked to the member (member_students)
+ */
+
+import { getOrganizationIdForChild } from '../organization/index.js';
+import { getTherapistById, isTherapistAdmin } from '../auth/index.js';
+import {
+  getStudentById,
+  getStudentShareAccess,
+  listStudents,
+  searchStudents,
+} from '../student/index.js';
+import { getMemberForOrganization, listMemberStudentIds } from '../member/index.js';
+import type { ValidRole } from '../../config/auth.js';
+import type {
+  AccessActor,
+  ActorPermissions,
+  Child,
+  MemberResponse,
+  Permission,
+  StudentListFilter,
+  StudentListQuery,
+  StudentPage,
+  StudentScope,
+  StudentShareAccess,
+  StudentVisibility,
+  UpdateMemberRequest,
+} from '../../types/index.js';
+
+/**
+ * Thrown when the caller is authenticated but not allowed to do something
+ */
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+const ALL_PERMISSIONS: readonly Permission[] = [
+  'students:read', 'students:create', 'students:update', 'students:delete', 'students:archive',
+  'evaluations:read', 'evaluations:write',
+  'goals:read', 'goals:write',
+  'sessions:read', 'reports:read', 'portal:read',
+  'schools:read', 'schools:manage',
+  'members:read', 'members:manage',
+  'privacy:manage', 'audit:read',
+];
+
+// Only admin therapists hold these, even over their own caseload
+const ADMIN_PERMISSIONS: readonly Permission[] = ['students:delete'];
+
+export const ROLE_PERMISSIONS: Record<ValidRole, readonly Permission[]> = {
+  'School Admin': [
+    'students:read', 'goals:read', 'sessions:read', 'reports:read',
+    'schools:read', 'members:read', 'members:manage',
+  ],
+  'SLP': [
+    'students:read', 'students:update', 'students:archive', 'evaluations:read', 'evaluations:write',
+    'goals:read', 'goals:write', 'sessions:read', 'schools:read',
+  ],
+  'Parent': ['students:read', 'goals:read', 'portal:read'],
+  'Student': ['students:read', 'goals:read'],
+};
+
+// What a therapist can do with a student someone else shared with them
+// (archiving, deleting, exporting, erasing, sharing and transferring stay with the owner)
+export const SHARE_PERMISSIONS: Record<StudentShareAccess, readonly Permission[]> = {
+  view: ['students:read', 'evaluations:read', 'goals:read', 'sessions:read', 'reports:read'],
+  treat: [
+    'students:read', 'students:update', 'evaluations:read', 'evaluations:write',
+    'goals:read', 'goals:write', 'sessions:read', 'reports:read',
+  ],
+};
+
+// Evaluation PDFs and eval_data are only returned with evaluations:read
+const EVALUATION_FIELDS = [
+  'eval_data', 'eval_pdf_path', 'eval_pdf_uploaded_at', 'eval_pdf_original_name',
+] as const;
+
+// =============================================================================
+// PERMISSIONS
+// =============================================================================
+
+function therapistPermissions(therapistId: number): Permission[] {
+  return isTherapistAdmin(therapistId)
+    ? [...ALL_PERMISSIONS]
+    : ALL_PERMISSIONS.filter((permission) => !ADMIN_PERMISSIONS.includes(permission));
+}
+
+export function getActorPermissions(actor: AccessActor): Permission[] {
+  if (actor.kind === 'therapist') {
+    return therapistPermissions(actor.id);
+  }
+  return ALL_PERMISSIONS.filter((permission) =>
+    actor.roles.some((role) => ROLE_PERMISSIONS[role].includes(permission))
+  );
+}
+
+export function hasPermission(actor: AccessActor, permission: Permission): boolean {
+  return getActorPermissions(actor).includes(permission);
+}
+
+export function describeActorPermissions(actor: AccessActor): ActorPermissions {
+  return {
+    kind: actor.kind,
+    roles: actor.kind === 'member' ? actor.roles : [],
+    permissions: getActorPermissions(actor),
+  };
+}
+
+// =============================================================================
+// STUDENT SCOPING
+// =============================================================================
+
+function roleCoversStudent(
+  role: ValidRole,
+  actor: Extract<AccessActor, { kind: 'member' }>,
+  student: Child,
+  linkedStudentIds: number[]
+): boolean {
+  switch (role) {
+    case 'School Admin':
+      return actor.school_id !== null && student.school_id === actor.school_id;
+    case 'SLP':
+      return student.slp_id === actor.id;
+    case 'Parent':
+    case 'Student':
+      return linkedStudentIds.includes(student.id);
+  }
+}
+
+/**
+ * What the actor may do with one student (empty if the student is out of reach)
+ */
+export function getStudentPermissions(
+  actor: AccessActor,
+  student: Child,
+  linkedStudentIds?: number[]
+): Permission[] {
+  if (actor.kind === 'therapist') {
+    if (student.therapist_id === actor.id) {
+      return therapistPermissions(actor.id);
+    }
+    const access = getStudentShareAccess(student.id, actor.id);
+    return access ? [...SHARE_PERMISSIONS[access]] : [];
+  }
+
+  if (getOrganizationIdForChild(student.id) !== actor.organization_id) {
+    return [];
+  }
+
+  const linked = linkedStudentIds ?? listMemberStudentIds(actor.id);
+  const roles = actor.roles.filter((role) => roleCoversStudent(role, actor, student, linked));
+  return ALL_PERMISSIONS.filter((permission) =>
+    roles.some((role) => ROLE_PERMISSIONS[role].includes(permission))
+  );
+}
+
+function scopeForMember(actor: Extract<AccessActor, { kind: 'member' }>): StudentScope {
+  const scope: StudentScope = {};
+  if (actor.roles.includes('School Admin') && actor.school_id !== null) {
+    scope.school_id = actor.school_id;
+  }
+  if (actor.roles.includes('SLP')) {
+    scope.slp_id = actor.id;
+  }
+  if (actor.roles.includes('Parent') || actor.roles.includes('Student')) {
+    scope.linked_member_id = actor.id;
+  }
+  return scope;
+}
+
+function visibilityForActor(actor: AccessActor): StudentVisibility {
+  return actor.kind === 'therapist'
+    ? { therapist_id: actor.id }
+    : { organization_id: actor.organization_id, scope: scopeForMember(actor) };
+}
+
+/**
+ * Students the actor can see (the active caseload unless the filter asks for
+ * archived students), with evaluation details removed where the actor's role
+ * for that student does not cover them
+ */
+export function listStudentsForActor(actor: AccessActor, filter: StudentListFilter = {}): Child[] {
+  const students = listStudents(visibilityForActor(actor), filter);
+  if (actor.kind === 'therapist') {
+    return students;
+  }
+
+  const linked = listMemberStudentIds(actor.id);
+  return students.map((student) => redactStudent(student, getStudentPermissions(actor, student, linked)));
+}
+
+/**
+ * One page of the students the actor can see, redacted like listStudentsForActor
+ */
+export function searchStudentsForActor(actor: AccessActor, query: StudentListQuery = {}): StudentPage {
+  const page = searchStudents(visibilityForActor(actor), query);
+  if (actor.kind === 'therapist') {
+    return page;
+  }
+
+  const linked = listMemberStudentIds(actor.id);
+  return {
+    ...page,
+    students: page.students.map((student) => redactStudent(student, getStudentPermissions(actor, student, linked))),
+  };
+}
+
+/**
+ * Ids of the active students the actor holds `permission` for
+ */
+export function listStudentIdsForActor(actor: AccessActor, permission: Permission): number[] {
+  const linked = actor.kind === 'member' ? listMemberStudentIds(actor.id) : undefined;
+  return listStudentsForActor(actor)
+    .filter((student) => getStudentPermissions(actor, student, linked).includes(permission))
+    .map((student) => student.id);
+}
+
+/**
+ * Resolve a student the actor holds `permission` for
+ * Returns null both when the student does not exist and when it is out of
+ * reach, so callers answer 404 either way and existence is not leaked.
+ */
+export function getStudentForActor(
+  actor: AccessActor,
+  studentId: number,
+  permission: Permission
+): Child | null {
+  const student = getStudentById(studentId);
+  if (!student) {
+    return null;
+  }
+  const permissions = getStudentPermissions(actor, student);
+  if (!permissions.includes(permission)) {
+    return null;
+  }
+  return redactStudent(actor.kind === 'therapist' ? withShareDetails(student, actor.id) : student, permissions);
+}
+
+/**
+ * Mark a student shared with the therapist the way the student list does
+ */
+function withShareDetails(student: Child, therapistId: number): Child {
+  const access = student.therapist_id === therapistId ? null : getStudentShareAccess(student.id, therapistId);
+  if (!access) {
+    return student;
+  }
+  const owner = getTherapistById(student.therapist_id);
+  return { ...student, shared_access: access, owner_name: owner ? `${owner.first_name} ${owner.last_name}` : undefined };
+}
+
+function redactStudent(student: Child, permissions: Permission[]): Child {
+  if (permissions.includes('evaluations:read')) {
+    return student;
+  }
+  const redacted = { ...student };
+  for (const field of EVALUATION_FIELDS) {
+    delete redacted[field];
+  }
+  return redacted;
+}
+
+// =============================================================================
+// MEMBER MANAGEMENT
+// =============================================================================
+
+/**
+ * Members the actor may see: School Admins only see their own school
+ */
+export function filterMembersForActor(actor: AccessActor, members: MemberResponse[]): MemberResponse[] {
+  if (actor.kind === 'therapist' || !actor.roles.includes('School Admin')) {
+    return members;
+  }
+  return members.filter((member) => actor.school_id !== null && member.school_id === actor.school_id);
+}
+
+/**
+ * Check a School Admin's create/update/delete of a member
+ *
+ * School Admins manage their own school only: the member must be (and stay)
+ * at that school, may not be a School Admin, may not be given that role, and
+ * may only be linked to students at the school. Therapists are unrestricted
+ * within their organization.
+ */
+export function assertCanManageMember(
+  actor: AccessActor,
+  targetId: number | null,
+  changes: UpdateMemberRequest
+): void {
+  if (actor.kind === 'therapist') {
+    return;
+  }
+  if (!actor.roles.includes('School Admin') || actor.school_id === null) {
+    throw new AccessDeniedError('Insufficient permissions');
+  }
+
+  const target = targetId === null ? undefined : getMemberForOrganization(targetId, actor.organization_id);
+  if (targetId !== null) {
+    if (!target) {
+      throw new Error('Member not found');
+    }
+    const targetRoles = JSON.parse(target.roles || '[]') as ValidRole[];
+    if (target.id === actor.id) {
+      throw new AccessDeniedError('School Admins cannot change their own account here');
+    }
+    if (target.school_id !== actor.school_id || targetRoles.includes('School Admin')) {
+      throw new AccessDeniedError('Member is outside your school');
+    }
+  }
+
+  const schoolId = changes.school_id !== undefined ? changes.school_id : target?.school_id;
+  if (schoolId !== actor.school_id) {
+    throw new AccessDeniedError('Members must belong to your school');
+  }
+
+  if (changes.roles?.includes('School Admin')) {
+    throw new AccessDeniedError('Only the therapist can grant the School Admin role');
+  }
+
+  if (changes.student_ids && changes.student_ids.length > 0) {
+    const schoolStudentIds = new Set(
+      listStudents({ organization_id: actor.organization_id, scope: { school_id: actor.school_id } }).map((s) => s.id)
+    );
+    if (!changes.student_ids.every((id) => schoolStudentIds.has(id))) {
+      throw new AccessDeniedError('Students must belong to your school');
+    }
+  }
+}
@@ -0,0 +1,14 @@
+export {
+  AccessDeniedError,
+  ROLE_PERMISSIONS,
+  getActorPermissions,
+  hasPermission,
+  describeActorPermissions,
+  getStudentPermissions,
+  listStudentsForActor,
+  searchStudentsForActor,
+  listStudentIdsForActor,
+  getStudentForActor,
+  filterMembersForActor,
+  assertCanManageMember,
+} from './access.js';
@@ -0,0 +1,96 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type Database from 'better-sqlite3';
+import { setupTestDatabase } from '../../test/database.js';
+import { GENESIS_HASH, recordAuditEvent, verifyAuditChain } from './audit.js';
+import type { AuditEvent } from '../../types/index.js';
+
+let db: Database.Database;
+
+function studentRead(studentId: number): AuditEvent {
+  return {
+    organization_id: 1,
+    actor_type: 'therapist',
+    actor_id: 1,
+    action: 'read',
+    resource_type: 'student',
+    resource_id: studentId,
+    student_id: studentId,
+    method: 'GET',
+    path: `/api/therapist/students/${studentId}`,
+    status_code: 200,
+    ip: '127.0.0.1',
+  };
+}
+
+// The triggers stop the app from changing the log; someone with the file can still drop them
+function withoutAppendOnlyTriggers(change: () => void): void {
+  const triggers = db
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'trigger' AND tbl_name = 'audit_log'")
+    .all() as { sql: string }[];
+  db.exec('DROP TRIGGER audit_log_no_update; DROP TRIGGER audit_log_no_delete;');
+  try {
+    change();
+  } finally {
+    for (const trigger of triggers) {
+      db.exec(trigger.sql);
+    }
+  }
+}
+
+before(() => {
+  db = setupTestDatabase();
+});
+
+test('an empty log verifies', () => {
+  assert.deepEqual(verifyAuditChain(), { valid: true, checked: 0, first_broken_id: null });
+});
+
+test('each entry chains to the one before it', () => {
+  const first = recordAuditEvent(studentRead(1));
+  const second = recordAuditEvent(studentRead(2));
+  const rows = db
+    .prepare('SELECT id, prev_hash, hash FROM audit_log WHERE id IN (?, ?) ORDER BY id')
+    .all(first, second) as { id: number; prev_hash: string; hash: string }[];
+
+  assert.equal(rows[0].prev_hash, GENESIS_HASH);
+  assert.equal(rows[1].prev_hash, rows[0].hash);
+  assert.deepEqual(verifyAuditChain(), { valid: true, checked: 2, first_broken_id: null });
+});
+
+test('the log is append-only', () => {
+  assert.throws(() => db.prepare("UPDATE audit_log SET path = '/x'").run(), /append-only/);
+  assert.throws(() => db.prepare('DELETE FROM audit_log').run(), /append-only/);
+});
+
+test('an edited entry breaks the chain at that entry', () => {
+  const id = recordAuditEvent(studentRead(3));
+  recordAuditEvent(studentRead(4));
+
+  withoutAppendOnlyTriggers(() => {
+    db.prepare('UPDATE audit_log SET student_id = 99 WHERE id = ?').run(id);
+  });
+
+  const result = verifyAuditChain();
+  assert.equal(result.valid, false);
+  assert.equal(result.first_broken_id, id);
+  assert.equal(result.checked, id - 1);
+
+  withoutAppendOnlyTriggers(() => {
+    db.prepare('UPDATE audit_log SET student_id = 3 WHERE id = ?').run(id);
+  });
+  assert.equal(verifyAuditChain().valid, true);
+});
+
+test('a removed entry breaks the chain at the entry after it', () => {
+  const removed = recordAuditEvent(studentRead(5));
+  const next = recordAuditEvent(studentRead(6));
+
+  withoutAppendOnlyTriggers(() => {
+    db.prepare('DELETE FROM audit_log WHERE id = ?').run(removed);
+  });
+
+  const result = verifyAuditChain();
+  assert.equal(result.valid, false);
+  assert.equal(result.first_broken_id, next);
+});
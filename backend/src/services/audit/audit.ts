@@ -0,0 +1,222 @@
+/**
+ * Audit Log Service
+ * Append-only, hash-chained record of PHI access
+ */
+
+import crypto from 'crypto';
+import { getDatabase } from '../database.js';
+import type {
+  AuditEvent,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuditLogPage,
+  AuditActor,
+  AuditChainVerification,
+} from '../../types/index.js';
+
+// prev_hash of the first entry in the chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+type AuditRow = Omit<AuditLogEntry, 'actor_name' | 'student_name'>;
+
+/**
+ * Hash of an entry: covers the previous hash and every recorded field in a
+ * fixed order, so editing or removing any row breaks the chain after it
+ */
+function computeHash(prevHash: string, createdAt: string, event: AuditEvent): string {
+  const payload = JSON.stringify([
+    prevHash,
+    createdAt,
+    event.organization_id,
+    event.actor_type,
+    event.actor_id,
+    event.action,
+    event.resource_type,
+    event.resource_id,
+    event.student_id,
+    event.method,
+    event.path,
+    event.status_code,
+    event.ip,
+  ]);
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Append an event to the audit log
+ */
+export function recordAuditEvent(event: AuditEvent): number {
+  const db = getDatabase();
+
+  // Reading the chain head and inserting must not interleave with another writer
+  const append = db.transaction((): number => {
+    const last = db
+      .prepare('SELECT hash FROM audit_log ORDER BY id DESC LIMIT 1')
+      .get() as { hash: string } | undefined;
+    const prevHash = last?.hash ?? GENESIS_HASH;
+    const createdAt = new Date().toISOString();
+
+    const result = db.prepare(`
+      INSERT INTO audit_log (
+        organization_id, actor_type, actor_id, action, resource_type, resource_id,
+        student_id, method, path, status_code, ip, created_at, prev_hash, hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      event.organization_id,
+      event.actor_type,
+      event.actor_id,
+      event.action,
+      event.resource_type,
+      event.resource_id,
+      event.student_id,
+      event.method,
+      event.path,
+      event.status_code,
+      event.ip,
+      createdAt,
+      prevHash,
+      computeHash(prevHash, createdAt, event)
+    );
+
+    return result.lastInsertRowid as number;
+  });
+
+  return append.immediate();
+}
+
+// ============================================
+// Querying
+// ============================================
+
+/**
+ * Query the audit log, newest first
+ */
+export function queryAuditLog(query: AuditLogQuery = {}): AuditLogPage {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.organization_id !== undefined) {
+    conditions.push('a.organization_id = ?');
+    params.push(query.organization_id);
+  }
+  if (query.student_id !== undefined) {
+    conditions.push('a.student_id = ?');
+    params.push(query.student_id);
+  }
+  if (query.actor_type !== undefined) {
+    conditions.push('a.actor_type = ?');
+    params.push(query.actor_type);
+  }
+  if (query.actor_id !== undefined) {
+    conditions.push('a.actor_id = ?');
+    params.push(query.actor_id);
+  }
+  if (query.resource_type !== undefined) {
+    conditions.push('a.resource_type = ?');
+    params.push(query.resource_type);
+  }
+  if (query.action !== undefined) {
+    conditions.push('a.action = ?');
+    params.push(query.action);
+  }
+  if (query.from !== undefined) {
+    conditions.push('a.created_at >= ?');
+    params.push(query.from);
+  }
+  if (query.to !== undefined) {
+    conditions.push('a.created_at <= ?');
+    params.push(query.to);
+  }
+  if (query.before !== undefined) {
+    conditions.push('a.id < ?');
+    params.push(query.before);
+  }
+
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const entries = db.prepare(`
+    SELECT a.*,
+      CASE a.actor_type
+        WHEN 'therapist' THEN t.first_name || ' ' || t.last_name
+        WHEN 'child' THEN ac.first_name || ' ' || ac.last_name
+        WHEN 'member' THEN m.name
+      END as actor_name,
+      s.first_name || ' ' || s.last_name as student_name
+    FROM audit_log a
+    LEFT JOIN therapists t ON a.actor_type = 'therapist' AND t.id = a.actor_id
+    LEFT JOIN children ac ON a.actor_type = 'child' AND ac.id = a.actor_id
+    LEFT JOIN therapist_members m ON a.actor_type = 'member' AND m.id = a.actor_id
+    LEFT JOIN children s ON s.id = a.student_id
+    ${where}
+    ORDER BY a.id DESC
+    LIMIT ?
+  `).all(...params, limit + 1) as AuditLogEntry[];
+
+  const hasMore = entries.length > limit;
+  const page = hasMore ? entries.slice(0, limit) : entries;
+
+  return {
+    entries: page,
+    next_before: hasMore ? page[page.length - 1].id : null,
+  };
+}
+
+/**
+ * Everyone who appears in an organization's audit log (for filtering)
+ */
+export function listAuditActors(organizationId: number): AuditActor[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT a.actor_type, a.actor_id,
+      CASE a.actor_type
+        WHEN 'therapist' THEN t.first_name || ' ' || t.last_name
+        WHEN 'child' THEN c.first_name || ' ' || c.last_name
+        WHEN 'member' THEN m.name
+      END as actor_name,
+      COUNT(*) as event_count
+    FROM audit_log a
+    LEFT JOIN therapists t ON a.actor_type = 'therapist' AND t.id = a.actor_id
+    LEFT JOIN children c ON a.actor_type = 'child' AND c.id = a.actor_id
+    LEFT JOIN therapist_members m ON a.actor_type = 'member' AND m.id = a.actor_id
+    WHERE a.organization_id = ? AND a.actor_id IS NOT NULL
+    GROUP BY a.actor_type, a.actor_id
+    ORDER BY a.actor_type, actor_name
+  `).all(organizationId) as AuditActor[];
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Walk the whole chain and recompute every hash
+ */
+export function verifyAuditChain(): AuditChainVerification {
+  const db = getDatabase();
+  const rows = db
+    .prepare('SELECT * FROM audit_log ORDER BY id ASC')
+    .iterate() as IterableIterator<AuditRow>;
+
+  let expectedPrev = GENESIS_HASH;
+  let checked = 0;
+
+  for (const row of rows) {
+    const { id, created_at, prev_hash, hash, ...event } = row;
+    if (prev_hash !== expectedPrev || computeHash(prev_hash, created_at, event) !== hash) {
+      return { valid: false, checked, first_broken_id: id };
+    }
+    expectedPrev = hash;
+    checked++;
+  }
+
+  return { valid: true, checked, first_broken_id: null };
+}
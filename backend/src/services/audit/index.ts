@@ -0,0 +1,12 @@
+/**
+ * Audit Services
+ * Re-exports PHI access audit log services
+ */
+
+export {
+  GENESIS_HASH,
+  recordAuditEvent,
+  queryAuditLog,
+  listAuditActors,
+  verifyAuditChain,
+} from './audit.js';
@@ -0,0 +1,58 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type Database from 'better-sqlite3';
+import { setupTestDatabase } from '../../test/database.js';
+import { loginTherapist, registerTherapist } from './auth.js';
+import { requestPasswordReset } from './password-reset.js';
+
+let db: Database.Database;
+const password = 'correct horse battery';
+
+before(() => {
+  db = setupTestDatabase();
+});
+
+function resetTokenCount(therapistId: number): number {
+  const row = db.prepare(`
+    SELECT COUNT(*) AS count FROM password_reset_tokens WHERE subject_type = 'therapist' AND subject_id = ?
+  `).get(therapistId) as { count: number };
+  return row.count;
+}
+
+test('a therapist email is stored lowercase and cannot be registered twice in another case', async () => {
+  const { therapist } = await registerTherapist({
+    email: ' Jane.Doe@Example.com ', password, first_name: 'Jane', last_name: 'Doe',
+  });
+  assert.equal(therapist.email, 'jane.doe@example.com');
+
+  await assert.rejects(
+    registerTherapist({ email: 'JANE.DOE@example.com', password, first_name: 'Jane', last_name: 'Again' }),
+    /Email already registered/
+  );
+});
+
+test('login and password reset match a therapist email regardless of case', async () => {
+  const { therapist } = await registerTherapist({
+    email: 'sam.lee@example.com', password, first_name: 'Sam', last_name: 'Lee',
+  });
+
+  const result = await loginTherapist({ email: 'Sam.Lee@EXAMPLE.com', password });
+  assert.ok('therapist' in result && result.therapist.id === therapist.id);
+
+  requestPasswordReset('  SAM.LEE@example.com');
+  assert.equal(resetTokenCount(therapist.id), 1);
+});
+
+test('accounts stored with mixed case before emails were lowercased still match', async () => {
+  const { therapist } = await registerTherapist({
+    email: 'legacy@example.com', password, first_name: 'Lee', last_name: 'Gacy',
+  });
+  db.prepare('UPDATE therapists SET email = ? WHERE id = ?').run('Legacy@Example.com', therapist.id);
+
+  const result = await loginTherapist({ email: 'legacy@example.com', password });
+  assert.ok('therapist' in result && result.therapist.id === therapist.id);
+  await assert.rejects(
+    registerTherapist({ email: 'LEGACY@example.com', password, first_name: 'New', last_name: 'Person' }),
+    /Email already registered/
+  );
+});
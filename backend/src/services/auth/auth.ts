@@ -1,29 +1,42 @@
 /**
  * Auth Service
- * Handles therapist authentication only
+ * Handles therapist authentication only, including the two-factor login step
  */
 
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { getDatabase } from '../database.js';
-import { config } from '../../config/index.js';
-import type { RegisterRequest, LoginRequest, Therapist, TherapistAuthResult } from '../../types/index.js';
+import { createOrganization, practiceNameFor } from '../organization/index.js';
+import { createAuthSession, verifyAccessToken } from './tokens.js';
+import { assertAccountUnlocked, recordFailedLogin, clearAccountLockout } from './lockout.js';
+import {
+  getTwoFactorLoginStep,
+  createTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  completeChallengeEnrollment,
+} from './two-factor.js';
+import type {
+  RegisterRequest,
+  LoginRequest,
+  Therapist,
+  TherapistAuthResult,
+  TherapistLoginResult,
+  TwoFactorRecoveryCodes,
+  AuthClientInfo,
+} from '../../types/index.js';
 
 const SALT_ROUNDS = 10;
 
-function generateToken(therapistId: number): string {
-  return jwt.sign({ therapist_id: therapistId }, config.jwtSecret, {
-    expiresIn: '7d',
-  });
-}
-
-export async function registerTherapist(data: RegisterRequest): Promise<TherapistAuthResult> {
+export async function registerTherapist(
+  data: RegisterRequest,
+  client: AuthClientInfo = {}
+): Promise<TherapistAuthResult> {
   const db = getDatabase();
 
-  // Check if email already exists
+  // Emails are stored lowercase; NOCASE also matches accounts from before that
+  const email = data.email.trim().toLowerCase();
   const existing = db
-    .prepare('SELECT id FROM therapists WHERE email = ?')
-    .get(data.email);
+    .prepare('SELECT id FROM therapists WHERE email = ? COLLATE NOCASE')
+    .get(email);
 
   if (existing) {
     throw new Error('Email already registered');
@@ -32,61 +45,118 @@ export async function registerTherapist(data: RegisterRequest): Promise<Therapis
   // Hash password
   const passwordHash = await bcrypt.hash(data.password, SALT_ROUNDS);
 
-  // Insert therapist
-  const result = db
-    .prepare(
-      'INSERT INTO therapists (email, password_hash, first_name, last_name) VALUES (?, ?, ?, ?)'
-    )
-    .run(data.email, passwordHash, data.first_name, data.last_name);
-
-  const therapistId = result.lastInsertRowid as number;
+  // Insert therapist with their own practice organization
+  const therapistId = db.transaction(() => {
+    const organization = createOrganization(practiceNameFor(data.first_name, data.last_name));
+    const result = db
+      .prepare(
+        'INSERT INTO therapists (email, password_hash, first_name, last_name, organization_id) VALUES (?, ?, ?, ?, ?)'
+      )
+      .run(email, passwordHash, data.first_name, data.last_name, organization.id);
+    return result.lastInsertRowid as number;
+  })();
 
   // Get created therapist
   const therapist = getTherapistById(therapistId)!;
-  const token = generateToken(therapistId);
 
-  return { therapist, token };
+  return { therapist, ...createAuthSession('therapist', therapistId, client) };
 }
 
-export async function loginTherapist(data: LoginRequest): Promise<TherapistAuthResult> {
+/**
+ * Check a therapist's password. With two-factor on (or required by the
+ * organization) this returns a challenge for the second step instead of tokens.
+ */
+export async function loginTherapist(
+  data: LoginRequest,
+  client: AuthClientInfo = {}
+): Promise<TherapistLoginResult> {
   const db = getDatabase();
 
   // Find therapist by email
   const row = db
-    .prepare('SELECT * FROM therapists WHERE email = ?')
-    .get(data.email) as { id: number; password_hash: string } | undefined;
+    .prepare('SELECT * FROM therapists WHERE email = ? COLLATE NOCASE')
+    .get(data.email.trim().toLowerCase()) as { id: number; password_hash: string } | undefined;
 
   if (!row) {
     throw new Error('Invalid email or password');
   }
 
+  assertAccountUnlocked('therapist', row.id);
+
   // Verify password
   const valid = await bcrypt.compare(data.password, row.password_hash);
   if (!valid) {
+    recordFailedLogin('therapist', row.id);
     throw new Error('Invalid email or password');
   }
 
+  // Failures are only forgotten once the second step is passed too
+  const step = getTwoFactorLoginStep(row.id);
+  if (step) {
+    return createTwoFactorChallenge(row.id, step);
+  }
+
+  clearAccountLockout('therapist', row.id);
   const therapist = getTherapistById(row.id)!;
-  const token = generateToken(row.id);
 
-  return { therapist, token };
+  return { therapist, ...createAuthSession('therapist', row.id, client) };
+}
+
+/**
+ * Second login step: an authenticator or recovery code for the challenge
+ */
+export function completeTwoFactorLogin(
+  challengeToken: string,
+  code: string,
+  client: AuthClientInfo = {}
+): TherapistAuthResult {
+  const therapistId = verifyTwoFactorChallenge(challengeToken, code);
+  clearAccountLockout('therapist', therapistId);
+  const therapist = getTherapistById(therapistId)!;
+
+  return { therapist, ...createAuthSession('therapist', therapistId, client) };
+}
+
+/**
+ * Second login step when the organization requires two-factor and the
+ * therapist has not set it up: confirm the new authenticator, then sign in
+ */
+export function completeTwoFactorEnrollment(
+  challengeToken: string,
+  code: string,
+  client: AuthClientInfo = {}
+): TherapistAuthResult & TwoFactorRecoveryCodes {
+  const { therapist_id: therapistId, recovery_codes } = completeChallengeEnrollment(challengeToken, code);
+  clearAccountLockout('therapist', therapistId);
+  const therapist = getTherapistById(therapistId)!;
+
+  return { therapist, recovery_codes, ...createAuthSession('therapist', therapistId, client) };
 }
 
 export function getTherapistById(id: number): Therapist | null {
   const db = getDatabase();
 
   const row = db
-    .prepare('SELECT id, email, first_name, last_name, created_at FROM therapists WHERE id = ?')
+    .prepare('SELECT id, email, first_name, last_name, organization_id, created_at FROM therapists WHERE id = ?')
     .get(id) as Therapist | undefined;
 
   return row || null;
 }
 
-export function verifyToken(token: string): { therapist_id: number } | null {
-  try {
-    const decoded = jwt.verify(token, config.jwtSecret) as { therapist_id: number };
-    return decoded;
-  } catch {
-    return null;
-  }
+export function isTherapistAdmin(id: number): boolean {
+  const db = getDatabase();
+
+  const row = db
+    .prepare('SELECT is_admin FROM therapists WHERE id = ?')
+    .get(id) as { is_admin: number } | undefined;
+
+  return row?.is_admin === 1;
+}
+
+/**
+ * Verify a therapist access token (rejects tokens whose session was revoked)
+ */
+export function verifyToken(token: string): { therapist_id: number; session_id: string } | null {
+  const verified = verifyAccessToken('therapist', token);
+  return verified ? { therapist_id: verified.subject_id, session_id: verified.session_id } : null;
 }
@@ -1,6 +1,45 @@
 export {
   registerTherapist,
   loginTherapist,
+  completeTwoFactorLogin,
+  completeTwoFactorEnrollment,
   getTherapistById,
+  isTherapistAdmin,
   verifyToken,
 } from './auth.js';
+
+export {
+  createAuthSession,
+  rotateRefreshToken,
+  verifyAccessToken,
+  isAuthSessionActive,
+  revokeAuthSession,
+  listActiveAuthSessions,
+  revokeSubjectAuthSession,
+  revokeAllAuthSessions,
+  deleteAuthSessions,
+} from './tokens.js';
+
+export {
+  requestPasswordReset,
+  getPasswordResetSubject,
+  completePasswordReset,
+  deletePasswordResetTokens,
+} from './password-reset.js';
+
+export {
+  getAccountLockedUntil,
+  assertAccountUnlocked,
+  recordFailedLogin,
+  clearAccountLockout,
+} from './lockout.js';
+
+export {
+  isTwoFactorEnabled,
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  beginChallengeEnrollment,
+} from './two-factor.js';
@@ -0,0 +1,104 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import bcryptjs from 'bcryptjs';
+import type Database from 'better-sqlite3';
+import { createTestTherapist, setupTestDatabase } from '../../test/database.js';
+import { createMember, loginMember } from '../member/index.js';
+import { completePasswordReset } from './password-reset.js';
+import {
+  assertAccountUnlocked,
+  clearAccountLockout,
+  getAccountLockedUntil,
+  recordFailedLogin,
+} from './lockout.js';
+
+const MINUTE = 60 * 1000;
+
+let db: Database.Database;
+
+function failTimes(subjectId: number, times: number): void {
+  for (let i = 0; i < times; i++) {
+    recordFailedLogin('therapist', subjectId);
+  }
+}
+
+function lockedForMs(subjectId: number): number | null {
+  const lockedUntil = getAccountLockedUntil('therapist', subjectId);
+  return lockedUntil ? new Date(lockedUntil).getTime() - Date.now() : null;
+}
+
+before(() => {
+  mock.timers.enable({ apis: ['Date'], now: new Date('2026-03-02T09:00:00Z').getTime() });
+  db = setupTestDatabase();
+});
+
+after(() => {
+  mock.timers.reset();
+});
+
+test('five failures in a row lock the account, each lock longer than the last', () => {
+  failTimes(1, 4);
+  assert.equal(lockedForMs(1), null);
+
+  for (const minutes of [1, 5, 15, 60, 60]) {
+    failTimes(1, 1);
+    assert.equal(lockedForMs(1), minutes * MINUTE);
+    assert.throws(() => assertAccountUnlocked('therapist', 1), /Account locked/);
+
+    mock.timers.tick(minutes * MINUTE + 1);
+    assert.equal(lockedForMs(1), null, `the ${minutes} minute lock runs out`);
+    failTimes(1, 4);
+  }
+});
+
+test('a day without failures starts the escalation over', () => {
+  failTimes(2, 5);
+  mock.timers.tick(MINUTE + 1);
+  failTimes(2, 5);
+  assert.equal(lockedForMs(2), 5 * MINUTE);
+
+  mock.timers.tick(24 * 60 * MINUTE + 1);
+  failTimes(2, 4);
+  assert.equal(lockedForMs(2), null, 'the old failures no longer count');
+  failTimes(2, 1);
+  assert.equal(lockedForMs(2), MINUTE);
+});
+
+test('clearing an account forgets its failures and reports whether it was locked', () => {
+  failTimes(3, 5);
+  assert.equal(clearAccountLockout('therapist', 3), true);
+  assert.equal(clearAccountLockout('therapist', 3), false);
+
+  failTimes(3, 4);
+  assert.equal(clearAccountLockout('therapist', 3), false);
+  failTimes(3, 1);
+  assert.equal(lockedForMs(3), null, 'the count started over');
+});
+
+test('member logins lock after repeated failures until a password reset', async () => {
+  const owner = await createTestTherapist();
+  const member = createMember(owner.organization_id!, { name: 'Sam SLP', email: 'sam@example.com', roles: ['SLP'] });
+  db.prepare('UPDATE therapist_members SET password_hash = ?, activated_at = ? WHERE id = ?')
+    .run(await bcryptjs.hash('right password', 4), new Date().toISOString(), member.id);
+
+  for (let i = 0; i < 5; i++) {
+    await assert.rejects(loginMember({ email: 'sam@example.com', password: 'wrong' }), /Invalid email or password/);
+  }
+  await assert.rejects(loginMember({ email: 'sam@example.com', password: 'right password' }), /Account locked/);
+
+  const token = 'reset-token';
+  db.prepare(`
+    INSERT INTO password_reset_tokens (subject_type, subject_id, token_hash, created_at, expires_at)
+    VALUES ('member', ?, ?, ?, ?)
+  `).run(
+    member.id,
+    crypto.createHash('sha256').update(token).digest('hex'),
+    new Date().toISOString(),
+    new Date(Date.now() + 60 * MINUTE).toISOString()
+  );
+  await completePasswordReset(token, 'new password');
+
+  const result = await loginMember({ email: 'sam@example.com', password: 'new password' });
+  assert.equal(result.member.id, member.id);
+});
@@ -0,0 +1,102 @@
+/**
+ * Account Lockout Service
+ * Locks therapist, member and child accounts after repeated failed logins
+ *
+ * Every wrong password, picture sequence or two-factor code counts against the
+ * account, whichever IP it came from. After lockoutThreshold misses in a row
+ * the account is locked, and each lock within a day of the last failure lasts
+ * longer than the one before. A successful login, a password reset or (for
+ * children) the therapist unlocking the account clears it.
+ */
+
+import { getDatabase } from '../database.js';
+import { config } from '../../config/index.js';
+import type { LockableSubjectType } from '../../types/index.js';
+
+// Shown instead of checking the credentials while the account is locked
+const LOCKED_MESSAGES: Record<LockableSubjectType, string> = {
+  therapist: 'Account locked after too many failed logins, please try again later or reset your password',
+  member: 'Account locked after too many failed logins, please try again later or reset your password',
+  child: 'Too many tries, please ask your therapist to unlock your account',
+};
+
+interface LockoutRow {
+  failed_attempts: number;
+  lockouts: number;
+  locked_until: string | null;
+  last_failed_at: string;
+}
+
+function getLockoutRow(subjectType: LockableSubjectType, subjectId: number): LockoutRow | undefined {
+  return getDatabase()
+    .prepare(`
+      SELECT failed_attempts, lockouts, locked_until, last_failed_at FROM account_lockouts
+      WHERE subject_type = ? AND subject_id = ?
+    `)
+    .get(subjectType, subjectId) as LockoutRow | undefined;
+}
+
+/**
+ * When the account's current lock ends, or null if it is not locked
+ */
+export function getAccountLockedUntil(subjectType: LockableSubjectType, subjectId: number): string | null {
+  const lockedUntil = getLockoutRow(subjectType, subjectId)?.locked_until;
+  return lockedUntil && lockedUntil > new Date().toISOString() ? lockedUntil : null;
+}
+
+/**
+ * Refuse to go on while the account is locked
+ */
+export function assertAccountUnlocked(subjectType: LockableSubjectType, subjectId: number): void {
+  if (getAccountLockedUntil(subjectType, subjectId)) {
+    throw new Error(LOCKED_MESSAGES[subjectType]);
+  }
+}
+
+/**
+ * Count a failed login, locking the account once too many have failed in a row
+ */
+export function recordFailedLogin(subjectType: LockableSubjectType, subjectId: number): void {
+  const db = getDatabase();
+  const { lockoutThreshold, lockoutDurationsMs, lockoutResetMs } = config.auth;
+
+  db.transaction(() => {
+    const now = new Date();
+    const row = getLockoutRow(subjectType, subjectId);
+
+    // A day without failures starts the escalation over
+    const stale = !row || now.getTime() - new Date(row.last_failed_at).getTime() > lockoutResetMs;
+    let failedAttempts = (stale ? 0 : row.failed_attempts) + 1;
+    let lockouts = stale ? 0 : row.lockouts;
+    let lockedUntil = stale ? null : row.locked_until;
+
+    if (failedAttempts >= lockoutThreshold) {
+      const duration = lockoutDurationsMs[Math.min(lockouts, lockoutDurationsMs.length - 1)];
+      lockedUntil = new Date(now.getTime() + duration).toISOString();
+      lockouts++;
+      failedAttempts = 0;
+    }
+
+    db.prepare(`
+      INSERT INTO account_lockouts (subject_type, subject_id, failed_attempts, lockouts, locked_until, last_failed_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(subject_type, subject_id) DO UPDATE SET
+        failed_attempts = excluded.failed_attempts,
+        lockouts = excluded.lockouts,
+        locked_until = excluded.locked_until,
+        last_failed_at = excluded.last_failed_at
+    `).run(subjectType, subjectId, failedAttempts, lockouts, lockedUntil, now.toISOString());
+  })();
+}
+
+/**
+ * Forget an account's failed logins and any lock (successful login, password
+ * reset, unlock, account deleted). Returns whether the account was locked.
+ */
+export function clearAccountLockout(subjectType: LockableSubjectType, subjectId: number): boolean {
+  const wasLocked = getAccountLockedUntil(subjectType, subjectId) !== null;
+  getDatabase()
+    .prepare('DELETE FROM account_lockouts WHERE subject_type = ? AND subject_id = ?')
+    .run(subjectType, subjectId);
+  return wasLocked;
+}
@@ -0,0 +1,185 @@
+/**
+ * Password Reset Service
+ * Emailed, expiring, single-use reset links for therapists and members
+ *
+ * Requests never reveal whether an email has an account; members who have not
+ * accepted their invite yet have no password to reset. A completed reset
+ * invalidates the subject's other outstanding links and signs out every
+ * device, since whoever held the old password may still be signed in.
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { getDatabase } from '../database.js';
+import { config } from '../../config/index.js';
+import { sendMail } from '../mail/index.js';
+import { revokeAllAuthSessions } from './tokens.js';
+import { clearAccountLockout } from './lockout.js';
+import { logger } from '../../utils/logger.js';
+import type { PasswordResetSubject, PasswordResetSubjectType } from '../../types/index.js';
+
+const PASSWORD_TABLES: Record<PasswordResetSubjectType, 'therapists' | 'therapist_members'> = {
+  therapist: 'therapists',
+  member: 'therapist_members',
+};
+
+interface ResetAccount extends PasswordResetSubject {
+  email: string;
+  name: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Therapist and member accounts using an email (the same address may have both)
+ */
+function findAccountsByEmail(email: string): ResetAccount[] {
+  const db = getDatabase();
+  const accounts: ResetAccount[] = [];
+
+  const therapist = db
+    .prepare('SELECT id, email, first_name FROM therapists WHERE email = ? COLLATE NOCASE')
+    .get(email.trim().toLowerCase()) as { id: number; email: string; first_name: string } | undefined;
+  if (therapist) {
+    accounts.push({ subject_type: 'therapist', subject_id: therapist.id, email: therapist.email, name: therapist.first_name });
+  }
+
+  const member = db
+    .prepare('SELECT id, email, name FROM therapist_members WHERE email = ? AND activated_at IS NOT NULL')
+    .get(email.trim().toLowerCase()) as { id: number; email: string; name: string } | undefined;
+  if (member) {
+    accounts.push({ subject_type: 'member', subject_id: member.id, email: member.email, name: member.name });
+  }
+
+  return accounts;
+}
+
+/**
+ * Store a new reset token for an account, replacing any unused ones
+ */
+function issueResetToken(account: PasswordResetSubject, ip: string | undefined): string {
+  const db = getDatabase();
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  db.transaction(() => {
+    // Clear out spent and expired tokens as we go, and any earlier link for this account
+    db.prepare('DELETE FROM password_reset_tokens WHERE used_at IS NOT NULL OR expires_at <= ?').run(now.toISOString());
+    db.prepare('DELETE FROM password_reset_tokens WHERE subject_type = ? AND subject_id = ?')
+      .run(account.subject_type, account.subject_id);
+    db.prepare(`
+      INSERT INTO password_reset_tokens (subject_type, subject_id, token_hash, ip, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      account.subject_type,
+      account.subject_id,
+      hashToken(token),
+      ip ?? null,
+      now.toISOString(),
+      new Date(now.getTime() + config.auth.passwordResetTtlMs).toISOString()
+    );
+  })();
+
+  return token;
+}
+
+function resetEmail(account: ResetAccount, token: string): { subject: string; text: string } {
+  const link = `${config.appUrl}/therapist.html?reset_token=${encodeURIComponent(token)}`;
+  const minutes = Math.round(config.auth.passwordResetTtlMs / 60000);
+  return {
+    subject: 'Reset your PIPER password',
+    text: [
+      `Hi ${account.name},`,
+      '',
+      'Someone asked to reset the password for your PIPER account. To choose a new password, open this link:',
+      '',
+      link,
+      '',
+      `The link works once and expires in ${minutes} minutes. If you did not ask for this, you can ignore this email; your password has not changed.`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Email a reset link to every account using this address
+ *
+ * Mail is sent in the background so the caller returns just as fast (and the
+ * same way) whether or not an account exists; delivery failures are logged.
+ */
+export function requestPasswordReset(email: string, client: { ip?: string } = {}): void {
+  for (const account of findAccountsByEmail(email)) {
+    const token = issueResetToken(account, client.ip);
+    sendMail({ to: account.email, ...resetEmail(account, token) }).catch((error) => {
+      logger
+        .child({ subject_type: account.subject_type, subject_id: account.subject_id })
+        .error('Failed to send password reset email:', error);
+    });
+  }
+}
+
+/**
+ * The account a reset token belongs to, or null if it is unknown, used or expired
+ */
+export function getPasswordResetSubject(token: string): PasswordResetSubject | null {
+  const row = getDatabase()
+    .prepare(`
+      SELECT subject_type, subject_id FROM password_reset_tokens
+      WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+    `)
+    .get(hashToken(token), new Date().toISOString()) as PasswordResetSubject | undefined;
+  return row ?? null;
+}
+
+/**
+ * Set a new password with a reset token, spending the token and signing the
+ * account out everywhere
+ */
+export async function completePasswordReset(token: string, password: string): Promise<PasswordResetSubject> {
+  const passwordHash = await bcrypt.hash(password, config.auth.saltRounds);
+  const db = getDatabase();
+  const now = new Date().toISOString();
+
+  const subject = db.transaction(() => {
+    // Re-checked inside the transaction so two concurrent requests cannot both use the token
+    const row = db.prepare(`
+      SELECT id, subject_type, subject_id FROM password_reset_tokens
+      WHERE token_hash = ? AND used_at IS NULL AND expires_at > ?
+    `).get(hashToken(token), now) as (PasswordResetSubject & { id: number }) | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const result = db
+      .prepare(`UPDATE ${PASSWORD_TABLES[row.subject_type]} SET password_hash = ? WHERE id = ?`)
+      .run(passwordHash, row.subject_id);
+    if (result.changes === 0) {
+      return null;
+    }
+
+    db.prepare('UPDATE password_reset_tokens SET used_at = ? WHERE id = ?').run(now, row.id);
+    db.prepare(`
+      DELETE FROM password_reset_tokens WHERE subject_type = ? AND subject_id = ? AND id != ?
+    `).run(row.subject_type, row.subject_id, row.id);
+    revokeAllAuthSessions(row.subject_type, row.subject_id);
+    // Whoever proves they own the email gets back in straight away
+    clearAccountLockout(row.subject_type, row.subject_id);
+
+    return { subject_type: row.subject_type, subject_id: row.subject_id };
+  })();
+
+  if (!subject) {
+    throw new Error('Invalid or expired reset link');
+  }
+  return subject;
+}
+
+/**
+ * Remove outstanding reset links for an account that is being deleted
+ */
+export function deletePasswordResetTokens(subjectType: PasswordResetSubjectType, subjectId: number): void {
+  getDatabase()
+    .prepare('DELETE FROM password_reset_tokens WHERE subject_type = ? AND subject_id = ?')
+    .run(subjectType, subjectId);
+}
@@ -0,0 +1,101 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import { setupTestDatabase } from '../../test/database.js';
+import {
+  createAuthSession,
+  rotateRefreshToken,
+  verifyAccessToken,
+  revokeAuthSession,
+} from './tokens.js';
+
+let db: Database.Database;
+
+before(() => {
+  db = setupTestDatabase();
+});
+
+function sessionIdOf(token: string): string {
+  return verifyAccessToken('therapist', token)!.session_id;
+}
+
+// Pretend a refresh token was used some time ago
+function markUsed(refreshToken: string, msAgo: number): void {
+  db.prepare('UPDATE refresh_tokens SET used_at = ? WHERE token_hash = ?').run(
+    new Date(Date.now() - msAgo).toISOString(),
+    crypto.createHash('sha256').update(refreshToken).digest('hex')
+  );
+}
+
+test('a refresh token is exchanged for a new pair on the same session', () => {
+  const first = createAuthSession('therapist', 1);
+  const rotated = rotateRefreshToken('therapist', first.refresh_token);
+
+  assert.equal(rotated.subject_type, 'therapist');
+  assert.equal(rotated.subject_id, 1);
+  assert.notEqual(rotated.tokens.refresh_token, first.refresh_token);
+  assert.equal(sessionIdOf(rotated.tokens.token), sessionIdOf(first.token));
+
+  // The new refresh token works in turn
+  rotateRefreshToken('therapist', rotated.tokens.refresh_token);
+});
+
+test('a token used again within the grace window is a concurrent refresh', () => {
+  const first = createAuthSession('therapist', 2);
+  rotateRefreshToken('therapist', first.refresh_token);
+  const again = rotateRefreshToken('therapist', first.refresh_token);
+
+  assert.ok(verifyAccessToken('therapist', again.tokens.token));
+  assert.ok(verifyAccessToken('therapist', first.token));
+});
+
+test('a token reused after the grace window revokes the whole session', () => {
+  const first = createAuthSession('therapist', 3);
+  const rotated = rotateRefreshToken('therapist', first.refresh_token);
+  markUsed(first.refresh_token, 60 * 1000);
+
+  assert.throws(() => rotateRefreshToken('therapist', first.refresh_token), /Invalid refresh token/);
+
+  // Neither the thief's copy nor the legitimate newer tokens work any more
+  assert.throws(() => rotateRefreshToken('therapist', rotated.tokens.refresh_token), /Invalid refresh token/);
+  assert.equal(verifyAccessToken('therapist', first.token), null);
+  assert.equal(verifyAccessToken('therapist', rotated.tokens.token), null);
+});
+
+test('reuse on one session leaves the subject\'s other sessions signed in', () => {
+  const stolen = createAuthSession('therapist', 4);
+  const other = createAuthSession('therapist', 4);
+  rotateRefreshToken('therapist', stolen.refresh_token);
+  markUsed(stolen.refresh_token, 60 * 1000);
+
+  assert.throws(() => rotateRefreshToken('therapist', stolen.refresh_token));
+  assert.ok(verifyAccessToken('therapist', other.token));
+  rotateRefreshToken('therapist', other.refresh_token);
+});
+
+test('refresh is refused after logout, for another subject type and for unknown tokens', () => {
+  const session = createAuthSession('therapist', 5);
+  assert.throws(() => rotateRefreshToken('child', session.refresh_token), /Invalid refresh token/);
+  assert.throws(() => rotateRefreshToken('therapist', 'not-a-token'), /Invalid refresh token/);
+
+  assert.equal(revokeAuthSession(sessionIdOf(session.token)), true);
+  assert.throws(() => rotateRefreshToken('therapist', session.refresh_token), /Invalid refresh token/);
+  assert.equal(verifyAccessToken('therapist', session.token), null);
+});
+
+test('an expired session cannot be refreshed', () => {
+  const session = createAuthSession('therapist', 6);
+  db.prepare('UPDATE auth_sessions SET expires_at = ? WHERE id = ?')
+    .run(new Date(Date.now() - 1000).toISOString(), sessionIdOf(session.token));
+
+  assert.throws(() => rotateRefreshToken('therapist', session.refresh_token), /Invalid refresh token/);
+});
+
+test('the dashboard endpoint accepts therapists and members alike', () => {
+  const member = createAuthSession('member', 7);
+  const rotated = rotateRefreshToken(['therapist', 'member'], member.refresh_token);
+  assert.equal(rotated.subject_type, 'member');
+  assert.equal(verifyAccessToken('therapist', rotated.tokens.token), null);
+  assert.ok(verifyAccessToken('member', rotated.tokens.token));
+});
@@ -0,0 +1,281 @@
+/**
+ * Auth Session Service
+ * Issues access and refresh tokens and keeps the server-side revocation list
+ *
+ * Each login opens a row in auth_sessions. Access tokens are short-lived JWTs
+ * carrying the session id (`sid`); they are only accepted while that session
+ * is not revoked. Refresh tokens are random strings stored as SHA-256 hashes
+ * and are single use: every refresh marks the presented token used and issues
+ * a new one.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getDatabase } from '../database.js';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import type { AuthSubjectType, AuthClientInfo, AuthTokens, ActiveAuthSession } from '../../types/index.js';
+
+// JWT claim that names the subject (unchanged from the original token payloads)
+const SUBJECT_CLAIMS: Record<AuthSubjectType, 'therapist_id' | 'child_id' | 'member_id'> = {
+  therapist: 'therapist_id',
+  child: 'child_id',
+  member: 'member_id',
+};
+
+// A used refresh token presented again within this window is a concurrent
+// refresh (two tabs, a retried request) rather than theft
+const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+const MAX_USER_AGENT_LENGTH = 512;
+
+interface RefreshTokenRow {
+  id: number;
+  used_at: string | null;
+  session_id: string;
+  subject_type: AuthSubjectType;
+  subject_id: number;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function signAccessToken(subjectType: AuthSubjectType, subjectId: number, sessionId: string): string {
+  return jwt.sign(
+    { [SUBJECT_CLAIMS[subjectType]]: subjectId, sid: sessionId },
+    config.jwtSecret,
+    { expiresIn: config.auth.accessTokenTtlSeconds }
+  );
+}
+
+/**
+ * Store a new refresh token for a session and return its plaintext
+ */
+function addRefreshToken(sessionId: string, now: Date): string {
+  const refreshToken = crypto.randomBytes(32).toString('base64url');
+  getDatabase()
+    .prepare('INSERT INTO refresh_tokens (session_id, token_hash, created_at) VALUES (?, ?, ?)')
+    .run(sessionId, hashToken(refreshToken), now.toISOString());
+  return refreshToken;
+}
+
+/**
+ * Open an auth session and issue its first access/refresh pair
+ */
+export function createAuthSession(
+  subjectType: AuthSubjectType,
+  subjectId: number,
+  client: AuthClientInfo = {}
+): AuthTokens {
+  const db = getDatabase();
+  const sessionId = crypto.randomUUID();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + config.auth.refreshTokenTtlMs);
+
+  const refreshToken = db.transaction(() => {
+    // Expired sessions can no longer be refreshed; drop them (and their tokens) as we go
+    db.prepare('DELETE FROM auth_sessions WHERE expires_at <= ?').run(now.toISOString());
+
+    db.prepare(`
+      INSERT INTO auth_sessions (id, subject_type, subject_id, user_agent, ip, created_at, last_used_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      sessionId,
+      subjectType,
+      subjectId,
+      client.user_agent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+      client.ip ?? null,
+      now.toISOString(),
+      now.toISOString(),
+      expiresAt.toISOString()
+    );
+
+    return addRefreshToken(sessionId, now);
+  })();
+
+  return {
+    token: signAccessToken(subjectType, subjectId, sessionId),
+    refresh_token: refreshToken,
+    expires_in: config.auth.accessTokenTtlSeconds,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh pair
+ *
+ * Each use pushes the session's expiry out by the refresh TTL. A token that was
+ * already used (outside the short grace window) means a stale copy is in
+ * someone else's hands, so the whole session is revoked. The dashboard refresh
+ * endpoint serves therapists and members, so several subject types may be allowed.
+ */
+export function rotateRefreshToken(
+  subjectTypes: AuthSubjectType | readonly AuthSubjectType[],
+  refreshToken: string
+): { subject_type: AuthSubjectType; subject_id: number; tokens: AuthTokens } {
+  const allowedTypes: readonly AuthSubjectType[] = typeof subjectTypes === 'string' ? [subjectTypes] : subjectTypes;
+  const db = getDatabase();
+  const now = new Date();
+
+  const outcome = db.transaction(() => {
+    const row = db.prepare(`
+      SELECT r.id, r.used_at, s.id as session_id, s.subject_type, s.subject_id, s.expires_at, s.revoked_at
+      FROM refresh_tokens r
+      JOIN auth_sessions s ON s.id = r.session_id
+      WHERE r.token_hash = ?
+    `).get(hashToken(refreshToken)) as RefreshTokenRow | undefined;
+
+    if (!row || !allowedTypes.includes(row.subject_type) || row.revoked_at || row.expires_at <= now.toISOString()) {
+      return { status: 'invalid' as const };
+    }
+
+    if (row.used_at && now.getTime() - new Date(row.used_at).getTime() > REFRESH_REUSE_GRACE_MS) {
+      db.prepare('UPDATE auth_sessions SET revoked_at = ? WHERE id = ?').run(now.toISOString(), row.session_id);
+      return { status: 'reused' as const, row };
+    }
+
+    db.prepare('UPDATE refresh_tokens SET used_at = COALESCE(used_at, ?) WHERE id = ?')
+      .run(now.toISOString(), row.id);
+    db.prepare('UPDATE auth_sessions SET last_used_at = ?, expires_at = ? WHERE id = ?').run(
+      now.toISOString(),
+      new Date(now.getTime() + config.auth.refreshTokenTtlMs).toISOString(),
+      row.session_id
+    );
+
+    return { status: 'rotated' as const, row, refreshToken: addRefreshToken(row.session_id, now) };
+  })();
+
+  if (outcome.status === 'reused') {
+    logger
+      .child({
+        session_id: outcome.row.session_id,
+        subject_type: outcome.row.subject_type,
+        subject_id: outcome.row.subject_id,
+      })
+      .warn('Refresh token reused; auth session revoked');
+  }
+  if (outcome.status !== 'rotated') {
+    throw new Error('Invalid refresh token');
+  }
+
+  return {
+    subject_type: outcome.row.subject_type,
+    subject_id: outcome.row.subject_id,
+    tokens: {
+      token: signAccessToken(outcome.row.subject_type, outcome.row.subject_id, outcome.row.session_id),
+      refresh_token: outcome.refreshToken,
+      expires_in: config.auth.accessTokenTtlSeconds,
+    },
+  };
+}
+
+/**
+ * Verify an access token's signature and expiry, then check the revocation list
+ *
+ * Tokens issued before auth sessions existed carry no `sid` and are rejected.
+ */
+export function verifyAccessToken(
+  subjectType: AuthSubjectType,
+  token: string
+): { subject_id: number; session_id: string } | null {
+  let decoded: jwt.JwtPayload;
+  try {
+    const verified = jwt.verify(token, config.jwtSecret);
+    if (typeof verified === 'string') {
+      return null;
+    }
+    decoded = verified;
+  } catch {
+    return null;
+  }
+
+  const subjectId = decoded[SUBJECT_CLAIMS[subjectType]];
+  const sessionId = decoded.sid;
+  if (typeof subjectId !== 'number' || typeof sessionId !== 'string') {
+    return null;
+  }
+
+  return isAuthSessionActive(sessionId, subjectType, subjectId)
+    ? { subject_id: subjectId, session_id: sessionId }
+    : null;
+}
+
+/**
+ * True unless the session was revoked, pruned, or belongs to someone else
+ */
+export function isAuthSessionActive(sessionId: string, subjectType: AuthSubjectType, subjectId: number): boolean {
+  const row = getDatabase()
+    .prepare('SELECT subject_type, subject_id, revoked_at FROM auth_sessions WHERE id = ?')
+    .get(sessionId) as { subject_type: AuthSubjectType; subject_id: number; revoked_at: string | null } | undefined;
+
+  return !!row && row.subject_type === subjectType && row.subject_id === subjectId && row.revoked_at === null;
+}
+
+/**
+ * Revoke one session (logout). Returns false if it was already revoked or unknown.
+ */
+export function revokeAuthSession(sessionId: string): boolean {
+  const result = getDatabase()
+    .prepare('UPDATE auth_sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+    .run(new Date().toISOString(), sessionId);
+  return result.changes > 0;
+}
+
+/**
+ * Sessions still signed in for a subject, most recently used first
+ *
+ * last_used_at moves on at every token refresh, so it trails actual use by at
+ * most an access token's lifetime.
+ */
+export function listActiveAuthSessions(
+  subjectType: AuthSubjectType,
+  subjectId: number,
+  currentSessionId?: string
+): ActiveAuthSession[] {
+  const rows = getDatabase()
+    .prepare(`
+      SELECT id, user_agent, ip, created_at, last_used_at FROM auth_sessions
+      WHERE subject_type = ? AND subject_id = ? AND revoked_at IS NULL AND expires_at > ?
+      ORDER BY last_used_at DESC
+    `)
+    .all(subjectType, subjectId, new Date().toISOString()) as Omit<ActiveAuthSession, 'current'>[];
+  return rows.map((row) => ({ ...row, current: row.id === currentSessionId }));
+}
+
+/**
+ * Sign one of a subject's devices out. Returns false if the session is not
+ * theirs or was already revoked.
+ */
+export function revokeSubjectAuthSession(subjectType: AuthSubjectType, subjectId: number, sessionId: string): boolean {
+  const result = getDatabase()
+    .prepare(`
+      UPDATE auth_sessions SET revoked_at = ?
+      WHERE id = ? AND subject_type = ? AND subject_id = ? AND revoked_at IS NULL
+    `)
+    .run(new Date().toISOString(), sessionId, subjectType, subjectId);
+  return result.changes > 0;
+}
+
+/**
+ * Revoke every open session for a therapist, member or child ("sign out all devices")
+ */
+export function revokeAllAuthSessions(subjectType: AuthSubjectType, subjectId: number): number {
+  const result = getDatabase()
+    .prepare(`
+      UPDATE auth_sessions SET revoked_at = ?
+      WHERE subject_type = ? AND subject_id = ? AND revoked_at IS NULL
+    `)
+    .run(new Date().toISOString(), subjectType, subjectId);
+  return result.changes;
+}
+
+/**
+ * Remove all sessions (and refresh tokens) for a subject that is being deleted
+ */
+export function deleteAuthSessions(subjectType: AuthSubjectType, subjectId: number): void {
+  getDatabase()
+    .prepare('DELETE FROM auth_sessions WHERE subject_type = ? AND subject_id = ?')
+    .run(subjectType, subjectId);
+}
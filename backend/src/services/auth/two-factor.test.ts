@@ -0,0 +1,73 @@
+import { test, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { createTestTherapist, setupTestDatabase } from '../../test/database.js';
+import { beginTwoFactorSetup, enableTwoFactor, verifyTwoFactorCode } from './two-factor.js';
+
+const STEP_MS = 30 * 1000;
+// The middle of a step, so nothing depends on where the real clock is
+const START_STEP = 56_000_000;
+
+let therapistId: number;
+let secret: string;
+let recoveryCodes: string[];
+
+// RFC 6238 written out independently of the service
+function codeAt(step: number): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const bits = [...secret].map((char) => alphabet.indexOf(char).toString(2).padStart(5, '0')).join('');
+  const key = Buffer.from(bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)));
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  return ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).toString().padStart(6, '0');
+}
+
+function setStep(step: number): void {
+  mock.timers.setTime(step * STEP_MS + STEP_MS / 2);
+}
+
+before(async () => {
+  mock.timers.enable({ apis: ['Date'] });
+  setStep(START_STEP);
+  setupTestDatabase();
+  therapistId = (await createTestTherapist()).id;
+});
+
+after(() => {
+  mock.timers.reset();
+});
+
+test('setup only takes effect once a current code confirms it', () => {
+  secret = beginTwoFactorSetup(therapistId).secret;
+
+  assert.equal(verifyTwoFactorCode(therapistId, codeAt(START_STEP)), false, 'not on before confirmation');
+  assert.throws(() => enableTwoFactor(therapistId, codeAt(START_STEP + 2)), /Invalid code/);
+  assert.throws(() => enableTwoFactor(therapistId, 'abcdef'), /Invalid code/);
+
+  recoveryCodes = enableTwoFactor(therapistId, codeAt(START_STEP)).recovery_codes;
+  assert.equal(recoveryCodes.length, 10);
+  assert.throws(() => beginTwoFactorSetup(therapistId), /already on/);
+});
+
+test('a code is accepted one step either side of now and never twice', () => {
+  assert.equal(verifyTwoFactorCode(therapistId, codeAt(START_STEP)), false, 'the enrollment code is spent');
+  assert.equal(verifyTwoFactorCode(therapistId, codeAt(START_STEP + 2)), false, 'two steps ahead');
+  assert.equal(verifyTwoFactorCode(therapistId, codeAt(START_STEP + 1)), true, 'one step ahead');
+  assert.equal(verifyTwoFactorCode(therapistId, codeAt(START_STEP + 1)), false, 'replayed');
+
+  setStep(START_STEP + 3);
+  assert.equal(verifyTwoFactorCode(therapistId, codeAt(START_STEP + 1)), false, 'two steps behind');
+  const [first, second] = [codeAt(START_STEP + 2), codeAt(START_STEP + 3)];
+  assert.equal(verifyTwoFactorCode(therapistId, `${first.slice(0, 3)} ${first.slice(3)}`), true, 'one step behind');
+  assert.equal(verifyTwoFactorCode(therapistId, second), true);
+  assert.equal(verifyTwoFactorCode(therapistId, first), false, 'older than the last code used');
+});
+
+test('a recovery code works once', () => {
+  const [code] = recoveryCodes;
+  assert.equal(verifyTwoFactorCode(therapistId, code.toUpperCase()), true);
+  assert.equal(verifyTwoFactorCode(therapistId, code), false);
+  assert.equal(verifyTwoFactorCode(therapistId, 'not-a-code'), false);
+});
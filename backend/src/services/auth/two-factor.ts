@@ -0,0 +1,440 @@
+/**
+ * Two-Factor Authentication Service
+ * TOTP (RFC 6238) codes and single-use recovery codes for therapist accounts
+ *
+ * Setup stores an encrypted secret that only counts once a code from the
+ * authenticator confirms it. A code is accepted one 30-second step either side
+ * of now, and never twice. At login, a correct password with two-factor on (or
+ * required by the organization) yields a short-lived challenge instead of
+ * tokens; the challenge allows a few code attempts before it is spent, and
+ * wrong codes count towards the account lockout like wrong passwords.
+ */
+
+import crypto from 'crypto';
+import { getDatabase } from '../database.js';
+import { config } from '../../config/index.js';
+import { encryptField, decryptField } from '../encryption/index.js';
+import { getOrganizationIdForTherapist, isTwoFactorRequired } from '../organization/index.js';
+import { renderQrSvg } from '../../utils/qr.js';
+import { assertAccountUnlocked, recordFailedLogin } from './lockout.js';
+import type {
+  TwoFactorChallenge,
+  TwoFactorChallengePurpose,
+  TwoFactorRecoveryCodes,
+  TwoFactorSetup,
+  TwoFactorStatus,
+} from '../../types/index.js';
+
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Steps either side of now that are still accepted (clock drift)
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+
+const RECOVERY_CODE_COUNT = 10;
+// No 0/o, 1/l/i, so codes survive being written down
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+interface TwoFactorRow {
+  secret: string;
+  enabled_at: string | null;
+  last_used_step: number | null;
+}
+
+interface ChallengeRow {
+  id: number;
+  therapist_id: number;
+  attempts: number;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// =============================================================================
+// TOTP
+// =============================================================================
+
+function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function totpAt(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return code.toString().padStart(TOTP_DIGITS, '0');
+}
+
+function currentStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * The step a code matches, or null. Steps at or before lastUsedStep are
+ * refused so an observed code cannot be used again.
+ */
+function matchTotpStep(secret: string, code: string, lastUsedStep: number | null): number | null {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) {
+    return null;
+  }
+  const key = base32Decode(secret);
+  const now = currentStep();
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    const expected = Buffer.from(totpAt(key, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function otpauthUrl(email: string, secret: string): string {
+  const issuer = config.auth.twoFactorIssuer;
+  const label = encodeURIComponent(`${issuer}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// =============================================================================
+// RECOVERY CODES
+// =============================================================================
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+function generateRecoveryCode(): string {
+  const chars = Array.from(
+    { length: 10 },
+    () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]
+  ).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+/**
+ * Replace a therapist's recovery codes with a fresh set
+ */
+function issueRecoveryCodes(therapistId: number): TwoFactorRecoveryCodes {
+  const db = getDatabase();
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM therapist_recovery_codes WHERE therapist_id = ?').run(therapistId);
+    const insert = db.prepare(
+      'INSERT INTO therapist_recovery_codes (therapist_id, code_hash, created_at) VALUES (?, ?, ?)'
+    );
+    for (const code of codes) {
+      insert.run(therapistId, hashToken(normalizeRecoveryCode(code)), now);
+    }
+  })();
+
+  return { recovery_codes: codes };
+}
+
+function useRecoveryCode(therapistId: number, code: string): boolean {
+  const result = getDatabase()
+    .prepare(`
+      UPDATE therapist_recovery_codes SET used_at = ?
+      WHERE therapist_id = ? AND code_hash = ? AND used_at IS NULL
+    `)
+    .run(new Date().toISOString(), therapistId, hashToken(normalizeRecoveryCode(code)));
+  return result.changes > 0;
+}
+
+// =============================================================================
+// ENROLLMENT
+// =============================================================================
+
+function getTwoFactorRow(therapistId: number): TwoFactorRow | undefined {
+  return getDatabase()
+    .prepare('SELECT secret, enabled_at, last_used_step FROM therapist_two_factor WHERE therapist_id = ?')
+    .get(therapistId) as TwoFactorRow | undefined;
+}
+
+export function isTwoFactorEnabled(therapistId: number): boolean {
+  return Boolean(getTwoFactorRow(therapistId)?.enabled_at);
+}
+
+export function getTwoFactorStatus(therapistId: number): TwoFactorStatus {
+  const row = getTwoFactorRow(therapistId);
+  const enabledAt = row?.enabled_at ?? null;
+  const { remaining } = getDatabase()
+    .prepare('SELECT COUNT(*) as remaining FROM therapist_recovery_codes WHERE therapist_id = ? AND used_at IS NULL')
+    .get(therapistId) as { remaining: number };
+  const organizationId = getOrganizationIdForTherapist(therapistId);
+
+  return {
+    enabled: enabledAt !== null,
+    enabled_at: enabledAt,
+    recovery_codes_remaining: enabledAt ? remaining : 0,
+    required_by_organization: organizationId !== null && isTwoFactorRequired(organizationId),
+  };
+}
+
+/**
+ * Create a new authenticator secret, replacing any setup that was not confirmed
+ * The secret is only returned here; it takes effect once enableTwoFactor confirms it.
+ */
+export function beginTwoFactorSetup(therapistId: number): TwoFactorSetup {
+  const db = getDatabase();
+  if (isTwoFactorEnabled(therapistId)) {
+    throw new Error('Two-factor authentication is already on');
+  }
+
+  const { email } = db.prepare('SELECT email FROM therapists WHERE id = ?').get(therapistId) as { email: string };
+  const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+  db.prepare(`
+    INSERT INTO therapist_two_factor (therapist_id, secret, enabled_at, last_used_step, created_at)
+    VALUES (?, ?, NULL, NULL, ?)
+    ON CONFLICT(therapist_id) DO UPDATE SET
+      secret = excluded.secret,
+      enabled_at = NULL,
+      last_used_step = NULL,
+      created_at = excluded.created_at
+  `).run(therapistId, encryptField(secret, 'therapist_two_factor.secret'), new Date().toISOString());
+
+  const url = otpauthUrl(email, secret);
+  return { secret, otpauth_url: url, qr_svg: renderQrSvg(url) };
+}
+
+/**
+ * Confirm setup with a code from the authenticator and turn two-factor on
+ * Returns the first set of recovery codes.
+ */
+export function enableTwoFactor(therapistId: number, code: string): TwoFactorRecoveryCodes {
+  const row = getTwoFactorRow(therapistId);
+  if (!row) {
+    throw new Error('Start two-factor setup first');
+  }
+  if (row.enabled_at) {
+    throw new Error('Two-factor authentication is already on');
+  }
+
+  const step = matchTotpStep(decryptField(row.secret, 'therapist_two_factor.secret'), code, null);
+  if (step === null) {
+    throw new Error('Invalid code');
+  }
+
+  getDatabase()
+    .prepare('UPDATE therapist_two_factor SET enabled_at = ?, last_used_step = ? WHERE therapist_id = ?')
+    .run(new Date().toISOString(), step, therapistId);
+
+  return issueRecoveryCodes(therapistId);
+}
+
+/**
+ * Check an authenticator code or an unused recovery code (which is then spent)
+ */
+export function verifyTwoFactorCode(therapistId: number, code: string): boolean {
+  const row = getTwoFactorRow(therapistId);
+  if (!row?.enabled_at) {
+    return false;
+  }
+
+  const digits = code.replace(/\s/g, '');
+  if (/^\d+$/.test(digits)) {
+    const step = matchTotpStep(decryptField(row.secret, 'therapist_two_factor.secret'), digits, row.last_used_step);
+    if (step === null) {
+      return false;
+    }
+    // Only moves forward, so two requests racing with the same code cannot both pass
+    const result = getDatabase()
+      .prepare(`
+        UPDATE therapist_two_factor SET last_used_step = ?
+        WHERE therapist_id = ? AND (last_used_step IS NULL OR last_used_step < ?)
+      `)
+      .run(step, therapistId, step);
+    return result.changes > 0;
+  }
+
+  return useRecoveryCode(therapistId, code);
+}
+
+/**
+ * Turn two-factor off (needs a current code); refused while the organization requires it
+ */
+export function disableTwoFactor(therapistId: number, code: string): void {
+  if (!isTwoFactorEnabled(therapistId)) {
+    throw new Error('Two-factor authentication is not on');
+  }
+  if (getTwoFactorStatus(therapistId).required_by_organization) {
+    throw new Error('Your organization requires two-factor authentication');
+  }
+  if (!verifyTwoFactorCode(therapistId, code)) {
+    throw new Error('Invalid code');
+  }
+
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare('DELETE FROM therapist_two_factor WHERE therapist_id = ?').run(therapistId);
+    db.prepare('DELETE FROM therapist_recovery_codes WHERE therapist_id = ?').run(therapistId);
+  })();
+}
+
+/**
+ * Replace the recovery codes (needs a current code); the old ones stop working
+ */
+export function regenerateRecoveryCodes(therapistId: number, code: string): TwoFactorRecoveryCodes {
+  if (!isTwoFactorEnabled(therapistId)) {
+    throw new Error('Two-factor authentication is not on');
+  }
+  if (!verifyTwoFactorCode(therapistId, code)) {
+    throw new Error('Invalid code');
+  }
+  return issueRecoveryCodes(therapistId);
+}
+
+// =============================================================================
+// LOGIN CHALLENGES
+// =============================================================================
+
+/**
+ * The second login step a therapist owes after a correct password, if any
+ */
+export function getTwoFactorLoginStep(therapistId: number): TwoFactorChallengePurpose | null {
+  const status = getTwoFactorStatus(therapistId);
+  if (status.enabled) {
+    return 'verify';
+  }
+  return status.required_by_organization ? 'enroll' : null;
+}
+
+export function createTwoFactorChallenge(therapistId: number, purpose: TwoFactorChallengePurpose): TwoFactorChallenge {
+  const db = getDatabase();
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM two_factor_challenges WHERE expires_at <= ?').run(now.toISOString());
+    db.prepare(`
+      INSERT INTO two_factor_challenges (therapist_id, token_hash, purpose, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      therapistId,
+      hashToken(token),
+      purpose,
+      now.toISOString(),
+      new Date(now.getTime() + CHALLENGE_TTL_MS).toISOString()
+    );
+  })();
+
+  return { two_factor: purpose, challenge_token: token, expires_in: CHALLENGE_TTL_MS / 1000 };
+}
+
+function getChallenge(token: string, purpose: TwoFactorChallengePurpose): ChallengeRow {
+  const row = getDatabase()
+    .prepare(`
+      SELECT id, therapist_id, attempts FROM two_factor_challenges
+      WHERE token_hash = ? AND purpose = ? AND expires_at > ?
+    `)
+    .get(hashToken(token), purpose, new Date().toISOString()) as ChallengeRow | undefined;
+  if (!row) {
+    throw new Error('Sign-in expired, please log in again');
+  }
+  return row;
+}
+
+/**
+ * Count a wrong code against the challenge, spending it after too many
+ */
+function recordFailedChallengeAttempt(challenge: ChallengeRow): void {
+  const db = getDatabase();
+  if (challenge.attempts + 1 >= MAX_CHALLENGE_ATTEMPTS) {
+    db.prepare('DELETE FROM two_factor_challenges WHERE id = ?').run(challenge.id);
+  } else {
+    db.prepare('UPDATE two_factor_challenges SET attempts = attempts + 1 WHERE id = ?').run(challenge.id);
+  }
+}
+
+function spendChallenge(challenge: ChallengeRow): void {
+  getDatabase().prepare('DELETE FROM two_factor_challenges WHERE id = ?').run(challenge.id);
+}
+
+/**
+ * Check the code for a login challenge; returns the therapist to sign in
+ * Wrong codes also count towards locking the account.
+ */
+export function verifyTwoFactorChallenge(token: string, code: string): number {
+  const challenge = getChallenge(token, 'verify');
+  assertAccountUnlocked('therapist', challenge.therapist_id);
+  if (!verifyTwoFactorCode(challenge.therapist_id, code)) {
+    recordFailedChallengeAttempt(challenge);
+    recordFailedLogin('therapist', challenge.therapist_id);
+    throw new Error('Invalid code');
+  }
+  spendChallenge(challenge);
+  return challenge.therapist_id;
+}
+
+/**
+ * Start authenticator setup for a therapist who must enroll before signing in
+ */
+export function beginChallengeEnrollment(token: string): TwoFactorSetup {
+  return beginTwoFactorSetup(getChallenge(token, 'enroll').therapist_id);
+}
+
+/**
+ * Confirm setup for a login challenge; returns the therapist to sign in and their recovery codes
+ */
+export function completeChallengeEnrollment(
+  token: string,
+  code: string
+): TwoFactorRecoveryCodes & { therapist_id: number } {
+  const challenge = getChallenge(token, 'enroll');
+  try {
+    const codes = enableTwoFactor(challenge.therapist_id, code);
+    spendChallenge(challenge);
+    return { therapist_id: challenge.therapist_id, ...codes };
+  } catch (error) {
+    recordFailedChallengeAttempt(challenge);
+    throw error;
+  }
+}
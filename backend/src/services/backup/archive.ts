@@ -0,0 +1,85 @@
+/**
+ * Backup Archive Helpers
+ * Shared layout, checksum and document-reference helpers for backup and restore
+ */
+
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import type { BackupFileEntry } from '../../types/index.js';
+import { DOCUMENT_COLUMNS, type DocumentKind } from '../storage/index.js';
+
+export const BACKUP_FORMAT_VERSION = 1;
+export const MANIFEST_FILE = 'manifest.json';
+export const DATABASE_FILE = 'piper.db';
+export const DOCUMENTS_DIR = 'documents';
+
+// Archive names produced by createBackup (also used to validate download requests)
+export const BACKUP_FILE_PATTERN = /^piper-backup-\d{8}T\d{6}Z\.tar\.gz$/;
+
+export interface DocumentReference {
+  childId: number;
+  column: string;
+  kind: DocumentKind;
+  value: string;
+}
+
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Record an archive's checksum next to it, in `sha256sum -c` format
+ */
+export async function writeChecksumFile(archivePath: string, sha256: string): Promise<void> {
+  await fs.promises.writeFile(`${archivePath}.sha256`, `${sha256}  ${path.basename(archivePath)}\n`);
+}
+
+/**
+ * The checksum recorded for an archive, or null if none was
+ */
+export async function readChecksumFile(archivePath: string): Promise<string | null> {
+  try {
+    const sha256 = (await fs.promises.readFile(`${archivePath}.sha256`, 'utf-8')).split(/\s/)[0];
+    return /^[0-9a-f]{64}$/.test(sha256) ? sha256 : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe a file inside the staging directory for the manifest
+ */
+export async function describeFile(stagingDir: string, relativePath: string): Promise<BackupFileEntry> {
+  const filePath = path.join(stagingDir, relativePath);
+  const stats = await fs.promises.stat(filePath);
+  return {
+    path: relativePath.split(path.sep).join('/'),
+    size: stats.size,
+    sha256: await sha256File(filePath),
+  };
+}
+
+/**
+ * All non-empty eval/goals PDF references in a database
+ */
+export function listDocumentReferences(db: Database.Database): DocumentReference[] {
+  const references: DocumentReference[] = [];
+  for (const { column, kind } of DOCUMENT_COLUMNS) {
+    const rows = db
+      .prepare(`SELECT id, ${column} as value FROM children WHERE ${column} IS NOT NULL AND ${column} != ''`)
+      .all() as { id: number; value: string }[];
+    for (const row of rows) {
+      references.push({ childId: row.id, column, kind, value: row.value });
+    }
+  }
+  return references;
+}
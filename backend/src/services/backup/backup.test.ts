@@ -0,0 +1,55 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import { setupTestDatabase, createTestTherapist, createTestStudent } from '../../test/database.js';
+import { buildDocumentKey, writeDocument } from '../storage/index.js';
+import { createBackup, listBackups } from './backup.js';
+import { restoreBackup } from './restore.js';
+
+let db: Database.Database;
+
+before(async () => {
+  db = setupTestDatabase();
+  const therapist = await createTestTherapist();
+
+  const student = createTestStudent(therapist.id);
+  const evalKey = buildDocumentKey('evaluations', student.id);
+  await writeDocument(evalKey, Buffer.from('%PDF-1.4'), 'application/pdf');
+  // A pre-DocumentStore path whose file is gone, like the seeded student's
+  db.prepare('UPDATE children SET eval_pdf_path = ?, goals_pdf_path = ? WHERE id = ?')
+    .run(evalKey, '/uploads/goals/lost_iep.pdf', student.id);
+});
+
+test('a document already missing at backup time does not block the restore', async () => {
+  const backup = await createBackup();
+  assert.deepEqual(backup.missing_documents, ['/uploads/goals/lost_iep.pdf']);
+
+  const dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'piper-restore-test-'));
+  try {
+    const result = await restoreBackup(backup.path, dataDir);
+
+    assert.equal(result.document_count, 1);
+    assert.deepEqual(result.unresolved_documents, []);
+    assert.equal(result.missing_documents.length, 1);
+    assert.match(result.missing_documents[0], /goals_pdf_path: \/uploads\/goals\/lost_iep\.pdf$/);
+    assert.ok(fs.existsSync(path.join(dataDir, 'piper.db')));
+  } finally {
+    await fs.promises.rm(dataDir, { recursive: true, force: true });
+  }
+});
+
+test('listed backups carry the checksum recorded when they were taken', async () => {
+  const backup = await createBackup({ outputPath: path.resolve('data/backups/piper-backup-20260301T090000Z.tar.gz') });
+  assert.equal(
+    await fs.promises.readFile(`${backup.path}.sha256`, 'utf-8'),
+    `${backup.sha256}  piper-backup-20260301T090000Z.tar.gz\n`
+  );
+
+  // A recorded checksum is trusted rather than recomputed
+  await fs.promises.writeFile(`${backup.path}.sha256`, `${'0'.repeat(64)}  ${backup.file_name}\n`);
+  const listed = (await listBackups()).find((entry) => entry.file_name === backup.file_name);
+  assert.equal(listed?.sha256, '0'.repeat(64));
+});
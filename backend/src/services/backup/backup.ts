@@ -0,0 +1,191 @@
+/**
+ * Backup Service
+ * Packages an online SQLite snapshot and every referenced PDF into one checksummed archive
+ */
+
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import Database from 'better-sqlite3';
+import * as tar from 'tar';
+import { getDatabase } from '../database.js';
+import { getCurrentVersion } from '../migrations/index.js';
+import {
+  LocalDocumentStore,
+  readStoredDocument,
+  isLegacyDocumentPath,
+  legacyDocumentKey,
+} from '../storage/index.js';
+import { config } from '../../config/index.js';
+import type { BackupInfo, BackupManifest, BackupFileEntry } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import {
+  BACKUP_FORMAT_VERSION,
+  BACKUP_FILE_PATTERN,
+  MANIFEST_FILE,
+  DATABASE_FILE,
+  DOCUMENTS_DIR,
+  sha256File,
+  writeChecksumFile,
+  readChecksumFile,
+  describeFile,
+  listDocumentReferences,
+} from './archive.js';
+
+function backupFileName(date: Date): string {
+  const stamp = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  return `piper-backup-${stamp}.tar.gz`;
+}
+
+/**
+ * Create a backup archive
+ *
+ * The database is copied with SQLite's online backup API, so the server can
+ * keep running. Documents are read through the configured DocumentStore and
+ * stored under `documents/<key>` as-is (still encrypted, like the database
+ * fields, so the archive is useless without the KEKs); legacy absolute paths are rewritten to keys
+ * in the snapshot so the archive restores into any data directory.
+ */
+export async function createBackup(options: { outputPath?: string } = {}): Promise<BackupInfo> {
+  const createdAt = new Date();
+  const outputPath = path.resolve(
+    options.outputPath || path.join(config.storage.backups.dir, backupFileName(createdAt))
+  );
+  const stagingDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'piper-backup-'));
+
+  try {
+    // 1. Consistent snapshot of the live database
+    const snapshotPath = path.join(stagingDir, DATABASE_FILE);
+    await getDatabase().backup(snapshotPath);
+
+    // 2. Copy every referenced document next to it
+    const documents = new LocalDocumentStore(path.join(stagingDir, DOCUMENTS_DIR));
+    const snapshot = new Database(snapshotPath);
+    const missingDocuments: string[] = [];
+    let schemaVersion: number;
+
+    try {
+      for (const ref of listDocumentReferences(snapshot)) {
+        const data = await readStoredDocument(ref.value);
+        if (!data) {
+          logger.warn(`Backup: ${ref.column} for student ${ref.childId} not found (${ref.value})`);
+          missingDocuments.push(ref.value);
+          continue;
+        }
+
+        const key = isLegacyDocumentPath(ref.value)
+          ? legacyDocumentKey(ref.kind, ref.childId, ref.value)
+          : ref.value;
+        await documents.put(key, data, 'application/pdf');
+
+        if (key !== ref.value) {
+          snapshot.prepare(`UPDATE children SET ${ref.column} = ? WHERE id = ?`).run(key, ref.childId);
+        }
+      }
+
+      schemaVersion = getCurrentVersion(snapshot);
+      // Fold the WAL back in so piper.db is self-contained
+      snapshot.pragma('journal_mode = DELETE');
+    } finally {
+      snapshot.close();
+    }
+
+    // 3. Manifest with per-file checksums
+    const files: BackupFileEntry[] = [await describeFile(stagingDir, DATABASE_FILE)];
+    const documentsDir = path.join(stagingDir, DOCUMENTS_DIR);
+    if (fs.existsSync(documentsDir)) {
+      const entries = await fs.promises.readdir(documentsDir, { recursive: true, withFileTypes: true });
+      for (const entry of entries) {
+        if (entry.isFile()) {
+          const relativePath = path.relative(stagingDir, path.join(entry.parentPath, entry.name));
+          files.push(await describeFile(stagingDir, relativePath));
+        }
+      }
+    }
+
+    const manifest: BackupManifest = {
+      format_version: BACKUP_FORMAT_VERSION,
+      created_at: createdAt.toISOString(),
+      schema_version: schemaVersion,
+      document_store: config.storage.driver,
+      files,
+      missing_documents: missingDocuments,
+    };
+    await fs.promises.writeFile(
+      path.join(stagingDir, MANIFEST_FILE),
+      JSON.stringify(manifest, null, 2)
+    );
+
+    // 4. Single gzipped tar archive
+    await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+    await tar.create(
+      { gzip: true, portable: true, file: outputPath, cwd: stagingDir },
+      [MANIFEST_FILE, ...files.map((f) => f.path)]
+    );
+
+    const stats = await fs.promises.stat(outputPath);
+    const sha256 = await sha256File(outputPath);
+    await writeChecksumFile(outputPath, sha256);
+    const info: BackupInfo = {
+      file_name: path.basename(outputPath),
+      path: outputPath,
+      size: stats.size,
+      sha256,
+      created_at: manifest.created_at,
+      document_count: files.length - 1,
+      missing_documents: missingDocuments,
+    };
+
+    logger.info(`Backup created: ${info.path} (${info.document_count} documents, sha256 ${info.sha256})`);
+    return info;
+  } finally {
+    await fs.promises.rm(stagingDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * List archives in the backup directory, newest first
+ *
+ * Checksums come from the `.sha256` file written with each archive; an archive
+ * without one (taken before they were written) is hashed once and recorded.
+ */
+export async function listBackups(): Promise<BackupInfo[]> {
+  const dir = config.storage.backups.dir;
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const backups: BackupInfo[] = [];
+  for (const fileName of await fs.promises.readdir(dir)) {
+    if (!BACKUP_FILE_PATTERN.test(fileName)) {
+      continue;
+    }
+    const filePath = path.join(dir, fileName);
+    const stats = await fs.promises.stat(filePath);
+    let sha256 = await readChecksumFile(filePath);
+    if (!sha256) {
+      sha256 = await sha256File(filePath);
+      await writeChecksumFile(filePath, sha256);
+    }
+    backups.push({
+      file_name: fileName,
+      path: filePath,
+      size: stats.size,
+      sha256,
+      created_at: stats.mtime.toISOString(),
+    });
+  }
+
+  return backups.sort((a, b) => b.file_name.localeCompare(a.file_name));
+}
+
+/**
+ * Resolve a backup file name to its path, or null if it is not a known archive
+ */
+export function getBackupPath(fileName: string): string | null {
+  if (!BACKUP_FILE_PATTERN.test(fileName)) {
+    return null;
+  }
+  const filePath = path.join(config.storage.backups.dir, fileName);
+  return fs.existsSync(filePath) ? filePath : null;
+}
@@ -0,0 +1,12 @@
+/**
+ * Backup Services
+ * Re-exports backup and restore services
+ */
+
+export {
+  createBackup,
+  listBackups,
+  getBackupPath,
+} from './backup.js';
+
+export { restoreBackup } from './restore.js';
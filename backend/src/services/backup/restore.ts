@@ -0,0 +1,150 @@
+/**
+ * Restore Service
+ * Unpacks a backup archive into a fresh data directory after verifying it
+ */
+
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import Database from 'better-sqlite3';
+import * as tar from 'tar';
+import { getCurrentVersion, getLatestVersion } from '../migrations/index.js';
+import { LocalDocumentStore, isLegacyDocumentPath } from '../storage/index.js';
+import type { BackupManifest, RestoreResult } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import {
+  BACKUP_FORMAT_VERSION,
+  MANIFEST_FILE,
+  DATABASE_FILE,
+  DOCUMENTS_DIR,
+  sha256File,
+  listDocumentReferences,
+} from './archive.js';
+
+/**
+ * Check every file listed in the manifest against its recorded size and checksum
+ */
+async function verifyManifest(stagingDir: string, manifest: BackupManifest): Promise<void> {
+  if (manifest.format_version !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup format version ${manifest.format_version}`);
+  }
+  if (manifest.schema_version > getLatestVersion()) {
+    throw new Error(
+      `Backup schema version ${manifest.schema_version} is newer than this build supports (${getLatestVersion()})`
+    );
+  }
+  if (!manifest.files.some((f) => f.path === DATABASE_FILE)) {
+    throw new Error('Backup does not contain a database');
+  }
+
+  for (const file of manifest.files) {
+    const filePath = path.join(stagingDir, file.path);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Backup is missing ${file.path}`);
+    }
+    const { size } = await fs.promises.stat(filePath);
+    if (size !== file.size || (await sha256File(filePath)) !== file.sha256) {
+      throw new Error(`Checksum mismatch for ${file.path}`);
+    }
+  }
+}
+
+/**
+ * Restore an archive into `dataDir` (piper.db + uploads/)
+ *
+ * Refuses to overwrite an existing database. References the manifest lists
+ * under missing_documents (already gone when the backup was taken, such as a
+ * legacy path whose file was lost) are only warned about. Fails if any other
+ * eval_pdf_path or goals_pdf_path does not resolve to a restored document,
+ * unless `allowUnresolved` is set.
+ */
+export async function restoreBackup(
+  archivePath: string,
+  dataDir: string,
+  options: { allowUnresolved?: boolean } = {}
+): Promise<RestoreResult> {
+  const targetDir = path.resolve(dataDir);
+  const targetDbPath = path.join(targetDir, DATABASE_FILE);
+
+  if (!fs.existsSync(archivePath)) {
+    throw new Error(`Backup archive not found: ${archivePath}`);
+  }
+  if (fs.existsSync(targetDbPath)) {
+    throw new Error(`Refusing to restore: ${targetDbPath} already exists`);
+  }
+
+  const stagingDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'piper-restore-'));
+
+  try {
+    await tar.extract({ file: archivePath, cwd: stagingDir, strict: true });
+
+    const manifestPath = path.join(stagingDir, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      throw new Error('Backup is missing manifest.json');
+    }
+    const manifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8')) as BackupManifest;
+    await verifyManifest(stagingDir, manifest);
+
+    // Every document reference must resolve to a restored file
+    const documents = new LocalDocumentStore(path.join(stagingDir, DOCUMENTS_DIR));
+    const snapshot = new Database(path.join(stagingDir, DATABASE_FILE), { readonly: true });
+    const missingAtBackup = new Set(manifest.missing_documents ?? []);
+    const unresolved: string[] = [];
+    const missing: string[] = [];
+    let schemaVersion: number;
+
+    try {
+      const integrity = snapshot.pragma('integrity_check', { simple: true });
+      if (integrity !== 'ok') {
+        throw new Error(`Database integrity check failed: ${integrity}`);
+      }
+
+      for (const ref of listDocumentReferences(snapshot)) {
+        if (!isLegacyDocumentPath(ref.value) && (await documents.exists(ref.value))) {
+          continue;
+        }
+        const reference = `student ${ref.childId} ${ref.column}: ${ref.value}`;
+        if (missingAtBackup.has(ref.value)) {
+          logger.warn(`Restore: ${reference} was already missing when the backup was taken`);
+          missing.push(reference);
+        } else {
+          unresolved.push(reference);
+        }
+      }
+      schemaVersion = getCurrentVersion(snapshot);
+    } finally {
+      snapshot.close();
+    }
+
+    if (unresolved.length > 0 && !options.allowUnresolved) {
+      throw new Error(
+        `${unresolved.length} document reference(s) do not resolve:\n  ${unresolved.join('\n  ')}`
+      );
+    }
+
+    // Move verified files into place
+    const uploadsDir = path.join(targetDir, 'uploads');
+    await fs.promises.mkdir(targetDir, { recursive: true });
+    await fs.promises.copyFile(path.join(stagingDir, DATABASE_FILE), targetDbPath);
+    if (fs.existsSync(path.join(stagingDir, DOCUMENTS_DIR))) {
+      await fs.promises.cp(path.join(stagingDir, DOCUMENTS_DIR), uploadsDir, { recursive: true });
+    }
+
+    const result: RestoreResult = {
+      data_dir: targetDir,
+      schema_version: schemaVersion,
+      document_count: manifest.files.length - 1,
+      unresolved_documents: unresolved,
+      missing_documents: missing,
+    };
+
+    logger.info(
+      `Backup restored into ${targetDir} (schema v${schemaVersion}, ${result.document_count} documents` +
+      `${unresolved.length > 0 ? `, ${unresolved.length} unresolved` : ''}` +
+      `${missing.length > 0 ? `, ${missing.length} missing at backup time` : ''})`
+    );
+    return result;
+  } finally {
+    await fs.promises.rm(stagingDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Child Login Service
+ * Picture passwords and printable QR badges, for children who cannot type a password
+ *
+ * A picture password is a short sequence of shared icons. With only 9^3
+ * sequences it is guessable, so wrong sequences count towards the child's
+ * account lockout just like wrong passwords. A badge carries a random token in
+ * a boardgame URL; anyone holding the printed badge can sign in as the child
+ * until the therapist revokes it. Badge tokens cannot be guessed, so badge
+ * sign-in is not held up by the lockout.
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { PICTURE_ICON_IDS, PICTURE_PASSWORD_LENGTH } from '@shared/picture-passwords';
+import { getDatabase } from '../database.js';
+import { config } from '../../config/index.js';
+import {
+  createAuthSession,
+  getAccountLockedUntil,
+  assertAccountUnlocked,
+  recordFailedLogin,
+  clearAccountLockout,
+} from '../auth/index.js';
+import { assertStudentActive, getStudentById } from '../student/index.js';
+import { renderQrSvg } from '../../utils/qr.js';
+import type {
+  AuthClientInfo,
+  ChildAuthResult,
+  ChildLoginBadge,
+  ChildLoginMethods,
+  IssuedLoginBadge,
+  IssuedPicturePassword,
+  PictureIconId,
+  PictureLoginRequest,
+  PicturePasswordStatus,
+} from '../../types/index.js';
+
+const SALT_ROUNDS = 10;
+
+interface PicturePasswordRow {
+  child_id: number;
+  sequence_hash: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function sequenceKey(pictures: PictureIconId[]): string {
+  return pictures.join(' ');
+}
+
+// =============================================================================
+// PICTURE PASSWORDS
+// =============================================================================
+
+/**
+ * Set a child's picture sequence (a random one unless given) and return it
+ *
+ * The sequence is only shown here; afterwards only its hash is kept.
+ */
+export async function setPicturePassword(
+  childId: number,
+  pictures?: PictureIconId[]
+): Promise<IssuedPicturePassword> {
+  const sequence = pictures ?? Array.from(
+    { length: PICTURE_PASSWORD_LENGTH },
+    () => PICTURE_ICON_IDS[crypto.randomInt(PICTURE_ICON_IDS.length)]
+  );
+  const sequenceHash = await bcrypt.hash(sequenceKey(sequence), SALT_ROUNDS);
+
+  getDatabase().prepare(`
+    INSERT INTO child_picture_passwords (child_id, sequence_hash, created_at)
+    VALUES (?, ?, ?)
+    ON CONFLICT(child_id) DO UPDATE SET
+      sequence_hash = excluded.sequence_hash,
+      created_at = excluded.created_at
+  `).run(childId, sequenceHash, new Date().toISOString());
+
+  return { pictures: sequence };
+}
+
+export function removePicturePassword(childId: number): boolean {
+  const result = getDatabase()
+    .prepare('DELETE FROM child_picture_passwords WHERE child_id = ?')
+    .run(childId);
+  return result.changes > 0;
+}
+
+export function getPicturePasswordStatus(childId: number): PicturePasswordStatus | null {
+  const row = getDatabase()
+    .prepare('SELECT created_at FROM child_picture_passwords WHERE child_id = ?')
+    .get(childId) as PicturePasswordStatus | undefined;
+  return row ?? null;
+}
+
+export async function loginChildWithPictures(
+  data: PictureLoginRequest,
+  client: AuthClientInfo = {}
+): Promise<ChildAuthResult> {
+  const db = getDatabase();
+
+  const row = db.prepare(`
+    SELECT p.child_id, p.sequence_hash
+    FROM children c
+    JOIN child_picture_passwords p ON p.child_id = c.id
+    WHERE c.username = ?
+  `).get(data.username) as PicturePasswordRow | undefined;
+
+  if (!row) {
+    throw new Error('Invalid username or pictures');
+  }
+
+  assertAccountUnlocked('child', row.child_id);
+
+  const valid = await bcrypt.compare(sequenceKey(data.pictures), row.sequence_hash);
+  if (!valid) {
+    recordFailedLogin('child', row.child_id);
+    throw new Error('Invalid username or pictures');
+  }
+
+  clearAccountLockout('child', row.child_id);
+  assertStudentActive(row.child_id);
+
+  const child = getStudentById(row.child_id)!;
+
+  return { child, ...createAuthSession('child', row.child_id, client) };
+}
+
+// =============================================================================
+// QR BADGES
+// =============================================================================
+
+/**
+ * Issue a badge for a child; the token, login URL and QR code are only returned here
+ */
+export function issueLoginBadge(childId: number, label?: string): IssuedLoginBadge {
+  const db = getDatabase();
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  const result = db.prepare(`
+    INSERT INTO child_login_badges (child_id, token_hash, label, created_at)
+    VALUES (?, ?, ?, ?)
+  `).run(childId, hashToken(token), label?.trim() || null, new Date().toISOString());
+
+  const badge = db
+    .prepare('SELECT id, child_id, label, created_at, last_used_at, revoked_at FROM child_login_badges WHERE id = ?')
+    .get(result.lastInsertRowid) as ChildLoginBadge;
+  const loginUrl = `${config.appUrl}/boardgame.html?badge=${encodeURIComponent(token)}`;
+
+  return { badge, token, login_url: loginUrl, qr_svg: renderQrSvg(loginUrl) };
+}
+
+/**
+ * Badges that still work, newest first
+ */
+export function listLoginBadges(childId: number): ChildLoginBadge[] {
+  return getDatabase().prepare(`
+    SELECT id, child_id, label, created_at, last_used_at, revoked_at
+    FROM child_login_badges
+    WHERE child_id = ? AND revoked_at IS NULL
+    ORDER BY created_at DESC, id DESC
+  `).all(childId) as ChildLoginBadge[];
+}
+
+/**
+ * Stop a badge from signing in. Returns false if it was already revoked or unknown.
+ */
+export function revokeLoginBadge(childId: number, badgeId: number): boolean {
+  const result = getDatabase()
+    .prepare(`
+      UPDATE child_login_badges SET revoked_at = ?
+      WHERE id = ? AND child_id = ? AND revoked_at IS NULL
+    `)
+    .run(new Date().toISOString(), badgeId, childId);
+  return result.changes > 0;
+}
+
+export function loginChildWithBadge(token: string, client: AuthClientInfo = {}): ChildAuthResult {
+  const db = getDatabase();
+
+  const row = db.prepare(`
+    SELECT b.id, b.child_id, b.revoked_at
+    FROM child_login_badges b
+    JOIN children c ON c.id = b.child_id
+    WHERE b.token_hash = ?
+  `).get(hashToken(token)) as { id: number; child_id: number; revoked_at: string | null } | undefined;
+
+  if (!row) {
+    throw new Error('Invalid login badge');
+  }
+  if (row.revoked_at) {
+    throw new Error('This badge no longer works, please ask your therapist for a new one');
+  }
+  assertStudentActive(row.child_id);
+
+  db.prepare('UPDATE child_login_badges SET last_used_at = ? WHERE id = ?').run(new Date().toISOString(), row.id);
+
+  const child = getStudentById(row.child_id)!;
+
+  return { child, ...createAuthSession('child', row.child_id, client) };
+}
+
+// =============================================================================
+// OVERVIEW
+// =============================================================================
+
+export function getChildLoginMethods(childId: number): ChildLoginMethods {
+  return {
+    picture_password: getPicturePasswordStatus(childId),
+    badges: listLoginBadges(childId),
+    locked_until: getAccountLockedUntil('child', childId),
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Child Login Services
+ * Re-exports picture password and QR badge services
+ */
+
+export {
+  setPicturePassword,
+  removePicturePassword,
+  getPicturePasswordStatus,
+  loginChildWithPictures,
+  issueLoginBadge,
+  listLoginBadges,
+  revokeLoginBadge,
+  loginChildWithBadge,
+  getChildLoginMethods,
+} from './child-login.js';
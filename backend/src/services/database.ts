@@ -3,6 +3,8 @@ import fs from 'fs';
 import path from 'path';
 import bcrypt from 'bcryptjs';
 import { logger } from '../utils/logger.js';
+import { assertSchemaNotNewer, migrateUp, getCurrentVersion } from './migrations/index.js';
+import { encryptField, getKeyring } from './encryption/index.js';
 
 const SALT_ROUNDS = 10;
 
@@ -12,6 +14,13 @@ const DB_PATH = path.join(DATA_DIR, 'piper.db');
 
 let db: Database.Database | null = null;
 
+/**
+ * Directory holding piper.db (and the default local upload store)
+ */
+export function getDataDir(): string {
+  return DATA_DIR;
+}
+
 export function getDatabase(): Database.Database {
   if (!db) {
     throw new Error('Database not initialized. Call initializeDatabase first.');
@@ -19,8 +28,14 @@ export function getDatabase(): Database.Database {
   return db;
 }
 
-export function initializeDatabase(): void {
-  logger.info('Initializing database...');
+/**
+ * Open the database file without touching the schema
+ * Used by initializeDatabase and by CLI tools that manage the schema themselves
+ */
+export function openDatabase(): Database.Database {
+  if (db) {
+    return db;
+  }
 
   // Create data directory if it doesn't exist
   if (!fs.existsSync(DATA_DIR)) {
@@ -30,319 +45,30 @@ export function initializeDatabase(): void {
 
   db = new Database(DB_PATH);
   db.pragma('journal_mode = WAL');
+  return db;
+}
 
-  // Create therapists table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS therapists (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      email TEXT UNIQUE NOT NULL,
-      password_hash TEXT NOT NULL,
-      first_name TEXT NOT NULL,
-      last_name TEXT NOT NULL,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create children table (for child dashboard)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS children (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      therapist_id INTEGER NOT NULL,
-      username TEXT UNIQUE NOT NULL,
-      password_hash TEXT NOT NULL,
-      first_name TEXT NOT NULL,
-      last_name TEXT NOT NULL,
-      date_of_birth TEXT,
-      grade_level TEXT,
-      problem_type TEXT CHECK(problem_type IN ('language', 'articulation', 'both')),
-      eval_data TEXT,
-      eval_pdf_path TEXT,
-      eval_pdf_uploaded_at TEXT,
-      eval_pdf_original_name TEXT,
-      slp_id INTEGER,
-      school_id INTEGER,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (therapist_id) REFERENCES therapists(id) ON DELETE CASCADE,
-      FOREIGN KEY (slp_id) REFERENCES therapist_members(id) ON DELETE SET NULL,
-      FOREIGN KEY (school_id) REFERENCES therapist_schools(id) ON DELETE SET NULL
-    )
-  `);
-
-  // Create IEP goals table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS iep_goals (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      student_id INTEGER NOT NULL,
-      goal_type TEXT NOT NULL CHECK(goal_type IN ('language', 'articulation')),
-      goal_description TEXT NOT NULL,
-      target_percentage INTEGER DEFAULT 80,
-      current_percentage INTEGER DEFAULT 0,
-      target_date TEXT,
-      status TEXT DEFAULT 'active' CHECK(status IN ('active', 'achieved', 'discontinued')),
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (student_id) REFERENCES children(id) ON DELETE CASCADE
-    )
-  `);
-
-  // Create gameplay sessions table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS gameplay_sessions (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      child_id INTEGER NOT NULL,
-      therapist_id INTEGER NOT NULL,
-      started_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      ended_at TEXT,
-      duration_seconds INTEGER,
-      categories_selected TEXT NOT NULL,
-      theme TEXT,
-      character TEXT,
-      status TEXT DEFAULT 'in_progress' CHECK(status IN ('in_progress', 'completed', 'abandoned')),
-      final_score INTEGER DEFAULT 0,
-      final_board_position INTEGER DEFAULT 0,
-      total_cards_played INTEGER DEFAULT 0,
-      correct_responses INTEGER DEFAULT 0,
-      FOREIGN KEY (child_id) REFERENCES children(id) ON DELETE CASCADE,
-      FOREIGN KEY (therapist_id) REFERENCES therapists(id) ON DELETE CASCADE
-    )
-  `);
-
-  // Create session responses table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS session_responses (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      session_id INTEGER NOT NULL,
-      card_category TEXT NOT NULL,
-      card_question TEXT NOT NULL,
-      child_response TEXT,
-      is_correct INTEGER NOT NULL,
-      attempt_number INTEGER DEFAULT 1,
-      card_shown_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      response_at TEXT,
-      time_spent_seconds INTEGER,
-      safety_level INTEGER DEFAULT 0,
-      signals_detected TEXT,
-      FOREIGN KEY (session_id) REFERENCES gameplay_sessions(id) ON DELETE CASCADE
-    )
-  `);
-
-  // Create indexes for session tables
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_sessions_therapist ON gameplay_sessions(therapist_id, started_at DESC);
-    CREATE INDEX IF NOT EXISTS idx_sessions_child ON gameplay_sessions(child_id, started_at DESC);
-    CREATE INDEX IF NOT EXISTS idx_sessions_status ON gameplay_sessions(status);
-    CREATE INDEX IF NOT EXISTS idx_responses_session ON session_responses(session_id, card_shown_at);
-  `);
-
-  // Create voice calibration table (stores calibration results per child)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS voice_calibrations (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      child_id INTEGER NOT NULL UNIQUE,
-      amplitude_threshold REAL NOT NULL,
-      peak_threshold REAL NOT NULL,
-      baseline_amplitude REAL,
-      baseline_peak REAL,
-      excited_amplitude REAL,
-      excited_peak REAL,
-      loud_amplitude REAL,
-      loud_peak REAL,
-      confidence TEXT CHECK(confidence IN ('high', 'medium', 'low')),
-      calibrated_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (child_id) REFERENCES children(id) ON DELETE CASCADE
-    )
-  `);
+export function initializeDatabase(): void {
+  logger.info('Initializing database...');
 
-  // Create schools table (for therapist dashboard management)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS therapist_schools (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      contact_name TEXT,
-      contact_email TEXT,
-      contact_phone TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
+  const database = openDatabase();
 
-  // Create members table (for therapist dashboard management)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS therapist_members (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      email TEXT NOT NULL UNIQUE,
-      password_hash TEXT NOT NULL,
-      roles TEXT NOT NULL,
-      school_id INTEGER,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (school_id) REFERENCES therapist_schools(id) ON DELETE SET NULL
-    )
-  `);
+  // Refuse to boot against a schema written by a newer build
+  assertSchemaNotNewer(database);
 
-  // Create indexes for schools and members
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_members_school ON therapist_members(school_id);
-    CREATE INDEX IF NOT EXISTS idx_members_email ON therapist_members(email);
-  `);
+  // Apply pending schema migrations
+  const applied = migrateUp(database);
+  logger.info(`Database schema at version ${getCurrentVersion(database)} (${applied.length} migration(s) applied)`);
 
-  // Run migrations for existing tables
-  runMigrations(db);
+  // Fail fast if no encryption keys are configured (sensitive fields can't be read or written)
+  getKeyring();
 
   // Seed default data
-  seedDefaultData(db);
+  seedDefaultData(database);
 
   logger.info('Database initialized successfully');
 }
 
-/**
- * Run migrations to add columns to existing tables
- */
-function runMigrations(db: Database.Database): void {
-  // Get existing columns in children table
-  const columns = db
-    .prepare("PRAGMA table_info(children)")
-    .all() as { name: string }[];
-  const columnNames = columns.map((c) => c.name);
-
-  // Add eval_data if missing
-  if (!columnNames.includes('eval_data')) {
-    db.exec('ALTER TABLE children ADD COLUMN eval_data TEXT');
-    logger.info('Migration: Added eval_data column');
-  }
-
-  // Add eval_pdf_path if missing
-  if (!columnNames.includes('eval_pdf_path')) {
-    db.exec('ALTER TABLE children ADD COLUMN eval_pdf_path TEXT');
-    logger.info('Migration: Added eval_pdf_path column');
-  }
-
-  // Add eval_pdf_uploaded_at if missing
-  if (!columnNames.includes('eval_pdf_uploaded_at')) {
-    db.exec('ALTER TABLE children ADD COLUMN eval_pdf_uploaded_at TEXT');
-    logger.info('Migration: Added eval_pdf_uploaded_at column');
-  }
-
-  // Add eval_pdf_original_name if missing
-  if (!columnNames.includes('eval_pdf_original_name')) {
-    db.exec('ALTER TABLE children ADD COLUMN eval_pdf_original_name TEXT');
-    logger.info('Migration: Added eval_pdf_original_name column');
-  }
-
-  // Add goals_pdf_path if missing
-  if (!columnNames.includes('goals_pdf_path')) {
-    db.exec('ALTER TABLE children ADD COLUMN goals_pdf_path TEXT');
-    logger.info('Migration: Added goals_pdf_path column');
-  }
-
-  // Add goals_pdf_uploaded_at if missing
-  if (!columnNames.includes('goals_pdf_uploaded_at')) {
-    db.exec('ALTER TABLE children ADD COLUMN goals_pdf_uploaded_at TEXT');
-    logger.info('Migration: Added goals_pdf_uploaded_at column');
-  }
-
-  // Add goals_pdf_original_name if missing
-  if (!columnNames.includes('goals_pdf_original_name')) {
-    db.exec('ALTER TABLE children ADD COLUMN goals_pdf_original_name TEXT');
-    logger.info('Migration: Added goals_pdf_original_name column');
-  }
-
-  // Add session_duration_minutes if missing (IEP service time)
-  if (!columnNames.includes('session_duration_minutes')) {
-    db.exec('ALTER TABLE children ADD COLUMN session_duration_minutes INTEGER');
-    logger.info('Migration: Added session_duration_minutes column');
-  }
-
-  // Add session_frequency if missing (IEP service time)
-  if (!columnNames.includes('session_frequency')) {
-    db.exec('ALTER TABLE children ADD COLUMN session_frequency TEXT');
-    logger.info('Migration: Added session_frequency column');
-  }
-
-  // Get existing columns in iep_goals table
-  const goalColumns = db
-    .prepare("PRAGMA table_info(iep_goals)")
-    .all() as { name: string }[];
-  const goalColumnNames = goalColumns.map((c) => c.name);
-
-  // Add baseline if missing
-  if (!goalColumnNames.includes('baseline')) {
-    db.exec('ALTER TABLE iep_goals ADD COLUMN baseline TEXT');
-    logger.info('Migration: Added baseline column to iep_goals');
-  }
-
-  // Add sessions_to_confirm if missing
-  if (!goalColumnNames.includes('sessions_to_confirm')) {
-    db.exec('ALTER TABLE iep_goals ADD COLUMN sessions_to_confirm INTEGER DEFAULT 3');
-    logger.info('Migration: Added sessions_to_confirm column to iep_goals');
-  }
-
-  // Add comments if missing
-  if (!goalColumnNames.includes('comments')) {
-    db.exec('ALTER TABLE iep_goals ADD COLUMN comments TEXT');
-    logger.info('Migration: Added comments column to iep_goals');
-  }
-
-  // Add boardgame_categories if missing (stored as JSON string)
-  if (!goalColumnNames.includes('boardgame_categories')) {
-    db.exec('ALTER TABLE iep_goals ADD COLUMN boardgame_categories TEXT');
-    logger.info('Migration: Added boardgame_categories column to iep_goals');
-  }
-
-  // Add session_duration_minutes if missing (per-goal session time)
-  if (!goalColumnNames.includes('session_duration_minutes')) {
-    db.exec('ALTER TABLE iep_goals ADD COLUMN session_duration_minutes INTEGER');
-    logger.info('Migration: Added session_duration_minutes column to iep_goals');
-  }
-
-  // Add session_frequency if missing (per-goal session frequency)
-  if (!goalColumnNames.includes('session_frequency')) {
-    db.exec('ALTER TABLE iep_goals ADD COLUMN session_frequency TEXT');
-    logger.info('Migration: Added session_frequency column to iep_goals');
-  }
-
-  // Add objectives if missing (JSON array of objectives)
-  if (!goalColumnNames.includes('objectives')) {
-    db.exec('ALTER TABLE iep_goals ADD COLUMN objectives TEXT');
-    logger.info('Migration: Added objectives column to iep_goals');
-  }
-
-  // Get existing columns in session_responses table
-  const responseColumns = db
-    .prepare("PRAGMA table_info(session_responses)")
-    .all() as { name: string }[];
-  const responseColumnNames = responseColumns.map((c) => c.name);
-
-  // Add intervention_chosen if missing
-  if (!responseColumnNames.includes('intervention_chosen')) {
-    db.exec('ALTER TABLE session_responses ADD COLUMN intervention_chosen TEXT');
-    logger.info('Migration: Added intervention_chosen column to session_responses');
-  }
-
-  // Get existing columns in therapist_members table
-  const memberColumns = db
-    .prepare("PRAGMA table_info(therapist_members)")
-    .all() as { name: string }[];
-  const memberColumnNames = memberColumns.map((c) => c.name);
-
-  // Add password_hash if missing
-  if (memberColumnNames.length > 0 && !memberColumnNames.includes('password_hash')) {
-    db.exec("ALTER TABLE therapist_members ADD COLUMN password_hash TEXT DEFAULT ''");
-    logger.info('Migration: Added password_hash column to therapist_members');
-  }
-
-  // Add slp_id to children table if missing
-  if (!columnNames.includes('slp_id')) {
-    db.exec('ALTER TABLE children ADD COLUMN slp_id INTEGER');
-    logger.info('Migration: Added slp_id column to children');
-  }
-
-  // Add school_id to children table if missing
-  if (!columnNames.includes('school_id')) {
-    db.exec('ALTER TABLE children ADD COLUMN school_id INTEGER');
-    logger.info('Migration: Added school_id column to children');
-  }
-}
-
 /**
  * Seed default therapist and student data
  */
@@ -357,10 +83,13 @@ async function seedDefaultData(db: Database.Database): Promise<void> {
   if (!existingTherapist) {
     // Create default therapist
     const passwordHash = bcrypt.hashSync('Piper1234', SALT_ROUNDS);
+    const organization = db.prepare(
+      'INSERT INTO organizations (name) VALUES (?)'
+    ).run("Hailey Elias's Practice");
     const result = db.prepare(`
-      INSERT INTO therapists (email, password_hash, first_name, last_name)
-      VALUES (?, ?, ?, ?)
-    `).run('hailey@piperspeech.com', passwordHash, 'Hailey', 'Elias');
+      INSERT INTO therapists (email, password_hash, first_name, last_name, is_admin, organization_id)
+      VALUES (?, ?, ?, ?, 1, ?)
+    `).run('hailey@piperspeech.com', passwordHash, 'Hailey', 'Elias', organization.lastInsertRowid);
     therapistId = result.lastInsertRowid as number;
     logger.info('Seeded default therapist: hailey@piperspeech.com');
   } else {
@@ -422,7 +151,7 @@ async function seedDefaultData(db: Database.Database): Promise<void> {
       '2018-05-12',
       '1st Grade',
       'both',
-      evalData,
+      encryptField(evalData, 'children.eval_data'),
       '/uploads/evaluations/piper_elias_eval.pdf',
       now,
       'Piper_Elias_Speech_Evaluation_2024.pdf',
@@ -518,7 +247,7 @@ async function seedDefaultData(db: Database.Database): Promise<void> {
         goal.baseline,
         goal.target_date,
         goal.sessions_to_confirm,
-        goal.comments,
+        encryptField(goal.comments, 'iep_goals.comments'),
         goal.boardgame_categories,
         goal.session_duration_minutes,
         goal.session_frequency,
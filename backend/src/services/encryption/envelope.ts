@@ -0,0 +1,181 @@
+/**
+ * Envelope Encryption
+ *
+ * Every value gets its own random data key (DEK). The value is encrypted with
+ * the DEK (AES-256-GCM) and the DEK is wrapped with the active key-encryption
+ * key (KEK). Rotating a KEK only rewraps DEKs; the data itself is untouched.
+ *
+ * Field format:    enc:v1:<kek id>:<wrapped dek>:<iv>:<ciphertext+tag>   (base64 parts)
+ * Document format: PIPERENC + uint16 header length + JSON header + ciphertext + tag
+ */
+
+import crypto from 'crypto';
+import type { EncryptedFieldName } from '../../types/index.js';
+import { KEY_LENGTH, getKeyring, getKey } from './keyring.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const FIELD_PREFIX = 'enc:v1:';
+const DOCUMENT_MAGIC = Buffer.from('PIPERENC');
+const DOCUMENT_AAD = Buffer.from('document');
+
+interface WrappedKey {
+  kek: string;
+  dek: string;
+}
+
+interface DocumentHeader extends WrappedKey {
+  v: 1;
+  iv: string;
+}
+
+// ============================================
+// Data keys
+// ============================================
+
+function seal(key: Buffer, plaintext: Buffer, aad: Buffer): { iv: Buffer; sealed: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(aad);
+  const sealed = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  return { iv, sealed };
+}
+
+function open(key: Buffer, iv: Buffer, sealed: Buffer, aad: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+  return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - TAG_LENGTH)), decipher.final()]);
+}
+
+function wrapDataKey(dek: Buffer, kekId: string = getKeyring().activeKeyId): WrappedKey {
+  const { iv, sealed } = seal(getKey(kekId), dek, Buffer.from(kekId));
+  return { kek: kekId, dek: Buffer.concat([iv, sealed]).toString('base64') };
+}
+
+function unwrapDataKey(wrapped: WrappedKey): Buffer {
+  const raw = Buffer.from(wrapped.dek, 'base64');
+  const dek = open(getKey(wrapped.kek), raw.subarray(0, IV_LENGTH), raw.subarray(IV_LENGTH), Buffer.from(wrapped.kek));
+  if (dek.length !== KEY_LENGTH) {
+    throw new Error('Invalid data key');
+  }
+  return dek;
+}
+
+// ============================================
+// Fields
+// ============================================
+
+export function isEncryptedField(value: string): boolean {
+  return value.startsWith(FIELD_PREFIX);
+}
+
+function parseField(value: string): { wrapped: WrappedKey; iv: string; data: string } {
+  const parts = value.slice(FIELD_PREFIX.length).split(':');
+  if (parts.length !== 4) {
+    throw new Error('Malformed encrypted field');
+  }
+  const [kek, dek, iv, data] = parts;
+  return { wrapped: { kek, dek }, iv, data };
+}
+
+/**
+ * Encrypt a column value. The field name is bound in as associated data so a
+ * value cannot be copied into another column and still decrypt.
+ */
+export function encryptField(plaintext: string, field: EncryptedFieldName): string {
+  const dek = crypto.randomBytes(KEY_LENGTH);
+  const { iv, sealed } = seal(dek, Buffer.from(plaintext, 'utf-8'), Buffer.from(field));
+  const wrapped = wrapDataKey(dek);
+  return `${FIELD_PREFIX}${wrapped.kek}:${wrapped.dek}:${iv.toString('base64')}:${sealed.toString('base64')}`;
+}
+
+/**
+ * Decrypt a column value; plaintext written before encryption passes through
+ */
+export function decryptField(value: string, field: EncryptedFieldName): string;
+export function decryptField(value: string | null, field: EncryptedFieldName): string | null;
+export function decryptField(value: string | null, field: EncryptedFieldName): string | null {
+  if (value === null || !isEncryptedField(value)) {
+    return value;
+  }
+  const { wrapped, iv, data } = parseField(value);
+  const dek = unwrapDataKey(wrapped);
+  return open(dek, Buffer.from(iv, 'base64'), Buffer.from(data, 'base64'), Buffer.from(field)).toString('utf-8');
+}
+
+/**
+ * Encrypt unless null/undefined (stored as NULL)
+ */
+export function encryptOptionalField(value: string | null | undefined, field: EncryptedFieldName): string | null {
+  return value === null || value === undefined ? null : encryptField(value, field);
+}
+
+export function fieldKeyId(value: string): string | null {
+  return isEncryptedField(value) ? parseField(value).wrapped.kek : null;
+}
+
+/**
+ * Rewrap an encrypted field's data key with the active KEK
+ */
+export function rewrapField(value: string): string {
+  const { wrapped, iv, data } = parseField(value);
+  const rewrapped = wrapDataKey(unwrapDataKey(wrapped));
+  return `${FIELD_PREFIX}${rewrapped.kek}:${rewrapped.dek}:${iv}:${data}`;
+}
+
+// ============================================
+// Documents
+// ============================================
+
+export function isEncryptedDocument(data: Buffer): boolean {
+  return data.length > DOCUMENT_MAGIC.length + 2 && data.subarray(0, DOCUMENT_MAGIC.length).equals(DOCUMENT_MAGIC);
+}
+
+function parseDocument(data: Buffer): { header: DocumentHeader; body: Buffer } {
+  const headerStart = DOCUMENT_MAGIC.length + 2;
+  const headerLength = data.readUInt16BE(DOCUMENT_MAGIC.length);
+  const header = JSON.parse(data.subarray(headerStart, headerStart + headerLength).toString('utf-8')) as DocumentHeader;
+  if (header.v !== 1) {
+    throw new Error(`Unsupported encrypted document version ${header.v}`);
+  }
+  return { header, body: data.subarray(headerStart + headerLength) };
+}
+
+function buildDocument(header: DocumentHeader, body: Buffer): Buffer {
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf-8');
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(headerBytes.length);
+  return Buffer.concat([DOCUMENT_MAGIC, length, headerBytes, body]);
+}
+
+export function encryptDocument(plaintext: Buffer): Buffer {
+  const dek = crypto.randomBytes(KEY_LENGTH);
+  const { iv, sealed } = seal(dek, plaintext, DOCUMENT_AAD);
+  return buildDocument({ v: 1, ...wrapDataKey(dek), iv: iv.toString('base64') }, sealed);
+}
+
+/**
+ * Decrypt a stored document; documents stored before encryption pass through
+ */
+export function decryptDocument(data: Buffer): Buffer {
+  if (!isEncryptedDocument(data)) {
+    return data;
+  }
+  const { header, body } = parseDocument(data);
+  return open(unwrapDataKey(header), Buffer.from(header.iv, 'base64'), body, DOCUMENT_AAD);
+}
+
+export function documentKeyId(data: Buffer): string | null {
+  return isEncryptedDocument(data) ? parseDocument(data).header.kek : null;
+}
+
+/**
+ * Rewrap an encrypted document's data key with the active KEK
+ */
+export function rewrapDocument(data: Buffer): Buffer {
+  const { header, body } = parseDocument(data);
+  return buildDocument({ ...header, ...wrapDataKey(unwrapDataKey(header)) }, body);
+}
@@ -0,0 +1,31 @@
+/**
+ * Encryption Services
+ * Re-exports envelope encryption, keyring and rotation services
+ */
+
+export {
+  encryptField,
+  decryptField,
+  encryptOptionalField,
+  isEncryptedField,
+  fieldKeyId,
+  rewrapField,
+  encryptDocument,
+  decryptDocument,
+  isEncryptedDocument,
+  documentKeyId,
+  rewrapDocument,
+} from './envelope.js';
+
+export {
+  getKeyring,
+  resetKeyring,
+  addKeyToKeyfile,
+  type Keyring,
+} from './keyring.js';
+
+export {
+  ENCRYPTED_FIELDS,
+  getEncryptionStatus,
+  rotateEncryption,
+} from './rotate.js';
@@ -0,0 +1,144 @@
+/**
+ * Keyring
+ * Loads the key-encryption keys (KEKs) that wrap per-value data keys
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../../config/index.js';
+import type { EncryptionKeyfile } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+
+export const KEY_LENGTH = 32;
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let keyring: Keyring | null = null;
+
+function decodeKey(id: string, encoded: string): Buffer {
+  if (!KEY_ID_PATTERN.test(id)) {
+    throw new Error(`Invalid encryption key id "${id}" (letters, digits, - and _ only)`);
+  }
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Encryption key "${id}" must be ${KEY_LENGTH} bytes (base64 encoded)`);
+  }
+  return key;
+}
+
+/**
+ * New key id based on the current time, e.g. k20261019T120000Z
+ */
+export function newKeyId(): string {
+  return `k${new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '')}`;
+}
+
+function parseEnvKeks(value: string): Keyring {
+  const keys = new Map<string, Buffer>();
+  let activeKeyId = '';
+
+  for (const entry of value.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator === -1) {
+      throw new Error('ENCRYPTION_KEKS entries must be "id:base64key"');
+    }
+    const id = entry.slice(0, separator);
+    keys.set(id, decodeKey(id, entry.slice(separator + 1)));
+    activeKeyId ||= id;
+  }
+
+  if (!activeKeyId) {
+    throw new Error('ENCRYPTION_KEKS does not contain any keys');
+  }
+  return { activeKeyId, keys };
+}
+
+export function readKeyfile(filePath: string = config.encryption.keyfile): EncryptionKeyfile {
+  const keyfile = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as EncryptionKeyfile;
+  if (!keyfile.active || !keyfile.keys || !keyfile.keys[keyfile.active]) {
+    throw new Error(`Encryption keyfile ${filePath} has no usable active key`);
+  }
+  return keyfile;
+}
+
+export function writeKeyfile(keyfile: EncryptionKeyfile, filePath: string = config.encryption.keyfile): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, `${JSON.stringify(keyfile, null, 2)}\n`, { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Add a fresh key to the keyfile and make it active. Existing keys stay so
+ * data wrapped with them can still be read until it is rotated.
+ */
+export function addKeyToKeyfile(filePath: string = config.encryption.keyfile): string {
+  const keyfile: EncryptionKeyfile = fs.existsSync(filePath)
+    ? readKeyfile(filePath)
+    : { active: '', keys: {} };
+
+  let id = newKeyId();
+  while (keyfile.keys[id]) {
+    id = `${id}_${crypto.randomBytes(2).toString('hex')}`;
+  }
+
+  keyfile.keys[id] = crypto.randomBytes(KEY_LENGTH).toString('base64');
+  keyfile.active = id;
+  writeKeyfile(keyfile, filePath);
+  resetKeyring();
+  return id;
+}
+
+function loadKeyring(): Keyring {
+  const { keks, keyfile: keyfilePath, generateKeyfile } = config.encryption;
+
+  if (keks) {
+    return parseEnvKeks(keks);
+  }
+
+  if (!fs.existsSync(keyfilePath)) {
+    if (!generateKeyfile) {
+      throw new Error(
+        `No encryption keys configured. Set ENCRYPTION_KEKS or create ${keyfilePath} ` +
+        '(npm run encryption -- add-key).'
+      );
+    }
+    const id = addKeyToKeyfile(keyfilePath);
+    logger.warn(`Generated encryption keyfile ${keyfilePath} (key ${id}). Back it up separately from the data.`);
+  }
+
+  const keyfile = readKeyfile(keyfilePath);
+  const keys = new Map<string, Buffer>();
+  for (const [id, encoded] of Object.entries(keyfile.keys)) {
+    keys.set(id, decodeKey(id, encoded));
+  }
+  return { activeKeyId: keyfile.active, keys };
+}
+
+/**
+ * Get the configured keyring (loaded on first use)
+ */
+export function getKeyring(): Keyring {
+  if (!keyring) {
+    keyring = loadKeyring();
+  }
+  return keyring;
+}
+
+export function resetKeyring(): void {
+  keyring = null;
+}
+
+export function getKey(id: string): Buffer {
+  const key = getKeyring().keys.get(id);
+  if (!key) {
+    throw new Error(`Encryption key "${id}" is not available`);
+  }
+  return key;
+}
@@ -0,0 +1,196 @@
+/**
+ * Encryption Rotation
+ * Encrypts values written before encryption existed and rewraps data keys
+ * that are still under a retired KEK
+ */
+
+import { getDatabase } from '../database.js';
+import {
+  getDocumentStore,
+  isLegacyDocumentPath,
+  readStoredDocument,
+  listAllDocuments,
+  DOCUMENT_COLUMNS,
+} from '../storage/index.js';
+import type {
+  EncryptedFieldName,
+  EncryptionCoverage,
+  EncryptionStatus,
+  EncryptionRotationResult,
+} from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import { getKeyring } from './keyring.js';
+import {
+  encryptField,
+  isEncryptedField,
+  fieldKeyId,
+  rewrapField,
+  encryptDocument,
+  isEncryptedDocument,
+  documentKeyId,
+  rewrapDocument,
+} from './envelope.js';
+
+/**
+ * Every encrypted column, as table/column pairs
+ */
+export const ENCRYPTED_FIELDS: { name: EncryptedFieldName; table: string; column: string }[] = [
+  { name: 'children.eval_data', table: 'children', column: 'eval_data' },
+  { name: 'iep_goals.comments', table: 'iep_goals', column: 'comments' },
+  { name: 'session_responses.child_response', table: 'session_responses', column: 'child_response' },
+  { name: 'therapist_two_factor.secret', table: 'therapist_two_factor', column: 'secret' },
+];
+
+function readFieldRows(table: string, column: string): { id: number; value: string }[] {
+  return getDatabase()
+    .prepare(`SELECT id, ${column} as value FROM ${table} WHERE ${column} IS NOT NULL`)
+    .all() as { id: number; value: string }[];
+}
+
+function readDocumentRows(column: string): { id: number; value: string }[] {
+  return getDatabase()
+    .prepare(`SELECT id, ${column} as value FROM children WHERE ${column} IS NOT NULL AND ${column} != ''`)
+    .all() as { id: number; value: string }[];
+}
+
+/**
+ * Every document to cover: those the children rows point at, then stored
+ * documents no row points at any more (earlier uploads that are still kept)
+ */
+async function readDocumentTargets(): Promise<{ key: string; label: string }[]> {
+  const targets: { key: string; label: string }[] = [];
+  const referenced = new Set<string>();
+  for (const { column } of DOCUMENT_COLUMNS) {
+    for (const row of readDocumentRows(column)) {
+      targets.push({ key: row.value, label: `${column} for student ${row.id}` });
+      referenced.add(row.value);
+    }
+  }
+  for (const key of await listAllDocuments()) {
+    if (!referenced.has(key)) {
+      targets.push({ key, label: `unreferenced document ${key}` });
+    }
+  }
+  return targets;
+}
+
+function countKey(coverage: EncryptionCoverage, keyId: string | null): void {
+  coverage.total++;
+  if (keyId === null) {
+    coverage.plaintext++;
+  } else {
+    coverage.by_key[keyId] = (coverage.by_key[keyId] || 0) + 1;
+  }
+}
+
+/**
+ * Count plaintext values and values under each KEK
+ */
+export async function getEncryptionStatus(): Promise<EncryptionStatus> {
+  const keyring = getKeyring();
+
+  const fields = ENCRYPTED_FIELDS.map(({ name, table, column }) => {
+    const coverage: EncryptionCoverage = { name, total: 0, plaintext: 0, by_key: {} };
+    for (const row of readFieldRows(table, column)) {
+      countKey(coverage, fieldKeyId(row.value));
+    }
+    return coverage;
+  });
+
+  const documents: EncryptionCoverage = { name: 'documents', total: 0, plaintext: 0, by_key: {} };
+  for (const { key } of await readDocumentTargets()) {
+    const data = await readStoredDocument(key);
+    if (data) {
+      countKey(documents, documentKeyId(data));
+    }
+  }
+
+  return {
+    active_key: keyring.activeKeyId,
+    available_keys: [...keyring.keys.keys()],
+    fields,
+    documents,
+  };
+}
+
+/**
+ * Bring every field and document under the active KEK
+ *
+ * Plaintext values are encrypted; envelopes under another KEK only have their
+ * data key rewrapped. Afterwards, retired keys can be removed from the keyring.
+ */
+export async function rotateEncryption(options: { dryRun?: boolean } = {}): Promise<EncryptionRotationResult> {
+  const db = getDatabase();
+  const { activeKeyId } = getKeyring();
+  const result: EncryptionRotationResult = { encrypted: 0, rewrapped: 0, unchanged: 0, missing: 0, failed: 0 };
+
+  for (const { name, table, column } of ENCRYPTED_FIELDS) {
+    const updates: { id: number; value: string }[] = [];
+
+    for (const row of readFieldRows(table, column)) {
+      try {
+        if (!isEncryptedField(row.value)) {
+          updates.push({ id: row.id, value: encryptField(row.value, name) });
+          result.encrypted++;
+        } else if (fieldKeyId(row.value) !== activeKeyId) {
+          updates.push({ id: row.id, value: rewrapField(row.value) });
+          result.rewrapped++;
+        } else {
+          result.unchanged++;
+        }
+      } catch (error) {
+        logger.error(`Encryption rotation: failed for ${name} row ${row.id}:`, error);
+        result.failed++;
+      }
+    }
+
+    if (!options.dryRun && updates.length > 0) {
+      const update = db.prepare(`UPDATE ${table} SET ${column} = ? WHERE id = ?`);
+      db.transaction(() => {
+        for (const { id, value } of updates) {
+          update.run(value, id);
+        }
+      })();
+    }
+  }
+
+  const store = getDocumentStore();
+  for (const { key, label } of await readDocumentTargets()) {
+    try {
+      // Legacy paths are outside the store; npm run documents:migrate moves them in first
+      const data = isLegacyDocumentPath(key) ? null : await store.get(key);
+      if (!data) {
+        logger.warn(`Encryption rotation: ${label} not found in store (${key})`);
+        result.missing++;
+        continue;
+      }
+
+      let rotated: Buffer;
+      if (!isEncryptedDocument(data)) {
+        rotated = encryptDocument(data);
+        result.encrypted++;
+      } else if (documentKeyId(data) !== activeKeyId) {
+        rotated = rewrapDocument(data);
+        result.rewrapped++;
+      } else {
+        result.unchanged++;
+        continue;
+      }
+
+      if (!options.dryRun) {
+        await store.put(key, rotated, 'application/pdf');
+      }
+    } catch (error) {
+      logger.error(`Encryption rotation: failed for ${label}:`, error);
+      result.failed++;
+    }
+  }
+
+  logger.info(
+    `Encryption rotation${options.dryRun ? ' (dry run)' : ''} to key ${activeKeyId}: ` +
+    `${result.encrypted} encrypted, ${result.rewrapped} rewrapped, ${result.unchanged} unchanged, ` +
+    `${result.missing} missing, ${result.failed} failed`
+  );
+
+  return result;
+}
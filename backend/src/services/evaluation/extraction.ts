@@ -1,19 +1,14 @@
 /**
  * Evaluation Extraction Service
- * Uses OpenAI to extract clinical information from evaluation PDFs
+ * Uses the configured LLM provider to extract clinical information from evaluation PDFs
  */
 
-import OpenAI from 'openai';
-import { config } from '../../config/index.js';
-import type { ExtractionResult, ExtractedField, ProblemType } from '../../types/index.js';
+import { getLLMProvider } from '../llm/index.js';
+import { pdfExtractionDuration } from '../metrics/index.js';
+import type { ExtractionResult, ExtractedField, ProblemType, LLMContentPart } from '../../types/index.js';
 import { EVALUATION_EXTRACTION_PROMPT } from './prompts/evaluation-extraction.prompt.js';
 import { logger } from '../../utils/logger.js';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
-
 // Maximum pages to process
 const MAX_PAGES = 10;
 
@@ -159,12 +154,14 @@ function normalizeExtractionResult(data: Record<string, unknown>): ExtractionRes
 }
 
 /**
- * Extract evaluation data from PDF using OpenAI
+ * Extract evaluation data from PDF using the LLM provider
  */
 export async function extractEvaluationData(
   pdfBuffer: Buffer,
   password?: string
 ): Promise<ExtractionResult> {
+  const endTimer = pdfExtractionDuration.startTimer({ kind: 'evaluation' });
+
   try {
     logger.info('Starting evaluation PDF extraction...');
 
@@ -172,11 +169,12 @@ export async function extractEvaluationData(
     const pageImages = await pdfToImages(pdfBuffer, password);
 
     if (pageImages.length === 0) {
+      endTimer({ outcome: 'empty' });
       return createEmptyExtractionResult('Could not extract any pages from PDF.');
     }
 
     // Build content array with all page images
-    const contentParts: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [
+    const contentParts: LLMContentPart[] = [
       {
         type: 'text',
         text: `Please extract the clinical information from this ${pageImages.length}-page evaluation report. Return ONLY valid JSON.`,
@@ -185,17 +183,16 @@ export async function extractEvaluationData(
 
     for (const imageUrl of pageImages) {
       contentParts.push({
-        type: 'image_url',
-        image_url: {
-          url: imageUrl,
-          detail: 'high',
-        },
+        type: 'image',
+        url: imageUrl,
+        detail: 'high',
       });
     }
 
-    // Call OpenAI
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    // Call the LLM (vision)
+    const response = await getLLMProvider().chat({
+      task: 'evaluation-extraction',
+      model: 'smart',
       messages: [
         {
           role: 'system',
@@ -206,19 +203,20 @@ export async function extractEvaluationData(
           content: contentParts,
         },
       ],
-      max_tokens: 4000,
+      maxTokens: 4000,
       temperature: 0.2,
-      response_format: { type: 'json_object' },
+      json: true,
     });
 
-    const content = response.choices[0]?.message?.content;
+    const content = response.content;
 
     if (!content) {
-      logger.warn('Empty response from OpenAI extraction');
+      logger.warn('Empty response from LLM extraction');
+      endTimer({ outcome: 'empty' });
       return createEmptyExtractionResult('AI returned empty response. Please enter data manually.');
     }
 
-    logger.info('Received extraction response from OpenAI');
+    logger.info(`Received extraction response (${response.model})`);
 
     // Parse JSON
     let extractedData: Record<string, unknown>;
@@ -241,11 +239,14 @@ export async function extractEvaluationData(
 
     const result = normalizeExtractionResult(extractedData);
     logger.info('Evaluation extraction completed successfully');
+    endTimer({ outcome: 'success' });
     return result;
   } catch (error) {
     if (error instanceof PasswordRequiredError) {
+      endTimer({ outcome: 'password_required' });
       throw error;
     }
+    endTimer({ outcome: 'failure' });
 
     logger.error('Evaluation extraction failed:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
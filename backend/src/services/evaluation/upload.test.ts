@@ -0,0 +1,28 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { setupTestDatabase, createTestTherapist, createTestStudent } from '../../test/database.js';
+import { documentExists, listStudentDocuments } from '../storage/index.js';
+import { saveEvaluationPdf, updateStudentPdfMetadata, getEvaluationPdfPath } from './upload.js';
+import type { Therapist } from '../../types/index.js';
+
+const PDF = Buffer.from('%PDF-1.4');
+
+let therapist: Therapist;
+
+before(async () => {
+  setupTestDatabase();
+  therapist = await createTestTherapist();
+});
+
+test('uploading a new evaluation PDF deletes the one it replaces', async () => {
+  const student = createTestStudent(therapist.id);
+
+  const first = await saveEvaluationPdf(student.id, PDF, 'first.pdf');
+  await updateStudentPdfMetadata(student.id, first.storageKey, 'first.pdf');
+  const second = await saveEvaluationPdf(student.id, PDF, 'second.pdf');
+  await updateStudentPdfMetadata(student.id, second.storageKey, 'second.pdf');
+
+  assert.equal(getEvaluationPdfPath(student.id), second.storageKey);
+  assert.equal(await documentExists(first.storageKey), false);
+  assert.deepEqual(await listStudentDocuments(student.id), [second.storageKey]);
+});
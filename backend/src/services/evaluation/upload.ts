@@ -1,41 +1,24 @@
 /**
  * Evaluation Upload Service
- * Handles PDF file upload, validation, and storage
+ * Handles PDF file upload, validation, and storage via the DocumentStore
  */
 
-import path from 'path';
-import fs from 'fs';
-import crypto from 'crypto';
-import { fileURLToPath } from 'url';
 import { getDatabase } from '../database.js';
 import type { Child } from '../../types/index.js';
 import { logger } from '../../utils/logger.js';
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
+import {
+  writeDocument,
+  buildDocumentKey,
+  readDocument,
+  documentExists,
+  deleteDocument,
+  deleteReplacedDocument,
+} from '../storage/index.js';
 
 // Configuration
-const UPLOADS_DIR = path.join(__dirname, '../../../data/uploads/evaluations');
 const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
 const ALLOWED_MIME_TYPES = ['application/pdf'];
 
-/**
- * Ensure uploads directory exists for a student
- */
-function ensureStudentUploadDir(studentId: number): string {
-  const studentDir = path.join(UPLOADS_DIR, String(studentId));
-  if (!fs.existsSync(studentDir)) {
-    fs.mkdirSync(studentDir, { recursive: true });
-  }
-  return studentDir;
-}
-
-/**
- * Generate unique filename for uploaded PDF
- */
-function generateUniqueFilename(): string {
-  return `${crypto.randomUUID()}.pdf`;
-}
-
 /**
  * Validate PDF file
  */
@@ -72,33 +55,33 @@ export function validatePdfFile(
 }
 
 /**
- * Save uploaded PDF to disk
+ * Save uploaded PDF to the document store
  */
 export async function saveEvaluationPdf(
   studentId: number,
   buffer: Buffer,
   _originalName: string
-): Promise<{ filePath: string; fileName: string }> {
-  const studentDir = ensureStudentUploadDir(studentId);
-  const fileName = generateUniqueFilename();
-  const filePath = path.join(studentDir, fileName);
+): Promise<{ storageKey: string; fileName: string }> {
+  const storageKey = buildDocumentKey('evaluations', studentId);
+  const fileName = storageKey.split('/').pop()!;
 
-  await fs.promises.writeFile(filePath, buffer);
-  logger.info(`Evaluation PDF saved: ${filePath}`);
+  await writeDocument(storageKey, buffer, 'application/pdf');
+  logger.info(`Evaluation PDF saved: ${storageKey}`);
 
-  return { filePath, fileName };
+  return { storageKey, fileName };
 }
 
 /**
- * Update student record with PDF metadata
+ * Update student record with PDF metadata and delete the PDF it replaces
  */
-export function updateStudentPdfMetadata(
+export async function updateStudentPdfMetadata(
   studentId: number,
-  filePath: string,
+  storageKey: string,
   originalName: string
-): void {
+): Promise<void> {
   const db = getDatabase();
   const now = new Date().toISOString();
+  const previousPath = getEvaluationPdfPath(studentId);
 
   db.prepare(
     `UPDATE children
@@ -106,13 +89,17 @@ export function updateStudentPdfMetadata(
          eval_pdf_uploaded_at = ?,
          eval_pdf_original_name = ?
      WHERE id = ?`
-  ).run(filePath, now, originalName, studentId);
+  ).run(storageKey, now, originalName, studentId);
 
   logger.info(`Student ${studentId} PDF metadata updated`);
+
+  if (previousPath && previousPath !== storageKey) {
+    await deleteReplacedDocument(previousPath);
+  }
 }
 
 /**
- * Get evaluation PDF path for a student
+ * Get evaluation PDF storage key for a student
  */
 export function getEvaluationPdfPath(studentId: number): string | null {
   const db = getDatabase();
@@ -126,9 +113,9 @@ export function getEvaluationPdfPath(studentId: number): string | null {
 /**
  * Check if student has an uploaded evaluation PDF
  */
-export function hasEvaluationPdf(studentId: number): boolean {
+export async function hasEvaluationPdf(studentId: number): Promise<boolean> {
   const pdfPath = getEvaluationPdfPath(studentId);
-  return pdfPath !== null && fs.existsSync(pdfPath);
+  return pdfPath !== null && (await documentExists(pdfPath));
 }
 
 /**
@@ -137,8 +124,8 @@ export function hasEvaluationPdf(studentId: number): boolean {
 export async function deleteEvaluationPdf(studentId: number): Promise<boolean> {
   const pdfPath = getEvaluationPdfPath(studentId);
 
-  if (pdfPath && fs.existsSync(pdfPath)) {
-    await fs.promises.unlink(pdfPath);
+  if (pdfPath) {
+    await deleteDocument(pdfPath);
     logger.info(`Evaluation PDF deleted: ${pdfPath}`);
   }
 
@@ -160,11 +147,11 @@ export async function deleteEvaluationPdf(studentId: number): Promise<boolean> {
 export async function readEvaluationPdf(studentId: number): Promise<Buffer | null> {
   const pdfPath = getEvaluationPdfPath(studentId);
 
-  if (!pdfPath || !fs.existsSync(pdfPath)) {
+  if (!pdfPath) {
     return null;
   }
 
-  return fs.promises.readFile(pdfPath);
+  return readDocument(pdfPath);
 }
 
 export default {
@@ -1,18 +1,14 @@
 /**
  * Goal Extraction Service
- * Uses OpenAI to extract IEP goals from PDFs
+ * Uses the configured LLM provider to extract IEP goals from PDFs
  */
 
-import OpenAI from 'openai';
-import { config } from '../../config/index.js';
-import type { GoalExtractionResult, GoalType } from '../../types/index.js';
+import { getLLMProvider } from '../llm/index.js';
+import { pdfExtractionDuration } from '../metrics/index.js';
+import type { GoalExtractionResult, GoalType, LLMContentPart } from '../../types/index.js';
 import { GOAL_EXTRACTION_PROMPT } from './prompts/goal-extraction.prompt.js';
 import { logger } from '../../utils/logger.js';
 
-const openai = new OpenAI({
-  apiKey: config.openai.apiKey,
-});
-
 const MAX_PAGES = 10;
 
 export class PasswordRequiredError extends Error {
@@ -182,16 +178,19 @@ export async function extractGoalsData(
   pdfBuffer: Buffer,
   password?: string
 ): Promise<GoalExtractionResult> {
+  const endTimer = pdfExtractionDuration.startTimer({ kind: 'goals' });
+
   try {
     logger.info('Starting IEP goals PDF extraction...');
 
     const pageImages = await pdfToImages(pdfBuffer, password);
 
     if (pageImages.length === 0) {
+      endTimer({ outcome: 'empty' });
       return createEmptyExtractionResult('Could not extract any pages from PDF.');
     }
 
-    const contentParts: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [
+    const contentParts: LLMContentPart[] = [
       {
         type: 'text',
         text: `Please extract all IEP goals from this ${pageImages.length}-page document. Return ONLY valid JSON.`,
@@ -200,16 +199,15 @@ export async function extractGoalsData(
 
     for (const imageUrl of pageImages) {
       contentParts.push({
-        type: 'image_url',
-        image_url: {
-          url: imageUrl,
-          detail: 'high',
-        },
+        type: 'image',
+        url: imageUrl,
+        detail: 'high',
       });
     }
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    const response = await getLLMProvider().chat({
+      task: 'goal-extraction',
+      model: 'smart',
       messages: [
         {
           role: 'system',
@@ -220,19 +218,20 @@ export async function extractGoalsData(
           content: contentParts,
         },
       ],
-      max_tokens: 4000,
+      maxTokens: 4000,
       temperature: 0.2,
-      response_format: { type: 'json_object' },
+      json: true,
     });
 
-    const content = response.choices[0]?.message?.content;
+    const content = response.content;
 
     if (!content) {
-      logger.warn('Empty response from OpenAI extraction');
+      logger.warn('Empty response from LLM extraction');
+      endTimer({ outcome: 'empty' });
       return createEmptyExtractionResult('AI returned empty response. Please enter goals manually.');
     }
 
-    logger.info('Received goals extraction response from OpenAI');
+    logger.info(`Received goals extraction response (${response.model})`);
 
     let extractedData: Record<string, unknown>;
 
@@ -254,11 +253,14 @@ export async function extractGoalsData(
 
     const result = normalizeExtractionResult(extractedData);
     logger.info(`Goals extraction completed: ${result.goals.length} goals found`);
+    endTimer({ outcome: 'success' });
     return result;
   } catch (error) {
     if (error instanceof PasswordRequiredError) {
+      endTimer({ outcome: 'password_required' });
       throw error;
     }
+    endTimer({ outcome: 'failure' });
 
     logger.error('Goals extraction failed:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
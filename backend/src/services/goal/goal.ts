@@ -4,8 +4,16 @@
  */
 
 import { getDatabase } from '../database.js';
+import { encryptOptionalField, decryptField } from '../encryption/index.js';
 import type { IEPGoal, CreateGoalRequest, UpdateGoalRequest, Objective } from '../../types/index.js';
 
+/**
+ * comments is stored encrypted; callers always see plaintext
+ */
+function decryptGoal(row: IEPGoal): IEPGoal {
+  return row.comments ? { ...row, comments: decryptField(row.comments, 'iep_goals.comments') } : row;
+}
+
 function createGoal(studentId: number, data: CreateGoalRequest & {
   baseline?: string;
   sessions_to_confirm?: number;
@@ -36,7 +44,7 @@ function createGoal(studentId: number, data: CreateGoalRequest & {
       data.target_date || null,
       data.baseline || null,
       data.sessions_to_confirm || 3,
-      data.comments || null,
+      encryptOptionalField(data.comments || null, 'iep_goals.comments'),
       data.boardgame_categories ? JSON.stringify(data.boardgame_categories) : null,
       data.session_duration_minutes || null,
       data.session_frequency || null,
@@ -124,7 +132,7 @@ export function getGoalById(id: number): IEPGoal | null {
   const row = db
     .prepare('SELECT * FROM iep_goals WHERE id = ?')
     .get(id) as IEPGoal | undefined;
-  return row || null;
+  return row ? decryptGoal(row) : null;
 }
 
 export function getGoalForStudent(goalId: number, studentId: number): IEPGoal | null {
@@ -132,21 +140,23 @@ export function getGoalForStudent(goalId: number, studentId: number): IEPGoal |
   const row = db
     .prepare('SELECT * FROM iep_goals WHERE id = ? AND student_id = ?')
     .get(goalId, studentId) as IEPGoal | undefined;
-  return row || null;
+  return row ? decryptGoal(row) : null;
 }
 
 export function listGoalsByStudent(studentId: number): IEPGoal[] {
   const db = getDatabase();
-  return db
+  return (db
     .prepare('SELECT * FROM iep_goals WHERE student_id = ? ORDER BY created_at DESC')
-    .all(studentId) as IEPGoal[];
+    .all(studentId) as IEPGoal[])
+    .map(decryptGoal);
 }
 
 export function listActiveGoalsByStudent(studentId: number): IEPGoal[] {
   const db = getDatabase();
-  return db
+  return (db
     .prepare("SELECT * FROM iep_goals WHERE student_id = ? AND status = 'active' ORDER BY created_at DESC")
-    .all(studentId) as IEPGoal[];
+    .all(studentId) as IEPGoal[])
+    .map(decryptGoal);
 }
 
 export function updateGoal(id: number, studentId: number, data: UpdateGoalRequest): IEPGoal | null {
@@ -10,6 +10,7 @@ export {
   getGoalsPdfPath,
   hasGoalsPdf,
   deleteGoalsPdf,
+  readGoalsPdf,
 } from './upload.js';
 
 export {
@@ -1,33 +1,22 @@
 /**
  * Goal Upload Service
- * Handles IEP goal PDF file upload, validation, and storage
+ * Handles IEP goal PDF file upload, validation, and storage via the DocumentStore
  */
 
-import path from 'path';
-import fs from 'fs';
-import crypto from 'crypto';
-import { fileURLToPath } from 'url';
 import { getDatabase } from '../database.js';
 import { logger } from '../../utils/logger.js';
+import {
+  writeDocument,
+  buildDocumentKey,
+  readDocument,
+  documentExists,
+  deleteDocument,
+  deleteReplacedDocument,
+} from '../storage/index.js';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-
-const UPLOADS_DIR = path.join(__dirname, '../../../data/uploads/goals');
 const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB
 const ALLOWED_MIME_TYPES = ['application/pdf'];
 
-function ensureStudentUploadDir(studentId: number): string {
-  const studentDir = path.join(UPLOADS_DIR, String(studentId));
-  if (!fs.existsSync(studentDir)) {
-    fs.mkdirSync(studentDir, { recursive: true });
-  }
-  return studentDir;
-}
-
-function generateUniqueFilename(): string {
-  return `${crypto.randomUUID()}.pdf`;
-}
-
 export function validatePdfFile(
   buffer: Buffer,
   mimeType: string,
@@ -60,24 +49,24 @@ export async function saveGoalsPdf(
   studentId: number,
   buffer: Buffer,
   _originalName: string
-): Promise<{ filePath: string; fileName: string }> {
-  const studentDir = ensureStudentUploadDir(studentId);
-  const fileName = generateUniqueFilename();
-  const filePath = path.join(studentDir, fileName);
+): Promise<{ storageKey: string; fileName: string }> {
+  const storageKey = buildDocumentKey('goals', studentId);
+  const fileName = storageKey.split('/').pop()!;
 
-  await fs.promises.writeFile(filePath, buffer);
-  logger.info(`Goals PDF saved: ${filePath}`);
+  await writeDocument(storageKey, buffer, 'application/pdf');
+  logger.info(`Goals PDF saved: ${storageKey}`);
 
-  return { filePath, fileName };
+  return { storageKey, fileName };
 }
 
-export function updateStudentGoalsPdfMetadata(
+export async function updateStudentGoalsPdfMetadata(
   studentId: number,
-  filePath: string,
+  storageKey: string,
   originalName: string
-): void {
+): Promise<void> {
   const db = getDatabase();
   const now = new Date().toISOString();
+  const previousPath = getGoalsPdfPath(studentId);
 
   db.prepare(
     `UPDATE children
@@ -85,9 +74,13 @@ export function updateStudentGoalsPdfMetadata(
          goals_pdf_uploaded_at = ?,
          goals_pdf_original_name = ?
      WHERE id = ?`
-  ).run(filePath, now, originalName, studentId);
+  ).run(storageKey, now, originalName, studentId);
 
   logger.info(`Student ${studentId} goals PDF metadata updated`);
+
+  if (previousPath && previousPath !== storageKey) {
+    await deleteReplacedDocument(previousPath);
+  }
 }
 
 export function getGoalsPdfPath(studentId: number): string | null {
@@ -99,16 +92,16 @@ export function getGoalsPdfPath(studentId: number): string | null {
   return student?.goals_pdf_path || null;
 }
 
-export function hasGoalsPdf(studentId: number): boolean {
+export async function hasGoalsPdf(studentId: number): Promise<boolean> {
   const pdfPath = getGoalsPdfPath(studentId);
-  return pdfPath !== null && fs.existsSync(pdfPath);
+  return pdfPath !== null && (await documentExists(pdfPath));
 }
 
 export async function deleteGoalsPdf(studentId: number): Promise<boolean> {
   const pdfPath = getGoalsPdfPath(studentId);
 
-  if (pdfPath && fs.existsSync(pdfPath)) {
-    await fs.promises.unlink(pdfPath);
+  if (pdfPath) {
+    await deleteDocument(pdfPath);
     logger.info(`Goals PDF deleted: ${pdfPath}`);
   }
 
@@ -124,6 +117,16 @@ export async function deleteGoalsPdf(studentId: number): Promise<boolean> {
   return true;
 }
 
+export async function readGoalsPdf(studentId: number): Promise<Buffer | null> {
+  const pdfPath = getGoalsPdfPath(studentId);
+
+  if (!pdfPath) {
+    return null;
+  }
+
+  return readDocument(pdfPath);
+}
+
 export default {
   validatePdfFile,
   saveGoalsPdf,
@@ -131,4 +134,5 @@ export default {
   getGoalsPdfPath,
   hasGoalsPdf,
   deleteGoalsPdf,
+  readGoalsPdf,
 };
@@ -0,0 +1,9 @@
+/**
+ * LLM Services
+ * Re-exports the chat-completion providers
+ */
+
+export { createLLMProvider, getLLMProvider, setLLMProvider } from './provider.js';
+export { OpenAIProvider, type OpenAIProviderOptions } from './openai.js';
+export { MockLLMProvider, type MockLLMProviderOptions } from './mock.js';
+export { MeteredLLMProvider } from './metered.js';
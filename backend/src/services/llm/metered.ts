@@ -0,0 +1,28 @@
+/**
+ * Metered LLM Provider
+ * Records call latency and failures per call site (task) around another provider
+ */
+
+import type { LLMProvider, LLMChatRequest, LLMChatResponse } from '../../types/index.js';
+import { llmRequestDuration, llmErrors } from '../metrics/index.js';
+
+export class MeteredLLMProvider implements LLMProvider {
+  constructor(private inner: LLMProvider) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const labels = { task: request.task, provider: this.inner.name };
+    const endTimer = llmRequestDuration.startTimer(labels);
+    try {
+      return await this.inner.chat(request);
+    } catch (error) {
+      llmErrors.inc(labels);
+      throw error;
+    } finally {
+      endTimer();
+    }
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Mock LLM Provider
+ * Deterministic offline responses: a fixture file per task if present,
+ * otherwise simple rules that mimic the real prompts' contracts
+ */
+
+import path from 'path';
+import fs from 'fs';
+import type {
+  LLMProvider,
+  LLMTask,
+  LLMMessage,
+  LLMChatRequest,
+  LLMChatResponse,
+} from '../../types/index.js';
+
+export interface MockLLMProviderOptions {
+  /** Directory with <task>.json files; each file's contents are returned verbatim */
+  fixturesDir?: string;
+}
+
+// Same groups the answer-check prompt lists as equivalent
+const SYNONYM_GROUPS: string[][] = [
+  ['cold', 'freezing', 'chilly', 'frosty', 'icy', 'frigid'],
+  ['hot', 'warm', 'boiling', 'burning', 'scorching'],
+  ['big', 'large', 'huge', 'giant', 'enormous', 'massive'],
+  ['small', 'little', 'tiny', 'teeny', 'mini'],
+  ['fast', 'quick', 'speedy', 'rapid'],
+  ['slow', 'sluggish', 'poky'],
+];
+
+const MOCK_SOURCE_HINT = 'Mock LLM provider';
+
+function messageText(messages: LLMMessage[], role: LLMMessage['role']): string {
+  return messages
+    .filter((m) => m.role === role)
+    .map((m) =>
+      typeof m.content === 'string'
+        ? m.content
+        : m.content.map((part) => (part.type === 'text' ? part.text : '')).join('\n')
+    )
+    .join('\n');
+}
+
+function quoted(text: string, label: string): string {
+  const match = text.match(new RegExp(`${label}:\\s*"([^"]*)"`));
+  return match ? match[1].toLowerCase().trim() : '';
+}
+
+function checkAnswer(prompt: string): { similar: boolean } {
+  const target = quoted(prompt, 'Expected answer');
+  const child = quoted(prompt, 'Child said');
+  if (!target || !child) {
+    return { similar: false };
+  }
+
+  const words = child.split(/\s+/);
+  const similar =
+    words.includes(target) ||
+    SYNONYM_GROUPS.some((group) => group.includes(target) && words.some((w) => group.includes(w)));
+  return { similar };
+}
+
+function classifySignals(prompt: string): Record<string, boolean | number> {
+  const text = quoted(prompt, 'Child said');
+  const distress = /\bno,? no,? no\b/.test(text) || /a{2,}h+/.test(text) || text.includes('[crying]');
+  const result = {
+    break_request: /\b(break|rest|stop playing|can we stop)\b/.test(text),
+    quit_request: /\b(quit|i'?m done|don'?t want to play|no more)\b/.test(text),
+    frustration: !distress && /\b(ugh|argh|too hard|can'?t do (this|it))\b/.test(text),
+    distress,
+  };
+  const flagged = Object.values(result).some(Boolean);
+  return { ...result, confidence: flagged ? 0.9 : 0.1 };
+}
+
+function field<T>(value: T, confidence = 0.5) {
+  return { value, confidence, source_hint: MOCK_SOURCE_HINT };
+}
+
+const RULES: Record<LLMTask, (request: LLMChatRequest) => unknown> = {
+  'answer-check': (request) => checkAnswer(messageText(request.messages, 'user')),
+
+  'signal-detection': (request) => classifySignals(messageText(request.messages, 'user')),
+
+  'response-generation': () => ({
+    coach_line: "Nice try! Let's keep going!",
+    choice_presentation: 'Do you want to try again or pick a new card?',
+  }),
+
+  'evaluation-extraction': () => ({
+    service_type: { ...field('articulation'), reasoning: 'Mock response' },
+    languages_spoken: field('English'),
+    family_religion: field(null, 0),
+    medical_history: field(null, 0),
+    other_diagnoses: field(null, 0),
+    speech_diagnoses: field('Articulation disorder'),
+    prior_therapy: field(null, 0),
+    baseline_accuracy: field(40),
+    goals_benchmarks: field(null, 0),
+    strengths: field(null, 0),
+    weaknesses: field(null, 0),
+    target_sounds: field(['r', 's']),
+    teachers: field(null, 0),
+    notes: field(null, 0),
+    extraction_notes: 'Generated by the mock LLM provider; values are placeholders.',
+  }),
+
+  'goal-extraction': () => ({
+    goals: [
+      {
+        goal_type: { value: 'articulation', confidence: 0.5, reasoning: 'Mock response' },
+        goal_description: field('Student will produce /r/ in the initial position of words with 80% accuracy.'),
+        target_percentage: field(80),
+        target_date: field(null, 0),
+        baseline: field('40% accuracy'),
+        deadline: field(null, 0),
+        sessions_to_confirm: field(3),
+        comments: field(null, 0),
+        boardgame_categories: { value: ['Adjectives'], confidence: 0.5, reasoning: 'Mock response' },
+        objectives: { value: null, confidence: 0 },
+      },
+    ],
+    session_duration_minutes: field(30),
+    session_frequency: field('2x weekly'),
+    extraction_notes: 'Generated by the mock LLM provider; values are placeholders.',
+  }),
+};
+
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  private fixturesDir: string;
+
+  constructor(options: MockLLMProviderOptions = {}) {
+    this.fixturesDir = options.fixturesDir || '';
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    if (request.signal?.aborted) {
+      throw new DOMException('The operation was aborted', 'AbortError');
+    }
+
+    const fixture = this.readFixture(request.task);
+    return {
+      content: fixture ?? JSON.stringify(RULES[request.task](request)),
+      model: `mock-${request.model}`,
+    };
+  }
+
+  /**
+   * Fixture contents for a task, read on every call so they can be edited while running
+   */
+  private readFixture(task: LLMTask): string | null {
+    if (!this.fixturesDir) {
+      return null;
+    }
+    const fixturePath = path.join(this.fixturesDir, `${task}.json`);
+    return fs.existsSync(fixturePath) ? fs.readFileSync(fixturePath, 'utf-8') : null;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * OpenAI LLM Provider
+ * Chat completions (JSON mode, image input) against the OpenAI API
+ */
+
+import OpenAI from 'openai';
+import type {
+  LLMProvider,
+  LLMModelTier,
+  LLMMessage,
+  LLMContentPart,
+  LLMChatRequest,
+  LLMChatResponse,
+} from '../../types/index.js';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  models: Record<LLMModelTier, string>;
+}
+
+function toTextContent(content: string | LLMContentPart[]): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((part): part is Extract<LLMContentPart, { type: 'text' }> => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
+function toOpenAIMessage(message: LLMMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  // Only user messages may carry images
+  if (message.role !== 'user' || typeof message.content === 'string') {
+    return { role: message.role, content: toTextContent(message.content) };
+  }
+
+  return {
+    role: 'user',
+    content: message.content.map((part): OpenAI.Chat.Completions.ChatCompletionContentPart =>
+      part.type === 'text'
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: part.url, detail: part.detail ?? 'auto' } }
+    ),
+  };
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI;
+  private models: Record<LLMModelTier, string>;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.client = new OpenAI({ apiKey: options.apiKey });
+    this.models = options.models;
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.models[request.model],
+        messages: request.messages.map(toOpenAIMessage),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+      },
+      { signal: request.signal }
+    );
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      model: response.model,
+    };
+  }
+}
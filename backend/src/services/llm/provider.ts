@@ -0,0 +1,39 @@
+/**
+ * LLM Provider Service
+ * Resolves the configured LLMProvider
+ */
+
+import { config } from '../../config/index.js';
+import type { LLMProvider, LLMProviderName } from '../../types/index.js';
+import { OpenAIProvider } from './openai.js';
+import { MockLLMProvider } from './mock.js';
+import { MeteredLLMProvider } from './metered.js';
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Create a provider using the LLM configuration
+ */
+export function createLLMProvider(name: LLMProviderName = config.llm.provider): LLMProvider {
+  if (name === 'mock') {
+    return new MockLLMProvider(config.llm.mock);
+  }
+  return new OpenAIProvider({ apiKey: config.openai.apiKey, models: config.llm.models });
+}
+
+/**
+ * Get the configured provider (created on first use, with call metrics)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = new MeteredLLMProvider(createLLMProvider());
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider, e.g. with a MockLLMProvider in scripts and tests
+ */
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next;
+}
@@ -0,0 +1,15 @@
+/**
+ * Console Mailer
+ * Writes messages to the log instead of sending them (development default)
+ */
+
+import type { Mailer, MailMessage } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+
+export class ConsoleMailer implements Mailer {
+  readonly driver = 'console' as const;
+
+  async send(message: MailMessage): Promise<void> {
+    logger.child({ to: message.to, subject: message.subject }).info(`Mail (not sent):\n${message.text}`);
+  }
+}
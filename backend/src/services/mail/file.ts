@@ -0,0 +1,23 @@
+/**
+ * File Mailer
+ * Saves each message as an .eml file (development and tests)
+ */
+
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import type { Mailer, MailMessage } from '../../types/index.js';
+import { buildMimeMessage } from './message.js';
+
+export class FileMailer implements Mailer {
+  readonly driver = 'file' as const;
+
+  constructor(private dir: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    // Timestamp first so a directory listing is in delivery order
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}.eml`;
+    await fs.promises.writeFile(path.join(this.dir, name), buildMimeMessage(message, this.from), 'utf-8');
+  }
+}
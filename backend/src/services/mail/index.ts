@@ -0,0 +1,10 @@
+/**
+ * Mail Services
+ * Re-exports mail drivers and helpers
+ */
+
+export { createMailer, getMailer, sendMail } from './mailer.js';
+export { SmtpMailer, type SmtpMailerOptions } from './smtp.js';
+export { FileMailer } from './file.js';
+export { ConsoleMailer } from './console.js';
+export { buildMimeMessage } from './message.js';
@@ -0,0 +1,40 @@
+/**
+ * Mail Service
+ * Resolves the configured Mailer and sends messages through it
+ */
+
+import { config } from '../../config/index.js';
+import type { MailDriverName, Mailer, MailMessage } from '../../types/index.js';
+import { SmtpMailer } from './smtp.js';
+import { FileMailer } from './file.js';
+import { ConsoleMailer } from './console.js';
+
+let mailer: Mailer | null = null;
+
+/**
+ * Create a mailer for the given driver using the mail configuration
+ */
+export function createMailer(driver: MailDriverName = config.mail.driver): Mailer {
+  switch (driver) {
+    case 'smtp':
+      return new SmtpMailer({ ...config.mail.smtp, from: config.mail.from });
+    case 'file':
+      return new FileMailer(config.mail.file.dir, config.mail.from);
+    case 'console':
+      return new ConsoleMailer();
+  }
+}
+
+/**
+ * Get the configured mailer (created on first use)
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = createMailer();
+  }
+  return mailer;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailer().send(message);
+}
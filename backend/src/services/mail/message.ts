@@ -0,0 +1,67 @@
+/**
+ * MIME Message Builder
+ * Renders a MailMessage as an RFC 5322 message (used for SMTP DATA and .eml files)
+ */
+
+import crypto from 'crypto';
+import type { MailMessage } from '../../types/index.js';
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word if it is not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+}
+
+/**
+ * Base64 body wrapped at 76 characters
+ */
+function encodeBody(text: string): string {
+  return Buffer.from(text, 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * The bare address from "Name <address>" (or the value itself)
+ */
+export function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+export function buildMimeMessage(message: MailMessage, from: string): string {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+  ];
+
+  if (!message.html) {
+    return [...headers, ...textPart].join('\r\n') + '\r\n';
+  }
+
+  const boundary = `piper-${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...textPart,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n') + '\r\n';
+}
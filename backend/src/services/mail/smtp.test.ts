@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import { SmtpMailer } from './smtp.js';
+
+const MESSAGE = { to: 'parent@example.com', subject: 'Hello', text: 'Hi there' };
+
+/**
+ * A plain-text relay that never offers STARTTLS, recording every line it receives
+ */
+async function startPlainRelay(): Promise<{ port: number; received: string[]; close: () => void }> {
+  const received: string[] = [];
+  const server = net.createServer((socket) => {
+    let inData = false;
+    let buffer = '';
+    socket.write('220 relay ready\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        received.push(line);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+        } else if (line.startsWith('EHLO')) {
+          socket.write('250-relay\r\n250 AUTH PLAIN\r\n');
+        } else if (line === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { port: (server.address() as net.AddressInfo).port, received, close: () => server.close() };
+}
+
+test('credentials are never sent to a relay that does not offer STARTTLS', async () => {
+  const relay = await startPlainRelay();
+  try {
+    const mailer = new SmtpMailer({
+      host: '127.0.0.1', port: relay.port, secure: false, user: 'piper', password: 'secret', from: 'no-reply@example.com',
+    });
+
+    await assert.rejects(mailer.send(MESSAGE), /refusing to send credentials/);
+    assert.equal(relay.received.some((line) => line.startsWith('AUTH')), false);
+    assert.equal(relay.received.some((line) => line.startsWith('MAIL FROM')), false);
+  } finally {
+    relay.close();
+  }
+});
+
+test('without credentials a plain relay still takes the message', async () => {
+  const relay = await startPlainRelay();
+  try {
+    const mailer = new SmtpMailer({
+      host: '127.0.0.1', port: relay.port, secure: false, user: '', password: '', from: 'no-reply@example.com',
+    });
+
+    await mailer.send(MESSAGE);
+    assert.ok(relay.received.includes('MAIL FROM:<no-reply@example.com>'));
+    assert.ok(relay.received.includes('RCPT TO:<parent@example.com>'));
+    assert.ok(relay.received.includes('DATA'));
+  } finally {
+    relay.close();
+  }
+});
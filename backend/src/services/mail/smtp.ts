@@ -0,0 +1,184 @@
+/**
+ * SMTP Mailer
+ *
+ * Speaks just enough SMTP (RFC 5321) to hand a message to a relay: EHLO,
+ * STARTTLS or implicit TLS, AUTH PLAIN, MAIL/RCPT/DATA. One connection per
+ * message, which is plenty for password reset traffic and keeps a mail
+ * library out of the dependency tree. Credentials are only ever sent over
+ * TLS, so a relay that stops offering STARTTLS cannot downgrade the login.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import type { Mailer, MailMessage } from '../../types/index.js';
+import { addressOf, buildMimeMessage } from './message.js';
+
+export interface SmtpMailerOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  from: string;
+}
+
+const COMMAND_TIMEOUT_MS = 30 * 1000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Reads complete (possibly multi-line) replies off a socket, one at a time
+ */
+class ReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString('utf-8');
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line[3] !== '-') {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines });
+        this.lines = [];
+      }
+    }
+    this.flush();
+  };
+
+  private onError = (error: Error): void => this.fail(error);
+  private onClose = (): void => this.fail(new Error('SMTP connection closed'));
+
+  constructor(private socket: net.Socket) {
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  /**
+   * Stop reading this socket (before it is wrapped for STARTTLS)
+   */
+  detach(): void {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onError);
+    this.socket.off('close', this.onClose);
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.flush();
+  }
+
+  private flush(): void {
+    if (!this.waiting) {
+      return;
+    }
+    const reply = this.replies.shift();
+    if (reply) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else if (this.failure) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  }
+
+  next(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+}
+
+export class SmtpMailer implements Mailer {
+  readonly driver = 'smtp' as const;
+
+  constructor(private options: SmtpMailerOptions) {
+    if (!options.host) {
+      throw new Error('SMTP mailer requires SMTP_HOST');
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  private upgrade(socket: net.Socket): Promise<tls.TLSSocket> {
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket, servername: this.options.host }, () => resolve(secured));
+      secured.once('error', reject);
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    let socket = await this.connect();
+    let encrypted = this.options.secure;
+    socket.setTimeout(COMMAND_TIMEOUT_MS, () => socket.destroy(new Error('SMTP command timed out')));
+
+    try {
+      let reader = new ReplyReader(socket);
+      const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+        if (line !== null) {
+          socket.write(`${line}\r\n`);
+        }
+        const reply = await reader.next();
+        if (!expected.includes(reply.code)) {
+          // Never echo AUTH lines, they carry the credentials
+          const sent = line?.startsWith('AUTH') ? 'AUTH' : line ?? 'greeting';
+          throw new Error(`SMTP ${sent} failed: ${reply.code} ${reply.lines.join(' ')}`);
+        }
+        return reply;
+      };
+
+      const hostname = os.hostname() || 'localhost';
+      await command(null, [220]);
+      let ehlo = await command(`EHLO ${hostname}`, [250]);
+
+      if (!this.options.secure && ehlo.lines.some((l) => l.toUpperCase() === 'STARTTLS')) {
+        await command('STARTTLS', [220]);
+        reader.detach();
+        socket = await this.upgrade(socket);
+        socket.setTimeout(COMMAND_TIMEOUT_MS, () => socket.destroy(new Error('SMTP command timed out')));
+        reader = new ReplyReader(socket);
+        ehlo = await command(`EHLO ${hostname}`, [250]);
+        encrypted = true;
+      }
+
+      if (this.options.user) {
+        if (!encrypted) {
+          throw new Error('SMTP server does not offer STARTTLS, refusing to send credentials in plain text');
+        }
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.password}`, 'utf-8').toString('base64');
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await command(`MAIL FROM:<${addressOf(this.options.from)}>`, [250]);
+      await command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await command('DATA', [354]);
+
+      // Lines starting with "." are escaped by doubling it (dot-stuffing)
+      const body = buildMimeMessage(message, this.options.from).replace(/^\./gm, '..');
+      await command(`${body}.`, [250]);
+      await command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      socket.destroy();
+    }
+  }
+}
@@ -1,8 +1,21 @@
 export {
   getMemberById,
+  getMemberProfile,
   getMemberByEmail,
+  getMemberForOrganization,
   listMembers,
+  listMemberStudentIds,
   createMember,
   updateMember,
   deleteMember,
+  loginMember,
+  verifyMemberToken,
 } from './member.js';
+
+export {
+  sendMemberInvite,
+  inviteMember,
+  revokeMemberInvite,
+  getMemberInvite,
+  acceptMemberInvite,
+} from './invites.js';
@@ -0,0 +1,189 @@
+/**
+ * Member Invite Service
+ * Emailed, expiring invite links through which new members choose their own password
+ *
+ * A pending member has at most one working link. Resending replaces it (the
+ * old link stops working), and revoking the invite removes the pending member.
+ * Tokens are stored only as SHA-256 hashes.
+ */
+
+import crypto from 'crypto';
+import bcryptjs from 'bcryptjs';
+import { getDatabase } from '../database.js';
+import { config } from '../../config/index.js';
+import { sendMail } from '../mail/index.js';
+import { getTherapistById } from '../auth/index.js';
+import { getOrganizationById } from '../organization/index.js';
+import { createMember, deleteMember, getMemberById, getMemberForOrganization, getMemberProfile } from './member.js';
+import { logger } from '../../utils/logger.js';
+import type { ValidRole } from '../../config/auth.js';
+import type {
+  AccessActor,
+  CreateMemberRequest,
+  Member,
+  MemberInviteDetails,
+  MemberResponse,
+} from '../../types/index.js';
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function getInviterName(actor: AccessActor): string {
+  if (actor.kind === 'therapist') {
+    const therapist = getTherapistById(actor.id);
+    return therapist ? `${therapist.first_name} ${therapist.last_name}` : 'Your therapist';
+  }
+  return getMemberById(actor.id)?.name ?? 'Your school';
+}
+
+function inviteEmail(
+  member: Member,
+  organizationName: string,
+  inviterName: string,
+  token: string
+): { subject: string; text: string } {
+  const link = `${config.appUrl}/therapist.html?invite_token=${encodeURIComponent(token)}`;
+  const days = Math.round(config.auth.memberInviteTtlMs / (24 * 60 * 60 * 1000));
+  return {
+    subject: `You're invited to ${organizationName} on PIPER`,
+    text: [
+      `Hi ${member.name},`,
+      '',
+      `${inviterName} invited you to join ${organizationName} on PIPER. To choose your password and sign in, open this link:`,
+      '',
+      link,
+      '',
+      `The link works once and expires in ${days} days. If you were not expecting this, you can ignore this email.`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Email a new invite link to a pending member, replacing any earlier link
+ *
+ * Mail is sent in the background; delivery failures are logged and the invite
+ * can be resent.
+ */
+export function sendMemberInvite(memberId: number, organizationId: number, invitedBy: AccessActor): MemberResponse {
+  const member = getMemberForOrganization(memberId, organizationId);
+  if (!member) {
+    throw new Error('Member not found');
+  }
+  if (member.activated_at) {
+    throw new Error('This member has already accepted their invite');
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = new Date();
+  getDatabase().prepare(`
+    INSERT INTO member_invites (member_id, token_hash, invited_by_type, invited_by_id, sent_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(member_id) DO UPDATE SET
+      token_hash = excluded.token_hash,
+      invited_by_type = excluded.invited_by_type,
+      invited_by_id = excluded.invited_by_id,
+      sent_at = excluded.sent_at,
+      expires_at = excluded.expires_at
+  `).run(
+    memberId,
+    hashToken(token),
+    invitedBy.kind,
+    invitedBy.id,
+    now.toISOString(),
+    new Date(now.getTime() + config.auth.memberInviteTtlMs).toISOString()
+  );
+
+  const organizationName = getOrganizationById(organizationId)?.name ?? 'your organization';
+  sendMail({ to: member.email, ...inviteEmail(member, organizationName, getInviterName(invitedBy), token) })
+    .catch((error) => {
+      logger.child({ member_id: memberId }).error('Failed to send member invite email:', error);
+    });
+
+  return getMemberProfile(memberId)!;
+}
+
+/**
+ * Add a pending member and email them their invite
+ */
+export function inviteMember(
+  organizationId: number,
+  data: CreateMemberRequest,
+  invitedBy: AccessActor
+): MemberResponse {
+  const member = createMember(organizationId, data);
+  return sendMemberInvite(member.id, organizationId, invitedBy);
+}
+
+/**
+ * Withdraw an invite that has not been accepted, removing the pending member
+ */
+export function revokeMemberInvite(memberId: number, organizationId: number): void {
+  const member = getMemberForOrganization(memberId, organizationId);
+  if (!member) {
+    throw new Error('Member not found');
+  }
+  if (member.activated_at) {
+    throw new Error('This member has already accepted their invite');
+  }
+  deleteMember(memberId, organizationId);
+}
+
+interface InviteRow {
+  id: number;
+  member_id: number;
+  expires_at: string;
+}
+
+function findOpenInvite(token: string): InviteRow | undefined {
+  return getDatabase()
+    .prepare(`
+      SELECT i.id, i.member_id, i.expires_at FROM member_invites i
+      JOIN therapist_members m ON m.id = i.member_id
+      WHERE i.token_hash = ? AND i.expires_at > ? AND m.activated_at IS NULL
+    `)
+    .get(hashToken(token), new Date().toISOString()) as InviteRow | undefined;
+}
+
+/**
+ * Who an invite is for, or null if the link is unknown, used or expired
+ */
+export function getMemberInvite(token: string): MemberInviteDetails | null {
+  const invite = findOpenInvite(token);
+  const member = invite && getMemberById(invite.member_id);
+  if (!invite || !member) {
+    return null;
+  }
+  return {
+    name: member.name,
+    email: member.email,
+    roles: JSON.parse(member.roles || '[]') as ValidRole[],
+    organization_name: getOrganizationById(member.organization_id)?.name ?? '',
+    expires_at: invite.expires_at,
+  };
+}
+
+/**
+ * Set the invitee's password and activate the member, spending the invite
+ */
+export async function acceptMemberInvite(token: string, password: string): Promise<MemberResponse> {
+  const passwordHash = await bcryptjs.hash(password, config.auth.saltRounds);
+  const db = getDatabase();
+
+  const memberId = db.transaction(() => {
+    // Re-checked inside the transaction so two concurrent requests cannot both use the invite
+    const invite = findOpenInvite(token);
+    if (!invite) {
+      return null;
+    }
+    db.prepare('UPDATE therapist_members SET password_hash = ?, activated_at = ? WHERE id = ?')
+      .run(passwordHash, new Date().toISOString(), invite.member_id);
+    db.prepare('DELETE FROM member_invites WHERE id = ?').run(invite.id);
+    return invite.member_id;
+  })();
+
+  if (memberId === null) {
+    throw new Error('Invalid or expired invite link');
+  }
+  return getMemberProfile(memberId)!;
+}
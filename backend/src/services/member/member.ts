@@ -1,15 +1,39 @@
 /**
  * Member Service
- * Handles member CRUD operations
+ * Handles member CRUD operations, student links and member authentication
+ *
+ * New members start out pending: they have no password until they accept
+ * their invite (see invites.ts) and cannot sign in before that.
  */
 
 import bcryptjs from 'bcryptjs';
 import { getDatabase } from '../database.js';
 import { config } from '../../config/index.js';
-import type { Member, MemberResponse, CreateMemberRequest, UpdateMemberRequest } from '../../types/index.js';
+import {
+  createAuthSession,
+  verifyAccessToken,
+  deleteAuthSessions,
+  deletePasswordResetTokens,
+  assertAccountUnlocked,
+  recordFailedLogin,
+  clearAccountLockout,
+} from '../auth/index.js';
+import type {
+  Member,
+  MemberResponse,
+  MemberInviteStatus,
+  CreateMemberRequest,
+  UpdateMemberRequest,
+  LoginRequest,
+  MemberAuthResult,
+  AuthClientInfo,
+} from '../../types/index.js';
 
 const { saltRounds, validRoles, isValidEmail } = config.auth;
 
+// Fields to select (excluding password_hash)
+const MEMBER_FIELDS = 'm.id, m.organization_id, m.name, m.email, m.roles, m.school_id, m.created_at, m.activated_at';
+
 // =============================================================================
 // READ OPERATIONS
 // =============================================================================
@@ -17,40 +41,72 @@ const { saltRounds, validRoles, isValidEmail } = config.auth;
 export function getMemberById(id: number): Member | undefined {
   const db = getDatabase();
   return db.prepare(`
-    SELECT m.*, s.name as school_name
+    SELECT ${MEMBER_FIELDS}, s.name as school_name
     FROM therapist_members m
     LEFT JOIN therapist_schools s ON m.school_id = s.id
     WHERE m.id = ?
   `).get(id) as Member | undefined;
 }
 
+/**
+ * A member as returned by the API (parsed roles and linked students)
+ */
+export function getMemberProfile(id: number): MemberResponse | undefined {
+  const member = getMemberById(id);
+  return member ? toMemberResponse(member) : undefined;
+}
+
 export function getMemberByEmail(email: string): Member | undefined {
   const db = getDatabase();
   return db.prepare(`
-    SELECT m.*, s.name as school_name
+    SELECT ${MEMBER_FIELDS}, s.name as school_name
     FROM therapist_members m
     LEFT JOIN therapist_schools s ON m.school_id = s.id
     WHERE m.email = ?
   `).get(email.trim().toLowerCase()) as Member | undefined;
 }
 
-export function listMembers(): MemberResponse[] {
+export function getMemberForOrganization(id: number, organizationId: number): Member | undefined {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT ${MEMBER_FIELDS}, s.name as school_name
+    FROM therapist_members m
+    LEFT JOIN therapist_schools s ON m.school_id = s.id
+    WHERE m.id = ? AND m.organization_id = ?
+  `).get(id, organizationId) as Member | undefined;
+}
+
+export function listMembers(organizationId: number): MemberResponse[] {
   const db = getDatabase();
   const members = db.prepare(`
-    SELECT m.*, s.name as school_name
+    SELECT ${MEMBER_FIELDS}, s.name as school_name
     FROM therapist_members m
     LEFT JOIN therapist_schools s ON m.school_id = s.id
+    WHERE m.organization_id = ?
     ORDER BY m.created_at DESC
-  `).all() as Member[];
+  `).all(organizationId) as Member[];
 
-  return members.map(parseMemberRoles);
+  return members.map(toMemberResponse);
+}
+
+/**
+ * Children a member is linked to (how Parent and Student members see a child)
+ */
+export function listMemberStudentIds(memberId: number): number[] {
+  const db = getDatabase();
+  const rows = db.prepare('SELECT student_id FROM member_students WHERE member_id = ? ORDER BY student_id')
+    .all(memberId) as { student_id: number }[];
+  return rows.map((row) => row.student_id);
 }
 
 // =============================================================================
 // CREATE OPERATIONS
 // =============================================================================
 
-export async function createMember(data: CreateMemberRequest): Promise<MemberResponse> {
+/**
+ * Add a pending member; they sign in once they accept the invite sent for them
+ */
+export function createMember(organizationId: number, data: CreateMemberRequest): MemberResponse {
   const db = getDatabase();
 
   // Validate email format
@@ -71,45 +127,59 @@ export async function createMember(data: CreateMemberRequest): Promise<MemberRes
     }
   }
 
-  // Validate school_id if provided
+  // Validate school_id if provided (must belong to the same organization)
   if (data.school_id) {
-    const school = db.prepare('SELECT id FROM therapist_schools WHERE id = ?').get(data.school_id);
+    const school = db.prepare('SELECT id FROM therapist_schools WHERE id = ? AND organization_id = ?')
+      .get(data.school_id, organizationId);
     if (!school) {
       throw new Error('Invalid school ID');
     }
   }
 
-  // Hash the password
-  const passwordHash = await bcryptjs.hash(data.password, saltRounds);
+  if (data.student_ids) {
+    assertStudentsInOrganization(data.student_ids, organizationId);
+  }
 
-  const result = db.prepare(`
-    INSERT INTO therapist_members (name, email, password_hash, roles, school_id)
-    VALUES (?, ?, ?, ?, ?)
-  `).run(
-    data.name.trim(),
-    data.email.trim().toLowerCase(),
-    passwordHash,
-    JSON.stringify(data.roles),
-    data.school_id || null
-  );
+  const memberId = db.transaction(() => {
+    // No usable password until the invite is accepted
+    const result = db.prepare(`
+      INSERT INTO therapist_members (organization_id, name, email, password_hash, roles, school_id, activated_at)
+      VALUES (?, ?, ?, '', ?, ?, NULL)
+    `).run(
+      organizationId,
+      data.name.trim(),
+      data.email.trim().toLowerCase(),
+      JSON.stringify(data.roles),
+      data.school_id || null
+    );
+    const id = result.lastInsertRowid as number;
+    if (data.student_ids) {
+      replaceMemberStudents(id, data.student_ids);
+    }
+    return id;
+  })();
 
-  const member = getMemberById(result.lastInsertRowid as number);
+  const member = getMemberById(memberId);
   if (!member) {
     throw new Error('Failed to create member');
   }
 
-  return parseMemberRoles(member);
+  return toMemberResponse(member);
 }
 
 // =============================================================================
 // UPDATE OPERATIONS
 // =============================================================================
 
-export async function updateMember(id: number, data: UpdateMemberRequest): Promise<MemberResponse> {
+export async function updateMember(
+  id: number,
+  organizationId: number,
+  data: UpdateMemberRequest
+): Promise<MemberResponse> {
   const db = getDatabase();
 
-  // Check member exists
-  const existing = getMemberById(id);
+  // Check member exists in the caller's organization
+  const existing = getMemberForOrganization(id, organizationId);
   if (!existing) {
     throw new Error('Member not found');
   }
@@ -144,6 +214,9 @@ export async function updateMember(id: number, data: UpdateMemberRequest): Promi
   }
 
   if (data.password !== undefined) {
+    if (!existing.activated_at) {
+      throw new Error('This member has not accepted their invite yet');
+    }
     const passwordHash = await bcryptjs.hash(data.password, saltRounds);
     updates.push('password_hash = ?');
     values.push(passwordHash);
@@ -164,7 +237,8 @@ export async function updateMember(id: number, data: UpdateMemberRequest): Promi
 
   if (data.school_id !== undefined) {
     if (data.school_id !== null) {
-      const school = db.prepare('SELECT id FROM therapist_schools WHERE id = ?').get(data.school_id);
+      const school = db.prepare('SELECT id FROM therapist_schools WHERE id = ? AND organization_id = ?')
+        .get(data.school_id, organizationId);
       if (!school) {
         throw new Error('Invalid school ID');
       }
@@ -173,44 +247,139 @@ export async function updateMember(id: number, data: UpdateMemberRequest): Promi
     values.push(data.school_id);
   }
 
-  if (updates.length === 0) {
+  if (data.student_ids !== undefined) {
+    assertStudentsInOrganization(data.student_ids, organizationId);
+  }
+
+  if (updates.length === 0 && data.student_ids === undefined) {
     throw new Error('No fields to update');
   }
 
   // Execute update
-  values.push(id);
-  db.prepare(`UPDATE therapist_members SET ${updates.join(', ')} WHERE id = ?`).run(...values);
+  db.transaction(() => {
+    if (updates.length > 0) {
+      db.prepare(`UPDATE therapist_members SET ${updates.join(', ')} WHERE id = ?`).run(...values, id);
+    }
+    if (data.student_ids !== undefined) {
+      replaceMemberStudents(id, data.student_ids);
+    }
+  })();
 
   const member = getMemberById(id);
   if (!member) {
     throw new Error('Failed to retrieve updated member');
   }
 
-  return parseMemberRoles(member);
+  return toMemberResponse(member);
 }
 
 // =============================================================================
 // DELETE OPERATIONS
 // =============================================================================
 
-export function deleteMember(id: number): void {
+export function deleteMember(id: number, organizationId: number): void {
   const db = getDatabase();
 
-  const member = getMemberById(id);
+  const member = getMemberForOrganization(id, organizationId);
   if (!member) {
     throw new Error('Member not found');
   }
 
-  db.prepare('DELETE FROM therapist_members WHERE id = ?').run(id);
+  db.transaction(() => {
+    db.prepare('DELETE FROM therapist_members WHERE id = ?').run(id);
+    deleteAuthSessions('member', id);
+    deletePasswordResetTokens('member', id);
+    clearAccountLockout('member', id);
+  })();
+}
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+export async function loginMember(
+  data: LoginRequest,
+  client: AuthClientInfo = {}
+): Promise<MemberAuthResult> {
+  const db = getDatabase();
+
+  // Pending members have no password yet
+  const row = db.prepare('SELECT id, password_hash FROM therapist_members WHERE email = ? AND activated_at IS NOT NULL')
+    .get(data.email.trim().toLowerCase()) as { id: number; password_hash: string } | undefined;
+
+  if (!row) {
+    throw new Error('Invalid email or password');
+  }
+
+  assertAccountUnlocked('member', row.id);
+
+  const valid = await bcryptjs.compare(data.password, row.password_hash);
+  if (!valid) {
+    recordFailedLogin('member', row.id);
+    throw new Error('Invalid email or password');
+  }
+
+  clearAccountLockout('member', row.id);
+  const member = getMemberById(row.id)!;
+
+  return { member: toMemberResponse(member), ...createAuthSession('member', row.id, client) };
+}
+
+/**
+ * Verify a member access token (rejects tokens whose session was revoked)
+ */
+export function verifyMemberToken(token: string): { member_id: number; session_id: string } | null {
+  const verified = verifyAccessToken('member', token);
+  return verified ? { member_id: verified.subject_id, session_id: verified.session_id } : null;
 }
 
 // =============================================================================
 // HELPERS
 // =============================================================================
 
-function parseMemberRoles(member: Member): MemberResponse {
+function toMemberResponse(member: Member): MemberResponse {
   return {
     ...member,
-    roles: JSON.parse(member.roles || '[]')
+    roles: JSON.parse(member.roles || '[]'),
+    student_ids: listMemberStudentIds(member.id),
+    invite: member.activated_at ? null : getInviteStatus(member.id),
   };
 }
+
+function getInviteStatus(memberId: number): MemberInviteStatus | null {
+  const row = getDatabase()
+    .prepare('SELECT sent_at, expires_at FROM member_invites WHERE member_id = ?')
+    .get(memberId) as { sent_at: string; expires_at: string } | undefined;
+  return row ? { ...row, expired: row.expires_at <= new Date().toISOString() } : null;
+}
+
+/**
+ * Linked students must belong to a therapist in the member's organization
+ */
+function assertStudentsInOrganization(studentIds: number[], organizationId: number): void {
+  const db = getDatabase();
+  const uniqueIds = [...new Set(studentIds)];
+  if (uniqueIds.length === 0) {
+    return;
+  }
+
+  const placeholders = uniqueIds.map(() => '?').join(', ');
+  const found = db.prepare(`
+    SELECT COUNT(*) as count FROM children c
+    JOIN therapists t ON t.id = c.therapist_id
+    WHERE c.id IN (${placeholders}) AND t.organization_id = ?
+  `).get(...uniqueIds, organizationId) as { count: number };
+
+  if (found.count !== uniqueIds.length) {
+    throw new Error('Invalid student ID');
+  }
+}
+
+function replaceMemberStudents(memberId: number, studentIds: number[]): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM member_students WHERE member_id = ?').run(memberId);
+  const insert = db.prepare('INSERT INTO member_students (member_id, student_id) VALUES (?, ?)');
+  for (const studentId of new Set(studentIds)) {
+    insert.run(memberId, studentId);
+  }
+}
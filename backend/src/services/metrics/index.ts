@@ -0,0 +1,29 @@
+/**
+ * Metrics Services
+ * Re-exports the metrics registry and application metrics
+ */
+
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  DEFAULT_BUCKETS,
+} from './registry.js';
+
+export {
+  registry,
+  voiceSessionsActive,
+  gameplaySessionsActive,
+  therapistLiveSubscribers,
+  httpRequestDuration,
+  llmRequestDuration,
+  llmErrors,
+  realtimeConnects,
+  realtimeUnexpectedCloses,
+  safetyLevels,
+  safetySignals,
+  pdfExtractionDuration,
+  processResidentMemory,
+  processUptime,
+} from './metrics.js';
@@ -0,0 +1,110 @@
+/**
+ * Application Metrics
+ * The metrics exposed on /api/metrics. This module only defines them; the
+ * services that own each number record into them.
+ */
+
+import { MetricsRegistry } from './registry.js';
+
+export const registry = new MetricsRegistry();
+
+// LLM calls and PDF extraction take seconds, not milliseconds
+const SLOW_BUCKETS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+
+// ============================================
+// Live sessions (set when /api/metrics is scraped)
+// ============================================
+
+export const voiceSessionsActive = registry.gauge(
+  'piper_voice_sessions_active',
+  'Open voice WebSocket sessions'
+);
+
+export const gameplaySessionsActive = registry.gauge(
+  'piper_gameplay_sessions_active',
+  'Gameplay sessions linked to an open voice session'
+);
+
+export const therapistLiveSubscribers = registry.gauge(
+  'piper_therapist_live_subscribers',
+  'Therapist live-monitoring WebSocket connections'
+);
+
+// ============================================
+// HTTP
+// ============================================
+
+export const httpRequestDuration = registry.histogram(
+  'piper_http_request_duration_seconds',
+  'HTTP request latency by route',
+  ['method', 'route', 'status_code']
+);
+
+// ============================================
+// LLM and Realtime API
+// ============================================
+
+export const llmRequestDuration = registry.histogram(
+  'piper_llm_request_duration_seconds',
+  'LLM chat call latency by call site',
+  ['task', 'provider'],
+  SLOW_BUCKETS
+);
+
+export const llmErrors = registry.counter(
+  'piper_llm_errors_total',
+  'Failed LLM chat calls (including timeouts) by call site',
+  ['task', 'provider']
+);
+
+export const realtimeConnects = registry.counter(
+  'piper_realtime_connects_total',
+  'Connection attempts to the OpenAI Realtime API',
+  ['result']
+);
+
+export const realtimeUnexpectedCloses = registry.counter(
+  'piper_realtime_unexpected_closes_total',
+  'Realtime API connections closed while the voice session was still open'
+);
+
+// ============================================
+// Safety gate
+// ============================================
+
+export const safetyLevels = registry.counter(
+  'piper_safety_level_total',
+  'Safety-gate pipeline runs by assessed level',
+  ['level']
+);
+
+export const safetySignals = registry.counter(
+  'piper_safety_signals_total',
+  'Signals emitted by the safety-gate signal detector',
+  ['signal']
+);
+
+// ============================================
+// Document extraction
+// ============================================
+
+export const pdfExtractionDuration = registry.histogram(
+  'piper_pdf_extraction_duration_seconds',
+  'Evaluation and IEP goals PDF extraction time',
+  ['kind', 'outcome'],
+  SLOW_BUCKETS
+);
+
+// ============================================
+// Process
+// ============================================
+
+export const processResidentMemory = registry.gauge(
+  'process_resident_memory_bytes',
+  'Resident memory size in bytes'
+);
+
+export const processUptime = registry.gauge(
+  'process_uptime_seconds',
+  'Seconds since the process started'
+);
@@ -0,0 +1,188 @@
+/**
+ * Metrics Registry
+ * Minimal counters, gauges and histograms rendered in the Prometheus text format
+ */
+
+import type { MetricType, MetricLabels } from '../../types/index.js';
+
+// Prometheus client defaults, in seconds
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(names: string[], values: string[], extra?: [string, string]): string {
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  if (extra) {
+    pairs.push(`${extra[0]}="${escapeLabelValue(extra[1])}"`);
+  }
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric<TSeries> {
+  protected series: Map<string, { labels: string[]; data: TSeries }> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType,
+    readonly labelNames: string[]
+  ) {}
+
+  protected abstract createSeries(): TSeries;
+
+  protected getSeries(labels: MetricLabels = {}): TSeries {
+    const values = this.labelNames.map((name) => String(labels[name] ?? ''));
+    const key = values.join('\u0000');
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: values, data: this.createSeries() };
+      this.series.set(key, entry);
+    }
+    return entry.data;
+  }
+
+  protected abstract renderSeries(labels: string[], data: TSeries): string[];
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, data } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, data));
+    }
+    return lines.join('\n');
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'counter', labelNames);
+    if (labelNames.length === 0) {
+      this.getSeries();
+    }
+  }
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  inc(labels?: MetricLabels, amount = 1): void {
+    this.getSeries(labels).value += amount;
+  }
+
+  protected renderSeries(labels: string[], data: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(data.value)}`];
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    super(name, help, 'gauge', labelNames);
+    if (labelNames.length === 0) {
+      this.getSeries();
+    }
+  }
+
+  protected createSeries() {
+    return { value: 0 };
+  }
+
+  set(value: number, labels?: MetricLabels): void {
+    this.getSeries(labels).value = value;
+  }
+
+  protected renderSeries(labels: string[], data: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(data.value)}`];
+  }
+}
+
+interface HistogramSeries {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+  private buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[] = [], buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram', labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  protected createSeries(): HistogramSeries {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(value: number, labels?: MetricLabels): void {
+    const series = this.getSeries(labels);
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series.counts[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start timing; call the returned function to record the elapsed seconds
+   * (labels passed there are merged over the starting labels)
+   */
+  startTimer(labels: MetricLabels = {}): (endLabels?: MetricLabels) => number {
+    const start = process.hrtime.bigint();
+    return (endLabels?: MetricLabels) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(seconds, { ...labels, ...endLabels });
+      return seconds;
+    };
+  }
+
+  protected renderSeries(labels: string[], data: HistogramSeries): string[] {
+    const lines = this.buckets.map(
+      (bound, i) =>
+        `${this.name}_bucket${formatLabels(this.labelNames, labels, ['le', formatValue(bound)])} ${data.counts[i]}`
+    );
+    lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, ['le', '+Inf'])} ${data.count}`);
+    lines.push(`${this.name}_sum${formatLabels(this.labelNames, labels)} ${data.sum}`);
+    lines.push(`${this.name}_count${formatLabels(this.labelNames, labels)} ${data.count}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Counter | Gauge | Histogram> = new Map();
+
+  private register<T extends Counter | Gauge | Histogram>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  counter(name: string, help: string, labelNames?: string[]): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames?: string[]): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames?: string[], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format (version 0.0.4)
+   */
+  render(): string {
+    return `${[...this.metrics.values()].map((metric) => metric.render()).join('\n')}\n`;
+  }
+}
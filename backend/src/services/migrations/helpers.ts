@@ -0,0 +1,61 @@
+/**
+ * Migration Helpers
+ * Schema utilities shared by migration files
+ */
+
+import type Database from 'better-sqlite3';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Get the column names of a table (empty if the table does not exist)
+ */
+export function getColumnNames(db: Database.Database, table: string): string[] {
+  const columns = db
+    .prepare(`PRAGMA table_info(${table})`)
+    .all() as { name: string }[];
+  return columns.map((c) => c.name);
+}
+
+/**
+ * Add a column unless it already exists
+ * Used by the baseline migration to bring pre-migration databases up to date
+ */
+export function addColumnIfMissing(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columnNames = getColumnNames(db, table);
+  if (columnNames.length > 0 && !columnNames.includes(column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    logger.info(`Migration: Added ${column} column to ${table}`);
+  }
+}
+
+/**
+ * Rebuild a table with a new definition, copying rows across
+ *
+ * SQLite cannot alter CHECK constraints or drop columns in place, so the table
+ * is recreated and swapped. `columns` maps new column name -> SQL expression
+ * over the old table (usually just the old column name). Indexes must be
+ * recreated by the caller. The migration must set `disableForeignKeys`.
+ */
+export function rebuildTable(
+  db: Database.Database,
+  table: string,
+  createSql: string,
+  columns: Record<string, string>
+): void {
+  const tempTable = `${table}_new`;
+  const targetColumns = Object.keys(columns);
+  const sourceExpressions = targetColumns.map((c) => columns[c]);
+
+  db.exec(createSql.replace(new RegExp(`CREATE TABLE\\s+${table}\\b`), `CREATE TABLE ${tempTable}`));
+  db.exec(`
+    INSERT INTO ${tempTable} (${targetColumns.join(', ')})
+    SELECT ${sourceExpressions.join(', ')} FROM ${table}
+  `);
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${tempTable} RENAME TO ${table}`);
+}
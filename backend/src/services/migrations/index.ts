@@ -0,0 +1,17 @@
+export {
+  SchemaTooNewError,
+  getLatestVersion,
+  getCurrentVersion,
+  getAppliedMigrations,
+  assertSchemaNotNewer,
+  migrateUp,
+  migrateDown,
+  rollback,
+  getMigrationStatus,
+} from './runner.js';
+
+export {
+  getColumnNames,
+  addColumnIfMissing,
+  rebuildTable,
+} from './helpers.js';
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { migrations } from './versions/index.js';
+import { getCurrentVersion, getLatestVersion, migrateDown, migrateUp, rollback } from './runner.js';
+
+// Everything but the migration bookkeeping, in a stable order
+// (rebuildTable renames tables, which makes SQLite quote their names)
+function schemaOf(db: Database.Database): string[] {
+  const rows = db.prepare(`
+    SELECT type, name, sql FROM sqlite_master
+    WHERE name NOT LIKE 'sqlite_%' AND name != 'schema_migrations'
+    ORDER BY type, name
+  `).all() as { type: string; name: string; sql: string | null }[];
+  return rows.map((row) => `${row.type} ${row.name}: ${(row.sql ?? '').replace(/"/g, '').replace(/\s+/g, ' ')}`);
+}
+
+function openMemoryDatabase(): Database.Database {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
+
+test('migrateUp applies every migration in order', () => {
+  const db = openMemoryDatabase();
+  const applied = migrateUp(db);
+
+  assert.deepEqual(applied.map((m) => m.version), migrations.map((m) => m.version));
+  assert.equal(getCurrentVersion(db), getLatestVersion());
+  assert.deepEqual(migrateUp(db), [], 'a second run has nothing to apply');
+});
+
+test('every migration rolls back to the schema it started from', () => {
+  const db = openMemoryDatabase();
+
+  for (const migration of migrations) {
+    const before = schemaOf(db);
+    migrateUp(db, migration.version);
+    const after = schemaOf(db);
+    assert.notDeepEqual(after, before, `${migration.version}_${migration.name} changes the schema`);
+
+    rollback(db);
+    assert.deepEqual(schemaOf(db), before, `${migration.version}_${migration.name} down undoes up`);
+
+    migrateUp(db, migration.version);
+    assert.deepEqual(schemaOf(db), after, `${migration.version}_${migration.name} applies again after a rollback`);
+  }
+});
+
+test('migrateDown to 0 leaves an empty schema that migrates up again', () => {
+  const db = openMemoryDatabase();
+  migrateUp(db);
+  const latest = schemaOf(db);
+
+  migrateDown(db, 0);
+  assert.equal(getCurrentVersion(db), 0);
+  assert.deepEqual(schemaOf(db), []);
+
+  migrateUp(db);
+  assert.deepEqual(schemaOf(db), latest);
+});
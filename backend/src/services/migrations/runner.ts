@@ -0,0 +1,200 @@
+/**
+ * Migration Runner
+ * Applies and rolls back numbered schema migrations, tracked in schema_migrations
+ */
+
+import type Database from 'better-sqlite3';
+import type { Migration, AppliedMigration, MigrationStatus } from '../../types/index.js';
+import { migrations as registeredMigrations } from './versions/index.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Raised when the database has migrations applied that this build does not know about
+ */
+export class SchemaTooNewError extends Error {
+  constructor(public databaseVersion: number, public codeVersion: number) {
+    super(
+      `Database schema version ${databaseVersion} is newer than this build supports (${codeVersion}). ` +
+      'Deploy a newer build or roll the database back with the migrate CLI.'
+    );
+    this.name = 'SchemaTooNewError';
+  }
+}
+
+/**
+ * Get registered migrations sorted by version, checking for duplicates
+ */
+function getMigrations(): Migration[] {
+  const sorted = [...registeredMigrations].sort((a, b) => a.version - b.version);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].version === sorted[i - 1].version) {
+      throw new Error(`Duplicate migration version ${sorted[i].version}`);
+    }
+  }
+  return sorted;
+}
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/**
+ * Latest migration version known to this build
+ */
+export function getLatestVersion(): number {
+  const all = getMigrations();
+  return all.length > 0 ? all[all.length - 1].version : 0;
+}
+
+/**
+ * Highest migration version applied to the database (0 if none)
+ */
+export function getCurrentVersion(db: Database.Database): number {
+  ensureMigrationsTable(db);
+  const row = db
+    .prepare('SELECT MAX(version) as version FROM schema_migrations')
+    .get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+export function getAppliedMigrations(db: Database.Database): AppliedMigration[] {
+  ensureMigrationsTable(db);
+  return db
+    .prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version')
+    .all() as AppliedMigration[];
+}
+
+/**
+ * Refuse to run against a schema written by a newer build
+ */
+export function assertSchemaNotNewer(db: Database.Database): void {
+  const databaseVersion = getCurrentVersion(db);
+  const codeVersion = getLatestVersion();
+  if (databaseVersion > codeVersion) {
+    throw new SchemaTooNewError(databaseVersion, codeVersion);
+  }
+}
+
+/**
+ * Run one migration step inside a transaction
+ */
+function runStep(
+  db: Database.Database,
+  migration: Migration,
+  direction: 'up' | 'down'
+): void {
+  if (migration.disableForeignKeys) {
+    // Must be set outside the transaction, SQLite ignores it otherwise
+    db.pragma('foreign_keys = OFF');
+  }
+
+  try {
+    db.transaction(() => {
+      migration[direction](db);
+
+      if (migration.disableForeignKeys) {
+        const violations = db.pragma('foreign_key_check') as unknown[];
+        if (violations.length > 0) {
+          throw new Error(
+            `Migration ${migration.version} (${direction}) left ${violations.length} foreign key violations`
+          );
+        }
+      }
+
+      if (direction === 'up') {
+        db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)')
+          .run(migration.version, migration.name);
+      } else {
+        db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+      }
+    })();
+  } finally {
+    if (migration.disableForeignKeys) {
+      db.pragma('foreign_keys = ON');
+    }
+  }
+
+  logger.info(
+    `Migration ${direction === 'up' ? 'applied' : 'rolled back'}: ` +
+    `${String(migration.version).padStart(3, '0')}_${migration.name}`
+  );
+}
+
+/**
+ * Apply pending migrations up to `targetVersion` (defaults to latest)
+ * Returns the migrations that were applied
+ */
+export function migrateUp(db: Database.Database, targetVersion?: number): Migration[] {
+  assertSchemaNotNewer(db);
+
+  const target = targetVersion ?? getLatestVersion();
+  const applied = new Set(getAppliedMigrations(db).map((m) => m.version));
+  const pending = getMigrations().filter((m) => !applied.has(m.version) && m.version <= target);
+
+  for (const migration of pending) {
+    runStep(db, migration, 'up');
+  }
+
+  return pending;
+}
+
+/**
+ * Roll back applied migrations down to (but not including) `targetVersion`
+ * Returns the migrations that were rolled back
+ */
+export function migrateDown(db: Database.Database, targetVersion: number): Migration[] {
+  assertSchemaNotNewer(db);
+
+  const applied = new Set(getAppliedMigrations(db).map((m) => m.version));
+  const toRollBack = getMigrations()
+    .filter((m) => applied.has(m.version) && m.version > targetVersion)
+    .reverse();
+
+  for (const migration of toRollBack) {
+    runStep(db, migration, 'down');
+  }
+
+  return toRollBack;
+}
+
+/**
+ * Roll back the most recent `steps` migrations
+ */
+export function rollback(db: Database.Database, steps: number = 1): Migration[] {
+  const applied = getAppliedMigrations(db);
+  if (applied.length === 0 || steps <= 0) {
+    return [];
+  }
+  const index = Math.max(0, applied.length - steps);
+  const targetVersion = index === 0 ? 0 : applied[index - 1].version;
+  return migrateDown(db, targetVersion);
+}
+
+/**
+ * Status of every known migration, plus any unknown versions found in the database
+ */
+export function getMigrationStatus(db: Database.Database): MigrationStatus[] {
+  const applied = new Map(getAppliedMigrations(db).map((m) => [m.version, m]));
+
+  const status: MigrationStatus[] = getMigrations().map((m) => ({
+    version: m.version,
+    name: m.name,
+    applied: applied.has(m.version),
+    applied_at: applied.get(m.version)?.applied_at ?? null,
+  }));
+
+  const known = new Set(status.map((s) => s.version));
+  for (const [version, row] of applied) {
+    if (!known.has(version)) {
+      status.push({ version, name: `${row.name} (unknown to this build)`, applied: true, applied_at: row.applied_at });
+    }
+  }
+
+  return status.sort((a, b) => a.version - b.version);
+}
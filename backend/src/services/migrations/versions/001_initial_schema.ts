@@ -0,0 +1,213 @@
+/**
+ * Migration 001: Initial schema
+ *
+ * Baseline for the versioned migration system. Creates every table that
+ * existed before migrations were introduced, and adds the columns that the
+ * old ad-hoc startup migrations used to add, so databases created by earlier
+ * releases are adopted without data loss.
+ */
+
+import type { Migration } from '../../../types/index.js';
+import { addColumnIfMissing } from '../helpers.js';
+
+export const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS therapists (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        email TEXT UNIQUE NOT NULL,
+        password_hash TEXT NOT NULL,
+        first_name TEXT NOT NULL,
+        last_name TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS children (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        therapist_id INTEGER NOT NULL,
+        username TEXT UNIQUE NOT NULL,
+        password_hash TEXT NOT NULL,
+        first_name TEXT NOT NULL,
+        last_name TEXT NOT NULL,
+        date_of_birth TEXT,
+        grade_level TEXT,
+        problem_type TEXT CHECK(problem_type IN ('language', 'articulation', 'both')),
+        eval_data TEXT,
+        eval_pdf_path TEXT,
+        eval_pdf_uploaded_at TEXT,
+        eval_pdf_original_name TEXT,
+        goals_pdf_path TEXT,
+        goals_pdf_uploaded_at TEXT,
+        goals_pdf_original_name TEXT,
+        session_duration_minutes INTEGER,
+        session_frequency TEXT,
+        slp_id INTEGER,
+        school_id INTEGER,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (therapist_id) REFERENCES therapists(id) ON DELETE CASCADE,
+        FOREIGN KEY (slp_id) REFERENCES therapist_members(id) ON DELETE SET NULL,
+        FOREIGN KEY (school_id) REFERENCES therapist_schools(id) ON DELETE SET NULL
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS iep_goals (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER NOT NULL,
+        goal_type TEXT NOT NULL CHECK(goal_type IN ('language', 'articulation')),
+        goal_description TEXT NOT NULL,
+        target_percentage INTEGER DEFAULT 80,
+        current_percentage INTEGER DEFAULT 0,
+        target_date TEXT,
+        baseline TEXT,
+        sessions_to_confirm INTEGER DEFAULT 3,
+        comments TEXT,
+        boardgame_categories TEXT,
+        session_duration_minutes INTEGER,
+        session_frequency TEXT,
+        objectives TEXT,
+        status TEXT DEFAULT 'active' CHECK(status IN ('active', 'achieved', 'discontinued')),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (student_id) REFERENCES children(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS gameplay_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        child_id INTEGER NOT NULL,
+        therapist_id INTEGER NOT NULL,
+        started_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        ended_at TEXT,
+        duration_seconds INTEGER,
+        categories_selected TEXT NOT NULL,
+        theme TEXT,
+        character TEXT,
+        status TEXT DEFAULT 'in_progress' CHECK(status IN ('in_progress', 'completed', 'abandoned')),
+        final_score INTEGER DEFAULT 0,
+        final_board_position INTEGER DEFAULT 0,
+        total_cards_played INTEGER DEFAULT 0,
+        correct_responses INTEGER DEFAULT 0,
+        FOREIGN KEY (child_id) REFERENCES children(id) ON DELETE CASCADE,
+        FOREIGN KEY (therapist_id) REFERENCES therapists(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS session_responses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id INTEGER NOT NULL,
+        card_category TEXT NOT NULL,
+        card_question TEXT NOT NULL,
+        child_response TEXT,
+        is_correct INTEGER NOT NULL,
+        attempt_number INTEGER DEFAULT 1,
+        card_shown_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        response_at TEXT,
+        time_spent_seconds INTEGER,
+        safety_level INTEGER DEFAULT 0,
+        signals_detected TEXT,
+        intervention_chosen TEXT,
+        FOREIGN KEY (session_id) REFERENCES gameplay_sessions(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_sessions_therapist ON gameplay_sessions(therapist_id, started_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_sessions_child ON gameplay_sessions(child_id, started_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_sessions_status ON gameplay_sessions(status);
+      CREATE INDEX IF NOT EXISTS idx_responses_session ON session_responses(session_id, card_shown_at);
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS voice_calibrations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        child_id INTEGER NOT NULL UNIQUE,
+        amplitude_threshold REAL NOT NULL,
+        peak_threshold REAL NOT NULL,
+        baseline_amplitude REAL,
+        baseline_peak REAL,
+        excited_amplitude REAL,
+        excited_peak REAL,
+        loud_amplitude REAL,
+        loud_peak REAL,
+        confidence TEXT CHECK(confidence IN ('high', 'medium', 'low')),
+        calibrated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (child_id) REFERENCES children(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS therapist_schools (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        contact_name TEXT,
+        contact_email TEXT,
+        contact_phone TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS therapist_members (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        email TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        roles TEXT NOT NULL,
+        school_id INTEGER,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (school_id) REFERENCES therapist_schools(id) ON DELETE SET NULL
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_members_school ON therapist_members(school_id);
+      CREATE INDEX IF NOT EXISTS idx_members_email ON therapist_members(email);
+    `);
+
+    // Columns added by the pre-migration startup code (legacy databases only)
+    addColumnIfMissing(db, 'children', 'eval_data', 'TEXT');
+    addColumnIfMissing(db, 'children', 'eval_pdf_path', 'TEXT');
+    addColumnIfMissing(db, 'children', 'eval_pdf_uploaded_at', 'TEXT');
+    addColumnIfMissing(db, 'children', 'eval_pdf_original_name', 'TEXT');
+    addColumnIfMissing(db, 'children', 'goals_pdf_path', 'TEXT');
+    addColumnIfMissing(db, 'children', 'goals_pdf_uploaded_at', 'TEXT');
+    addColumnIfMissing(db, 'children', 'goals_pdf_original_name', 'TEXT');
+    addColumnIfMissing(db, 'children', 'session_duration_minutes', 'INTEGER');
+    addColumnIfMissing(db, 'children', 'session_frequency', 'TEXT');
+    addColumnIfMissing(db, 'children', 'slp_id', 'INTEGER');
+    addColumnIfMissing(db, 'children', 'school_id', 'INTEGER');
+
+    addColumnIfMissing(db, 'iep_goals', 'baseline', 'TEXT');
+    addColumnIfMissing(db, 'iep_goals', 'sessions_to_confirm', 'INTEGER DEFAULT 3');
+    addColumnIfMissing(db, 'iep_goals', 'comments', 'TEXT');
+    addColumnIfMissing(db, 'iep_goals', 'boardgame_categories', 'TEXT');
+    addColumnIfMissing(db, 'iep_goals', 'session_duration_minutes', 'INTEGER');
+    addColumnIfMissing(db, 'iep_goals', 'session_frequency', 'TEXT');
+    addColumnIfMissing(db, 'iep_goals', 'objectives', 'TEXT');
+
+    addColumnIfMissing(db, 'session_responses', 'intervention_chosen', 'TEXT');
+
+    addColumnIfMissing(db, 'therapist_members', 'password_hash', "TEXT DEFAULT ''");
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS session_responses;
+      DROP TABLE IF EXISTS gameplay_sessions;
+      DROP TABLE IF EXISTS voice_calibrations;
+      DROP TABLE IF EXISTS iep_goals;
+      DROP TABLE IF EXISTS children;
+      DROP TABLE IF EXISTS therapist_members;
+      DROP TABLE IF EXISTS therapist_schools;
+      DROP TABLE IF EXISTS therapists;
+    `);
+  },
+};
@@ -0,0 +1,22 @@
+/**
+ * Migration 002: Therapist admin flag
+ *
+ * Adds therapists.is_admin for operations such as backups. The earliest
+ * registered therapist becomes the admin of existing installations.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 2,
+  name: 'therapist_admin_flag',
+
+  up(db) {
+    db.exec('ALTER TABLE therapists ADD COLUMN is_admin INTEGER NOT NULL DEFAULT 0');
+    db.exec('UPDATE therapists SET is_admin = 1 WHERE id = (SELECT MIN(id) FROM therapists)');
+  },
+
+  down(db) {
+    db.exec('ALTER TABLE therapists DROP COLUMN is_admin');
+  },
+};
@@ -0,0 +1,256 @@
+/**
+ * Migration 003: Organizations (tenant scoping)
+ *
+ * Schools and members were global to the instance. They now belong to an
+ * organization (a therapist's practice). Every existing therapist gets their
+ * own organization; existing schools and members are assigned to the
+ * organization of the therapist whose students reference them, and anything
+ * unreferenced goes to the admin therapist's organization.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Migration } from '../../../types/index.js';
+import { rebuildTable } from '../helpers.js';
+import { logger } from '../../../utils/logger.js';
+
+const SCHOOLS_TABLE = `
+  CREATE TABLE therapist_schools (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    contact_name TEXT,
+    contact_email TEXT,
+    contact_phone TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (organization_id) REFERENCES organizations(id) ON DELETE CASCADE
+  )
+`;
+
+const MEMBERS_TABLE = `
+  CREATE TABLE therapist_members (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    roles TEXT NOT NULL,
+    school_id INTEGER,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (organization_id) REFERENCES organizations(id) ON DELETE CASCADE,
+    FOREIGN KEY (school_id) REFERENCES therapist_schools(id) ON DELETE SET NULL
+  )
+`;
+
+const LEGACY_SCHOOLS_TABLE = `
+  CREATE TABLE therapist_schools (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    contact_name TEXT,
+    contact_email TEXT,
+    contact_phone TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+const LEGACY_MEMBERS_TABLE = `
+  CREATE TABLE therapist_members (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    roles TEXT NOT NULL,
+    school_id INTEGER,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (school_id) REFERENCES therapist_schools(id) ON DELETE SET NULL
+  )
+`;
+
+function createMemberIndexes(db: Database.Database): void {
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_members_school ON therapist_members(school_id);
+    CREATE INDEX IF NOT EXISTS idx_members_email ON therapist_members(email);
+  `);
+}
+
+/**
+ * Organization that receives rows no student points at
+ */
+function getFallbackOrganizationId(db: Database.Database): number {
+  const admin = db.prepare(`
+    SELECT organization_id FROM therapists
+    ORDER BY is_admin DESC, id ASC
+    LIMIT 1
+  `).get() as { organization_id: number } | undefined;
+
+  if (admin) {
+    return admin.organization_id;
+  }
+
+  const result = db.prepare('INSERT INTO organizations (name) VALUES (?)').run('Default Organization');
+  return result.lastInsertRowid as number;
+}
+
+export const migration: Migration = {
+  version: 3,
+  name: 'organizations',
+  disableForeignKeys: true,
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE organizations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // One organization per existing therapist (no FK clause so down() can drop the column)
+    db.exec('ALTER TABLE therapists ADD COLUMN organization_id INTEGER');
+    const therapists = db.prepare('SELECT id, first_name, last_name FROM therapists').all() as {
+      id: number;
+      first_name: string;
+      last_name: string;
+    }[];
+    const insertOrganization = db.prepare('INSERT INTO organizations (name) VALUES (?)');
+    const assignTherapist = db.prepare('UPDATE therapists SET organization_id = ? WHERE id = ?');
+    for (const therapist of therapists) {
+      const result = insertOrganization.run(`${therapist.first_name} ${therapist.last_name}'s Practice`);
+      assignTherapist.run(result.lastInsertRowid, therapist.id);
+    }
+    db.exec('CREATE INDEX idx_therapists_organization ON therapists(organization_id)');
+
+    // Work out owners for existing members and schools from the students that use them
+    db.exec('ALTER TABLE therapist_members ADD COLUMN organization_id INTEGER');
+    db.exec('ALTER TABLE therapist_schools ADD COLUMN organization_id INTEGER');
+
+    db.exec(`
+      UPDATE therapist_members SET organization_id = (
+        SELECT t.organization_id FROM children c
+        JOIN therapists t ON t.id = c.therapist_id
+        WHERE c.slp_id = therapist_members.id
+        GROUP BY t.organization_id
+        ORDER BY COUNT(*) DESC, t.organization_id ASC
+        LIMIT 1
+      )
+    `);
+    db.exec(`
+      UPDATE therapist_schools SET organization_id = COALESCE(
+        (
+          SELECT t.organization_id FROM children c
+          JOIN therapists t ON t.id = c.therapist_id
+          WHERE c.school_id = therapist_schools.id
+          GROUP BY t.organization_id
+          ORDER BY COUNT(*) DESC, t.organization_id ASC
+          LIMIT 1
+        ),
+        (
+          SELECT m.organization_id FROM therapist_members m
+          WHERE m.school_id = therapist_schools.id AND m.organization_id IS NOT NULL
+          GROUP BY m.organization_id
+          ORDER BY COUNT(*) DESC, m.organization_id ASC
+          LIMIT 1
+        )
+      )
+    `);
+    // Members with no students follow their school
+    db.exec(`
+      UPDATE therapist_members SET organization_id = (
+        SELECT s.organization_id FROM therapist_schools s WHERE s.id = therapist_members.school_id
+      )
+      WHERE organization_id IS NULL
+    `);
+
+    const unassigned = db.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM therapist_members WHERE organization_id IS NULL) as members,
+        (SELECT COUNT(*) FROM therapist_schools WHERE organization_id IS NULL) as schools
+    `).get() as { members: number; schools: number };
+
+    if (unassigned.members > 0 || unassigned.schools > 0) {
+      const fallbackId = getFallbackOrganizationId(db);
+      db.prepare('UPDATE therapist_members SET organization_id = ? WHERE organization_id IS NULL').run(fallbackId);
+      db.prepare('UPDATE therapist_schools SET organization_id = ? WHERE organization_id IS NULL').run(fallbackId);
+      logger.info(
+        `Migration: Assigned ${unassigned.members} unreferenced member(s) and ` +
+        `${unassigned.schools} school(s) to organization ${fallbackId}`
+      );
+    }
+
+    // A member's school must be in the same organization
+    db.exec(`
+      UPDATE therapist_members SET school_id = NULL
+      WHERE school_id IS NOT NULL AND organization_id != (
+        SELECT s.organization_id FROM therapist_schools s WHERE s.id = therapist_members.school_id
+      )
+    `);
+
+    // Students can only point at an SLP/school of their therapist's organization
+    db.exec(`
+      UPDATE children SET slp_id = NULL
+      WHERE slp_id IS NOT NULL AND (
+        SELECT m.organization_id FROM therapist_members m WHERE m.id = children.slp_id
+      ) IS NOT (
+        SELECT t.organization_id FROM therapists t WHERE t.id = children.therapist_id
+      )
+    `);
+    db.exec(`
+      UPDATE children SET school_id = NULL
+      WHERE school_id IS NOT NULL AND (
+        SELECT s.organization_id FROM therapist_schools s WHERE s.id = children.school_id
+      ) IS NOT (
+        SELECT t.organization_id FROM therapists t WHERE t.id = children.therapist_id
+      )
+    `);
+
+    // Rebuild to make organization_id NOT NULL with a foreign key
+    rebuildTable(db, 'therapist_schools', SCHOOLS_TABLE, {
+      id: 'id',
+      organization_id: 'organization_id',
+      name: 'name',
+      contact_name: 'contact_name',
+      contact_email: 'contact_email',
+      contact_phone: 'contact_phone',
+      created_at: 'created_at',
+    });
+    rebuildTable(db, 'therapist_members', MEMBERS_TABLE, {
+      id: 'id',
+      organization_id: 'organization_id',
+      name: 'name',
+      email: 'email',
+      password_hash: 'password_hash',
+      roles: 'roles',
+      school_id: 'school_id',
+      created_at: 'created_at',
+    });
+    createMemberIndexes(db);
+    db.exec(`
+      CREATE INDEX idx_schools_organization ON therapist_schools(organization_id);
+      CREATE INDEX idx_members_organization ON therapist_members(organization_id);
+    `);
+  },
+
+  down(db) {
+    rebuildTable(db, 'therapist_members', LEGACY_MEMBERS_TABLE, {
+      id: 'id',
+      name: 'name',
+      email: 'email',
+      password_hash: 'password_hash',
+      roles: 'roles',
+      school_id: 'school_id',
+      created_at: 'created_at',
+    });
+    rebuildTable(db, 'therapist_schools', LEGACY_SCHOOLS_TABLE, {
+      id: 'id',
+      name: 'name',
+      contact_name: 'contact_name',
+      contact_email: 'contact_email',
+      contact_phone: 'contact_phone',
+      created_at: 'created_at',
+    });
+    createMemberIndexes(db);
+
+    db.exec('DROP INDEX IF EXISTS idx_therapists_organization');
+    db.exec('ALTER TABLE therapists DROP COLUMN organization_id');
+    db.exec('DROP TABLE organizations');
+  },
+};
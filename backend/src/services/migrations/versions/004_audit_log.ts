@@ -0,0 +1,55 @@
+/**
+ * Migration 004: PHI access audit log
+ *
+ * Append-only record of reads and writes of student, evaluation, goal and
+ * session resources. Rows are hash-chained (each hash covers the previous
+ * one) and triggers reject UPDATE and DELETE. There is deliberately no foreign
+ * key to children so entries survive student deletion.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 4,
+  name: 'audit_log',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        organization_id INTEGER,
+        actor_type TEXT NOT NULL CHECK (actor_type IN ('therapist', 'child', 'system')),
+        actor_id INTEGER,
+        action TEXT NOT NULL CHECK (action IN ('read', 'create', 'update', 'delete')),
+        resource_type TEXT NOT NULL CHECK (resource_type IN ('student', 'evaluation', 'goal', 'session')),
+        resource_id INTEGER,
+        student_id INTEGER,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        status_code INTEGER NOT NULL,
+        ip TEXT,
+        created_at TEXT NOT NULL,
+        prev_hash TEXT NOT NULL,
+        hash TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_audit_organization ON audit_log(organization_id, id);
+      CREATE INDEX idx_audit_student ON audit_log(student_id, id);
+      CREATE INDEX idx_audit_actor ON audit_log(actor_type, actor_id, id);
+
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `);
+  },
+
+  down(db) {
+    db.exec('DROP TABLE audit_log');
+  },
+};
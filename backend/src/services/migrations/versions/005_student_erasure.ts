@@ -0,0 +1,107 @@
+/**
+ * Migration 005: Student erasure requests
+ *
+ * Adds the two-step erasure workflow (request, then confirm) and allows the
+ * 'erase' action in audit_log for the tombstone written when a student's data
+ * is purged. audit_log is rebuilt to widen its CHECK constraint; rows and
+ * hashes are copied unchanged so the chain still verifies.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Migration } from '../../../types/index.js';
+import { rebuildTable } from '../helpers.js';
+
+function auditTableSql(actions: string[]): string {
+  return `
+    CREATE TABLE audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      organization_id INTEGER,
+      actor_type TEXT NOT NULL CHECK (actor_type IN ('therapist', 'child', 'system')),
+      actor_id INTEGER,
+      action TEXT NOT NULL CHECK (action IN (${actions.map((a) => `'${a}'`).join(', ')})),
+      resource_type TEXT NOT NULL CHECK (resource_type IN ('student', 'evaluation', 'goal', 'session')),
+      resource_id INTEGER,
+      student_id INTEGER,
+      method TEXT NOT NULL,
+      path TEXT NOT NULL,
+      status_code INTEGER NOT NULL,
+      ip TEXT,
+      created_at TEXT NOT NULL,
+      prev_hash TEXT NOT NULL,
+      hash TEXT NOT NULL
+    )
+  `;
+}
+
+const AUDIT_COLUMNS = [
+  'id', 'organization_id', 'actor_type', 'actor_id', 'action', 'resource_type', 'resource_id',
+  'student_id', 'method', 'path', 'status_code', 'ip', 'created_at', 'prev_hash', 'hash',
+];
+
+function rebuildAuditLog(db: Database.Database, actions: string[]): void {
+  rebuildTable(
+    db,
+    'audit_log',
+    auditTableSql(actions),
+    Object.fromEntries(AUDIT_COLUMNS.map((c) => [c, c]))
+  );
+
+  db.exec(`
+    CREATE INDEX idx_audit_organization ON audit_log(organization_id, id);
+    CREATE INDEX idx_audit_student ON audit_log(student_id, id);
+    CREATE INDEX idx_audit_actor ON audit_log(actor_type, actor_id, id);
+
+    CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END;
+
+    CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END;
+  `);
+}
+
+export const migration: Migration = {
+  version: 5,
+  name: 'student_erasure',
+  disableForeignKeys: true,
+
+  up(db) {
+    rebuildAuditLog(db, ['read', 'create', 'update', 'delete', 'erase']);
+
+    // No foreign key to children: completed requests outlive the student as the
+    // erasure record, and hold only ids, timestamps and counts
+    db.exec(`
+      CREATE TABLE erasure_requests (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER NOT NULL,
+        organization_id INTEGER NOT NULL,
+        requested_by INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'cancelled', 'completed')),
+        requested_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        resolved_by INTEGER,
+        resolved_at TEXT,
+        purged_rows INTEGER,
+        purged_documents INTEGER
+      );
+
+      CREATE INDEX idx_erasure_student ON erasure_requests(student_id, status);
+    `);
+  },
+
+  down(db) {
+    const tombstones = db
+      .prepare("SELECT COUNT(*) as count FROM audit_log WHERE action = 'erase'")
+      .get() as { count: number };
+    if (tombstones.count > 0) {
+      throw new Error('Cannot roll back: audit_log contains erasure tombstones');
+    }
+
+    db.exec('DROP TABLE erasure_requests');
+    rebuildAuditLog(db, ['read', 'create', 'update', 'delete']);
+  },
+};
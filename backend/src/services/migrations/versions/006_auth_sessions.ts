@@ -0,0 +1,52 @@
+/**
+ * Migration 006: Auth sessions and refresh tokens
+ *
+ * Every login (therapist or child) opens an auth session. Access tokens carry
+ * the session id and are rejected once the session is revoked; refresh tokens
+ * are stored as SHA-256 hashes and rotate on every use, so a used token that
+ * comes back again is a sign of theft and revokes the whole session.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 6,
+  name: 'auth_sessions',
+
+  up(db) {
+    // subject_id points at therapists or children depending on subject_type, so no foreign key
+    db.exec(`
+      CREATE TABLE auth_sessions (
+        id TEXT PRIMARY KEY,
+        subject_type TEXT NOT NULL CHECK (subject_type IN ('therapist', 'child')),
+        subject_id INTEGER NOT NULL,
+        user_agent TEXT,
+        ip TEXT,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        revoked_at TEXT
+      );
+
+      CREATE INDEX idx_auth_sessions_subject ON auth_sessions(subject_type, subject_id);
+
+      CREATE TABLE refresh_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        created_at TEXT NOT NULL,
+        used_at TEXT,
+        FOREIGN KEY (session_id) REFERENCES auth_sessions(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_refresh_tokens_session ON refresh_tokens(session_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE refresh_tokens;
+      DROP TABLE auth_sessions;
+    `);
+  },
+};
@@ -0,0 +1,139 @@
+/**
+ * Migration 007: Member sign-in and role-based access
+ *
+ * Members (School Admins, SLPs, parents and students) can now sign in to the
+ * dashboard. auth_sessions and audit_log are rebuilt to accept the 'member'
+ * subject/actor type; audit rows and hashes are copied unchanged so the chain
+ * still verifies. member_students links Parent and Student members to the
+ * children they may see.
+ */
+
+import type Database from 'better-sqlite3';
+import type { Migration } from '../../../types/index.js';
+import { rebuildTable } from '../helpers.js';
+
+function authSessionsTableSql(subjectTypes: string[]): string {
+  return `
+    CREATE TABLE auth_sessions (
+      id TEXT PRIMARY KEY,
+      subject_type TEXT NOT NULL CHECK (subject_type IN (${subjectTypes.map((t) => `'${t}'`).join(', ')})),
+      subject_id INTEGER NOT NULL,
+      user_agent TEXT,
+      ip TEXT,
+      created_at TEXT NOT NULL,
+      last_used_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      revoked_at TEXT
+    )
+  `;
+}
+
+const AUTH_SESSION_COLUMNS = [
+  'id', 'subject_type', 'subject_id', 'user_agent', 'ip', 'created_at', 'last_used_at', 'expires_at', 'revoked_at',
+];
+
+function auditTableSql(actorTypes: string[]): string {
+  return `
+    CREATE TABLE audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      organization_id INTEGER,
+      actor_type TEXT NOT NULL CHECK (actor_type IN (${actorTypes.map((t) => `'${t}'`).join(', ')})),
+      actor_id INTEGER,
+      action TEXT NOT NULL CHECK (action IN ('read', 'create', 'update', 'delete', 'erase')),
+      resource_type TEXT NOT NULL CHECK (resource_type IN ('student', 'evaluation', 'goal', 'session')),
+      resource_id INTEGER,
+      student_id INTEGER,
+      method TEXT NOT NULL,
+      path TEXT NOT NULL,
+      status_code INTEGER NOT NULL,
+      ip TEXT,
+      created_at TEXT NOT NULL,
+      prev_hash TEXT NOT NULL,
+      hash TEXT NOT NULL
+    )
+  `;
+}
+
+const AUDIT_COLUMNS = [
+  'id', 'organization_id', 'actor_type', 'actor_id', 'action', 'resource_type', 'resource_id',
+  'student_id', 'method', 'path', 'status_code', 'ip', 'created_at', 'prev_hash', 'hash',
+];
+
+function rebuildAuthSessions(db: Database.Database, subjectTypes: string[]): void {
+  rebuildTable(
+    db,
+    'auth_sessions',
+    authSessionsTableSql(subjectTypes),
+    Object.fromEntries(AUTH_SESSION_COLUMNS.map((c) => [c, c]))
+  );
+  db.exec('CREATE INDEX idx_auth_sessions_subject ON auth_sessions(subject_type, subject_id)');
+}
+
+function rebuildAuditLog(db: Database.Database, actorTypes: string[]): void {
+  rebuildTable(
+    db,
+    'audit_log',
+    auditTableSql(actorTypes),
+    Object.fromEntries(AUDIT_COLUMNS.map((c) => [c, c]))
+  );
+
+  db.exec(`
+    CREATE INDEX idx_audit_organization ON audit_log(organization_id, id);
+    CREATE INDEX idx_audit_student ON audit_log(student_id, id);
+    CREATE INDEX idx_audit_actor ON audit_log(actor_type, actor_id, id);
+
+    CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END;
+
+    CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+    BEGIN
+      SELECT RAISE(ABORT, 'audit_log is append-only');
+    END;
+  `);
+}
+
+export const migration: Migration = {
+  version: 7,
+  name: 'member_access',
+  disableForeignKeys: true,
+
+  up(db) {
+    rebuildAuthSessions(db, ['therapist', 'child', 'member']);
+    rebuildAuditLog(db, ['therapist', 'child', 'member', 'system']);
+
+    db.exec(`
+      CREATE TABLE member_students (
+        member_id INTEGER NOT NULL,
+        student_id INTEGER NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (member_id, student_id),
+        FOREIGN KEY (member_id) REFERENCES therapist_members(id) ON DELETE CASCADE,
+        FOREIGN KEY (student_id) REFERENCES children(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_member_students_student ON member_students(student_id);
+    `);
+  },
+
+  down(db) {
+    const memberEntries = db
+      .prepare("SELECT COUNT(*) as count FROM audit_log WHERE actor_type = 'member'")
+      .get() as { count: number };
+    if (memberEntries.count > 0) {
+      throw new Error('Cannot roll back: audit_log contains member access entries');
+    }
+
+    db.exec('DROP TABLE member_students');
+    // Foreign keys are off here, so clear member refresh tokens explicitly
+    db.exec(`
+      DELETE FROM refresh_tokens WHERE session_id IN (
+        SELECT id FROM auth_sessions WHERE subject_type = 'member'
+      );
+      DELETE FROM auth_sessions WHERE subject_type = 'member';
+    `);
+    rebuildAuthSessions(db, ['therapist', 'child']);
+    rebuildAuditLog(db, ['therapist', 'child', 'system']);
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * Migration 008: Parent portal
+ *
+ * scheduled_sessions holds the upcoming sessions a therapist or SLP has booked
+ * for a student. parent_sharing records what the therapist has chosen to show
+ * the student's parents beyond the default progress view (evaluation details,
+ * safety signals) and an optional home-practice note; a student without a row
+ * shares nothing extra.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 8,
+  name: 'parent_portal',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE scheduled_sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER NOT NULL,
+        scheduled_for TEXT NOT NULL,
+        duration_minutes INTEGER,
+        notes TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (student_id) REFERENCES children(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_scheduled_sessions_student ON scheduled_sessions(student_id, scheduled_for);
+
+      CREATE TABLE parent_sharing (
+        student_id INTEGER PRIMARY KEY,
+        share_eval_data INTEGER NOT NULL DEFAULT 0,
+        share_safety_signals INTEGER NOT NULL DEFAULT 0,
+        home_practice_note TEXT,
+        updated_at TEXT NOT NULL,
+        FOREIGN KEY (student_id) REFERENCES children(id) ON DELETE CASCADE
+      );
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE parent_sharing;
+      DROP TABLE scheduled_sessions;
+    `);
+  },
+};
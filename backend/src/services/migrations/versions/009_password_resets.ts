@@ -0,0 +1,35 @@
+/**
+ * Migration 009: Password reset tokens
+ *
+ * Therapists and members who forget their password get an emailed link. The
+ * token in it is stored only as a SHA-256 hash, expires, and is single use.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 9,
+  name: 'password_resets',
+
+  up(db) {
+    // subject_id points at therapists or therapist_members depending on subject_type, so no foreign key
+    db.exec(`
+      CREATE TABLE password_reset_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        subject_type TEXT NOT NULL CHECK (subject_type IN ('therapist', 'member')),
+        subject_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        ip TEXT,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        used_at TEXT
+      );
+
+      CREATE INDEX idx_password_reset_tokens_subject ON password_reset_tokens(subject_type, subject_id);
+    `);
+  },
+
+  down(db) {
+    db.exec('DROP TABLE password_reset_tokens');
+  },
+};
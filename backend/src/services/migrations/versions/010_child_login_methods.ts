@@ -0,0 +1,49 @@
+/**
+ * Migration 010: Picture passwords and QR login badges
+ *
+ * Children who cannot type yet sign in by tapping a picture sequence or by
+ * scanning a printed badge. The picture sequence is stored as a bcrypt hash
+ * with a failed-attempt counter (the sequence space is small, so repeated
+ * misses lock picture sign-in for a while). Badge tokens are stored only as
+ * SHA-256 hashes and stop working once revoked.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 10,
+  name: 'child_login_methods',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE child_picture_passwords (
+        child_id INTEGER PRIMARY KEY,
+        sequence_hash TEXT NOT NULL,
+        failed_attempts INTEGER NOT NULL DEFAULT 0,
+        locked_until TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (child_id) REFERENCES children(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE child_login_badges (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        child_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        label TEXT,
+        created_at TEXT NOT NULL,
+        last_used_at TEXT,
+        revoked_at TEXT,
+        FOREIGN KEY (child_id) REFERENCES children(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_child_login_badges_child ON child_login_badges(child_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE child_login_badges;
+      DROP TABLE child_picture_passwords;
+    `);
+  },
+};
@@ -0,0 +1,64 @@
+/**
+ * Migration 011: Two-factor authentication for therapists
+ *
+ * A therapist's TOTP secret is envelope-encrypted like other sensitive
+ * columns; enabled_at stays NULL until enrollment is confirmed with a code,
+ * and last_used_step stops a code from being replayed. Recovery codes and the
+ * short-lived challenges issued between the password and code steps of login
+ * are stored only as SHA-256 hashes. organizations.require_two_factor makes
+ * two-factor mandatory for every therapist in the organization.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 11,
+  name: 'two_factor_auth',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE therapist_two_factor (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        therapist_id INTEGER NOT NULL UNIQUE,
+        secret TEXT NOT NULL,
+        enabled_at TEXT,
+        last_used_step INTEGER,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (therapist_id) REFERENCES therapists(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE therapist_recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        therapist_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        used_at TEXT,
+        FOREIGN KEY (therapist_id) REFERENCES therapists(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_therapist_recovery_codes_therapist ON therapist_recovery_codes(therapist_id);
+
+      CREATE TABLE two_factor_challenges (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        therapist_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        purpose TEXT NOT NULL CHECK (purpose IN ('verify', 'enroll')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        FOREIGN KEY (therapist_id) REFERENCES therapists(id) ON DELETE CASCADE
+      );
+
+      ALTER TABLE organizations ADD COLUMN require_two_factor INTEGER NOT NULL DEFAULT 0;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE organizations DROP COLUMN require_two_factor;
+      DROP TABLE two_factor_challenges;
+      DROP TABLE therapist_recovery_codes;
+      DROP TABLE therapist_two_factor;
+    `);
+  },
+};
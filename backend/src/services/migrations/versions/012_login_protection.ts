@@ -0,0 +1,86 @@
+/**
+ * Migration 012: Persistent rate limits and account lockout
+ *
+ * rate_limits holds the fixed-window counters of the SQLite rate limit store.
+ * account_lockouts counts consecutive failed logins per therapist or child
+ * account and the lock they led to; `lockouts` is how many times the account
+ * has been locked recently, so each new lock lasts longer. Picture passwords
+ * kept their own failure counter and lock before this; those move into
+ * account_lockouts, which now covers every way a child signs in with a secret.
+ */
+
+import type { Migration } from '../../../types/index.js';
+import { rebuildTable } from '../helpers.js';
+
+function childLockoutColumn(column: string): string {
+  return `(
+    SELECT ${column} FROM account_lockouts
+    WHERE subject_type = 'child' AND subject_id = child_picture_passwords.child_id
+  )`;
+}
+
+export const migration: Migration = {
+  version: 12,
+  name: 'login_protection',
+  disableForeignKeys: true,
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE rate_limits (
+        key TEXT PRIMARY KEY,
+        count INTEGER NOT NULL,
+        reset_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX idx_rate_limits_reset ON rate_limits(reset_at);
+    `);
+
+    // subject_id points at therapists or children depending on subject_type, so no foreign key
+    db.exec(`
+      CREATE TABLE account_lockouts (
+        subject_type TEXT NOT NULL CHECK (subject_type IN ('therapist', 'child')),
+        subject_id INTEGER NOT NULL,
+        failed_attempts INTEGER NOT NULL DEFAULT 0,
+        lockouts INTEGER NOT NULL DEFAULT 0,
+        locked_until TEXT,
+        last_failed_at TEXT NOT NULL,
+        PRIMARY KEY (subject_type, subject_id)
+      );
+    `);
+
+    db.exec(`
+      INSERT INTO account_lockouts (subject_type, subject_id, failed_attempts, lockouts, locked_until, last_failed_at)
+      SELECT 'child', child_id, failed_attempts, CASE WHEN locked_until IS NULL THEN 0 ELSE 1 END, locked_until, created_at
+      FROM child_picture_passwords
+      WHERE failed_attempts > 0 OR locked_until IS NOT NULL;
+
+      ALTER TABLE child_picture_passwords DROP COLUMN failed_attempts;
+      ALTER TABLE child_picture_passwords DROP COLUMN locked_until;
+    `);
+  },
+
+  down(db) {
+    // Rebuilt rather than ALTER TABLE ADD COLUMN so the columns are back in their 010 order
+    rebuildTable(db, 'child_picture_passwords', `
+      CREATE TABLE child_picture_passwords (
+        child_id INTEGER PRIMARY KEY,
+        sequence_hash TEXT NOT NULL,
+        failed_attempts INTEGER NOT NULL DEFAULT 0,
+        locked_until TEXT,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (child_id) REFERENCES children(id) ON DELETE CASCADE
+      )
+    `, {
+      child_id: 'child_id',
+      sequence_hash: 'sequence_hash',
+      failed_attempts: `COALESCE(${childLockoutColumn('failed_attempts')}, 0)`,
+      locked_until: childLockoutColumn('locked_until'),
+      created_at: 'created_at',
+    });
+
+    db.exec(`
+      DROP TABLE account_lockouts;
+      DROP TABLE rate_limits;
+    `);
+  },
+};
@@ -0,0 +1,47 @@
+/**
+ * Migration 013: Member invitations
+ *
+ * Members are no longer created with a password chosen by the therapist. A new
+ * member stays pending (activated_at NULL, no usable password) until they open
+ * the emailed invite link and choose their own password. Existing members are
+ * treated as activated when they were created. member_invites holds the one
+ * outstanding invite per pending member; its token is stored only as a
+ * SHA-256 hash, expires, and is replaced when the invite is resent.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 13,
+  name: 'member_invites',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE therapist_members ADD COLUMN activated_at TEXT;
+      UPDATE therapist_members SET activated_at = COALESCE(created_at, CURRENT_TIMESTAMP);
+    `);
+
+    // invited_by_id points at therapists or therapist_members depending on invited_by_type, so no foreign key
+    db.exec(`
+      CREATE TABLE member_invites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        member_id INTEGER NOT NULL UNIQUE,
+        token_hash TEXT NOT NULL UNIQUE,
+        invited_by_type TEXT NOT NULL CHECK (invited_by_type IN ('therapist', 'member')),
+        invited_by_id INTEGER NOT NULL,
+        sent_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        FOREIGN KEY (member_id) REFERENCES therapist_members(id) ON DELETE CASCADE
+      );
+    `);
+  },
+
+  down(db) {
+    // Pending members have no password to fall back on
+    db.exec(`
+      DROP TABLE member_invites;
+      DELETE FROM therapist_members WHERE activated_at IS NULL;
+      ALTER TABLE therapist_members DROP COLUMN activated_at;
+    `);
+  },
+};
@@ -0,0 +1,55 @@
+/**
+ * Migration 014: Student sharing and transfer
+ *
+ * children.therapist_id stays the one owner of a student. student_shares lets
+ * the owner grant other therapists access to the student: 'view' (read the
+ * profile, evaluation, goals and sessions) or 'treat' (also edit them and
+ * manage the child's logins). student_transfers records every change of
+ * owner so the student's history shows where it came from.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 14,
+  name: 'student_sharing',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE student_shares (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER NOT NULL,
+        therapist_id INTEGER NOT NULL,
+        access TEXT NOT NULL CHECK (access IN ('view', 'treat')),
+        granted_by INTEGER,
+        created_at TEXT NOT NULL,
+        UNIQUE (student_id, therapist_id),
+        FOREIGN KEY (student_id) REFERENCES children(id) ON DELETE CASCADE,
+        FOREIGN KEY (therapist_id) REFERENCES therapists(id) ON DELETE CASCADE,
+        FOREIGN KEY (granted_by) REFERENCES therapists(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX idx_student_shares_therapist ON student_shares(therapist_id);
+
+      CREATE TABLE student_transfers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER NOT NULL,
+        from_therapist_id INTEGER,
+        to_therapist_id INTEGER,
+        transferred_at TEXT NOT NULL,
+        FOREIGN KEY (student_id) REFERENCES children(id) ON DELETE CASCADE,
+        FOREIGN KEY (from_therapist_id) REFERENCES therapists(id) ON DELETE SET NULL,
+        FOREIGN KEY (to_therapist_id) REFERENCES therapists(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX idx_student_transfers_student ON student_transfers(student_id);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE student_transfers;
+      DROP TABLE student_shares;
+    `);
+  },
+};
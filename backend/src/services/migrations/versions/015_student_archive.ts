@@ -0,0 +1,34 @@
+/**
+ * Migration 015: Student archive
+ *
+ * Discharging a student archives it instead of deleting it, so the sessions,
+ * goals and evaluation stay on record. children.archived_at is when the
+ * student was archived (NULL while active), discharged_on the discharge date
+ * entered by the therapist and archive_reason why.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 15,
+  name: 'student_archive',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE children ADD COLUMN archived_at TEXT;
+      ALTER TABLE children ADD COLUMN discharged_on TEXT;
+      ALTER TABLE children ADD COLUMN archive_reason TEXT;
+
+      CREATE INDEX idx_children_therapist_archived ON children(therapist_id, archived_at);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP INDEX idx_children_therapist_archived;
+      ALTER TABLE children DROP COLUMN archive_reason;
+      ALTER TABLE children DROP COLUMN discharged_on;
+      ALTER TABLE children DROP COLUMN archived_at;
+    `);
+  },
+};
@@ -0,0 +1,39 @@
+/**
+ * Migration 016: Service logs
+ *
+ * service_logs holds IEP service delivered outside the boardgame (in person,
+ * teletherapy) so it counts toward the student's service minutes next to
+ * gameplay sessions. recorded_by_type and recorded_by_id name the therapist
+ * or member who logged it.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 16,
+  name: 'service_logs',
+
+  up(db) {
+    db.exec(`
+      CREATE TABLE service_logs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        student_id INTEGER NOT NULL,
+        delivered_on TEXT NOT NULL,
+        minutes INTEGER NOT NULL,
+        notes TEXT,
+        recorded_by_type TEXT NOT NULL CHECK(recorded_by_type IN ('therapist', 'member')),
+        recorded_by_id INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (student_id) REFERENCES children(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_service_logs_student ON service_logs(student_id, delivered_on);
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      DROP TABLE service_logs;
+    `);
+  },
+};
@@ -0,0 +1,27 @@
+/**
+ * Migration 017: Missing documents on erasure
+ *
+ * purged_documents used to count every document a student referenced, even
+ * when the file was already gone from the store. It now counts only files
+ * that were deleted; missing_documents lists the kinds ('evaluations',
+ * 'goals') that were referenced but not found, as a JSON array.
+ */
+
+import type { Migration } from '../../../types/index.js';
+
+export const migration: Migration = {
+  version: 17,
+  name: 'erasure_missing_documents',
+
+  up(db) {
+    db.exec(`
+      ALTER TABLE erasure_requests ADD COLUMN missing_documents TEXT;
+    `);
+  },
+
+  down(db) {
+    db.exec(`
+      ALTER TABLE erasure_requests DROP COLUMN missing_documents;
+    `);
+  },
+};
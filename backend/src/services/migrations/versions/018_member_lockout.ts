@@ -0,0 +1,48 @@
+/**
+ * Migration 018: Member account lockout
+ *
+ * Members sign in with an email and password like therapists, so repeated
+ * failed logins now lock member accounts too. account_lockouts is rebuilt to
+ * allow the 'member' subject type; rolling back forgets member lockouts.
+ */
+
+import type { Migration } from '../../../types/index.js';
+import { rebuildTable } from '../helpers.js';
+
+function createAccountLockouts(subjectTypes: string[]): string {
+  return `
+    CREATE TABLE account_lockouts (
+      subject_type TEXT NOT NULL CHECK (subject_type IN (${subjectTypes.map((type) => `'${type}'`).join(', ')})),
+      subject_id INTEGER NOT NULL,
+      failed_attempts INTEGER NOT NULL DEFAULT 0,
+      lockouts INTEGER NOT NULL DEFAULT 0,
+      locked_until TEXT,
+      last_failed_at TEXT NOT NULL,
+      PRIMARY KEY (subject_type, subject_id)
+    )
+  `;
+}
+
+const LOCKOUT_COLUMNS = {
+  subject_type: 'subject_type',
+  subject_id: 'subject_id',
+  failed_attempts: 'failed_attempts',
+  lockouts: 'lockouts',
+  locked_until: 'locked_until',
+  last_failed_at: 'last_failed_at',
+};
+
+export const migration: Migration = {
+  version: 18,
+  name: 'member_lockout',
+  disableForeignKeys: true,
+
+  up(db) {
+    rebuildTable(db, 'account_lockouts', createAccountLockouts(['therapist', 'child', 'member']), LOCKOUT_COLUMNS);
+  },
+
+  down(db) {
+    db.exec(`DELETE FROM account_lockouts WHERE subject_type = 'member'`);
+    rebuildTable(db, 'account_lockouts', createAccountLockouts(['therapist', 'child']), LOCKOUT_COLUMNS);
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * Migration Registry
+ * Every migration file must be listed here, in version order
+ */
+
+import type { Migration } from '../../../types/index.js';
+import { migration as initialSchema } from './001_initial_schema.js';
+import { migration as therapistAdminFlag } from './002_therapist_admin_flag.js';
+import { migration as organizations } from './003_organizations.js';
+import { migration as auditLog } from './004_audit_log.js';
+import { migration as studentErasure } from './005_student_erasure.js';
+import { migration as authSessions } from './006_auth_sessions.js';
+import { migration as memberAccess } from './007_member_access.js';
+import { migration as parentPortal } from './008_parent_portal.js';
+import { migration as passwordResets } from './009_password_resets.js';
+import { migration as childLoginMethods } from './010_child_login_methods.js';
+import { migration as twoFactorAuth } from './011_two_factor_auth.js';
+import { migration as loginProtection } from './012_login_protection.js';
+import { migration as memberInvites } from './013_member_invites.js';
+import { migration as studentSharing } from './014_student_sharing.js';
+import { migration as studentArchive } from './015_student_archive.js';
+import { migration as serviceLogs } from './016_service_logs.js';
+import { migration as erasureMissingDocuments } from './017_erasure_missing_documents.js';
+import { migration as memberLockout } from './018_member_lockout.js';
+
+export const migrations: Migration[] = [
+  initialSchema,
+  therapistAdminFlag,
+  organizations,
+  auditLog,
+  studentErasure,
+  authSessions,
+  memberAccess,
+  parentPortal,
+  passwordResets,
+  childLoginMethods,
+  twoFactorAuth,
+  loginProtection,
+  memberInvites,
+  studentSharing,
+  studentArchive,
+  serviceLogs,
+  erasureMissingDocuments,
+  memberLockout,
+];
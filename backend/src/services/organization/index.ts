@@ -0,0 +1,14 @@
+/**
+ * Organization Services
+ * Re-exports organization (tenant) services
+ */
+
+export {
+  getOrganizationById,
+  getOrganizationIdForTherapist,
+  getOrganizationIdForChild,
+  isTwoFactorRequired,
+  setTwoFactorRequired,
+  createOrganization,
+  practiceNameFor,
+} from './organization.js';
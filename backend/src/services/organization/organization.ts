@@ -0,0 +1,72 @@
+/**
+ * Organization Service
+ * Tenant boundary for schools and members (one per therapist practice)
+ */
+
+import { getDatabase } from '../database.js';
+import type { Organization } from '../../types/index.js';
+
+export function getOrganizationById(id: number): Organization | undefined {
+  const db = getDatabase();
+  return db
+    .prepare('SELECT id, name, created_at FROM organizations WHERE id = ?')
+    .get(id) as Organization | undefined;
+}
+
+export function getOrganizationIdForTherapist(therapistId: number): number | null {
+  const db = getDatabase();
+  const row = db
+    .prepare('SELECT organization_id FROM therapists WHERE id = ?')
+    .get(therapistId) as { organization_id: number | null } | undefined;
+  return row?.organization_id ?? null;
+}
+
+/**
+ * Organization of the therapist who owns a student
+ */
+export function getOrganizationIdForChild(childId: number): number | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT t.organization_id FROM children c
+    JOIN therapists t ON t.id = c.therapist_id
+    WHERE c.id = ?
+  `).get(childId) as { organization_id: number | null } | undefined;
+  return row?.organization_id ?? null;
+}
+
+export function isTwoFactorRequired(organizationId: number): boolean {
+  const db = getDatabase();
+  const row = db
+    .prepare('SELECT require_two_factor FROM organizations WHERE id = ?')
+    .get(organizationId) as { require_two_factor: number } | undefined;
+  return row?.require_two_factor === 1;
+}
+
+/**
+ * Make two-factor mandatory (or optional again) for the organization's therapists
+ */
+export function setTwoFactorRequired(organizationId: number, required: boolean): void {
+  const db = getDatabase();
+  db.prepare('UPDATE organizations SET require_two_factor = ? WHERE id = ?').run(required ? 1 : 0, organizationId);
+}
+
+export function createOrganization(name: string): Organization {
+  const db = getDatabase();
+
+  if (!name || name.trim().length === 0) {
+    throw new Error('Organization name is required');
+  }
+
+  const result = db
+    .prepare('INSERT INTO organizations (name) VALUES (?)')
+    .run(name.trim());
+
+  return getOrganizationById(result.lastInsertRowid as number)!;
+}
+
+/**
+ * Default organization name for a therapist registering their own practice
+ */
+export function practiceNameFor(firstName: string, lastName: string): string {
+  return `${firstName} ${lastName}'s Practice`;
+}
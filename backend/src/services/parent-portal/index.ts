@@ -0,0 +1,13 @@
+/**
+ * Parent Portal Services
+ * Re-exports parent portal services
+ */
+
+export {
+  listScheduledSessions,
+  createScheduledSession,
+  deleteScheduledSession,
+  getParentSharing,
+  updateParentSharing,
+  getParentProgressView,
+} from './parent-portal.js';
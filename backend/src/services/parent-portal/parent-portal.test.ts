@@ -0,0 +1,53 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type Database from 'better-sqlite3';
+import { createTestStudent, createTestTherapist, setupTestDatabase } from '../../test/database.js';
+import { getParentProgressView, updateParentSharing } from './parent-portal.js';
+import type { Child } from '../../types/index.js';
+
+let db: Database.Database;
+let student: Child;
+
+before(async () => {
+  db = setupTestDatabase();
+  const therapist = await createTestTherapist();
+  student = createTestStudent(therapist.id);
+  db.prepare('UPDATE children SET eval_data = ? WHERE id = ?').run('{"notes": "medical history"}', student.id);
+
+  const session = db.prepare(`
+    INSERT INTO gameplay_sessions (child_id, therapist_id, categories_selected, status, ended_at, duration_seconds,
+      total_cards_played, correct_responses)
+    VALUES (?, ?, '["plurals"]', 'completed', CURRENT_TIMESTAMP, 600, 10, 8)
+  `).run(student.id, therapist.id);
+  db.prepare(`
+    INSERT INTO session_responses (session_id, card_category, card_question, is_correct, signals_detected)
+    VALUES (?, 'plurals', 'One cat, two...', 0, '["frustration"]')
+  `).run(session.lastInsertRowid);
+});
+
+test('the parent view summarizes sessions without clinical details by default', () => {
+  const view = getParentProgressView(student.id)!;
+
+  assert.equal(view.child.id, student.id);
+  assert.equal(view.recent_sessions.length, 1);
+  assert.equal(view.recent_sessions[0].minutes, 10);
+  assert.equal(view.recent_sessions[0].accuracy, 80);
+  assert.equal('safety_signals' in view.recent_sessions[0], false);
+  assert.equal('eval_data' in view, false);
+});
+
+test('safety signals and eval_data appear only once the therapist shares them', () => {
+  updateParentSharing(student.id, { share_safety_signals: true });
+  let view = getParentProgressView(student.id)!;
+  assert.deepEqual(view.recent_sessions[0].safety_signals, ['frustration']);
+  assert.equal('eval_data' in view, false);
+
+  updateParentSharing(student.id, { share_eval_data: true, share_safety_signals: false });
+  view = getParentProgressView(student.id)!;
+  assert.equal('safety_signals' in view.recent_sessions[0], false);
+  assert.deepEqual(view.eval_data, { notes: 'medical history' });
+});
+
+test('there is no view for a student that does not exist', () => {
+  assert.equal(getParentProgressView(student.id + 1000), null);
+});
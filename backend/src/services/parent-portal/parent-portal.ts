@@ -0,0 +1,320 @@
+/**
+ * Parent Portal Service
+ * Read-only progress view for parents, upcoming sessions and sharing settings
+ *
+ * Parents see session totals, goal progress and home-practice ideas. Safety
+ * signals and clinical evaluation details stay hidden unless the therapist
+ * turns sharing on for that student.
+ */
+
+import { ARTICULATION_CATEGORIES, CATEGORY_HANDLER_MAP, type HandlerType } from '@shared/categories';
+import { getDatabase } from '../database.js';
+import { getStudentById } from '../student/index.js';
+import { listGoalsByStudent } from '../goal/index.js';
+import type {
+  CreateScheduledSessionRequest,
+  EvalData,
+  GameplaySession,
+  HomePracticeSuggestion,
+  ParentGoalProgress,
+  ParentProgressView,
+  ParentSessionSummary,
+  ParentSharingSettings,
+  ScheduledSession,
+  UpdateParentSharingRequest,
+} from '../../types/index.js';
+
+const RECENT_SESSION_LIMIT = 10;
+const UPCOMING_SESSION_LIMIT = 10;
+const MAX_SUGGESTIONS = 4;
+
+// Categories practiced below this accuracy are suggested for home practice
+const NEEDS_PRACTICE_ACCURACY = 80;
+
+const LANGUAGE_SUGGESTIONS: Record<HandlerType, (category: string) => string> = {
+  'single-answer': (category) =>
+    `Ask a quick "${category}" question during play or a car ride and let your child answer in their own words.`,
+  'multiple-answers': (category) =>
+    `Take turns naming as many answers as you can for "${category}" - see who can come up with the last one.`,
+  'multiple-choice': (category) =>
+    `Give two or three choices for a "${category}" question and ask your child to pick one and say why.`,
+  'image-selection': (category) =>
+    `Look at a picture book together and ask your child to point to and describe the "${category}" answer.`,
+  'sequencing': () =>
+    'Talk through the steps of an everyday routine, like making a snack, and ask your child what comes first, next and last.',
+  'building': () =>
+    'Write a few words on sticky notes and build short sentences together, taking turns reading them aloud.',
+  'conditional': () =>
+    'Play a "Simon says" game with two-step directions, like "If you are wearing socks, touch your nose."',
+  'standard': (category) =>
+    `Spend five minutes a day on "${category}" practice, keeping it playful and praising every try.`,
+};
+
+interface ParentSharingRow {
+  student_id: number;
+  share_eval_data: number;
+  share_safety_signals: number;
+  home_practice_note: string | null;
+  updated_at: string;
+}
+
+function parseList(json: string | null | undefined): string[] {
+  if (!json) {
+    return [];
+  }
+  try {
+    const value: unknown = JSON.parse(json);
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function accuracyOf(correct: number, played: number): number | null {
+  return played > 0 ? Math.round((correct / played) * 100) : null;
+}
+
+function toIsoDate(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error('Invalid scheduled_for date');
+  }
+  return date.toISOString();
+}
+
+// =============================================================================
+// SCHEDULED SESSIONS
+// =============================================================================
+
+/**
+ * Upcoming sessions for a student (or every scheduled session, including past ones)
+ */
+export function listScheduledSessions(studentId: number, options: { upcomingOnly?: boolean } = {}): ScheduledSession[] {
+  const db = getDatabase();
+  if (options.upcomingOnly) {
+    return db.prepare(`
+      SELECT * FROM scheduled_sessions
+      WHERE student_id = ? AND scheduled_for >= ?
+      ORDER BY scheduled_for ASC
+      LIMIT ?
+    `).all(studentId, new Date().toISOString(), UPCOMING_SESSION_LIMIT) as ScheduledSession[];
+  }
+  return db
+    .prepare('SELECT * FROM scheduled_sessions WHERE student_id = ? ORDER BY scheduled_for ASC')
+    .all(studentId) as ScheduledSession[];
+}
+
+export function createScheduledSession(studentId: number, data: CreateScheduledSessionRequest): ScheduledSession {
+  const db = getDatabase();
+  const result = db.prepare(`
+    INSERT INTO scheduled_sessions (student_id, scheduled_for, duration_minutes, notes, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(
+    studentId,
+    toIsoDate(data.scheduled_for),
+    data.duration_minutes ?? null,
+    data.notes || null,
+    new Date().toISOString()
+  );
+
+  return db
+    .prepare('SELECT * FROM scheduled_sessions WHERE id = ?')
+    .get(result.lastInsertRowid) as ScheduledSession;
+}
+
+export function deleteScheduledSession(id: number, studentId: number): boolean {
+  const result = getDatabase()
+    .prepare('DELETE FROM scheduled_sessions WHERE id = ? AND student_id = ?')
+    .run(id, studentId);
+  return result.changes > 0;
+}
+
+// =============================================================================
+// SHARING SETTINGS
+// =============================================================================
+
+export function getParentSharing(studentId: number): ParentSharingSettings {
+  const row = getDatabase()
+    .prepare('SELECT * FROM parent_sharing WHERE student_id = ?')
+    .get(studentId) as ParentSharingRow | undefined;
+
+  return {
+    student_id: studentId,
+    share_eval_data: row?.share_eval_data === 1,
+    share_safety_signals: row?.share_safety_signals === 1,
+    home_practice_note: row?.home_practice_note ?? null,
+    updated_at: row?.updated_at ?? null,
+  };
+}
+
+export function updateParentSharing(studentId: number, data: UpdateParentSharingRequest): ParentSharingSettings {
+  const current = getParentSharing(studentId);
+  const next = {
+    share_eval_data: data.share_eval_data ?? current.share_eval_data,
+    share_safety_signals: data.share_safety_signals ?? current.share_safety_signals,
+    home_practice_note: data.home_practice_note !== undefined
+      ? data.home_practice_note || null
+      : current.home_practice_note,
+  };
+
+  getDatabase().prepare(`
+    INSERT INTO parent_sharing (student_id, share_eval_data, share_safety_signals, home_practice_note, updated_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(student_id) DO UPDATE SET
+      share_eval_data = excluded.share_eval_data,
+      share_safety_signals = excluded.share_safety_signals,
+      home_practice_note = excluded.home_practice_note,
+      updated_at = excluded.updated_at
+  `).run(
+    studentId,
+    next.share_eval_data ? 1 : 0,
+    next.share_safety_signals ? 1 : 0,
+    next.home_practice_note,
+    new Date().toISOString()
+  );
+
+  return getParentSharing(studentId);
+}
+
+// =============================================================================
+// PROGRESS VIEW
+// =============================================================================
+
+function listSafetySignals(sessionIds: number[]): Map<number, string[]> {
+  const signals = new Map<number, string[]>();
+  if (sessionIds.length === 0) {
+    return signals;
+  }
+
+  const placeholders = sessionIds.map(() => '?').join(', ');
+  const rows = getDatabase().prepare(`
+    SELECT session_id, signals_detected FROM session_responses
+    WHERE session_id IN (${placeholders}) AND signals_detected IS NOT NULL
+  `).all(...sessionIds) as Array<{ session_id: number; signals_detected: string }>;
+
+  for (const row of rows) {
+    const merged = new Set([...(signals.get(row.session_id) ?? []), ...parseList(row.signals_detected)]);
+    signals.set(row.session_id, [...merged]);
+  }
+  return signals;
+}
+
+function summarizeSession(session: GameplaySession, signals?: Map<number, string[]>): ParentSessionSummary {
+  return {
+    id: session.id,
+    started_at: session.started_at,
+    ended_at: session.ended_at,
+    minutes: Math.round((session.duration_seconds ?? 0) / 60),
+    cards_practiced: session.total_cards_played,
+    correct_responses: session.correct_responses,
+    accuracy: accuracyOf(session.correct_responses, session.total_cards_played),
+    categories: parseList(session.categories_selected),
+    ...(signals && { safety_signals: signals.get(session.id) ?? [] }),
+  };
+}
+
+function suggestionFor(category: string): string {
+  if (ARTICULATION_CATEGORIES.includes(category)) {
+    const target = category.endsWith(' Sound') ? `the ${category.slice(0, -' Sound'.length)} sound` : category.toLowerCase();
+    return `Find five everyday words with ${target} and say them together during a daily routine, like setting the table.`;
+  }
+  return LANGUAGE_SUGGESTIONS[CATEGORY_HANDLER_MAP[category] ?? 'standard'](category);
+}
+
+/**
+ * Categories the child found hard in recent sessions (lowest accuracy first),
+ * then goal categories that have not come up lately
+ */
+function buildSuggestions(sessionIds: number[], goalCategories: string[]): HomePracticeSuggestion[] {
+  const accuracyByCategory = new Map<string, number | null>();
+  if (sessionIds.length > 0) {
+    const placeholders = sessionIds.map(() => '?').join(', ');
+    const rows = getDatabase().prepare(`
+      SELECT card_category, COUNT(*) as attempts, SUM(is_correct) as correct
+      FROM session_responses
+      WHERE session_id IN (${placeholders})
+      GROUP BY card_category
+    `).all(...sessionIds) as Array<{ card_category: string; attempts: number; correct: number }>;
+    for (const row of rows) {
+      accuracyByCategory.set(row.card_category, accuracyOf(row.correct, row.attempts));
+    }
+  }
+
+  const needsPractice: HomePracticeSuggestion[] = [...accuracyByCategory]
+    .filter(([, accuracy]) => accuracy !== null && accuracy < NEEDS_PRACTICE_ACCURACY)
+    .sort(([, a], [, b]) => (a ?? 0) - (b ?? 0))
+    .map(([category, accuracy]) => ({
+      category,
+      reason: 'needs_practice',
+      accuracy,
+      suggestion: suggestionFor(category),
+    }));
+
+  const goalPractice: HomePracticeSuggestion[] = [...new Set(goalCategories)]
+    .filter((category) => !accuracyByCategory.has(category))
+    .map((category) => ({
+      category,
+      reason: 'goal',
+      accuracy: null,
+      suggestion: suggestionFor(category),
+    }));
+
+  return [...needsPractice, ...goalPractice].slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Everything a parent sees for one child
+ * Returns null if the student does not exist. Callers check access first.
+ */
+export function getParentProgressView(studentId: number): ParentProgressView | null {
+  const student = getStudentById(studentId);
+  if (!student) {
+    return null;
+  }
+
+  const sharing = getParentSharing(studentId);
+  const sessions = getDatabase().prepare(`
+    SELECT * FROM gameplay_sessions
+    WHERE child_id = ? AND status = 'completed'
+    ORDER BY started_at DESC
+    LIMIT ?
+  `).all(studentId, RECENT_SESSION_LIMIT) as GameplaySession[];
+  const sessionIds = sessions.map((session) => session.id);
+  const signals = sharing.share_safety_signals ? listSafetySignals(sessionIds) : undefined;
+
+  const goals = listGoalsByStudent(studentId).filter((goal) => goal.status !== 'discontinued');
+  const goalProgress: ParentGoalProgress[] = goals.map((goal) => ({
+    id: goal.id,
+    goal_type: goal.goal_type,
+    goal_description: goal.goal_description,
+    target_percentage: goal.target_percentage,
+    current_percentage: goal.current_percentage ?? 0,
+    target_date: goal.target_date ?? null,
+    status: goal.status,
+  }));
+  const goalCategories = goals
+    .filter((goal) => goal.status === 'active')
+    .flatMap((goal) => parseList(goal.boardgame_categories));
+
+  const view: ParentProgressView = {
+    child: {
+      id: student.id,
+      first_name: student.first_name,
+      last_name: student.last_name,
+      grade_level: student.grade_level ?? null,
+    },
+    upcoming_sessions: listScheduledSessions(studentId, { upcomingOnly: true }),
+    recent_sessions: sessions.map((session) => summarizeSession(session, signals)),
+    goals: goalProgress,
+    home_practice: {
+      note: sharing.home_practice_note,
+      suggestions: buildSuggestions(sessionIds, goalCategories),
+    },
+    generated_at: new Date().toISOString(),
+  };
+
+  if (sharing.share_eval_data) {
+    view.eval_data = student.eval_data ? (JSON.parse(student.eval_data) as EvalData) : null;
+  }
+  return view;
+}
@@ -0,0 +1,104 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type Database from 'better-sqlite3';
+import { setupTestDatabase, createTestTherapist, createTestStudent } from '../../test/database.js';
+import { buildDocumentKey, documentExists, listStudentDocuments, writeDocument } from '../storage/index.js';
+import { archiveStudent } from '../student/index.js';
+import { requestErasure, confirmErasure, deleteArchivedStudent } from './erasure.js';
+import type { Therapist } from '../../types/index.js';
+
+let db: Database.Database;
+let therapist: Therapist;
+
+const REQUEST = { method: 'POST', path: '/api/therapist/students/1/erasure/confirm', ip: null };
+
+before(async () => {
+  db = setupTestDatabase();
+  therapist = await createTestTherapist();
+});
+
+async function erase(studentId: number) {
+  const { confirmation_code } = requestErasure(studentId, therapist.id, therapist.organization_id);
+  return confirmErasure(
+    studentId,
+    { therapist_id: therapist.id, organization_id: therapist.organization_id },
+    confirmation_code,
+    REQUEST
+  );
+}
+
+test('erasure counts only documents it deleted and lists missing ones', async () => {
+  const student = createTestStudent(therapist.id);
+  const evalKey = buildDocumentKey('evaluations', student.id);
+  const goalsKey = buildDocumentKey('goals', student.id);
+  await writeDocument(evalKey, Buffer.from('%PDF-1.4'), 'application/pdf');
+  // The goals PDF is referenced but was never written (or was lost)
+  db.prepare('UPDATE children SET eval_pdf_path = ?, goals_pdf_path = ? WHERE id = ?')
+    .run(evalKey, goalsKey, student.id);
+
+  const completed = await erase(student.id);
+
+  assert.equal(completed.status, 'completed');
+  assert.equal(completed.purged_documents, 1);
+  assert.deepEqual(completed.missing_documents, ['goals']);
+  assert.equal(await documentExists(evalKey), false);
+  assert.equal(db.prepare('SELECT id FROM children WHERE id = ?').get(student.id), undefined);
+});
+
+test('erasure purges earlier uploads no row points at any more', async () => {
+  const student = createTestStudent(therapist.id);
+  const earlierKey = buildDocumentKey('goals', student.id);
+  const currentKey = buildDocumentKey('goals', student.id);
+  await writeDocument(earlierKey, Buffer.from('%PDF-1.4'), 'application/pdf');
+  await writeDocument(currentKey, Buffer.from('%PDF-1.4'), 'application/pdf');
+  db.prepare('UPDATE children SET goals_pdf_path = ? WHERE id = ?').run(currentKey, student.id);
+
+  const completed = await erase(student.id);
+
+  assert.equal(completed.purged_documents, 2);
+  assert.deepEqual(completed.missing_documents, []);
+  assert.deepEqual(await listStudentDocuments(student.id), []);
+});
+
+test('erasure of a student without documents reports none', async () => {
+  const student = createTestStudent(therapist.id);
+  const completed = await erase(student.id);
+
+  assert.equal(completed.purged_documents, 0);
+  assert.deepEqual(completed.missing_documents, []);
+});
+
+test('a wrong confirmation code erases nothing', async () => {
+  const student = createTestStudent(therapist.id);
+  requestErasure(student.id, therapist.id, therapist.organization_id);
+
+  await assert.rejects(
+    confirmErasure(
+      student.id,
+      { therapist_id: therapist.id, organization_id: therapist.organization_id },
+      'AAAA-AAAA',
+      REQUEST
+    ),
+    /Invalid confirmation code/
+  );
+  assert.ok(db.prepare('SELECT id FROM children WHERE id = ?').get(student.id));
+});
+
+test('deleting a student is refused until they are archived, then erases like a confirmed erasure', async () => {
+  const student = createTestStudent(therapist.id);
+  const evalKey = buildDocumentKey('evaluations', student.id);
+  await writeDocument(evalKey, Buffer.from('%PDF-1.4'), 'application/pdf');
+  db.prepare('UPDATE children SET eval_pdf_path = ? WHERE id = ?').run(evalKey, student.id);
+  const owner = { therapist_id: therapist.id, organization_id: therapist.organization_id };
+
+  const { confirmation_code } = requestErasure(student.id, therapist.id, therapist.organization_id);
+  await assert.rejects(deleteArchivedStudent(student.id, owner, confirmation_code, REQUEST), /Archive the student/);
+  assert.ok(db.prepare('SELECT id FROM children WHERE id = ?').get(student.id));
+
+  archiveStudent(student.id, { reason: 'Entered by mistake' });
+  const completed = await deleteArchivedStudent(student.id, owner, confirmation_code, REQUEST);
+  assert.equal(completed.status, 'completed');
+  assert.equal(completed.purged_documents, 1);
+  assert.equal(await documentExists(evalKey), false);
+  assert.equal(db.prepare('SELECT id FROM children WHERE id = ?').get(student.id), undefined);
+});
@@ -0,0 +1,268 @@
+/**
+ * Student Erasure
+ * Two-step purge of a student's data: request (returns a one-time code),
+ * then confirm with that code. Leaves a non-PHI tombstone behind. Deleting an
+ * archived student (DELETE /students/:id) goes through the same two steps.
+ */
+
+import crypto from 'crypto';
+import { getDatabase } from '../database.js';
+import { getStudentForTherapist } from '../student/index.js';
+import { getActiveSessionByChild } from '../session/index.js';
+import { deleteDocument, documentExists, listStudentDocuments, DOCUMENT_COLUMNS } from '../storage/index.js';
+import { recordAuditEvent } from '../audit/index.js';
+import { deleteAuthSessions, clearAccountLockout } from '../auth/index.js';
+import type { ErasureRequest } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+
+const ERASURE_REQUEST_TTL_MS = 24 * 60 * 60 * 1000;
+
+// No 0/O/1/I so the code can be read back without mistakes
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const REQUEST_FIELDS = `id, student_id, organization_id, requested_by, status, requested_at,
+  expires_at, resolved_by, resolved_at, purged_rows, purged_documents, missing_documents`;
+
+type ErasureRequestRow = Omit<ErasureRequest, 'missing_documents'> & { missing_documents: string | null };
+
+function toErasureRequest(row: ErasureRequestRow): ErasureRequest {
+  return {
+    ...row,
+    missing_documents: row.missing_documents ? JSON.parse(row.missing_documents) as string[] : null,
+  };
+}
+
+function generateConfirmationCode(): string {
+  const chars = Array.from({ length: 8 }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]);
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code.trim().toUpperCase()).digest('hex');
+}
+
+function getErasureRequestById(id: number): ErasureRequest | null {
+  const db = getDatabase();
+  const row = db
+    .prepare(`SELECT ${REQUEST_FIELDS} FROM erasure_requests WHERE id = ?`)
+    .get(id) as ErasureRequestRow | undefined;
+  return row ? toErasureRequest(row) : null;
+}
+
+function assertStudentAccess(studentId: number, therapistId: number): void {
+  if (!getStudentForTherapist(studentId, therapistId)) {
+    throw new Error('Student not found');
+  }
+}
+
+/**
+ * The student's pending erasure request, if any (expired requests count as none)
+ */
+export function getPendingErasureRequest(studentId: number, therapistId: number): ErasureRequest | null {
+  assertStudentAccess(studentId, therapistId);
+
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT ${REQUEST_FIELDS} FROM erasure_requests
+    WHERE student_id = ? AND status = 'pending' AND expires_at > ?
+    ORDER BY id DESC
+    LIMIT 1
+  `).get(studentId, new Date().toISOString()) as ErasureRequestRow | undefined;
+  return row ? toErasureRequest(row) : null;
+}
+
+/**
+ * Step 1: open an erasure request. The confirmation code is only returned
+ * here; any earlier pending request for the student is cancelled.
+ */
+export function requestErasure(
+  studentId: number,
+  therapistId: number,
+  organizationId: number
+): { request: ErasureRequest; confirmation_code: string } {
+  assertStudentAccess(studentId, therapistId);
+
+  const db = getDatabase();
+  const code = generateConfirmationCode();
+  const now = new Date();
+
+  const id = db.transaction((): number => {
+    db.prepare(`
+      UPDATE erasure_requests SET status = 'cancelled', resolved_by = ?, resolved_at = ?
+      WHERE student_id = ? AND status = 'pending'
+    `).run(therapistId, now.toISOString(), studentId);
+
+    const result = db.prepare(`
+      INSERT INTO erasure_requests (
+        student_id, organization_id, requested_by, code_hash, requested_at, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      studentId,
+      organizationId,
+      therapistId,
+      hashCode(code),
+      now.toISOString(),
+      new Date(now.getTime() + ERASURE_REQUEST_TTL_MS).toISOString()
+    );
+    return result.lastInsertRowid as number;
+  })();
+
+  logger.info(`Erasure requested for student ${studentId} by therapist ${therapistId} (request ${id})`);
+  return { request: getErasureRequestById(id)!, confirmation_code: code };
+}
+
+/**
+ * Withdraw a pending erasure request
+ */
+export function cancelErasure(studentId: number, therapistId: number): boolean {
+  const pending = getPendingErasureRequest(studentId, therapistId);
+  if (!pending) {
+    return false;
+  }
+
+  getDatabase().prepare(`
+    UPDATE erasure_requests SET status = 'cancelled', resolved_by = ?, resolved_at = ?
+    WHERE id = ?
+  `).run(therapistId, new Date().toISOString(), pending.id);
+  return true;
+}
+
+/**
+ * Step 2: purge every stored document of the student (earlier uploads
+ * included) and every database row (profile, goals, sessions, responses,
+ * calibration).
+ *
+ * The completed erasure_requests row and an 'erase' audit entry remain as the
+ * tombstone; both hold only ids, timestamps and counts.
+ */
+export async function confirmErasure(
+  studentId: number,
+  therapist: { therapist_id: number; organization_id: number },
+  confirmationCode: string,
+  request: { method: string; path: string; ip: string | null }
+): Promise<ErasureRequest> {
+  const db = getDatabase();
+  const student = getStudentForTherapist(studentId, therapist.therapist_id);
+  if (!student) {
+    throw new Error('Student not found');
+  }
+
+  const pending = getPendingErasureRequest(studentId, therapist.therapist_id);
+  if (!pending) {
+    throw new Error('No pending erasure request');
+  }
+
+  const expected = Buffer.from(
+    (db.prepare('SELECT code_hash FROM erasure_requests WHERE id = ?').get(pending.id) as { code_hash: string }).code_hash,
+    'hex'
+  );
+  if (!crypto.timingSafeEqual(expected, Buffer.from(hashCode(confirmationCode), 'hex'))) {
+    throw new Error('Invalid confirmation code');
+  }
+
+  if (getActiveSessionByChild(studentId)) {
+    throw new Error('Student has an active gameplay session');
+  }
+
+  // Files first: if a delete fails the rows are still there and the request can be confirmed again
+  const documents = new Set(await listStudentDocuments(studentId));
+  const missingDocuments: string[] = [];
+  for (const { column, kind } of DOCUMENT_COLUMNS) {
+    const key = student[column];
+    if (!key || documents.has(key)) {
+      continue;
+    }
+    if (await documentExists(key)) {
+      documents.add(key);
+    } else {
+      missingDocuments.push(kind);
+    }
+  }
+
+  // Everything under the student's prefixes goes, including earlier uploads no row points at
+  for (const key of documents) {
+    await deleteDocument(key);
+  }
+  const purgedDocuments = documents.size;
+
+  const count = (sql: string): number =>
+    (db.prepare(sql).get(studentId) as { count: number }).count;
+
+  db.transaction(() => {
+    const purgedRows =
+      1 +
+      count('SELECT COUNT(*) as count FROM iep_goals WHERE student_id = ?') +
+      count('SELECT COUNT(*) as count FROM gameplay_sessions WHERE child_id = ?') +
+      count(`SELECT COUNT(*) as count FROM session_responses
+             WHERE session_id IN (SELECT id FROM gameplay_sessions WHERE child_id = ?)`) +
+      count('SELECT COUNT(*) as count FROM voice_calibrations WHERE child_id = ?') +
+      count('SELECT COUNT(*) as count FROM scheduled_sessions WHERE student_id = ?') +
+      count('SELECT COUNT(*) as count FROM service_logs WHERE student_id = ?') +
+      count('SELECT COUNT(*) as count FROM parent_sharing WHERE student_id = ?') +
+      count('SELECT COUNT(*) as count FROM child_picture_passwords WHERE child_id = ?') +
+      count('SELECT COUNT(*) as count FROM child_login_badges WHERE child_id = ?');
+
+    // Goals, sessions, responses, calibration, parent portal data, service
+    // logs and login methods go with it (ON DELETE CASCADE)
+    db.prepare('DELETE FROM children WHERE id = ?').run(studentId);
+    // Auth sessions hold the child's devices' IPs and user agents
+    deleteAuthSessions('child', studentId);
+    clearAccountLockout('child', studentId);
+
+    db.prepare(`
+      UPDATE erasure_requests
+      SET status = 'completed', resolved_by = ?, resolved_at = ?, purged_rows = ?, purged_documents = ?,
+        missing_documents = ?
+      WHERE id = ?
+    `).run(
+      therapist.therapist_id,
+      new Date().toISOString(),
+      purgedRows,
+      purgedDocuments,
+      JSON.stringify(missingDocuments),
+      pending.id
+    );
+
+    recordAuditEvent({
+      organization_id: therapist.organization_id,
+      actor_type: 'therapist',
+      actor_id: therapist.therapist_id,
+      action: 'erase',
+      resource_type: 'student',
+      resource_id: studentId,
+      student_id: studentId,
+      method: request.method,
+      path: request.path,
+      status_code: 200,
+      ip: request.ip,
+    });
+  })();
+
+  const completed = getErasureRequestById(pending.id)!;
+  logger.info(
+    `Erased student ${studentId} (request ${pending.id}): ` +
+    `${completed.purged_rows} rows, ${completed.purged_documents} documents` +
+    (missingDocuments.length > 0 ? ` (already missing: ${missingDocuments.join(', ')})` : '')
+  );
+  return completed;
+}
+
+/**
+ * Permanently delete a discharged student: an erasure confirmed with its code,
+ * refused while the student is still on the active caseload
+ */
+export async function deleteArchivedStudent(
+  studentId: number,
+  therapist: { therapist_id: number; organization_id: number },
+  confirmationCode: string,
+  request: { method: string; path: string; ip: string | null }
+): Promise<ErasureRequest> {
+  const student = getStudentForTherapist(studentId, therapist.therapist_id);
+  if (!student) {
+    throw new Error('Student not found');
+  }
+  if (!student.archived_at) {
+    throw new Error('Archive the student before deleting them');
+  }
+  return confirmErasure(studentId, therapist, confirmationCode, request);
+}
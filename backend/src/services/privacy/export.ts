@@ -0,0 +1,110 @@
+/**
+ * Student Data Export
+ * Builds a portable zip of everything stored about one student
+ */
+
+import { getStudentForTherapist } from '../student/index.js';
+import { listGoalsByStudent } from '../goal/index.js';
+import { getAllSessionsByChild, getResponsesBySession } from '../session/index.js';
+import { getCalibrationByChildId } from '../calibration/index.js';
+import { listScheduledSessions, getParentSharing } from '../parent-portal/index.js';
+import { listServiceLogs } from '../service-minutes/index.js';
+import { getChildLoginMethods } from '../child-login/index.js';
+import { readDocument } from '../storage/index.js';
+import type { StudentExportBundle, StudentExportDocument } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import { createZip, type ZipEntry } from './zip.js';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function safeFileName(name: string | null | undefined, fallback: string): string {
+  const cleaned = (name || '').replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+/, '');
+  return cleaned || fallback;
+}
+
+/**
+ * Export a student's profile, evaluation data, goals, sessions with
+ * responses, calibration and original PDFs as `student.json` + `documents/`
+ */
+export async function exportStudentData(
+  studentId: number,
+  therapistId: number
+): Promise<{ fileName: string; data: Buffer }> {
+  const student = getStudentForTherapist(studentId, therapistId);
+  if (!student) {
+    throw new Error('Student not found');
+  }
+
+  const entries: ZipEntry[] = [];
+  const documents: StudentExportDocument[] = [];
+
+  const documentSources = [
+    { kind: 'evaluation' as const, key: student.eval_pdf_path, name: student.eval_pdf_original_name, uploadedAt: student.eval_pdf_uploaded_at },
+    { kind: 'goals' as const, key: student.goals_pdf_path, name: student.goals_pdf_original_name, uploadedAt: student.goals_pdf_uploaded_at },
+  ];
+  for (const source of documentSources) {
+    if (!source.key) {
+      continue;
+    }
+    const data = await readDocument(source.key);
+    if (!data) {
+      logger.warn(`Student export: ${source.kind} PDF for student ${studentId} not found (${source.key})`);
+    }
+    const file = data ? `documents/${source.kind}-${safeFileName(source.name, `${source.kind}.pdf`)}` : null;
+    if (data && file) {
+      entries.push({ name: file, data });
+    }
+    documents.push({
+      kind: source.kind,
+      original_name: source.name ?? null,
+      uploaded_at: source.uploadedAt ?? null,
+      file,
+    });
+  }
+
+  const { eval_data, eval_pdf_path: _evalKey, goals_pdf_path: _goalsKey, ...profile } = student;
+
+  const bundle: StudentExportBundle = {
+    format_version: EXPORT_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    student: { ...profile, eval_data: parseJson(eval_data, null) },
+    goals: listGoalsByStudent(studentId).map((goal) => ({
+      ...goal,
+      boardgame_categories: parseJson<string[]>(goal.boardgame_categories, []),
+      objectives: parseJson(goal.objectives, []),
+    })),
+    sessions: getAllSessionsByChild(studentId).map((session) => ({
+      ...session,
+      categories_selected: parseJson<string[]>(session.categories_selected, []),
+      responses: getResponsesBySession(session.id).map((response) => ({
+        ...response,
+        signals_detected: parseJson<string[]>(response.signals_detected, []),
+      })),
+    })),
+    calibration: (getCalibrationByChildId(studentId) as Record<string, unknown> | null) ?? null,
+    scheduled_sessions: listScheduledSessions(studentId),
+    service_logs: listServiceLogs(studentId),
+    parent_sharing: getParentSharing(studentId),
+    login_methods: getChildLoginMethods(studentId),
+    documents,
+  };
+
+  entries.unshift({ name: 'student.json', data: Buffer.from(JSON.stringify(bundle, null, 2), 'utf-8') });
+
+  const date = bundle.exported_at.slice(0, 10);
+  return {
+    fileName: `student-${studentId}-export-${date}.zip`,
+    data: createZip(entries),
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Privacy Services
+ * Re-exports student data export and erasure services
+ */
+
+export { exportStudentData, EXPORT_FORMAT_VERSION } from './export.js';
+
+export {
+  getPendingErasureRequest,
+  requestErasure,
+  cancelErasure,
+  confirmErasure,
+  deleteArchivedStudent,
+} from './erasure.js';
+
+export { createZip, type ZipEntry } from './zip.js';
@@ -0,0 +1,8 @@
+/**
+ * Rate Limit Services
+ * Re-exports rate limit stores
+ */
+
+export { createRateLimitStore, getRateLimitStore } from './store.js';
+export { MemoryRateLimitStore } from './memory.js';
+export { SqliteRateLimitStore } from './sqlite.js';
@@ -0,0 +1,44 @@
+/**
+ * Memory Rate Limit Store
+ * Counters in a process-local Map; lost on restart and not shared between instances
+ */
+
+import type { RateLimitCounter, RateLimitStore } from '../../types/index.js';
+
+// How often expired counters are dropped
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly driver = 'memory' as const;
+  private counters = new Map<string, RateLimitCounter>();
+
+  constructor() {
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+
+    if (!counter || counter.reset_at <= now) {
+      counter = { count: 0, reset_at: now + windowMs };
+      this.counters.set(key, counter);
+    }
+    counter.count++;
+
+    return { ...counter };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.reset_at <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * SQLite Rate Limit Store
+ * Counters in the rate_limits table, so they survive restarts and are shared
+ * by every instance using the same database
+ */
+
+import { getDatabase } from '../database.js';
+import type { RateLimitCounter, RateLimitStore } from '../../types/index.js';
+
+// How often expired counters are deleted
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+export class SqliteRateLimitStore implements RateLimitStore {
+  readonly driver = 'sqlite' as const;
+
+  constructor() {
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    // One statement, so concurrent hits from other instances are counted too
+    return getDatabase().prepare(`
+      INSERT INTO rate_limits (key, count, reset_at) VALUES (?, 1, ?)
+      ON CONFLICT(key) DO UPDATE SET
+        count = CASE WHEN reset_at <= ? THEN 1 ELSE count + 1 END,
+        reset_at = CASE WHEN reset_at <= ? THEN excluded.reset_at ELSE reset_at END
+      RETURNING count, reset_at
+    `).get(key, now + windowMs, now, now) as RateLimitCounter;
+  }
+
+  async reset(key: string): Promise<void> {
+    getDatabase().prepare('DELETE FROM rate_limits WHERE key = ?').run(key);
+  }
+
+  private prune(): void {
+    getDatabase().prepare('DELETE FROM rate_limits WHERE reset_at <= ?').run(Date.now());
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Rate Limit Store Service
+ * Resolves the configured rate limit store
+ */
+
+import { config } from '../../config/index.js';
+import type { RateLimitStore, RateLimitStoreDriver } from '../../types/index.js';
+import { MemoryRateLimitStore } from './memory.js';
+import { SqliteRateLimitStore } from './sqlite.js';
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Create a rate limit store for the given driver
+ */
+export function createRateLimitStore(driver: RateLimitStoreDriver = config.rateLimit.store): RateLimitStore {
+  switch (driver) {
+    case 'sqlite':
+      return new SqliteRateLimitStore();
+    case 'memory':
+      return new MemoryRateLimitStore();
+  }
+}
+
+/**
+ * Get the configured store (created on first use, after migrations have run)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createRateLimitStore();
+  }
+  return store;
+}
@@ -0,0 +1,6 @@
+/**
+ * Report Services
+ * Re-exports reporting services
+ */
+
+export { getSchoolReport } from './report.js';
@@ -0,0 +1,100 @@
+/**
+ * Report Service
+ * School-wide progress across every student at a school
+ */
+
+import { getDatabase } from '../database.js';
+import { getSchoolForOrganization } from '../school/index.js';
+import type { SchoolReport, SchoolReportStudent, StudentStatusFilter } from '../../types/index.js';
+
+interface StudentReportRow extends Omit<SchoolReportStudent, 'total_minutes' | 'accuracy'> {
+  total_seconds: number;
+}
+
+function accuracyOf(correct: number, played: number): number | null {
+  return played > 0 ? Math.round((correct / played) * 100) : null;
+}
+
+function assertDate(value: string | undefined, name: string): void {
+  if (value !== undefined && Number.isNaN(Date.parse(value))) {
+    throw new Error(`Invalid ${name} date`);
+  }
+}
+
+/**
+ * Completed-session totals per student at a school, optionally limited to
+ * sessions started between `from` and `to` (inclusive calendar dates)
+ * Archived (discharged) students are included unless `status` says otherwise.
+ * Returns null if the school is not in the organization.
+ */
+export function getSchoolReport(
+  organizationId: number,
+  schoolId: number,
+  range: { from?: string; to?: string; status?: StudentStatusFilter } = {}
+): SchoolReport | null {
+  const school = getSchoolForOrganization(schoolId, organizationId);
+  if (!school) {
+    return null;
+  }
+
+  assertDate(range.from, 'from');
+  assertDate(range.to, 'to');
+  const from = range.from ?? null;
+  const to = range.to ?? null;
+  const status = range.status ?? 'all';
+
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT
+      c.id as student_id,
+      c.first_name || ' ' || c.last_name as student_name,
+      c.grade_level,
+      m.name as slp_name,
+      COUNT(g.id) as sessions_completed,
+      COALESCE(SUM(g.duration_seconds), 0) as total_seconds,
+      COALESCE(SUM(g.total_cards_played), 0) as cards_played,
+      COALESCE(SUM(g.correct_responses), 0) as correct_responses,
+      MAX(g.started_at) as last_session_at,
+      c.discharged_on
+    FROM children c
+    JOIN therapists t ON t.id = c.therapist_id
+    LEFT JOIN therapist_members m ON m.id = c.slp_id
+    LEFT JOIN gameplay_sessions g ON g.child_id = c.id
+      AND g.status = 'completed'
+      AND (? IS NULL OR date(g.started_at) >= date(?))
+      AND (? IS NULL OR date(g.started_at) <= date(?))
+    WHERE c.school_id = ? AND t.organization_id = ?
+      AND (? = 'all'
+        OR (? = 'active' AND c.archived_at IS NULL)
+        OR (? = 'archived' AND c.archived_at IS NOT NULL))
+    GROUP BY c.id
+    ORDER BY c.first_name, c.last_name
+  `).all(from, from, to, to, schoolId, organizationId, status, status, status) as StudentReportRow[];
+
+  const students: SchoolReportStudent[] = rows.map(({ total_seconds, ...row }) => ({
+    ...row,
+    total_minutes: Math.round(total_seconds / 60),
+    accuracy: accuracyOf(row.correct_responses, row.cards_played),
+  }));
+
+  const totalSeconds = rows.reduce((sum, row) => sum + row.total_seconds, 0);
+  const cardsPlayed = students.reduce((sum, row) => sum + row.cards_played, 0);
+  const correctResponses = students.reduce((sum, row) => sum + row.correct_responses, 0);
+
+  return {
+    school: { id: school.id, name: school.name },
+    from,
+    to,
+    status,
+    generated_at: new Date().toISOString(),
+    totals: {
+      students: students.length,
+      sessions_completed: students.reduce((sum, row) => sum + row.sessions_completed, 0),
+      total_minutes: Math.round(totalSeconds / 60),
+      cards_played: cardsPlayed,
+      correct_responses: correctResponses,
+      accuracy: accuracyOf(correctResponses, cardsPlayed),
+    },
+    students,
+  };
+}
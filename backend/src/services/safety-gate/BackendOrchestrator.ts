@@ -22,6 +22,7 @@ import { SessionPlanner } from './SessionPlanner.js';
 import { PromptBuilder } from './PromptBuilder.js';
 import { LLMResponseGenerator } from './LLMResponseGenerator.js';
 import { LLMResponseValidator } from './LLMResponseValidator.js';
+import { safetyLevels, safetySignals } from '../metrics/index.js';
 import { pipelineLogger } from '../../utils/logger.js';
 import type { PipelineFlowData } from '../../utils/logger.js';
 
@@ -107,6 +108,10 @@ export class BackendOrchestrator {
     // 3. Assess safety level
     const safetyLevel = this.levelAssessor.assessLevel(state, signals);
     flowData.safetyLevel = safetyLevel;
+    safetyLevels.inc({ level: Level[safetyLevel].toLowerCase() });
+    for (const signal of signals) {
+      safetySignals.inc({ signal: String(signal) });
+    }
 
     // 4. Determine interventions
     const interventions = this.interventionSelector.selectInterventions(
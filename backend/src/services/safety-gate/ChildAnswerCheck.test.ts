@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockLLMProvider } from '../llm/index.js';
+import { ChildAnswerCheck } from './ChildAnswerCheck.js';
+import type { LLMChatRequest, LLMChatResponse } from '../../types/index.js';
+
+const CONTEXT = { category: 'Adjectives', question: 'How does ice feel?' };
+
+test('a synonym of the target is accepted', async () => {
+  const check = new ChildAnswerCheck(new MockLLMProvider());
+  assert.equal(await check.checkSimilarity('Freezing', 'cold', CONTEXT), true);
+  assert.equal(await check.checkSimilarity('it is very chilly', 'cold', CONTEXT), true);
+});
+
+test('an opposite or unrelated word is rejected', async () => {
+  const check = new ChildAnswerCheck(new MockLLMProvider());
+  assert.equal(await check.checkSimilarity('hot', 'cold', CONTEXT), false);
+  assert.equal(await check.checkSimilarity('apple', 'big', CONTEXT), false);
+});
+
+test('an empty answer is rejected without asking the LLM', async () => {
+  let calls = 0;
+  const check = new ChildAnswerCheck({
+    name: 'mock',
+    async chat(): Promise<LLMChatResponse> {
+      calls++;
+      return { content: '{"similar": true}', model: 'mock-fast' };
+    },
+  });
+  assert.equal(await check.checkSimilarity('  ', 'cold', CONTEXT), false);
+  assert.equal(calls, 0);
+});
+
+test('the same pair is answered from the cache', async () => {
+  const requests: LLMChatRequest[] = [];
+  const mock = new MockLLMProvider();
+  const check = new ChildAnswerCheck({
+    name: 'mock',
+    chat(request) {
+      requests.push(request);
+      return mock.chat(request);
+    },
+  });
+
+  assert.equal(await check.checkSimilarity('huge', 'big', CONTEXT), true);
+  assert.equal(await check.checkSimilarity('HUGE ', 'big', CONTEXT), true);
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].task, 'answer-check');
+});
+
+test('a failing provider marks the answer incorrect', async () => {
+  const check = new ChildAnswerCheck({
+    name: 'mock',
+    async chat(): Promise<LLMChatResponse> {
+      throw new Error('provider down');
+    },
+  });
+  assert.equal(await check.checkSimilarity('freezing', 'cold', CONTEXT), false);
+});
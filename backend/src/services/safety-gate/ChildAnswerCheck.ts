@@ -1,11 +1,11 @@
 /**
  * ChildAnswerCheck
  * AI-powered semantic similarity checking for answers
- * Uses GPT-4o-mini to determine if child's answer is semantically equivalent to target
+ * Uses the fast LLM tier to determine if child's answer is semantically equivalent to target
  */
 
-import OpenAI from 'openai';
-import { config } from '../../config/index.js';
+import { getLLMProvider } from '../llm/index.js';
+import type { LLMProvider } from '../../types/index.js';
 import { logger } from '../../utils/logger.js';
 
 interface SimilarityContext {
@@ -14,14 +14,12 @@ interface SimilarityContext {
 }
 
 export class ChildAnswerCheck {
-  private client: OpenAI;
+  private llm: LLMProvider;
   private cache: Map<string, boolean> = new Map();
   private timeoutMs: number = 8000;
 
-  constructor() {
-    this.client = new OpenAI({
-      apiKey: config.openai.apiKey,
-    });
+  constructor(llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm;
   }
 
   /**
@@ -56,11 +54,11 @@ export class ChildAnswerCheck {
       return cached;
     }
 
-    // Call OpenAI API with timeout
+    // Call LLM with timeout
     logger.debug(`ChildAnswerCheck: Calling AI - "${normalizedChild}" vs "${normalizedTarget}" (${context.category})`);
 
     try {
-      const result = await this.callOpenAI(normalizedChild, normalizedTarget, context);
+      const result = await this.callLLM(normalizedChild, normalizedTarget, context);
 
       // Cache the result
       this.cache.set(cacheKey, result);
@@ -74,9 +72,9 @@ export class ChildAnswerCheck {
   }
 
   /**
-   * Call OpenAI API to check semantic similarity
+   * Ask the LLM to check semantic similarity
    */
-  private async callOpenAI(
+  private async callLLM(
     childWord: string,
     targetWord: string,
     context: SimilarityContext
@@ -111,24 +109,26 @@ Respond JSON only: {"similar": true} or {"similar": false}`;
     const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
 
     try {
-      logger.debug(`ChildAnswerCheck: Calling OpenAI API`);
+      logger.debug(`ChildAnswerCheck: Calling ${this.llm.name} LLM provider`);
 
-      const response = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const response = await this.llm.chat({
+        task: 'answer-check',
+        model: 'fast',
         messages: [
           {
             role: 'user',
             content: prompt
           }
         ],
-        max_tokens: 20,
+        maxTokens: 20,
         temperature: 0.1,
-        response_format: { type: 'json_object' }
-      }, { signal: controller.signal });
+        json: true,
+        signal: controller.signal
+      });
 
       clearTimeout(timeoutId);
 
-      const content = response.choices[0]?.message?.content;
+      const content = response.content;
       if (!content) {
         logger.warn('ChildAnswerCheck: Empty response from API');
         return false;
@@ -1,18 +1,16 @@
-import OpenAI from 'openai';
-import { config } from '../../config/index.js';
+import { getLLMProvider } from '../llm/index.js';
 import { logger } from '../../utils/logger.js';
+import type { LLMProvider } from '../../types/index.js';
 import type { LLMGeneration } from '../../types/safety-gate.js';
 
 // Re-export for backward compatibility
 export type { LLMGeneration };
 
 export class LLMResponseGenerator {
-  private client: OpenAI;
+  private llm: LLMProvider;
 
-  constructor() {
-    this.client = new OpenAI({
-      apiKey: config.openai.apiKey,
-    });
+  constructor(llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm;
   }
 
   async generateResponse(
@@ -20,10 +18,11 @@ export class LLMResponseGenerator {
     _context: any
   ): Promise<LLMGeneration> {
     try {
-      const response = await this.client.chat.completions.create({
-        model: 'gpt-4o',
-        max_tokens: 500,
-        response_format: { type: 'json_object' },
+      const response = await this.llm.chat({
+        task: 'response-generation',
+        model: 'smart',
+        maxTokens: 500,
+        json: true,
         messages: [
           {
             role: 'system',
@@ -36,7 +35,7 @@ export class LLMResponseGenerator {
         ]
       });
 
-      const text = response.choices[0]?.message?.content || '';
+      const text = response.content;
 
       if (!text) {
         throw new Error('LLM returned empty response');
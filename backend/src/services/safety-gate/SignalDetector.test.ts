@@ -0,0 +1,57 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockLLMProvider } from '../llm/index.js';
+import { SignalDetector } from './SignalDetector.js';
+import { Signal } from '../../types/safety-gate.js';
+import type { Event } from '../../types/safety-gate.js';
+
+const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'piper-llm-fixtures-'));
+
+after(() => {
+  fs.rmSync(fixturesDir, { recursive: true, force: true });
+});
+
+function childSaid(response: string, previousResponse?: string): Event {
+  return { type: 'CHILD_RESPONSE', response, previousResponse };
+}
+
+test('an answer to the card raises no signals', async () => {
+  const detector = new SignalDetector(new MockLLMProvider());
+  assert.deepEqual(await detector.detectSignals(childSaid('slow')), []);
+});
+
+test('requests to stop, quit and frustration are detected', async () => {
+  const detector = new SignalDetector(new MockLLMProvider());
+  assert.deepEqual(await detector.detectSignals(childSaid('can we stop, I want a break')), [Signal.WANTS_BREAK]);
+  assert.deepEqual(await detector.detectSignals(childSaid("I'm done")), [Signal.WANTS_QUIT]);
+  assert.deepEqual(await detector.detectSignals(childSaid('ugh this is too hard')), [Signal.FRUSTRATION]);
+});
+
+test('audio and repetition signals are detected without the LLM', async () => {
+  const detector = new SignalDetector(new MockLLMProvider());
+  const signals = await detector.detectSignals({
+    type: 'CHILD_RESPONSE',
+    response: 'dog dog dog',
+    previousResponse: 'dog dog dog',
+    signals: { crying: true },
+  });
+  assert.deepEqual(signals, [Signal.CRYING, Signal.REPETITIVE_RESPONSE, Signal.REPETITIVE_WORDS]);
+});
+
+test('a fixture replaces the rule-based mock response', async () => {
+  fs.writeFileSync(
+    path.join(fixturesDir, 'signal-detection.json'),
+    JSON.stringify({ break_request: false, quit_request: false, frustration: false, distress: true, confidence: 0.95 })
+  );
+  const detector = new SignalDetector(new MockLLMProvider({ fixturesDir }));
+  assert.deepEqual(await detector.detectSignals(childSaid('blue')), [Signal.DISTRESS]);
+});
+
+test('an unreadable LLM response falls back to keywords', async () => {
+  fs.writeFileSync(path.join(fixturesDir, 'signal-detection.json'), 'not json');
+  const detector = new SignalDetector(new MockLLMProvider({ fixturesDir }));
+  assert.deepEqual(await detector.detectSignals(childSaid('I am tired')), [Signal.WANTS_BREAK]);
+});
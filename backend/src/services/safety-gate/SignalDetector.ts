@@ -1,6 +1,7 @@
-import OpenAI from 'openai';
 import { config } from '../../config/index.js';
+import { getLLMProvider } from '../llm/index.js';
 import { logger } from '../../utils/logger.js';
+import type { LLMProvider } from '../../types/index.js';
 import { Signal } from '../../types/safety-gate.js';
 import type { Event } from '../../types/safety-gate.js';
 
@@ -13,12 +14,10 @@ interface LLMSignalClassification {
 }
 
 export class SignalDetector {
-  private openai: OpenAI;
+  private llm: LLMProvider;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: config.openai.apiKey,
-    });
+  constructor(llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm;
   }
 
   // ============================================
@@ -156,10 +155,11 @@ export class SignalDetector {
   }
 
   private async classifyTextWithLLM(text: string): Promise<LLMSignalClassification> {
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4o-mini',  // Fast & cheap for classification
-      max_tokens: 100,
-      response_format: { type: 'json_object' },
+    const response = await this.llm.chat({
+      task: 'signal-detection',
+      model: 'fast',  // Fast & cheap for classification
+      maxTokens: 100,
+      json: true,
       messages: [
         {
           role: 'system',
@@ -193,7 +193,7 @@ A single word answer like "Sad" or "Slow" is almost certainly just an answer, no
       ]
     });
 
-    const content = response.choices[0]?.message?.content || '{}';
+    const content = response.content || '{}';
     const parsed = JSON.parse(content);
 
     return {
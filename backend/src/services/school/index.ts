@@ -1,5 +1,6 @@
 export {
   getSchoolById,
+  getSchoolForOrganization,
   listSchools,
   createSchool,
   updateSchool,
@@ -26,7 +26,7 @@ export function getSchoolById(id: number): School | undefined {
   `).get(id) as School | undefined;
 }
 
-export function listSchools(): School[] {
+export function getSchoolForOrganization(id: number, organizationId: number): School | undefined {
   const db = getDatabase();
   return db.prepare(`
     SELECT
@@ -34,9 +34,23 @@ export function listSchools(): School[] {
       COUNT(m.id) as member_count
     FROM therapist_schools s
     LEFT JOIN therapist_members m ON m.school_id = s.id
+    WHERE s.id = ? AND s.organization_id = ?
+    GROUP BY s.id
+  `).get(id, organizationId) as School | undefined;
+}
+
+export function listSchools(organizationId: number): School[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      s.*,
+      COUNT(m.id) as member_count
+    FROM therapist_schools s
+    LEFT JOIN therapist_members m ON m.school_id = s.id
+    WHERE s.organization_id = ?
     GROUP BY s.id
     ORDER BY s.created_at DESC
-  `).all() as School[];
+  `).all(organizationId) as School[];
 }
 
 // =============================================================================
@@ -48,7 +62,7 @@ export interface CreateSchoolOptions extends CreateSchoolRequest {
   member_ids?: number[];
 }
 
-export function createSchool(data: CreateSchoolOptions): School {
+export function createSchool(organizationId: number, data: CreateSchoolOptions): School {
   const db = getDatabase();
 
   // Validate name
@@ -63,9 +77,10 @@ export function createSchool(data: CreateSchoolOptions): School {
 
   // Create the school
   const result = db.prepare(`
-    INSERT INTO therapist_schools (name, contact_name, contact_email, contact_phone)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO therapist_schools (organization_id, name, contact_name, contact_email, contact_phone)
+    VALUES (?, ?, ?, ?, ?)
   `).run(
+    organizationId,
     data.name.trim(),
     data.contact_name?.trim() || null,
     data.contact_email?.trim() || null,
@@ -74,15 +89,17 @@ export function createSchool(data: CreateSchoolOptions): School {
 
   const schoolId = result.lastInsertRowid as number;
 
-  // Assign admin to the school if provided
+  // Assign admin to the school if provided (members of other organizations are ignored)
   if (data.admin_id) {
-    db.prepare('UPDATE therapist_members SET school_id = ? WHERE id = ?').run(schoolId, data.admin_id);
+    db.prepare('UPDATE therapist_members SET school_id = ? WHERE id = ? AND organization_id = ?')
+      .run(schoolId, data.admin_id, organizationId);
   }
 
   // Assign selected members to the school
   if (data.member_ids && data.member_ids.length > 0) {
     const placeholders = data.member_ids.map(() => '?').join(',');
-    db.prepare(`UPDATE therapist_members SET school_id = ? WHERE id IN (${placeholders})`).run(schoolId, ...data.member_ids);
+    db.prepare(`UPDATE therapist_members SET school_id = ? WHERE id IN (${placeholders}) AND organization_id = ?`)
+      .run(schoolId, ...data.member_ids, organizationId);
   }
 
   const school = getSchoolById(schoolId);
@@ -97,11 +114,11 @@ export function createSchool(data: CreateSchoolOptions): School {
 // UPDATE OPERATIONS
 // =============================================================================
 
-export function updateSchool(id: number, data: UpdateSchoolRequest): School {
+export function updateSchool(id: number, organizationId: number, data: UpdateSchoolRequest): School {
   const db = getDatabase();
 
-  // Check school exists
-  const existing = getSchoolById(id);
+  // Check school exists in the caller's organization
+  const existing = getSchoolForOrganization(id, organizationId);
   if (!existing) {
     throw new Error('School not found');
   }
@@ -156,10 +173,10 @@ export function updateSchool(id: number, data: UpdateSchoolRequest): School {
 // DELETE OPERATIONS
 // =============================================================================
 
-export function deleteSchool(id: number): void {
+export function deleteSchool(id: number, organizationId: number): void {
   const db = getDatabase();
 
-  const school = getSchoolById(id);
+  const school = getSchoolForOrganization(id, organizationId);
   if (!school) {
     throw new Error('School not found');
   }
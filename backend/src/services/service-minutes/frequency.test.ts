@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseServiceFrequency } from './frequency.js';
+import type { ServiceMandate } from '../../types/index.js';
+
+// Frequency, then [period, sessions, minutes per session, minutes per period],
+// all with a 30 minute session length on the student
+const CASES: Array<[string, [ServiceMandate['period'], number | null, number | null, number] | null]> = [
+  ['2x weekly', ['week', 2, 30, 60]],
+  ['x2 per week', ['week', 2, 30, 60]],
+  ['twice a week', ['week', 2, 30, 60]],
+  ['3 times per month', ['month', 3, 30, 90]],
+  ['2/wk', ['week', 2, 30, 60]],
+  ['5 days a week', ['week', 5, 30, 150]],
+  ['three days per week', ['week', 3, 30, 90]],
+  ['3 30-minute sessions per week', ['week', 3, 30, 90]],
+  ['2 45 min sessions weekly', ['week', 2, 45, 90]],
+  ['two one-hour sessions a month', ['month', 2, 60, 120]],
+  ['4 half-hour sessions per month', ['month', 4, 30, 120]],
+  ['3 sessions of 20 minutes per week', ['week', 3, 20, 60]],
+  ['once weekly for 45 minutes', ['week', 1, 45, 45]],
+  ['60 minutes per week', ['week', null, null, 60]],
+  ['one hour weekly', ['week', null, null, 60]],
+  ['an hour a week', ['week', null, null, 60]],
+  ['half an hour weekly', ['week', null, null, 30]],
+  ['1.5 hrs per month', ['month', null, null, 90]],
+  ['30 min daily', ['week', 5, 30, 150]],
+  ['daily', ['week', 5, 30, 150]],
+  ['every other week', ['month', 2, 30, 60]],
+  ['2x bi-weekly', ['month', 4, 30, 120]],
+  ['weekly', null],
+  ['monthly', null],
+  ['as needed', null],
+  ['', null],
+];
+
+test('service frequencies are read into weekly or monthly mandates', () => {
+  for (const [frequency, expected] of CASES) {
+    const mandate = parseServiceFrequency(frequency, 30);
+    const actual = mandate && [mandate.period, mandate.sessions, mandate.minutes_per_session, mandate.minutes_per_period];
+    assert.deepEqual(actual, expected, JSON.stringify(frequency));
+  }
+});
+
+test('a session count without a session length gives no mandate', () => {
+  assert.equal(parseServiceFrequency('2x weekly', null), null);
+  assert.equal(parseServiceFrequency('2x weekly', 0), null);
+  assert.deepEqual(parseServiceFrequency('2x weekly for 20 min', null)?.minutes_per_period, 40);
+  assert.deepEqual(parseServiceFrequency('60 minutes per week', undefined)?.minutes_per_period, 60);
+});
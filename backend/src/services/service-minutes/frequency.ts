@@ -0,0 +1,128 @@
+/**
+ * Service Frequency Parser
+ *
+ * IEPs state service time as free text ("2x weekly", "twice a week",
+ * "3 times per month", "5 days a week", "3 30-minute sessions per week",
+ * "one hour weekly", "30 min daily"). This turns the student's
+ * session_frequency and session_duration_minutes into a weekly or monthly
+ * mandate. Daily service counts school days (5 a week) and every other week
+ * is read as twice a month. Text it cannot read, such as a bare "weekly" that
+ * says neither how many sessions nor how long, gives no mandate rather than a
+ * guess.
+ */
+
+import type { ServiceMandate, ServicePeriod } from '../../types/index.js';
+
+const SCHOOL_DAYS_PER_WEEK = 5;
+
+const NUMBER_WORDS: Record<string, number> = {
+  once: 1, twice: 2, thrice: 3,
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+// Spelled-out amounts of time ("one hour", "an hour", "thirty minutes")
+const DURATION_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  ten: 10, fifteen: 15, twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, ninety: 90,
+};
+
+const NUMBER = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+const AMOUNT = `\\d+(?:\\.\\d+)?|\\b(?:${Object.keys(DURATION_WORDS).join('|')})\\b`;
+const UNIT = 'minutes?|mins?|m|hours?|hrs?|h';
+const HALF_HOUR = 'half[\\s-](?:an[\\s-])?hour';
+
+// Sessions per period: "3 30-minute sessions", "2x", "x2", "3 times",
+// "2 sessions", "5 days a week", "2/week", "twice"
+const COUNT_PATTERNS = [
+  new RegExp(`\\b${NUMBER}\\s+(?:${HALF_HOUR}|(?:${AMOUNT})[\\s-]*(?:${UNIT}))[\\s-]*(?:sessions?|visits?)\\b`),
+  new RegExp(`\\b${NUMBER}\\s*(?:x|times?|sessions?|visits?|days?)(?![a-z])`),
+  new RegExp(`\\bx\\s*(\\d+)\\b`),
+  new RegExp(`\\b${NUMBER}\\s*(?:/|per|a|an|each|every)\\s*(?:week|wk|month|mo)`),
+  /\b(once|twice|thrice)\b/,
+];
+
+// Time per session (or per period when no count is given)
+const HALF_HOUR_PATTERN = new RegExp(`\\b${HALF_HOUR}\\b`);
+const MINUTES_PATTERN = new RegExp(`(${AMOUNT})[\\s-]*(${UNIT})(?![a-z])`);
+
+interface PeriodMatch {
+  period: ServicePeriod;
+  factor: number; // Sessions per period for each stated session ("daily" is 5 a week)
+}
+
+const PERIOD_PATTERNS: Array<{ pattern: RegExp; match: PeriodMatch }> = [
+  { pattern: /\b(every other week|bi-?weekly|every (2|two) weeks|fortnight(ly)?)\b/, match: { period: 'month', factor: 2 } },
+  { pattern: /\b(daily|every day|each day|a day|per day|\/\s*day)\b/, match: { period: 'week', factor: SCHOOL_DAYS_PER_WEEK } },
+  { pattern: /(\bweek|\bweekly|\bwk|\bwks)\b/, match: { period: 'week', factor: 1 } },
+  { pattern: /(\bmonth|\bmonthly|\bmo|\bmos)\b/, match: { period: 'month', factor: 1 } },
+];
+
+function toNumber(value: string): number {
+  return NUMBER_WORDS[value] ?? Number(value);
+}
+
+function findCount(text: string): number | null {
+  for (const pattern of COUNT_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const count = toNumber(match[1]);
+      return count > 0 ? count : null;
+    }
+  }
+  return null;
+}
+
+function findMinutes(text: string): number | null {
+  if (HALF_HOUR_PATTERN.test(text)) {
+    return 30;
+  }
+  const match = text.match(MINUTES_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const amount = DURATION_WORDS[match[1]] ?? Number(match[1]);
+  const minutes = match[2].startsWith('h') ? amount * 60 : amount;
+  return minutes > 0 ? Math.round(minutes) : null;
+}
+
+/**
+ * The mandate a service frequency describes, or null when it cannot be read
+ * (it names no session count or total, or the session length is unknown)
+ */
+export function parseServiceFrequency(
+  frequency: string | null | undefined,
+  sessionMinutes: number | null | undefined
+): ServiceMandate | null {
+  const text = frequency?.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return null;
+  }
+
+  const periodMatch = PERIOD_PATTERNS.find(({ pattern }) => pattern.test(text))?.match;
+  if (!periodMatch) {
+    return null;
+  }
+  const { period, factor } = periodMatch;
+  const count = findCount(text);
+  const statedMinutes = findMinutes(text);
+
+  // "60 minutes per week": a total for the period, however it is split up
+  if (statedMinutes !== null && count === null && factor === 1) {
+    return { period, sessions: null, minutes_per_session: null, minutes_per_period: statedMinutes };
+  }
+
+  // "Daily" and "every other week" say how often on their own; "weekly" does not
+  const perOccurrence = count ?? (factor > 1 ? 1 : null);
+  const minutesPerSession = statedMinutes ?? (sessionMinutes && sessionMinutes > 0 ? sessionMinutes : null);
+  if (perOccurrence === null || minutesPerSession === null) {
+    return null;
+  }
+  const sessions = perOccurrence * factor;
+  return {
+    period,
+    sessions,
+    minutes_per_session: minutesPerSession,
+    minutes_per_period: sessions * minutesPerSession,
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Service Minutes Services
+ * Re-exports IEP service-minutes compliance services
+ */
+
+export { parseServiceFrequency } from './frequency.js';
+export {
+  getServiceMandate,
+  getServiceLedger,
+  getServiceCompliance,
+  listServiceLogs,
+  createServiceLog,
+  deleteServiceLog,
+} from './service-minutes.js';
@@ -0,0 +1,323 @@
+/**
+ * Service Minutes Service
+ *
+ * Compares each student's IEP service mandate with the minutes delivered:
+ * the length of every finished gameplay session plus service logged by hand
+ * (in person, teletherapy). Periods are calendar weeks (Monday to Sunday) or
+ * calendar months, in UTC like the session timestamps.
+ */
+
+import { getDatabase } from '../database.js';
+import { getStudentById } from '../student/index.js';
+import { parseServiceFrequency } from './frequency.js';
+import type {
+  AccessActor,
+  Child,
+  CreateServiceLogRequest,
+  ServiceComplianceOverview,
+  ServiceComplianceStatus,
+  ServiceComplianceStudent,
+  ServiceLedger,
+  ServiceLedgerEntry,
+  ServiceLog,
+  ServiceMandate,
+  ServicePeriod,
+  ServicePeriodSummary,
+} from '../../types/index.js';
+
+// Ledger range when none is asked for
+const DEFAULT_LEDGER_DAYS = 90;
+
+// Ledgers are for IEP meetings, not the whole history at once
+const MAX_LEDGER_DAYS = 400;
+
+const COMPLIANCE_ORDER: ServiceComplianceStatus[] = ['under_served', 'behind', 'on_track', 'no_mandate'];
+
+interface DeliveryRow extends ServiceLedgerEntry {
+  student_id: number;
+  seconds: number;
+}
+
+// =============================================================================
+// DATES
+// =============================================================================
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function periodStart(day: string, period: ServicePeriod): string {
+  if (period === 'month') {
+    return `${day.slice(0, 7)}-01`;
+  }
+  const weekday = (new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7; // Monday is 0
+  return addDays(day, -weekday);
+}
+
+function periodEnd(start: string, period: ServicePeriod): string {
+  if (period === 'week') {
+    return addDays(start, 6);
+  }
+  const date = new Date(`${start}T00:00:00Z`);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).toISOString().slice(0, 10);
+}
+
+// Date.parse rolls 2026-02-30 over to March, so the day must survive a round trip.
+// Range problems are RangeErrors so read routes can tell them from failures.
+function assertDay(value: string | undefined, name: string): void {
+  if (value === undefined) {
+    return;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new RangeError(`Invalid ${name} date`);
+  }
+}
+
+// =============================================================================
+// DELIVERED MINUTES
+// =============================================================================
+
+/**
+ * Finished sessions and logged service of some students between two dates (inclusive)
+ */
+function listDeliveries(studentIds: number[], from: string, to: string): DeliveryRow[] {
+  if (studentIds.length === 0) {
+    return [];
+  }
+  const placeholders = studentIds.map(() => '?').join(', ');
+  const rows = getDatabase().prepare(`
+    SELECT child_id AS student_id, 'session' AS source, id, date(started_at) AS date,
+      COALESCE(duration_seconds, 0) AS seconds, NULL AS notes
+    FROM gameplay_sessions
+    WHERE child_id IN (${placeholders}) AND status IN ('completed', 'abandoned')
+      AND date(started_at) BETWEEN ? AND ?
+    UNION ALL
+    SELECT student_id, 'log' AS source, id, delivered_on AS date, minutes * 60 AS seconds, notes
+    FROM service_logs
+    WHERE student_id IN (${placeholders}) AND delivered_on BETWEEN ? AND ?
+    ORDER BY date, source, id
+  `).all(...studentIds, from, to, ...studentIds, from, to) as Omit<DeliveryRow, 'minutes'>[];
+
+  return rows.map((row) => ({ ...row, minutes: Math.round(row.seconds / 60) }));
+}
+
+/**
+ * How a period stands against the mandate
+ * A period that has not ended yet is in_progress until the minutes are met.
+ */
+function summarizePeriod(
+  start: string,
+  period: ServicePeriod,
+  mandate: ServiceMandate | null,
+  deliveries: DeliveryRow[],
+  asOf: string
+): ServicePeriodSummary {
+  const end = periodEnd(start, period);
+  const seconds = deliveries
+    .filter((row) => row.date >= start && row.date <= end)
+    .reduce((sum, row) => sum + row.seconds, 0);
+  const delivered = Math.round(seconds / 60);
+
+  if (!mandate) {
+    return { start, end, required_minutes: null, delivered_minutes: delivered, shortfall_minutes: null, status: 'no_mandate' };
+  }
+
+  const required = mandate.minutes_per_period;
+  const shortfall = Math.max(0, required - delivered);
+  const status = shortfall === 0 ? 'met' : end < asOf ? 'under' : 'in_progress';
+  return { start, end, required_minutes: required, delivered_minutes: delivered, shortfall_minutes: shortfall, status };
+}
+
+export function getServiceMandate(student: Child): ServiceMandate | null {
+  return parseServiceFrequency(student.session_frequency, student.session_duration_minutes);
+}
+
+/**
+ * Period-by-period minutes for one student, every session and log listed
+ * The range is widened to whole periods; by default it covers the last 90
+ * days since the student was added (up to the discharge date for archived
+ * students).
+ */
+export function getServiceLedger(studentId: number, range: { from?: string; to?: string } = {}): ServiceLedger {
+  const student = getStudentById(studentId);
+  if (!student) {
+    throw new Error('Student not found');
+  }
+
+  assertDay(range.from, 'from');
+  assertDay(range.to, 'to');
+  const asOf = today();
+  const to = range.to ?? student.discharged_on ?? asOf;
+  const enrolledOn = (student.created_at ?? '').slice(0, 10);
+  const defaultFrom = addDays(to, -DEFAULT_LEDGER_DAYS);
+  const from = range.from ?? (enrolledOn > defaultFrom && enrolledOn <= to ? enrolledOn : defaultFrom);
+  if (from > to) {
+    throw new RangeError('from must be on or before to');
+  }
+  if (daysBetween(from, to) > MAX_LEDGER_DAYS) {
+    throw new RangeError(`A ledger can cover at most ${MAX_LEDGER_DAYS} days`);
+  }
+
+  const mandate = getServiceMandate(student);
+  const period = mandate?.period ?? 'week';
+  const first = periodStart(from, period);
+  const last = periodEnd(periodStart(to, period), period);
+  const deliveries = listDeliveries([studentId], first, last);
+
+  const periods: ServiceLedger['periods'] = [];
+  for (let start = first; start <= to; start = addDays(periodEnd(start, period), 1)) {
+    const summary = summarizePeriod(start, period, mandate, deliveries, asOf);
+    const entries = deliveries
+      .filter((row) => row.date >= summary.start && row.date <= summary.end)
+      .map(({ source, id, date, minutes, notes }) => ({ source, id, date, minutes, notes }));
+    periods.push({ ...summary, entries });
+  }
+
+  const delivered = Math.round(deliveries.reduce((sum, row) => sum + row.seconds, 0) / 60);
+  const required = mandate ? mandate.minutes_per_period * periods.length : null;
+
+  return {
+    student_id: student.id,
+    student_name: `${student.first_name} ${student.last_name}`,
+    session_frequency: student.session_frequency ?? null,
+    session_duration_minutes: student.session_duration_minutes ?? null,
+    mandate,
+    from: first,
+    to: last,
+    generated_at: new Date().toISOString(),
+    periods,
+    totals: {
+      required_minutes: required,
+      delivered_minutes: delivered,
+      // Only finished periods count as missed; the current one may still catch up
+      shortfall_minutes: mandate
+        ? periods
+          .filter((summary) => summary.status === 'under')
+          .reduce((sum, summary) => sum + (summary.shortfall_minutes ?? 0), 0)
+        : null,
+    },
+  };
+}
+
+/**
+ * Where each student stands this period and last, under-served students first
+ *
+ * A student is under_served when the last full period fell short, and behind
+ * when the current period has fewer minutes than an even pace would have
+ * delivered by the end of yesterday. The previous period is not judged for
+ * students added after it began.
+ */
+export function getServiceCompliance(studentIds: number[]): ServiceComplianceOverview {
+  const asOf = today();
+  const students = studentIds
+    .map((id) => getStudentById(id))
+    .filter((student): student is Child => student !== null);
+
+  // Last month and this month also cover last week and this week
+  const windowStart = periodStart(addDays(periodStart(asOf, 'month'), -1), 'month');
+  const deliveries = listDeliveries(students.map((student) => student.id), windowStart, asOf);
+
+  const results: ServiceComplianceStudent[] = students.map((student) => {
+    const mandate = getServiceMandate(student);
+    const period = mandate?.period ?? 'week';
+    const own = deliveries.filter((row) => row.student_id === student.id);
+
+    const currentStart = periodStart(asOf, period);
+    const previousStart = periodStart(addDays(currentStart, -1), period);
+    const enrolledOn = (student.created_at ?? '').slice(0, 10);
+    const current = summarizePeriod(currentStart, period, mandate, own, asOf);
+    const previous = enrolledOn && enrolledOn > previousStart
+      ? null
+      : summarizePeriod(previousStart, period, mandate, own, asOf);
+
+    let status: ServiceComplianceStatus = 'no_mandate';
+    if (mandate) {
+      const elapsed = daysBetween(currentStart, asOf);
+      const length = daysBetween(currentStart, current.end) + 1;
+      const expected = Math.floor((mandate.minutes_per_period * elapsed) / length);
+      status = previous?.status === 'under'
+        ? 'under_served'
+        : current.delivered_minutes < expected ? 'behind' : 'on_track';
+    }
+
+    return {
+      student_id: student.id,
+      student_name: `${student.first_name} ${student.last_name}`,
+      mandate,
+      previous_period: previous,
+      current_period: current,
+      status,
+    };
+  });
+
+  results.sort((a, b) =>
+    COMPLIANCE_ORDER.indexOf(a.status) - COMPLIANCE_ORDER.indexOf(b.status) ||
+    a.student_name.localeCompare(b.student_name)
+  );
+
+  const counts = Object.fromEntries(COMPLIANCE_ORDER.map((status) => [status, 0])) as ServiceComplianceOverview['counts'];
+  for (const result of results) {
+    counts[result.status]++;
+  }
+
+  return { generated_at: new Date().toISOString(), counts, students: results };
+}
+
+// =============================================================================
+// SERVICE LOGS
+// =============================================================================
+
+const SERVICE_LOG_FIELDS = `
+  l.id, l.student_id, l.delivered_on, l.minutes, l.notes, l.created_at,
+  CASE l.recorded_by_type
+    WHEN 'therapist' THEN t.first_name || ' ' || t.last_name
+    WHEN 'member' THEN m.name
+  END AS recorded_by_name
+  FROM service_logs l
+  LEFT JOIN therapists t ON l.recorded_by_type = 'therapist' AND t.id = l.recorded_by_id
+  LEFT JOIN therapist_members m ON l.recorded_by_type = 'member' AND m.id = l.recorded_by_id
+`;
+
+/**
+ * Service logged by hand for a student, newest first
+ */
+export function listServiceLogs(studentId: number): ServiceLog[] {
+  return getDatabase()
+    .prepare(`SELECT ${SERVICE_LOG_FIELDS} WHERE l.student_id = ? ORDER BY l.delivered_on DESC, l.id DESC`)
+    .all(studentId) as ServiceLog[];
+}
+
+export function createServiceLog(studentId: number, actor: AccessActor, data: CreateServiceLogRequest): ServiceLog {
+  assertDay(data.delivered_on, 'service');
+  if (data.delivered_on > today()) {
+    throw new Error('Service cannot be logged for a future date');
+  }
+
+  const db = getDatabase();
+  const result = db.prepare(`
+    INSERT INTO service_logs (student_id, delivered_on, minutes, notes, recorded_by_type, recorded_by_id, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(studentId, data.delivered_on, data.minutes, data.notes || null, actor.kind, actor.id, new Date().toISOString());
+
+  return db
+    .prepare(`SELECT ${SERVICE_LOG_FIELDS} WHERE l.id = ?`)
+    .get(result.lastInsertRowid) as ServiceLog;
+}
+
+export function deleteServiceLog(id: number, studentId: number): boolean {
+  const result = getDatabase()
+    .prepare('DELETE FROM service_logs WHERE id = ? AND student_id = ?')
+    .run(id, studentId);
+  return result.changes > 0;
+}
@@ -59,28 +59,43 @@ class LiveSessionBroadcaster {
   }
 
   /**
-   * Send a message to all connected WebSockets for a therapist
+   * Total live WebSocket connections across all therapists
    */
-  private broadcast(therapistId: number, message: TherapistLiveMessage): void {
-    const connections = this.therapistConnections.get(therapistId);
-    if (!connections || connections.size === 0) {
-      return;
+  getSubscriberCount(): number {
+    let count = 0;
+    for (const connections of this.therapistConnections.values()) {
+      count += connections.size;
     }
+    return count;
+  }
 
+  /**
+   * Send a message to all connected WebSockets of the given therapists
+   * (the student's owner and everyone it is shared with)
+   */
+  private broadcast(therapistIds: number[], message: TherapistLiveMessage): void {
     const messageStr = JSON.stringify(message);
-    const deadConnections: WebSocket[] = [];
 
-    for (const ws of connections) {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(messageStr);
-      } else {
-        deadConnections.push(ws);
+    for (const therapistId of therapistIds) {
+      const connections = this.therapistConnections.get(therapistId);
+      if (!connections || connections.size === 0) {
+        continue;
       }
-    }
 
-    // Clean up dead connections
-    for (const ws of deadConnections) {
-      connections.delete(ws);
+      const deadConnections: WebSocket[] = [];
+
+      for (const ws of connections) {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(messageStr);
+        } else {
+          deadConnections.push(ws);
+        }
+      }
+
+      // Clean up dead connections
+      for (const ws of deadConnections) {
+        connections.delete(ws);
+      }
     }
   }
 
@@ -88,7 +103,7 @@ class LiveSessionBroadcaster {
    * Broadcast session started event
    */
   broadcastSessionStart(
-    therapistId: number,
+    therapistIds: number[],
     session: GameplaySession,
     child: Child
   ): void {
@@ -106,7 +121,7 @@ class LiveSessionBroadcaster {
       status: session.status,
     };
 
-    this.broadcast(therapistId, {
+    this.broadcast(therapistIds, {
       type: 'session_started',
       session: sessionInfo,
     });
@@ -118,7 +133,7 @@ class LiveSessionBroadcaster {
    * Broadcast card shown event
    */
   broadcastCardShown(
-    therapistId: number,
+    therapistIds: number[],
     sessionId: number,
     cardCategory: string,
     cardQuestion: string
@@ -130,7 +145,7 @@ class LiveSessionBroadcaster {
       cardShownAt: new Date().toISOString(),
     };
 
-    this.broadcast(therapistId, {
+    this.broadcast(therapistIds, {
       type: 'card_shown',
       data,
     });
@@ -142,7 +157,7 @@ class LiveSessionBroadcaster {
    * Broadcast child response event
    */
   broadcastResponse(
-    therapistId: number,
+    therapistIds: number[],
     sessionId: number,
     childResponse: string | null,
     isCorrect: boolean,
@@ -160,7 +175,7 @@ class LiveSessionBroadcaster {
       timeSpentSeconds,
     };
 
-    this.broadcast(therapistId, {
+    this.broadcast(therapistIds, {
       type: 'child_response',
       data,
     });
@@ -172,7 +187,7 @@ class LiveSessionBroadcaster {
    * Broadcast safety alert event
    */
   broadcastSafetyAlert(
-    therapistId: number,
+    therapistIds: number[],
     sessionId: number,
     safetyLevel: number,
     signals: string[]
@@ -184,7 +199,7 @@ class LiveSessionBroadcaster {
       timestamp: new Date().toISOString(),
     };
 
-    this.broadcast(therapistId, {
+    this.broadcast(therapistIds, {
       type: 'safety_alert',
       data,
     });
@@ -196,7 +211,7 @@ class LiveSessionBroadcaster {
    * Broadcast session ended event
    */
   broadcastSessionEnd(
-    therapistId: number,
+    therapistIds: number[],
     session: GameplaySession
   ): void {
     const accuracyPercent =
@@ -215,7 +230,7 @@ class LiveSessionBroadcaster {
       status: session.status,
     };
 
-    this.broadcast(therapistId, {
+    this.broadcast(therapistIds, {
       type: 'session_ended',
       data,
     });
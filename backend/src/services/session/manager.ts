@@ -11,9 +11,11 @@ import type {
   RecordResponseRequest,
 } from '../../types/index.js';
 import type { Child } from '../../types/student.js';
+import type { LogFields } from '../../types/logging.js';
 import { Intervention, type CardContext, type SafetyGateResult, type Signal } from '../../types/safety-gate.js';
 import { getStudentById } from '../student/student.js';
-import { logger } from '../../utils/logger.js';
+import { listStudentIdsForTherapist, listTherapistIdsForStudent } from '../student/sharing.js';
+import { logger, bindLogContext } from '../../utils/logger.js';
 import { config } from '../../config/index.js';
 
 interface ActiveSessionLink {
@@ -29,6 +31,40 @@ class GameplaySessionManager {
   // Map voiceSessionId -> gameplay session link
   private activeLinks: Map<string, ActiveSessionLink> = new Map();
 
+  // Map voiceSessionId -> child authenticated on that voice WebSocket
+  private voiceSessionOwners: Map<string, number> = new Map();
+
+  /**
+   * Record which child opened a voice session (called once its socket is authenticated)
+   */
+  registerVoiceSession(voiceSessionId: string, childId: number): void {
+    this.voiceSessionOwners.set(voiceSessionId, childId);
+  }
+
+  /**
+   * Child that owns an open voice session, or null if there is no such session
+   */
+  getVoiceSessionOwner(voiceSessionId: string): number | null {
+    return this.voiceSessionOwners.get(voiceSessionId) ?? null;
+  }
+
+  /**
+   * Child whose gameplay session a voice session is linked to, or null if unlinked
+   */
+  getLinkedChildId(voiceSessionId: string): number | null {
+    return this.activeLinks.get(voiceSessionId)?.childId ?? null;
+  }
+
+  /**
+   * Refuse to link a voice session (or replace a link) that belongs to another child
+   */
+  private assertVoiceSessionOwner(voiceSessionId: string, childId: number): void {
+    const owner = this.voiceSessionOwners.get(voiceSessionId) ?? this.activeLinks.get(voiceSessionId)?.childId;
+    if (owner !== undefined && owner !== childId) {
+      throw new Error('Voice session belongs to another child');
+    }
+  }
+
   /**
    * Start a new gameplay session when child logs in and starts game
    */
@@ -39,6 +75,8 @@ class GameplaySessionManager {
     theme?: string,
     character?: string
   ): Promise<GameplaySession> {
+    this.assertVoiceSessionOwner(voiceSessionId, childId);
+
     // Get child info to find therapist
     const child = getStudentById(childId);
     if (!child) {
@@ -63,9 +101,10 @@ class GameplaySessionManager {
       childId,
       therapistId: child.therapist_id,
     });
+    bindLogContext(this.getLogContext(voiceSessionId));
 
-    // Broadcast to therapist
-    liveSessionBroadcaster.broadcastSessionStart(child.therapist_id, session, child);
+    // Broadcast to the therapists following the child
+    liveSessionBroadcaster.broadcastSessionStart(listTherapistIdsForStudent(childId), session, child);
 
     logger.info(`Started gameplay session ${session.id} for child ${childId}, linked to voice session ${voiceSessionId}`);
 
@@ -82,11 +121,13 @@ class GameplaySessionManager {
     childId: number,
     therapistId: number
   ): void {
+    this.assertVoiceSessionOwner(voiceSessionId, childId);
     this.activeLinks.set(voiceSessionId, {
       gameplaySessionId,
       childId,
       therapistId,
     });
+    bindLogContext(this.getLogContext(voiceSessionId));
     logger.debug(`Linked voice session ${voiceSessionId} to gameplay session ${gameplaySessionId}`);
   }
 
@@ -105,9 +146,9 @@ class GameplaySessionManager {
     link.currentCardQuestion = cardContext.question;
     link.currentCardStartTime = Date.now();
 
-    // Broadcast to therapist
+    // Broadcast to the therapists following the child
     liveSessionBroadcaster.broadcastCardShown(
-      link.therapistId,
+      listTherapistIdsForStudent(link.childId),
       link.gameplaySessionId,
       cardContext.category,
       cardContext.question
@@ -152,9 +193,10 @@ class GameplaySessionManager {
 
     repository.recordResponse(link.gameplaySessionId, responseData);
 
-    // Broadcast response to therapist
+    // Broadcast response to the therapists following the child
+    const therapistIds = listTherapistIdsForStudent(link.childId);
     liveSessionBroadcaster.broadcastResponse(
-      link.therapistId,
+      therapistIds,
       link.gameplaySessionId,
       transcription,
       result.isCorrect,
@@ -166,7 +208,7 @@ class GameplaySessionManager {
     // If safety level is elevated, also send safety alert
     if (safetyLevel >= config.safetyGate.alertThreshold || signals.length > 0) {
       liveSessionBroadcaster.broadcastSafetyAlert(
-        link.therapistId,
+        therapistIds,
         link.gameplaySessionId,
         safetyLevel,
         signals
@@ -235,6 +277,7 @@ class GameplaySessionManager {
       logger.debug(`No gameplay session linked to voice session ${voiceSessionId}`);
       return;
     }
+    bindLogContext(this.getLogContext(voiceSessionId));
 
     // End session in database
     repository.endSession(link.gameplaySessionId, status, finalScore, finalPosition);
@@ -242,7 +285,7 @@ class GameplaySessionManager {
     // Get updated session for broadcast
     const session = repository.getSessionById(link.gameplaySessionId);
     if (session) {
-      liveSessionBroadcaster.broadcastSessionEnd(link.therapistId, session);
+      liveSessionBroadcaster.broadcastSessionEnd(listTherapistIdsForStudent(link.childId), session);
     }
 
     // Remove link
@@ -255,6 +298,8 @@ class GameplaySessionManager {
    * Handle voice session disconnect (abandon session if still in progress)
    */
   onVoiceSessionDisconnect(voiceSessionId: string): void {
+    this.voiceSessionOwners.delete(voiceSessionId);
+
     const link = this.activeLinks.get(voiceSessionId);
     if (!link) return;
 
@@ -273,6 +318,30 @@ class GameplaySessionManager {
     }
   }
 
+  /**
+   * Log fields identifying the gameplay session linked to a voice session
+   * (empty if none); VoiceSessionManager adds these to its log context
+   */
+  getLogContext(voiceSessionId: string): LogFields {
+    const link = this.activeLinks.get(voiceSessionId);
+    if (!link) {
+      return {};
+    }
+    return {
+      voice_session_id: voiceSessionId,
+      gameplay_session_id: link.gameplaySessionId,
+      child_id: link.childId,
+      therapist_id: link.therapistId,
+    };
+  }
+
+  /**
+   * Number of gameplay sessions linked to an open voice session
+   */
+  getActiveSessionCount(): number {
+    return this.activeLinks.size;
+  }
+
   /**
    * Get gameplay session ID for a voice session
    */
@@ -282,10 +351,17 @@ class GameplaySessionManager {
   }
 
   /**
-   * Get active sessions info for a therapist
+   * Get active sessions info for a therapist (own and shared students)
    */
   getActiveSessionsForTherapist(therapistId: number): LiveSessionInfo[] {
-    const sessions = repository.getActiveSessionsForTherapist(therapistId);
+    return this.getActiveSessionsForChildren(listStudentIdsForTherapist(therapistId));
+  }
+
+  /**
+   * Get active sessions info for a set of children
+   */
+  getActiveSessionsForChildren(childIds: number[]): LiveSessionInfo[] {
+    const sessions = repository.getActiveSessionsForChildren(childIds);
 
     return sessions.map(session => {
       const child = getStudentById(session.child_id);
@@ -12,6 +12,16 @@ import type {
 } from '../../types/index.js';
 import { logger } from '../../utils/logger.js';
 import { config } from '../../config/index.js';
+import { encryptOptionalField, decryptField } from '../encryption/index.js';
+
+/**
+ * child_response is stored encrypted; callers always see plaintext
+ */
+function decryptResponse(row: SessionResponse): SessionResponse {
+  return row.child_response
+    ? { ...row, child_response: decryptField(row.child_response, 'session_responses.child_response') }
+    : row;
+}
 
 /**
  * Create a new gameplay session
@@ -69,15 +79,19 @@ export function getActiveSessionByChild(childId: number): GameplaySession | null
 }
 
 /**
- * Get all active sessions for a therapist's children
+ * Get all active sessions across a set of children
  */
-export function getActiveSessionsForTherapist(therapistId: number): GameplaySession[] {
+export function getActiveSessionsForChildren(childIds: number[]): GameplaySession[] {
+  if (childIds.length === 0) {
+    return [];
+  }
   const db = getDatabase();
+  const placeholders = childIds.map(() => '?').join(', ');
   const rows = db.prepare(`
     SELECT * FROM gameplay_sessions
-    WHERE therapist_id = ? AND status = 'in_progress'
+    WHERE child_id IN (${placeholders}) AND status = 'in_progress'
     ORDER BY started_at DESC
-  `).all(therapistId);
+  `).all(...childIds);
   return rows as GameplaySession[];
 }
 
@@ -99,19 +113,36 @@ export function getSessionHistoryByChild(
 }
 
 /**
- * Get session history for a therapist (all their children)
+ * Get every session for a child, oldest first (data export)
  */
-export function getSessionHistoryForTherapist(
-  therapistId: number,
+export function getAllSessionsByChild(childId: number): GameplaySession[] {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT * FROM gameplay_sessions
+    WHERE child_id = ?
+    ORDER BY started_at ASC
+  `).all(childId);
+  return rows as GameplaySession[];
+}
+
+/**
+ * Get session history across a set of children (the caller's students)
+ */
+export function getSessionHistoryForChildren(
+  childIds: number[],
   limit: number = 50
 ): GameplaySession[] {
+  if (childIds.length === 0) {
+    return [];
+  }
   const db = getDatabase();
+  const placeholders = childIds.map(() => '?').join(', ');
   const rows = db.prepare(`
     SELECT * FROM gameplay_sessions
-    WHERE therapist_id = ?
+    WHERE child_id IN (${placeholders})
     ORDER BY started_at DESC
     LIMIT ?
-  `).all(therapistId, limit);
+  `).all(...childIds, limit);
   return rows as GameplaySession[];
 }
 
@@ -206,7 +237,7 @@ export function recordResponse(
     sessionId,
     data.cardCategory,
     data.cardQuestion,
-    data.childResponse,
+    encryptOptionalField(data.childResponse, 'session_responses.child_response'),
     data.isCorrect ? 1 : 0,
     data.attemptNumber || 1,
     now, // card_shown_at - we record when response comes in
@@ -238,8 +269,8 @@ export function recordResponse(
  */
 export function getResponseById(responseId: number): SessionResponse | null {
   const db = getDatabase();
-  const row = db.prepare('SELECT * FROM session_responses WHERE id = ?').get(responseId);
-  return row as SessionResponse | null;
+  const row = db.prepare('SELECT * FROM session_responses WHERE id = ?').get(responseId) as SessionResponse | undefined;
+  return row ? decryptResponse(row) : null;
 }
 
 /**
@@ -251,8 +282,8 @@ export function getResponsesBySession(sessionId: number): SessionResponse[] {
     SELECT * FROM session_responses
     WHERE session_id = ?
     ORDER BY card_shown_at ASC
-  `).all(sessionId);
-  return rows as SessionResponse[];
+  `).all(sessionId) as SessionResponse[];
+  return rows.map(decryptResponse);
 }
 
 /**
@@ -328,9 +359,10 @@ export default {
   createSession,
   getSessionById,
   getActiveSessionByChild,
-  getActiveSessionsForTherapist,
+  getActiveSessionsForChildren,
   getSessionHistoryByChild,
-  getSessionHistoryForTherapist,
+  getAllSessionsByChild,
+  getSessionHistoryForChildren,
   updateSessionProgress,
   endSession,
   abandonActiveSessions,
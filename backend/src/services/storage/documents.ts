@@ -0,0 +1,146 @@
+/**
+ * Document Storage Service
+ * Resolves the configured DocumentStore and reads/writes student documents through it
+ */
+
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { config } from '../../config/index.js';
+import type { DocumentStore, DocumentStoreDriver } from '../../types/index.js';
+import { LocalDocumentStore } from './local.js';
+import { S3DocumentStore } from './s3.js';
+import { encryptDocument, decryptDocument } from '../encryption/envelope.js';
+import { logger } from '../../utils/logger.js';
+
+export type DocumentKind = 'evaluations' | 'goals';
+
+/**
+ * children columns that reference stored documents
+ */
+export const DOCUMENT_COLUMNS: { column: 'eval_pdf_path' | 'goals_pdf_path'; kind: DocumentKind }[] = [
+  { column: 'eval_pdf_path', kind: 'evaluations' },
+  { column: 'goals_pdf_path', kind: 'goals' },
+];
+
+let store: DocumentStore | null = null;
+
+/**
+ * Create a store for the given driver using the storage configuration
+ */
+export function createDocumentStore(
+  driver: DocumentStoreDriver = config.storage.driver
+): DocumentStore {
+  if (driver === 's3') {
+    return new S3DocumentStore(config.storage.s3);
+  }
+  return new LocalDocumentStore(config.storage.local.rootDir);
+}
+
+/**
+ * Get the configured document store (created on first use)
+ */
+export function getDocumentStore(): DocumentStore {
+  if (!store) {
+    store = createDocumentStore();
+  }
+  return store;
+}
+
+/**
+ * Build a new storage key for a student's PDF
+ */
+export function buildDocumentKey(kind: DocumentKind, studentId: number): string {
+  return `${kind}/${studentId}/${crypto.randomUUID()}.pdf`;
+}
+
+/**
+ * Rows written before the DocumentStore existed hold absolute disk paths
+ */
+export function isLegacyDocumentPath(value: string): boolean {
+  return path.isAbsolute(value);
+}
+
+/**
+ * Storage key a legacy absolute path is moved to
+ */
+export function legacyDocumentKey(kind: DocumentKind, studentId: number, legacyPath: string): string {
+  return `${kind}/${studentId}/${path.basename(legacyPath)}`;
+}
+
+/**
+ * Encrypt a document and write it to the configured store
+ */
+export async function writeDocument(key: string, data: Buffer, contentType: string): Promise<void> {
+  await getDocumentStore().put(key, encryptDocument(data), contentType);
+}
+
+/**
+ * Read a document's bytes exactly as stored (possibly encrypted), null if missing
+ */
+export async function readStoredDocument(keyOrPath: string): Promise<Buffer | null> {
+  if (isLegacyDocumentPath(keyOrPath)) {
+    return fs.existsSync(keyOrPath) ? fs.promises.readFile(keyOrPath) : null;
+  }
+  return getDocumentStore().get(keyOrPath);
+}
+
+/**
+ * Read and decrypt a document by key (or legacy absolute path), null if missing
+ */
+export async function readDocument(keyOrPath: string): Promise<Buffer | null> {
+  const data = await readStoredDocument(keyOrPath);
+  return data ? decryptDocument(data) : null;
+}
+
+export async function documentExists(keyOrPath: string): Promise<boolean> {
+  if (isLegacyDocumentPath(keyOrPath)) {
+    return fs.existsSync(keyOrPath);
+  }
+  return getDocumentStore().exists(keyOrPath);
+}
+
+export async function deleteDocument(keyOrPath: string): Promise<void> {
+  if (isLegacyDocumentPath(keyOrPath)) {
+    await fs.promises.rm(keyOrPath, { force: true });
+    return;
+  }
+  await getDocumentStore().delete(keyOrPath);
+}
+
+/**
+ * Delete a document a new upload has replaced. The row already points at the
+ * new document, so a failure is only logged; erasure still finds the old one.
+ */
+export async function deleteReplacedDocument(keyOrPath: string): Promise<void> {
+  try {
+    await deleteDocument(keyOrPath);
+    logger.info(`Replaced document deleted: ${keyOrPath}`);
+  } catch (error) {
+    logger.warn(`Could not delete replaced document ${keyOrPath}:`, error);
+  }
+}
+
+/**
+ * Keys of every stored document of a student, including earlier uploads
+ */
+export async function listStudentDocuments(studentId: number): Promise<string[]> {
+  const store = getDocumentStore();
+  const keys: string[] = [];
+  for (const { kind } of DOCUMENT_COLUMNS) {
+    keys.push(...(await store.list(`${kind}/${studentId}/`)));
+  }
+  return keys;
+}
+
+/**
+ * Keys of every stored document of every student
+ */
+export async function listAllDocuments(): Promise<string[]> {
+  const store = getDocumentStore();
+  const keys: string[] = [];
+  for (const { kind } of DOCUMENT_COLUMNS) {
+    keys.push(...(await store.list(`${kind}/`)));
+  }
+  return keys;
+}
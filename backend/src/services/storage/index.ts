@@ -0,0 +1,26 @@
+/**
+ * Storage Services
+ * Re-exports document storage drivers and helpers
+ */
+
+export {
+  createDocumentStore,
+  getDocumentStore,
+  buildDocumentKey,
+  isLegacyDocumentPath,
+  legacyDocumentKey,
+  writeDocument,
+  readStoredDocument,
+  readDocument,
+  documentExists,
+  deleteDocument,
+  deleteReplacedDocument,
+  listStudentDocuments,
+  listAllDocuments,
+  DOCUMENT_COLUMNS,
+  type DocumentKind,
+} from './documents.js';
+
+export { LocalDocumentStore } from './local.js';
+export { S3DocumentStore, type S3DocumentStoreOptions } from './s3.js';
+export { migrateDocumentsToStore } from './migrate.js';
@@ -0,0 +1,70 @@
+/**
+ * Local Filesystem Document Store
+ * Keeps documents under a root directory (default: data/uploads)
+ */
+
+import path from 'path';
+import fs from 'fs';
+import type { DocumentStore } from '../../types/index.js';
+
+export class LocalDocumentStore implements DocumentStore {
+  readonly driver = 'local' as const;
+
+  constructor(private rootDir: string) {}
+
+  /**
+   * Resolve a key to an absolute path, refusing keys that escape the root
+   */
+  resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (filePath !== this.rootDir && !filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid document key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.resolvePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    // Keys are paths, so a prefix ending in '/' names a directory to walk
+    const dir = this.resolvePath(prefix.slice(0, prefix.lastIndexOf('/') + 1) || '.');
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { recursive: true, withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => path.relative(this.rootDir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Document Migration
+ * One-shot copy of existing student PDFs into the configured DocumentStore
+ */
+
+import fs from 'fs';
+import { getDatabase } from '../database.js';
+import { config } from '../../config/index.js';
+import type { DocumentMigrationResult } from '../../types/index.js';
+import { logger } from '../../utils/logger.js';
+import {
+  getDocumentStore,
+  createDocumentStore,
+  isLegacyDocumentPath,
+  legacyDocumentKey,
+  DOCUMENT_COLUMNS,
+} from './documents.js';
+
+/**
+ * Copy every referenced PDF into the configured store and rewrite the row to its key
+ *
+ * - Legacy absolute paths are uploaded under `<kind>/<studentId>/<filename>`
+ * - Keys that are missing from a remote store are copied from the local upload dir
+ * - Rows whose source file cannot be found are left untouched and counted as missing
+ *
+ * Source files are never deleted, so the migration can be re-run safely.
+ */
+export async function migrateDocumentsToStore(
+  options: { dryRun?: boolean } = {}
+): Promise<DocumentMigrationResult> {
+  const db = getDatabase();
+  const store = getDocumentStore();
+  const localStore = store.driver === 'local' ? store : createDocumentStore('local');
+  const result: DocumentMigrationResult = { migrated: 0, skipped: 0, missing: 0, failed: 0 };
+
+  for (const { column, kind } of DOCUMENT_COLUMNS) {
+    const rows = db
+      .prepare(`SELECT id, ${column} as value FROM children WHERE ${column} IS NOT NULL AND ${column} != ''`)
+      .all() as { id: number; value: string }[];
+
+    const updateRow = db.prepare(`UPDATE children SET ${column} = ? WHERE id = ?`);
+
+    for (const row of rows) {
+      try {
+        let key = row.value;
+        let data: Buffer | null = null;
+
+        if (isLegacyDocumentPath(row.value)) {
+          key = legacyDocumentKey(kind, row.id, row.value);
+          data = fs.existsSync(row.value) ? await fs.promises.readFile(row.value) : null;
+        } else if (store.driver !== 'local' && !(await store.exists(key))) {
+          data = await localStore.get(key);
+        } else {
+          result.skipped++;
+          continue;
+        }
+
+        if (!data) {
+          logger.warn(`Document migration: ${column} for student ${row.id} not found (${row.value})`);
+          result.missing++;
+          continue;
+        }
+
+        if (!options.dryRun) {
+          await store.put(key, data, 'application/pdf');
+          updateRow.run(key, row.id);
+        }
+        logger.info(`Document migration: ${row.value} -> ${store.driver}:${key}`);
+        result.migrated++;
+      } catch (error) {
+        logger.error(`Document migration: failed for student ${row.id} ${column}:`, error);
+        result.failed++;
+      }
+    }
+  }
+
+  logger.info(
+    `Document migration${options.dryRun ? ' (dry run)' : ''} into ${config.storage.driver} store: ` +
+    `${result.migrated} migrated, ${result.skipped} already in place, ` +
+    `${result.missing} missing, ${result.failed} failed`
+  );
+
+  return result;
+}
@@ -0,0 +1,233 @@
+/**
+ * S3-Compatible Document Store
+ *
+ * Talks to AWS S3 or any S3-compatible server (MinIO, R2, ...) over the REST
+ * API with AWS Signature Version 4. Only the object operations the
+ * DocumentStore needs (and ListObjectsV2) are implemented, which keeps the
+ * AWS SDK out of the dependency tree.
+ */
+
+import crypto from 'crypto';
+import type { DocumentStore } from '../../types/index.js';
+
+export interface S3DocumentStoreOptions {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+// ============================================
+// SIGNATURE V4 HELPERS
+// ============================================
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * RFC 3986 encoding, as required for SigV4 canonical URIs
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function encodeKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+/**
+ * Canonical query string: names sorted, names and values RFC 3986 encoded
+ */
+function canonicalQuery(query: Record<string, string>): string {
+  return Object.keys(query)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// ============================================
+// STORE
+// ============================================
+
+export class S3DocumentStore implements DocumentStore {
+  readonly driver = 's3' as const;
+
+  private baseUrl: URL;
+
+  constructor(private options: S3DocumentStoreOptions) {
+    if (!options.bucket || !options.accessKeyId || !options.secretAccessKey) {
+      throw new Error('S3 document store requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    const endpoint = options.endpoint || `https://s3.${options.region}.amazonaws.com`;
+    this.baseUrl = new URL(endpoint);
+  }
+
+  private objectUrl(key: string): URL {
+    const url = new URL(this.baseUrl.toString());
+    const basePath = url.pathname.replace(/\/$/, '');
+
+    if (this.options.forcePathStyle) {
+      url.pathname = `${basePath}/${encodeRfc3986(this.options.bucket)}/${encodeKey(key)}`;
+    } else {
+      url.hostname = `${this.options.bucket}.${url.hostname}`;
+      url.pathname = `${basePath}/${encodeKey(key)}`;
+    }
+    return url;
+  }
+
+  /**
+   * Send a signed request for an object (or, with an empty key, the bucket)
+   */
+  private async request(
+    method: 'GET' | 'PUT' | 'HEAD' | 'DELETE',
+    key: string,
+    body?: Buffer,
+    contentType?: string,
+    query: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = this.objectUrl(key);
+    url.search = canonicalQuery(query);
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (contentType) {
+      headers['content-type'] = contentType;
+    }
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalHeaders = signedHeaderNames
+      .map((name) => `${name}:${headers[name].trim()}\n`)
+      .join('');
+    const signedHeaders = signedHeaderNames.join(';');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery(query),
+      canonicalHeaders,
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join('\n');
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${this.options.secretAccessKey}`, dateStamp), this.options.region), 's3'),
+      'aws4_request'
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const { host: _host, ...sendHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...sendHeaders,
+        authorization:
+          `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  private async fail(operation: string, key: string, response: Response): Promise<never> {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`S3 ${operation} ${key} failed with ${response.status}: ${detail.slice(0, 200)}`);
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, contentType);
+    if (!response.ok) {
+      await this.fail('PUT', key, response);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      await this.fail('GET', key, response);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) {
+      return false;
+    }
+    if (!response.ok) {
+      await this.fail('HEAD', key, response);
+    }
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    // S3 returns 204 whether or not the object existed
+    if (!response.ok && response.status !== 404) {
+      await this.fail('DELETE', key, response);
+    }
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const response = await this.request('GET', '', undefined, undefined, query);
+      if (!response.ok) {
+        await this.fail('LIST', prefix, response);
+      }
+
+      const xml = await response.text();
+      for (const match of xml.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        keys.push(decodeXml(match[1]));
+      }
+      const next = /<NextContinuationToken>([^<]*)<\/NextContinuationToken>/.exec(xml);
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml) && next ? decodeXml(next[1]) : null;
+    } while (continuationToken);
+
+    return keys;
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * Student Import Service
+ * Creates a therapist's caseload from a CSV or XLSX spreadsheet
+ *
+ * The same upload is read twice: once as a dry run that maps the columns,
+ * checks every row and shows the usernames that will be used, and once to
+ * create the students. Missing usernames and passwords are generated, and the
+ * passwords are returned only by the real import, for the credential sheet.
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { getDatabase } from '../database.js';
+import { config } from '../../config/index.js';
+import { listSchools } from '../school/index.js';
+import { listMembers } from '../member/index.js';
+import { isUsernameAvailable, insertStudent } from './student.js';
+import { readSpreadsheet } from '../../utils/spreadsheet.js';
+import type {
+  Child,
+  MemberResponse,
+  School,
+  StudentImportCredential,
+  StudentImportField,
+  StudentImportMapping,
+  StudentImportPreview,
+  StudentImportResult,
+  StudentImportRow,
+} from '../../types/index.js';
+
+// A caseload is a few dozen children; anything far larger is probably the wrong file
+const MAX_IMPORT_ROWS = 500;
+
+// Header spellings recognized when no mapping is given (compared without case, spaces or punctuation)
+const HEADER_ALIASES: Record<StudentImportField, string[]> = {
+  first_name: ['firstname', 'first', 'givenname', 'studentfirstname'],
+  last_name: ['lastname', 'last', 'surname', 'familyname', 'studentlastname'],
+  date_of_birth: ['dateofbirth', 'dob', 'birthdate', 'birthday'],
+  grade_level: ['gradelevel', 'grade'],
+  problem_type: ['problemtype', 'servicetype', 'disorder', 'area'],
+  school: ['school', 'schoolname', 'campus'],
+  slp: ['slp', 'slpemail', 'slpname', 'assignedslp', 'clinician', 'provider'],
+  username: ['username', 'user', 'login'],
+  password: ['password', 'pass'],
+  session_duration_minutes: ['sessiondurationminutes', 'sessionminutes', 'serviceminutes', 'minutes', 'duration'],
+  session_frequency: ['sessionfrequency', 'servicefrequency', 'frequency'],
+};
+
+// Generated passwords are an easy word and three digits, e.g. "tiger482"
+const PASSWORD_WORDS = [
+  'apple', 'berry', 'cloud', 'comet', 'dragon', 'falcon', 'koala', 'lemon', 'mango', 'maple',
+  'otter', 'panda', 'pickle', 'pirate', 'planet', 'robot', 'rocket', 'sunny', 'tiger', 'zebra',
+];
+
+const ORDINAL_GRADES = ['1st', '2nd', '3rd', '4th', '5th'];
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guess the column for each field from the header row
+ */
+function suggestMapping(headers: string[]): StudentImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: StudentImportMapping = {};
+  const used = new Set<number>();
+
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [StudentImportField, string[]][]) {
+    for (const alias of aliases) {
+      const index = normalized.findIndex((header, i) => header === alias && !used.has(i));
+      if (index >= 0) {
+        mapping[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+function parseDateOfBirth(value: string): { date?: string; error?: string } {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+  } else if (/^\d{4,5}(\.\d+)?$/.test(value)) {
+    // Excel stores dates as days since 1899-12-30
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(value)) * 24 * 60 * 60 * 1000);
+    [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  } else {
+    return { error: `Date of birth "${value}" is not a date (use YYYY-MM-DD or MM/DD/YYYY)` };
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return { error: `Date of birth "${value}" is not a date (use YYYY-MM-DD or MM/DD/YYYY)` };
+  }
+  if (date.getTime() > Date.now() || year < 1900) {
+    return { error: `Date of birth "${value}" is out of range` };
+  }
+  return { date: date.toISOString().slice(0, 10) };
+}
+
+/**
+ * Match the grade choices of the Add Student form where possible; anything else is kept as typed
+ */
+function normalizeGrade(value: string): string {
+  const compact = value.toLowerCase().replace(/grade|[\s.]/g, '');
+  if (['prek', 'pk', 'prekindergarten', 'preschool'].includes(compact)) return 'Pre-K';
+  if (['k', 'kg', 'kinder', 'kindergarten'].includes(compact)) return 'K';
+  if (['middle', 'middleschool'].includes(compact)) return 'Middle';
+  if (['high', 'highschool'].includes(compact)) return 'High';
+
+  const number = compact.match(/^(\d{1,2})(st|nd|rd|th)?$/);
+  if (number) {
+    const grade = Number(number[1]);
+    if (grade >= 1 && grade <= 5) return ORDINAL_GRADES[grade - 1];
+    if (grade >= 6 && grade <= 8) return 'Middle';
+    if (grade >= 9 && grade <= 12) return 'High';
+  }
+  return value;
+}
+
+function parseProblemType(value: string): StudentImportRow['problem_type'] | undefined {
+  const lower = value.toLowerCase();
+  const language = lower.includes('lang');
+  const articulation = lower.includes('artic') || lower.includes('speech sound');
+  if (lower === 'both' || (language && articulation)) return 'both';
+  if (language) return 'language';
+  if (articulation) return 'articulation';
+  return undefined;
+}
+
+function parseMinutes(value: string): number | undefined {
+  const match = value.match(/^(\d+)\s*(m|min|mins|minutes)?$/i);
+  const minutes = match ? Number(match[1]) : NaN;
+  return minutes >= 1 && minutes <= 600 ? minutes : undefined;
+}
+
+function checkPassword(password: string): string | null {
+  if (password.length < 6) return 'Password must be at least 6 characters';
+  if (!/[A-Za-z]/.test(password)) return 'Password must contain at least one letter';
+  if (!/[0-9]/.test(password)) return 'Password must contain at least one number';
+  return null;
+}
+
+function generatePassword(): string {
+  const word = PASSWORD_WORDS[crypto.randomInt(PASSWORD_WORDS.length)];
+  return `${word}${crypto.randomInt(100, 1000)}`;
+}
+
+function usernamePart(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * First name and last initial (the whole last name if that is too short), numbered when taken
+ */
+function generateUsername(firstName: string, lastName: string, taken: Set<string>): string {
+  const first = usernamePart(firstName);
+  const last = usernamePart(lastName);
+  let base = first + last.slice(0, 1);
+  if (base.length < 3) base = first + last;
+  if (base.length < 3) base = `student${base}`;
+
+  let candidate = base;
+  for (let n = 2; taken.has(candidate) || !isUsernameAvailable(candidate); n++) {
+    candidate = `${base}${n}`;
+  }
+  return candidate;
+}
+
+function findSchool(schools: School[], name: string): { school?: School; error?: string } {
+  const school = schools.find((s) => s.name.trim().toLowerCase() === name.toLowerCase());
+  return school ? { school } : { error: `No school named "${name}" in your organization` };
+}
+
+/**
+ * Match an SLP by email or by name among the organization's members
+ */
+function findSlp(members: MemberResponse[], value: string): { slp?: MemberResponse; error?: string } {
+  const lower = value.toLowerCase();
+  const byEmail = members.filter((m) => m.email.toLowerCase() === lower);
+  const matches = byEmail.length > 0 ? byEmail : members.filter((m) => m.name.trim().toLowerCase() === lower);
+
+  if (matches.length === 0) {
+    return { error: `No member named "${value}" in your organization` };
+  }
+  const slps = matches.filter((m) => m.roles.includes('SLP'));
+  if (slps.length === 0) {
+    return { error: `${matches[0].name} is not an SLP` };
+  }
+  if (slps.length > 1) {
+    return { error: `More than one SLP is named "${value}", use their email instead` };
+  }
+  return { slp: slps[0] };
+}
+
+/**
+ * Read the spreadsheet and check every row against the mapping
+ * Passwords from the file are kept apart (same order as the rows) so the preview never echoes them.
+ */
+function buildImportPreview(
+  organizationId: number,
+  buffer: Buffer,
+  requestedMapping?: StudentImportMapping
+): { preview: StudentImportPreview; passwords: string[] } {
+  const [headerRow, ...dataRows] = readSpreadsheet(buffer);
+  if (!headerRow) {
+    throw new Error('The spreadsheet is empty');
+  }
+  const headers = headerRow.map((header) => header.trim());
+  const mapping = requestedMapping ?? suggestMapping(headers);
+
+  if (Object.values(mapping).some((index) => index >= headers.length)) {
+    throw new Error('Invalid column mapping');
+  }
+
+  const rows = dataRows
+    .map((cells, i) => ({ cells, row: i + 2 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+  if (rows.length === 0) {
+    throw new Error('The spreadsheet has no student rows');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_IMPORT_ROWS} students at a time`);
+  }
+
+  const schools = listSchools(organizationId);
+  const members = listMembers(organizationId);
+  const cell = (cells: string[], field: StudentImportField): string => {
+    const index = mapping[field];
+    return index === undefined ? '' : (cells[index] ?? '').trim();
+  };
+
+  // Usernames given in the file are claimed first so generated ones steer around them
+  const counts = new Map<string, number>();
+  for (const { cells } of rows) {
+    const username = cell(cells, 'username');
+    if (username) counts.set(username, (counts.get(username) ?? 0) + 1);
+  }
+  const taken = new Set(counts.keys());
+
+  const previewRows = rows.map(({ cells, row }): StudentImportRow => {
+    const errors: string[] = [];
+    const result: StudentImportRow = {
+      row,
+      first_name: cell(cells, 'first_name'),
+      last_name: cell(cells, 'last_name'),
+      date_of_birth: null,
+      grade_level: cell(cells, 'grade_level') ? normalizeGrade(cell(cells, 'grade_level')) : null,
+      problem_type: null,
+      school_id: null,
+      school_name: null,
+      slp_id: null,
+      slp_name: null,
+      username: cell(cells, 'username'),
+      username_generated: false,
+      password_generated: !cell(cells, 'password'),
+      session_duration_minutes: null,
+      session_frequency: cell(cells, 'session_frequency') || null,
+      errors,
+    };
+
+    if (!result.first_name) errors.push('First name is required');
+    if (!result.last_name) errors.push('Last name is required');
+
+    if (result.username) {
+      if (result.username.length < 3) {
+        errors.push('Username must be at least 3 characters');
+      } else if ((counts.get(result.username) ?? 0) > 1) {
+        errors.push(`Username "${result.username}" is used more than once in the file`);
+      } else if (!isUsernameAvailable(result.username)) {
+        errors.push(`Username "${result.username}" is already taken`);
+      }
+    } else {
+      result.username = generateUsername(result.first_name, result.last_name, taken);
+      result.username_generated = true;
+      taken.add(result.username);
+    }
+
+    const password = cell(cells, 'password');
+    const passwordError = password ? checkPassword(password) : null;
+    if (passwordError) errors.push(passwordError);
+
+    const dateOfBirth = cell(cells, 'date_of_birth');
+    if (dateOfBirth) {
+      const { date, error } = parseDateOfBirth(dateOfBirth);
+      if (error) errors.push(error);
+      result.date_of_birth = date ?? null;
+    }
+
+    const problemType = cell(cells, 'problem_type');
+    if (problemType) {
+      result.problem_type = parseProblemType(problemType) ?? null;
+      if (!result.problem_type) {
+        errors.push(`Problem type "${problemType}" is not language, articulation or both`);
+      }
+    }
+
+    const schoolName = cell(cells, 'school');
+    if (schoolName) {
+      const { school, error } = findSchool(schools, schoolName);
+      if (error) errors.push(error);
+      result.school_id = school?.id ?? null;
+      result.school_name = school?.name ?? null;
+    }
+
+    const slpName = cell(cells, 'slp');
+    if (slpName) {
+      const { slp, error } = findSlp(members, slpName);
+      if (error) errors.push(error);
+      result.slp_id = slp?.id ?? null;
+      result.slp_name = slp?.name ?? null;
+    }
+
+    const minutes = cell(cells, 'session_duration_minutes');
+    if (minutes) {
+      result.session_duration_minutes = parseMinutes(minutes) ?? null;
+      if (!result.session_duration_minutes) {
+        errors.push(`Service minutes "${minutes}" must be a whole number of minutes`);
+      }
+    }
+    if (result.session_frequency && result.session_frequency.length > 100) {
+      errors.push('Service frequency must be at most 100 characters');
+    }
+
+    return result;
+  });
+
+  const invalidRows = previewRows.filter((row) => row.errors.length > 0).length;
+  return {
+    preview: {
+      headers,
+      mapping,
+      rows: previewRows,
+      valid_rows: previewRows.length - invalidRows,
+      invalid_rows: invalidRows,
+    },
+    passwords: rows.map(({ cells }) => cell(cells, 'password')),
+  };
+}
+
+/**
+ * Dry run: how each row would be imported, with its problems
+ */
+export function previewStudentImport(
+  organizationId: number,
+  buffer: Buffer,
+  mapping?: StudentImportMapping
+): StudentImportPreview {
+  return buildImportPreview(organizationId, buffer, mapping).preview;
+}
+
+/**
+ * Create the students of a spreadsheet in one transaction
+ *
+ * Unless skipInvalid is set, any row with errors stops the whole import.
+ * Returns each new student's username and password for the credential sheet.
+ */
+export async function importStudents(
+  therapistId: number,
+  organizationId: number,
+  buffer: Buffer,
+  mapping: StudentImportMapping | undefined,
+  skipInvalid: boolean
+): Promise<StudentImportResult> {
+  const { preview, passwords: filePasswords } = buildImportPreview(organizationId, buffer, mapping);
+  if (preview.invalid_rows > 0 && !skipInvalid) {
+    const count = preview.invalid_rows === 1 ? '1 row has' : `${preview.invalid_rows} rows have`;
+    throw new Error(`${count} errors; fix them or choose to skip them`);
+  }
+
+  const ready = preview.rows
+    .map((row, i) => ({ row, password: filePasswords[i] || generatePassword() }))
+    .filter(({ row }) => row.errors.length === 0);
+  if (ready.length === 0) {
+    throw new Error('No rows are ready to import');
+  }
+  const rows = ready.map(({ row }) => row);
+  const passwords = ready.map(({ password }) => password);
+  const hashes = await Promise.all(passwords.map((password) => bcrypt.hash(password, config.auth.saltRounds)));
+
+  const students = getDatabase().transaction((): Child[] =>
+    rows.map((row, i) => {
+      // Someone may have taken the username since the preview
+      if (!isUsernameAvailable(row.username)) {
+        throw new Error(`Username "${row.username}" (row ${row.row}) is already taken`);
+      }
+      return insertStudent(therapistId, {
+        username: row.username,
+        first_name: row.first_name,
+        last_name: row.last_name,
+        date_of_birth: row.date_of_birth ?? undefined,
+        grade_level: row.grade_level ?? undefined,
+        problem_type: row.problem_type ?? undefined,
+        slp_id: row.slp_id ?? undefined,
+        school_id: row.school_id ?? undefined,
+        session_duration_minutes: row.session_duration_minutes ?? undefined,
+        session_frequency: row.session_frequency ?? undefined,
+      }, hashes[i]);
+    })
+  )();
+
+  const credentials: StudentImportCredential[] = rows.map((row, i) => ({
+    row: row.row,
+    student_id: students[i].id,
+    first_name: row.first_name,
+    last_name: row.last_name,
+    username: row.username,
+    password: passwords[i],
+    grade_level: row.grade_level,
+    school_name: row.school_name,
+    slp_name: row.slp_name,
+  }));
+
+  return {
+    imported: students.length,
+    skipped: preview.invalid_rows,
+    students,
+    credentials,
+  };
+}
@@ -3,10 +3,25 @@ export {
   createStudent,
   getStudentById,
   getStudentForTherapist,
-  listStudentsByTherapist,
+  listStudents,
+  searchStudents,
   updateStudent,
   updateStudentSessionTime,
-  deleteStudent,
+  archiveStudent,
+  restoreStudent,
+  assertStudentActive,
   loginChild,
+  resetStudentPassword,
   verifyChildToken,
 } from './student.js';
+export { previewStudentImport, importStudents } from './import.js';
+export {
+  getStudentShareAccess,
+  listTherapistIdsForStudent,
+  listStudentIdsForTherapist,
+  listStudentShares,
+  shareStudent,
+  revokeStudentShare,
+  transferStudent,
+  listStudentTransfers,
+} from './sharing.js';
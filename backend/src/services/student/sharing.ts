@@ -0,0 +1,246 @@
+/**
+ * Student Sharing Service
+ * Shares a student with other therapists and transfers a student to a new owner
+ *
+ * The owner (children.therapist_id) can grant another therapist 'view' or
+ * 'treat' access; see SHARE_PERMISSIONS in services/access for what each
+ * allows. A transfer moves the student with everything recorded about them
+ * (evaluation, goals, sessions, logins) to another therapist, who becomes the
+ * only owner. Links that only make sense inside the old owner's organization
+ * (SLP, school, Parent and Student members) are dropped when the student
+ * changes organization.
+ */
+
+import { getDatabase } from '../database.js';
+import { config } from '../../config/index.js';
+import { sendMail } from '../mail/index.js';
+import { getTherapistById } from '../auth/index.js';
+import { getStudentForTherapist } from './student.js';
+import { logger } from '../../utils/logger.js';
+import type { StudentShare, StudentShareAccess, StudentTransfer } from '../../types/index.js';
+
+interface TherapistRow {
+  id: number;
+  first_name: string;
+  last_name: string;
+  organization_id: number;
+}
+
+const ACCESS_LABELS: Record<StudentShareAccess, string> = {
+  view: 'view',
+  treat: 'view and treat',
+};
+
+function findTherapistByEmail(email: string): TherapistRow | undefined {
+  return getDatabase()
+    .prepare('SELECT id, first_name, last_name, organization_id FROM therapists WHERE email = ? COLLATE NOCASE')
+    .get(email.trim().toLowerCase()) as TherapistRow | undefined;
+}
+
+function assertOwner(studentId: number, therapistId: number): void {
+  if (!getStudentForTherapist(studentId, therapistId)) {
+    throw new Error('Student not found');
+  }
+}
+
+/**
+ * Tell the other therapist without naming the child (they see who it is after signing in)
+ */
+function notifyTherapist(therapistId: number, subject: string, text: string): void {
+  const therapist = getTherapistById(therapistId);
+  if (!therapist) {
+    return;
+  }
+  sendMail({ to: therapist.email, subject, text: `Hi ${therapist.first_name},\n\n${text}\n\n${config.appUrl}/therapist.html` })
+    .catch((error) => {
+      logger.child({ therapist_id: therapistId }).error('Failed to send student sharing email:', error);
+    });
+}
+
+function senderName(therapistId: number): string {
+  const therapist = getTherapistById(therapistId);
+  return therapist ? `${therapist.first_name} ${therapist.last_name}` : 'A therapist';
+}
+
+/**
+ * The access a therapist has been granted to someone else's student, if any
+ */
+export function getStudentShareAccess(studentId: number, therapistId: number): StudentShareAccess | null {
+  const row = getDatabase()
+    .prepare('SELECT access FROM student_shares WHERE student_id = ? AND therapist_id = ?')
+    .get(studentId, therapistId) as { access: StudentShareAccess } | undefined;
+  return row?.access ?? null;
+}
+
+/**
+ * Every therapist who can follow a student: the owner first, then those it is shared with
+ */
+export function listTherapistIdsForStudent(studentId: number): number[] {
+  const rows = getDatabase()
+    .prepare(`
+      SELECT therapist_id FROM children WHERE id = ?
+      UNION ALL
+      SELECT therapist_id FROM student_shares WHERE student_id = ?
+    `)
+    .all(studentId, studentId) as { therapist_id: number }[];
+  return rows.map((row) => row.therapist_id);
+}
+
+/**
+ * Ids of the active students a therapist owns or has been given access to
+ */
+export function listStudentIdsForTherapist(therapistId: number): number[] {
+  const rows = getDatabase()
+    .prepare(`
+      SELECT id FROM children WHERE therapist_id = ? AND archived_at IS NULL
+      UNION
+      SELECT s.student_id FROM student_shares s
+      JOIN children c ON c.id = s.student_id
+      WHERE s.therapist_id = ? AND c.archived_at IS NULL
+    `)
+    .all(therapistId, therapistId) as { id: number }[];
+  return rows.map((row) => row.id);
+}
+
+export function listStudentShares(studentId: number, ownerId: number): StudentShare[] {
+  assertOwner(studentId, ownerId);
+  return getDatabase()
+    .prepare(`
+      SELECT s.id, s.student_id, s.therapist_id, t.first_name || ' ' || t.last_name AS therapist_name,
+        t.email AS therapist_email, s.access, s.created_at
+      FROM student_shares s
+      JOIN therapists t ON t.id = s.therapist_id
+      WHERE s.student_id = ?
+      ORDER BY s.created_at
+    `)
+    .all(studentId) as StudentShare[];
+}
+
+/**
+ * Give another therapist access to a student (or change the access they have)
+ */
+export function shareStudent(
+  studentId: number,
+  ownerId: number,
+  email: string,
+  access: StudentShareAccess
+): StudentShare {
+  assertOwner(studentId, ownerId);
+  const therapist = findTherapistByEmail(email);
+  if (!therapist) {
+    throw new Error('No therapist has an account with that email');
+  }
+  if (therapist.id === ownerId) {
+    throw new Error('You already own this student');
+  }
+
+  const previous = getStudentShareAccess(studentId, therapist.id);
+  getDatabase().prepare(`
+    INSERT INTO student_shares (student_id, therapist_id, access, granted_by, created_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(student_id, therapist_id) DO UPDATE SET
+      access = excluded.access,
+      granted_by = excluded.granted_by
+  `).run(studentId, therapist.id, access, ownerId, new Date().toISOString());
+
+  if (previous !== access) {
+    notifyTherapist(
+      therapist.id,
+      'A student was shared with you on PIPER',
+      `${senderName(ownerId)} gave you ${ACCESS_LABELS[access]} access to one of their students. Sign in to see them in your student list:`
+    );
+  }
+
+  return listStudentShares(studentId, ownerId).find((share) => share.therapist_id === therapist.id)!;
+}
+
+export function revokeStudentShare(studentId: number, ownerId: number, shareId: number): void {
+  assertOwner(studentId, ownerId);
+  const result = getDatabase()
+    .prepare('DELETE FROM student_shares WHERE id = ? AND student_id = ?')
+    .run(shareId, studentId);
+  if (result.changes === 0) {
+    throw new Error('Share not found');
+  }
+}
+
+/**
+ * Hand a student over to another therapist
+ *
+ * Sessions move to the new owner, pending erasure requests of the old owner
+ * are cancelled, and the old owner can keep 'view' or 'treat' access.
+ */
+export function transferStudent(
+  studentId: number,
+  ownerId: number,
+  email: string,
+  keepAccess?: StudentShareAccess
+): void {
+  assertOwner(studentId, ownerId);
+  const target = findTherapistByEmail(email);
+  if (!target) {
+    throw new Error('No therapist has an account with that email');
+  }
+  if (target.id === ownerId) {
+    throw new Error('You already own this student');
+  }
+
+  const db = getDatabase();
+  const owner = getTherapistById(ownerId)!;
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    if (target.organization_id !== owner.organization_id) {
+      db.prepare('UPDATE children SET slp_id = NULL, school_id = NULL WHERE id = ?').run(studentId);
+      db.prepare('DELETE FROM member_students WHERE student_id = ?').run(studentId);
+    }
+
+    db.prepare('UPDATE children SET therapist_id = ? WHERE id = ?').run(target.id, studentId);
+    db.prepare('UPDATE gameplay_sessions SET therapist_id = ? WHERE child_id = ?').run(target.id, studentId);
+
+    // The code for a pending erasure went to the old owner
+    db.prepare(`
+      UPDATE erasure_requests SET status = 'cancelled', resolved_by = ?, resolved_at = ?
+      WHERE student_id = ? AND status = 'pending'
+    `).run(ownerId, now, studentId);
+
+    // The new owner no longer needs a share; the old one may keep one
+    db.prepare('DELETE FROM student_shares WHERE student_id = ? AND therapist_id = ?').run(studentId, target.id);
+    if (keepAccess) {
+      db.prepare(`
+        INSERT INTO student_shares (student_id, therapist_id, access, granted_by, created_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(studentId, ownerId, keepAccess, ownerId, now);
+    }
+
+    db.prepare(`
+      INSERT INTO student_transfers (student_id, from_therapist_id, to_therapist_id, transferred_at)
+      VALUES (?, ?, ?, ?)
+    `).run(studentId, ownerId, target.id, now);
+  })();
+
+  notifyTherapist(
+    target.id,
+    'A student was transferred to you on PIPER',
+    `${senderName(ownerId)} transferred one of their students to you, with their evaluation, goals and session history. Sign in to see them in your student list:`
+  );
+}
+
+/**
+ * Previous owners of a student, oldest transfer first
+ */
+export function listStudentTransfers(studentId: number): StudentTransfer[] {
+  return getDatabase()
+    .prepare(`
+      SELECT tr.id, tr.student_id,
+        f.first_name || ' ' || f.last_name AS from_therapist_name,
+        t.first_name || ' ' || t.last_name AS to_therapist_name,
+        tr.transferred_at
+      FROM student_transfers tr
+      LEFT JOIN therapists f ON f.id = tr.from_therapist_id
+      LEFT JOIN therapists t ON t.id = tr.to_therapist_id
+      WHERE tr.student_id = ?
+      ORDER BY tr.transferred_at, tr.id
+    `)
+    .all(studentId) as StudentTransfer[];
+}
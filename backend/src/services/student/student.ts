@@ -4,16 +4,44 @@
  */
 
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { getDatabase } from '../database.js';
 import { config } from '../../config/index.js';
-import type { Child, CreateChildRequest, UpdateChildRequest, ChildLoginRequest, ChildAuthResult } from '../../types/index.js';
+import { encryptField, decryptField } from '../encryption/index.js';
+import {
+  createAuthSession,
+  verifyAccessToken,
+  revokeAllAuthSessions,
+  assertAccountUnlocked,
+  recordFailedLogin,
+  clearAccountLockout,
+} from '../auth/index.js';
+import type {
+  Child,
+  CreateChildRequest,
+  UpdateChildRequest,
+  ChildLoginRequest,
+  ChildAuthResult,
+  AuthClientInfo,
+  StudentVisibility,
+  StudentListFilter,
+  StudentListQuery,
+  StudentPage,
+  ArchiveChildRequest,
+} from '../../types/index.js';
 
 // Fields to select (excluding password_hash)
 const STUDENT_FIELDS = `id, therapist_id, username, first_name, last_name, date_of_birth,
   grade_level, problem_type, eval_data, eval_pdf_path, eval_pdf_uploaded_at,
   eval_pdf_original_name, goals_pdf_path, goals_pdf_uploaded_at, goals_pdf_original_name,
-  session_duration_minutes, session_frequency, slp_id, school_id, created_at`;
+  session_duration_minutes, session_frequency, slp_id, school_id, created_at,
+  archived_at, discharged_on, archive_reason`;
+
+/**
+ * eval_data is stored encrypted; callers always see the JSON text
+ */
+function decryptStudent(row: Child): Child {
+  return row.eval_data ? { ...row, eval_data: decryptField(row.eval_data, 'children.eval_data') } : row;
+}
 
 export function isUsernameAvailable(username: string): boolean {
   const db = getDatabase();
@@ -23,24 +51,71 @@ export function isUsernameAvailable(username: string): boolean {
   return !existing;
 }
 
+/**
+ * Ensure an SLP/school reference belongs to the therapist's organization
+ */
+function assertSameOrganization(
+  therapist_id: number,
+  slp_id: number | null | undefined,
+  school_id: number | null | undefined
+): void {
+  const db = getDatabase();
+
+  if (slp_id) {
+    const member = db.prepare(`
+      SELECT m.id FROM therapist_members m
+      JOIN therapists t ON t.organization_id = m.organization_id
+      WHERE m.id = ? AND t.id = ?
+    `).get(slp_id, therapist_id);
+    if (!member) {
+      throw new Error('Invalid SLP ID');
+    }
+  }
+
+  if (school_id) {
+    const school = db.prepare(`
+      SELECT s.id FROM therapist_schools s
+      JOIN therapists t ON t.organization_id = s.organization_id
+      WHERE s.id = ? AND t.id = ?
+    `).get(school_id, therapist_id);
+    if (!school) {
+      throw new Error('Invalid school ID');
+    }
+  }
+}
+
 export async function createStudent(
   therapist_id: number,
   data: CreateChildRequest
 ): Promise<Child> {
-  const db = getDatabase();
-
   if (!isUsernameAvailable(data.username)) {
     throw new Error('Username already taken');
   }
 
+  assertSameOrganization(therapist_id, data.slp_id, data.school_id);
+
   const password_hash = await bcrypt.hash(data.password, config.auth.saltRounds);
+  return insertStudent(therapist_id, data, password_hash);
+}
+
+/**
+ * Insert an already validated student with a hashed password
+ * Synchronous so a bulk import can run many inside one transaction.
+ */
+export function insertStudent(
+  therapist_id: number,
+  data: Omit<CreateChildRequest, 'password'>,
+  password_hash: string
+): Child {
+  const db = getDatabase();
 
   const result = db
     .prepare(
       `INSERT INTO children (
         therapist_id, username, password_hash, first_name, last_name,
-        date_of_birth, grade_level, problem_type, slp_id, school_id
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        date_of_birth, grade_level, problem_type, slp_id, school_id,
+        session_duration_minutes, session_frequency
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     )
     .run(
       therapist_id,
@@ -52,7 +127,9 @@ export async function createStudent(
       data.grade_level || null,
       data.problem_type || null,
       data.slp_id || null,
-      data.school_id || null
+      data.school_id || null,
+      data.session_duration_minutes || null,
+      data.session_frequency || null
     );
 
   const student = getStudentById(result.lastInsertRowid as number);
@@ -68,7 +145,7 @@ export function getStudentById(id: number): Child | null {
   const row = db
     .prepare(`SELECT ${STUDENT_FIELDS} FROM children WHERE id = ?`)
     .get(id) as Child | undefined;
-  return row || null;
+  return row ? decryptStudent(row) : null;
 }
 
 export function getStudentForTherapist(id: number, therapist_id: number): Child | null {
@@ -76,14 +153,217 @@ export function getStudentForTherapist(id: number, therapist_id: number): Child
   const row = db
     .prepare(`SELECT ${STUDENT_FIELDS} FROM children WHERE id = ? AND therapist_id = ?`)
     .get(id, therapist_id) as Child | undefined;
-  return row || null;
+  return row ? decryptStudent(row) : null;
 }
 
-export function listStudentsByTherapist(therapist_id: number): Child[] {
+// ─────────────────────────────────────────────────────────────────────────────
+// Caseload Listing
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const LAST_SESSION_SQL = '(SELECT MAX(g.started_at) FROM gameplay_sessions g WHERE g.child_id = c.id)';
+
+// Sort keys per order, each followed by c.id so the cursor is unique
+const SORT_COLUMNS: Record<string, { sql: string[]; values: (row: Child) => string[] }> = {
+  name: { sql: ['c.first_name', 'c.last_name'], values: (row) => [row.first_name, row.last_name] },
+  last_name: { sql: ['c.last_name', 'c.first_name'], values: (row) => [row.last_name, row.first_name] },
+  created_at: { sql: ["COALESCE(c.created_at, '')"], values: (row) => [row.created_at ?? ''] },
+  // Students who never played sort as the oldest
+  last_session_at: { sql: [`COALESCE(${LAST_SESSION_SQL}, '')`], values: (row) => [row.last_session_at ?? ''] },
+};
+
+interface StudentQuerySql {
+  select: string;
+  selectParams: unknown[];
+  conditions: string[];
+  params: unknown[];
+}
+
+/**
+ * SQL for the students a listing may return, narrowed by the filter
+ * Returns null when the visibility covers no students at all.
+ */
+function studentQuerySql(visibility: StudentVisibility, filter: StudentListFilter): StudentQuerySql | null {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  let select = `SELECT ${STUDENT_FIELDS}, ${LAST_SESSION_SQL} AS last_session_at`;
+  const selectParams: unknown[] = [];
+
+  if ('therapist_id' in visibility) {
+    // Shared students carry the access granted and who owns them
+    select += `,
+      (SELECT access FROM student_shares s WHERE s.student_id = c.id AND s.therapist_id = ?) AS shared_access,
+      CASE WHEN c.therapist_id = ? THEN NULL
+        ELSE (SELECT first_name || ' ' || last_name FROM therapists t WHERE t.id = c.therapist_id)
+      END AS owner_name`;
+    selectParams.push(visibility.therapist_id, visibility.therapist_id);
+    conditions.push('(c.therapist_id = ? OR c.id IN (SELECT student_id FROM student_shares WHERE therapist_id = ?))');
+    params.push(visibility.therapist_id, visibility.therapist_id);
+  } else {
+    const { scope } = visibility;
+    const scopeConditions: string[] = [];
+    if (scope.school_id !== undefined) {
+      scopeConditions.push('c.school_id = ?');
+      params.push(scope.school_id);
+    }
+    if (scope.slp_id !== undefined) {
+      scopeConditions.push('c.slp_id = ?');
+      params.push(scope.slp_id);
+    }
+    if (scope.linked_member_id !== undefined) {
+      scopeConditions.push('c.id IN (SELECT student_id FROM member_students WHERE member_id = ?)');
+      params.push(scope.linked_member_id);
+    }
+    if (scopeConditions.length === 0) {
+      return null;
+    }
+    conditions.unshift('c.therapist_id IN (SELECT id FROM therapists WHERE organization_id = ?)');
+    params.unshift(visibility.organization_id);
+    conditions.push(`(${scopeConditions.join(' OR ')})`);
+  }
+
+  const status = filter.status ?? 'active';
+  if (status === 'active') {
+    conditions.push('c.archived_at IS NULL');
+  } else if (status === 'archived') {
+    conditions.push('c.archived_at IS NOT NULL');
+  }
+
+  const q = filter.q?.trim();
+  if (q) {
+    const pattern = `%${q.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    conditions.push(`(c.first_name || ' ' || c.last_name LIKE ? ESCAPE '\\' OR c.username LIKE ? ESCAPE '\\')`);
+    params.push(pattern, pattern);
+  }
+  if (filter.school_id !== undefined) {
+    conditions.push('c.school_id = ?');
+    params.push(filter.school_id);
+  }
+  if (filter.slp_id !== undefined) {
+    conditions.push('c.slp_id = ?');
+    params.push(filter.slp_id);
+  }
+  if (filter.problem_type !== undefined) {
+    conditions.push('c.problem_type = ?');
+    params.push(filter.problem_type);
+  }
+  if (filter.grade?.trim()) {
+    conditions.push('c.grade_level = ? COLLATE NOCASE');
+    params.push(filter.grade.trim());
+  }
+  if (filter.goal_status === 'none') {
+    conditions.push('NOT EXISTS (SELECT 1 FROM iep_goals gl WHERE gl.student_id = c.id)');
+  } else if (filter.goal_status !== undefined) {
+    conditions.push('EXISTS (SELECT 1 FROM iep_goals gl WHERE gl.student_id = c.id AND gl.status = ?)');
+    params.push(filter.goal_status);
+  }
+  if (filter.last_session_from !== undefined) {
+    conditions.push(`date(${LAST_SESSION_SQL}) >= date(?)`);
+    params.push(filter.last_session_from);
+  }
+  if (filter.last_session_to !== undefined) {
+    conditions.push(`(${LAST_SESSION_SQL} IS NULL OR date(${LAST_SESSION_SQL}) <= date(?))`);
+    params.push(filter.last_session_to);
+  }
+
+  return { select, selectParams, conditions, params };
+}
+
+/**
+ * Shape a listing row: eval_data decrypted, share details only on shared students
+ */
+function toListedStudent(row: Child): Child {
+  const { shared_access, owner_name, ...student } = decryptStudent(row);
+  return shared_access ? { ...student, shared_access, owner_name } : student;
+}
+
+function encodeCursor(sort: string, values: unknown[]): string {
+  return Buffer.from(JSON.stringify({ sort, after: values })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: string, length: number): unknown[] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as { sort?: unknown; after?: unknown };
+    if (decoded.sort === sort && Array.isArray(decoded.after) && decoded.after.length === length) {
+      return decoded.after;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * Every student a listing covers that matches the filter, by name
+ */
+export function listStudents(visibility: StudentVisibility, filter: StudentListFilter = {}): Child[] {
+  const query = studentQuerySql(visibility, filter);
+  if (!query) {
+    return [];
+  }
+
+  return (getDatabase()
+    .prepare(`
+      ${query.select}
+      FROM children c
+      WHERE ${query.conditions.join(' AND ')}
+      ORDER BY c.first_name, c.last_name, c.id
+    `)
+    .all(...query.selectParams, ...query.params) as Child[])
+    .map(toListedStudent);
+}
+
+/**
+ * One page of a caseload listing, with the cursor for the next page
+ * The cursor is tied to the sort order it was issued for.
+ */
+export function searchStudents(visibility: StudentVisibility, query: StudentListQuery = {}): StudentPage {
+  const sql = studentQuerySql(visibility, query);
+  if (!sql) {
+    return { students: [], next_cursor: null, total: 0 };
+  }
+
   const db = getDatabase();
-  return db
-    .prepare(`SELECT ${STUDENT_FIELDS} FROM children WHERE therapist_id = ? ORDER BY first_name, last_name`)
-    .all(therapist_id) as Child[];
+  const sort = query.sort ?? 'name';
+  const descending = sort.startsWith('-');
+  const key = SORT_COLUMNS[descending ? sort.slice(1) : sort];
+  const columns = [...key.sql, 'c.id'];
+  const direction = descending ? 'DESC' : 'ASC';
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const { total } = db
+    .prepare(`SELECT COUNT(*) as total FROM children c WHERE ${sql.conditions.join(' AND ')}`)
+    .get(...sql.params) as { total: number };
+
+  const conditions = [...sql.conditions];
+  const params = [...sql.params];
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, sort, columns.length);
+    conditions.push(`(${columns.join(', ')}) ${descending ? '<' : '>'} (${columns.map(() => '?').join(', ')})`);
+    params.push(...after);
+  }
+
+  const rows = db
+    .prepare(`
+      ${sql.select}
+      FROM children c
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${columns.map((column) => `${column} ${direction}`).join(', ')}
+      LIMIT ?
+    `)
+    .all(...sql.selectParams, ...params, limit + 1) as Child[];
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+
+  return {
+    students: page.map(toListedStudent),
+    next_cursor: hasMore ? encodeCursor(sort, [...key.values(last), last.id]) : null,
+    total,
+  };
 }
 
 export function updateStudent(
@@ -125,7 +405,7 @@ export function updateStudent(
   if (data.eval_data !== undefined) {
     updates.push('eval_data = ?');
     const jsonData = JSON.stringify(data.eval_data);
-    values.push(jsonData);
+    values.push(encryptField(jsonData, 'children.eval_data'));
   }
   if (data.session_duration_minutes !== undefined) {
     updates.push('session_duration_minutes = ?');
@@ -146,27 +426,84 @@ export function updateStudent(
   return getStudentById(id);
 }
 
-export function deleteStudent(id: number, therapist_id: number): boolean {
+/**
+ * Discharge a student: hide it from the active caseload and sign the child
+ * out, keeping everything recorded about them
+ */
+export function archiveStudent(id: number, data: ArchiveChildRequest): Child | null {
   const db = getDatabase();
-  const existing = getStudentForTherapist(id, therapist_id);
+  const existing = getStudentById(id);
+  if (!existing) {
+    return null;
+  }
+  if (existing.archived_at) {
+    throw new Error('Student is already archived');
+  }
+
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    db.prepare('UPDATE children SET archived_at = ?, discharged_on = ?, archive_reason = ? WHERE id = ?')
+      .run(now, data.discharged_on ?? now.slice(0, 10), data.reason.trim(), id);
+    revokeAllAuthSessions('child', id);
+  })();
+  return getStudentById(id);
+}
+
+/**
+ * Bring an archived student back to the active caseload
+ */
+export function restoreStudent(id: number): Child | null {
+  const db = getDatabase();
+  const existing = getStudentById(id);
   if (!existing) {
-    return false;
+    return null;
+  }
+  if (!existing.archived_at) {
+    throw new Error('Student is not archived');
+  }
+
+  db.prepare('UPDATE children SET archived_at = NULL, discharged_on = NULL, archive_reason = NULL WHERE id = ?').run(id);
+  return getStudentById(id);
+}
+
+/**
+ * Archived children cannot sign in to the boardgame
+ */
+export function assertStudentActive(id: number): void {
+  const row = getDatabase()
+    .prepare('SELECT archived_at FROM children WHERE id = ?')
+    .get(id) as { archived_at: string | null } | undefined;
+  if (row?.archived_at) {
+    throw new Error('This account has been archived, please ask your therapist for help');
   }
-  db.prepare('DELETE FROM children WHERE id = ?').run(id);
-  return true;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Child Authentication
 // ─────────────────────────────────────────────────────────────────────────────
 
-function generateChildToken(childId: number): string {
-  return jwt.sign({ child_id: childId }, config.jwtSecret, {
-    expiresIn: '24h',
-  });
+/**
+ * Set a new password for a child (set by their therapist), sign the child out
+ * of every device and lift any lock on the account
+ */
+export async function resetStudentPassword(id: number, password: string): Promise<boolean> {
+  const db = getDatabase();
+  const password_hash = await bcrypt.hash(password, config.auth.saltRounds);
+  return db.transaction(() => {
+    const result = db.prepare('UPDATE children SET password_hash = ? WHERE id = ?').run(password_hash, id);
+    if (result.changes === 0) {
+      return false;
+    }
+    revokeAllAuthSessions('child', id);
+    clearAccountLockout('child', id);
+    return true;
+  })();
 }
 
-export async function loginChild(data: ChildLoginRequest): Promise<ChildAuthResult> {
+export async function loginChild(
+  data: ChildLoginRequest,
+  client: AuthClientInfo = {}
+): Promise<ChildAuthResult> {
   const db = getDatabase();
 
   // Find child by username
@@ -178,29 +515,29 @@ export async function loginChild(data: ChildLoginRequest): Promise<ChildAuthResu
     throw new Error('Invalid username or password');
   }
 
+  assertAccountUnlocked('child', row.id);
+
   // Verify password
   const valid = await bcrypt.compare(data.password, row.password_hash);
   if (!valid) {
+    recordFailedLogin('child', row.id);
     throw new Error('Invalid username or password');
   }
 
+  clearAccountLockout('child', row.id);
+  assertStudentActive(row.id);
+
   const child = getStudentById(row.id)!;
-  const token = generateChildToken(row.id);
 
-  return { child, token };
+  return { child, ...createAuthSession('child', row.id, client) };
 }
 
-export function verifyChildToken(token: string): { child_id: number } | null {
-  try {
-    const decoded = jwt.verify(token, config.jwtSecret) as { child_id: number };
-    // Make sure it's a child token (has child_id, not therapist_id)
-    if (typeof decoded.child_id === 'number') {
-      return decoded;
-    }
-    return null;
-  } catch {
-    return null;
-  }
+/**
+ * Verify a child access token (rejects therapist tokens and revoked sessions)
+ */
+export function verifyChildToken(token: string): { child_id: number; session_id: string } | null {
+  const verified = verifyAccessToken('child', token);
+  return verified ? { child_id: verified.subject_id, session_id: verified.session_id } : null;
 }
 
 /**
@@ -6,6 +6,7 @@
 import WebSocket from 'ws';
 import { config } from '../../config/index.js';
 import { logger } from '../../utils/logger.js';
+import { realtimeConnects, realtimeUnexpectedCloses } from '../metrics/index.js';
 import type {
   RealtimeEventHandler,
   RealtimeServerEvent,
@@ -50,6 +51,7 @@ export class RealtimeVoiceService {
     }
 
     return new Promise((resolve) => {
+      let opened = false;
       try {
         this.ws = new WebSocket(OPENAI_REALTIME_URL, {
           headers: {
@@ -61,6 +63,8 @@ export class RealtimeVoiceService {
 
         this.ws.on('open', () => {
           logger.info('Connected to OpenAI Realtime API');
+          opened = true;
+          realtimeConnects.inc({ result: 'success' });
           this.isConnected = true;
           this.reconnectAttempts = 0;
           this.configureSession();
@@ -78,17 +82,25 @@ export class RealtimeVoiceService {
 
         this.ws.on('error', (err) => {
           logger.error('Realtime API WebSocket error:', err);
+          if (!opened) {
+            realtimeConnects.inc({ result: 'failure' });
+          }
           resolve(false);
         });
 
         this.ws.on('close', (code, reason) => {
           logger.info(`Realtime API connection closed: ${code} - ${reason.toString()}`);
+          // disconnect() clears isConnected first, so still being connected means OpenAI closed it
+          if (this.isConnected) {
+            realtimeUnexpectedCloses.inc();
+          }
           this.isConnected = false;
           this.ws = null;
         });
 
       } catch (err) {
         logger.error('Failed to connect to Realtime API:', err);
+        realtimeConnects.inc({ result: 'failure' });
         resolve(false);
       }
     });
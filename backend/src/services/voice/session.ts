@@ -12,11 +12,12 @@ import { CardContext, SafetyGateResult } from '../../types/safety-gate.js';
 import type { CalibrationResult } from '../../types/calibration.js';
 import {
   ClientMessageSchema,
+  VoiceCloseCode,
   type ClientMessage,
   type ServerMessage,
   type RealtimeServerEvent
 } from '../../types/voice.js';
-import { logger } from '../../utils/logger.js';
+import { logger, runWithLogContext, newCorrelationId } from '../../utils/logger.js';
 import { config } from '../../config/index.js';
 import { gameplaySessionManager } from '../session/index.js';
 
@@ -35,6 +36,8 @@ const SCREAMING_RESPONSE_COOLDOWN_MS = config.safetyGate.screaming.responseCoold
 
 export interface VoiceSession {
   id: string;
+  // Child authenticated on the client WebSocket
+  childId: number;
   clientWs: WebSocket;
   realtimeService: RealtimeVoiceService;
   isActive: boolean;
@@ -77,16 +80,31 @@ export class VoiceSessionManager {
   }
 
   /**
-   * Create a new voice session for a client
+   * Run one unit of work for a session (client message, Realtime event, timer)
+   * with a fresh correlation ID and the session's IDs bound to every log entry
    */
-  async createSession(clientWs: WebSocket): Promise<string | null> {
+  private runInSessionContext<T>(sessionId: string, fn: () => T): T {
+    return runWithLogContext(
+      {
+        correlation_id: newCorrelationId(),
+        voice_session_id: sessionId,
+        ...gameplaySessionManager.getLogContext(sessionId),
+      },
+      fn
+    );
+  }
+
+  /**
+   * Create a new voice session for an authenticated child's client
+   */
+  async createSession(clientWs: WebSocket, childId: number): Promise<string | null> {
     const sessionId = this.generateSessionId();
     const realtimeService = new RealtimeVoiceService();
 
     // CRITICAL: Set up event handler BEFORE connecting to prevent race condition
     // Events from OpenAI can arrive immediately after connection opens
     realtimeService.onEvent((event) => {
-      this.handleRealtimeEvent(sessionId, event);
+      this.runInSessionContext(sessionId, () => this.handleRealtimeEvent(sessionId, event));
     });
 
     // Now connect to OpenAI Realtime API (events will be handled immediately)
@@ -98,6 +116,7 @@ export class VoiceSessionManager {
 
     const session: VoiceSession = {
       id: sessionId,
+      childId,
       clientWs,
       realtimeService,
       isActive: true,
@@ -117,16 +136,17 @@ export class VoiceSessionManager {
 
     // Set up inactivity callback
     session.safetyGateSession.setInactivityCallback((result) => {
-      this.handleInactivityResult(session, result);
+      this.runInSessionContext(sessionId, () => this.handleInactivityResult(session, result));
     });
 
     // Set up task timeout callback
     session.safetyGateSession.setTaskTimeoutCallback((result) => {
-      this.handleTaskTimeoutResult(session, result);
+      this.runInSessionContext(sessionId, () => this.handleTaskTimeoutResult(session, result));
     });
 
     this.sessions.set(sessionId, session);
-    logger.info(`Voice session created: ${sessionId}`);
+    gameplaySessionManager.registerVoiceSession(sessionId, childId);
+    logger.info(`Voice session created: ${sessionId} for child ${childId}`);
 
     return sessionId;
   }
@@ -276,12 +296,24 @@ export class VoiceSessionManager {
    * Handle incoming message from client
    */
   handleClientMessage(sessionId: string, rawMessage: unknown): void {
+    this.runInSessionContext(sessionId, () => this.dispatchClientMessage(sessionId, rawMessage));
+  }
+
+  private dispatchClientMessage(sessionId: string, rawMessage: unknown): void {
     const session = this.sessions.get(sessionId);
     if (!session || !session.isActive) {
       logger.warn(`Message received for inactive session: ${sessionId}`);
       return;
     }
 
+    // The gameplay session this voice session feeds must be the same child's
+    const linkedChildId = gameplaySessionManager.getLinkedChildId(sessionId);
+    if (linkedChildId !== null && linkedChildId !== session.childId) {
+      logger.warn(`Voice session ${sessionId} of child ${session.childId} is linked to child ${linkedChildId}; closing`);
+      session.clientWs.close(VoiceCloseCode.CHILD_MISMATCH, 'Voice session linked to another child');
+      return;
+    }
+
     // Validate message structure
     const parseResult = ClientMessageSchema.safeParse(rawMessage);
     if (!parseResult.success) {
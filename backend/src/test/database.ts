@@ -0,0 +1,49 @@
+/**
+ * Test Database
+ * A migrated, empty database in the test process's temporary directory, and
+ * the therapists and students tests need in it
+ */
+
+import type Database from 'better-sqlite3';
+import { openDatabase } from '../services/database.js';
+import { migrateUp } from '../services/migrations/index.js';
+import { registerTherapist } from '../services/auth/index.js';
+import { insertStudent } from '../services/student/student.js';
+import type { Child, CreateChildRequest, Therapist } from '../types/index.js';
+
+/**
+ * Open and migrate the database behind getDatabase(), without the seed data
+ */
+export function setupTestDatabase(): Database.Database {
+  const db = openDatabase();
+  migrateUp(db);
+  return db;
+}
+
+let fixtureCount = 0;
+
+/**
+ * A therapist with their own practice organization
+ */
+export async function createTestTherapist(
+  email = `therapist${++fixtureCount}@example.com`,
+  password = 'correct horse battery'
+): Promise<Therapist> {
+  const { therapist } = await registerTherapist({ email, password, first_name: 'Test', last_name: 'Therapist' });
+  return therapist;
+}
+
+/**
+ * A student of a therapist; the password is not usable
+ */
+export function createTestStudent(
+  therapistId: number,
+  data: Partial<Omit<CreateChildRequest, 'password'>> = {}
+): Child {
+  const n = ++fixtureCount;
+  return insertStudent(
+    therapistId,
+    { username: `student${n}`, first_name: 'Student', last_name: String(n), ...data },
+    'not-a-bcrypt-hash'
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * Test Setup
+ * Loaded before every test file (see the test script in package.json)
+ *
+ * Each test file runs in its own process. The process moves to a fresh
+ * temporary directory so data/piper.db, the development encryption keyfile
+ * and the mail outbox are created there, never in the working tree, and no
+ * .env file is picked up.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'piper-test-'));
+process.chdir(dir);
+process.on('exit', () => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = 'test-secret';
+process.env.LOG_LEVEL = 'error';
+process.env.LLM_PROVIDER = 'mock';
+process.env.MAIL_DRIVER = 'file';
+process.env.RATE_LIMIT_STORE = 'memory';
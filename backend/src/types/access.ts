@@ -0,0 +1,76 @@
+/**
+ * Access Control Types
+ * Permissions and the authenticated actor behind a therapist-dashboard request
+ */
+
+import type { ValidRole } from '../config/auth.js';
+
+/**
+ * Everything a dashboard user can be allowed to do
+ */
+export type Permission =
+  | 'students:read'
+  | 'students:create'
+  | 'students:update'
+  | 'students:delete'
+  | 'students:archive'
+  | 'evaluations:read'
+  | 'evaluations:write'
+  | 'goals:read'
+  | 'goals:write'
+  | 'sessions:read'
+  | 'reports:read'
+  | 'portal:read'
+  | 'schools:read'
+  | 'schools:manage'
+  | 'members:read'
+  | 'members:manage'
+  | 'privacy:manage'
+  | 'audit:read';
+
+/**
+ * Who is calling: the therapist who owns the caseload, or one of their
+ * organization's members acting under their roles
+ */
+export type AccessActor =
+  | {
+      kind: 'therapist';
+      id: number;
+      organization_id: number;
+      session_id: string;
+    }
+  | {
+      kind: 'member';
+      id: number;
+      organization_id: number;
+      session_id: string;
+      roles: ValidRole[];
+      school_id: number | null;
+    };
+
+/**
+ * Which of an organization's students a member can reach; a student is in
+ * scope if any one of the fields that are set matches
+ */
+export interface StudentScope {
+  school_id?: number;
+  slp_id?: number;
+  linked_member_id?: number;
+}
+
+/**
+ * Whose students a caseload listing covers: a therapist's own students and
+ * those shared with them, or the students in a member's scope
+ */
+export type StudentVisibility =
+  | { therapist_id: number }
+  | { organization_id: number; scope: StudentScope };
+
+/**
+ * Returned by GET /me so the dashboard can hide what the caller cannot do
+ */
+export interface ActorPermissions {
+  kind: AccessActor['kind'];
+  roles: ValidRole[];
+  permissions: Permission[];
+}
@@ -0,0 +1,70 @@
+/**
+ * PHI Access Audit Types
+ */
+
+export type AuditActorType = 'therapist' | 'child' | 'member' | 'system';
+
+// 'erase' is the tombstone left when a student's data is purged
+export type AuditAction = 'read' | 'create' | 'update' | 'delete' | 'erase';
+
+export type AuditResourceType = 'student' | 'evaluation' | 'goal' | 'session';
+
+/**
+ * What callers record; the service fills in timestamp and hashes
+ */
+export interface AuditEvent {
+  organization_id: number | null;
+  actor_type: AuditActorType;
+  actor_id: number | null;
+  action: AuditAction;
+  resource_type: AuditResourceType;
+  resource_id: number | null;
+  student_id: number | null;
+  method: string;
+  path: string;
+  status_code: number;
+  ip: string | null;
+}
+
+export interface AuditLogEntry extends AuditEvent {
+  id: number;
+  created_at: string;
+  prev_hash: string;
+  hash: string;
+  // Resolved at query time; null once the actor or student is deleted
+  actor_name: string | null;
+  student_name: string | null;
+}
+
+export interface AuditLogQuery {
+  organization_id?: number;
+  student_id?: number;
+  actor_type?: AuditActorType;
+  actor_id?: number;
+  resource_type?: AuditResourceType;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  // Return entries with id lower than this (newest first paging)
+  before?: number;
+  limit?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  next_before: number | null;
+}
+
+export interface AuditActor {
+  actor_type: AuditActorType;
+  actor_id: number;
+  actor_name: string | null;
+  event_count: number;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  // First entry whose hash or prev_hash does not match
+  first_broken_id: number | null;
+}
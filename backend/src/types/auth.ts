@@ -1,8 +1,10 @@
 /**
  * Authentication Types
- * Types for therapist authentication
+ * Types for therapist and member authentication and auth sessions
  */
 
+import type { MemberResponse } from './member.js';
+
 export interface RegisterRequest {
   email: string;
   password: string;
@@ -20,10 +22,79 @@ export interface Therapist {
   email: string;
   first_name: string;
   last_name: string;
+  organization_id: number;
   created_at: string;
 }
 
-export interface TherapistAuthResult {
-  therapist: Therapist;
+/**
+ * Who an auth session belongs to
+ */
+export type AuthSubjectType = 'therapist' | 'child' | 'member';
+
+/**
+ * Row in auth_sessions (one per login, revoked on logout)
+ */
+export interface AuthSession {
+  id: string;
+  subject_type: AuthSubjectType;
+  subject_id: number;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+/**
+ * A signed-in device, as listed to the account's owner (or a child's therapist)
+ */
+export interface ActiveAuthSession {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  current: boolean; // The session the request was made with
+}
+
+/**
+ * Client details recorded on an auth session
+ */
+export interface AuthClientInfo {
+  user_agent?: string;
+  ip?: string;
+}
+
+/**
+ * Access token plus the refresh token that replaces it
+ */
+export interface AuthTokens {
   token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
+export interface TherapistAuthResult extends AuthTokens {
+  therapist: Therapist;
+}
+
+export interface MemberAuthResult extends AuthTokens {
+  member: MemberResponse;
+}
+
+/**
+ * Accounts that are locked after repeated failed logins
+ */
+export type LockableSubjectType = Extract<AuthSubjectType, 'therapist' | 'member' | 'child'>;
+
+/**
+ * Accounts that can reset a forgotten password by email
+ * (children's passwords are reset by their therapist)
+ */
+export type PasswordResetSubjectType = Extract<AuthSubjectType, 'therapist' | 'member'>;
+
+export interface PasswordResetSubject {
+  subject_type: PasswordResetSubjectType;
+  subject_id: number;
 }
@@ -0,0 +1,41 @@
+/**
+ * Backup and Restore Types
+ */
+
+export interface BackupFileEntry {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * manifest.json stored at the root of every backup archive
+ */
+export interface BackupManifest {
+  format_version: number;
+  created_at: string;
+  schema_version: number;
+  document_store: string;
+  files: BackupFileEntry[];
+  // Document references that could not be read when the backup was taken
+  missing_documents: string[];
+}
+
+export interface BackupInfo {
+  file_name: string;
+  path: string;
+  size: number;
+  sha256: string;
+  created_at: string;
+  document_count?: number;
+  missing_documents?: string[];
+}
+
+export interface RestoreResult {
+  data_dir: string;
+  schema_version: number;
+  document_count: number;
+  unresolved_documents: string[];
+  // References the backup itself recorded as missing; restored as they are
+  missing_documents: string[];
+}
@@ -0,0 +1,50 @@
+/**
+ * Child Login Types
+ * Picture passwords and printable QR badges for children who cannot type a password
+ */
+
+import type { PictureIconId } from '@shared/picture-passwords';
+
+export type { PictureIconId };
+
+/**
+ * Whether a picture password is set (the sequence itself is only shown when generated)
+ */
+export interface PicturePasswordStatus {
+  created_at: string;
+}
+
+/**
+ * Row in child_login_badges; the token itself is only returned when the badge is issued
+ */
+export interface ChildLoginBadge {
+  id: number;
+  child_id: number;
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface ChildLoginMethods {
+  picture_password: PicturePasswordStatus | null;
+  badges: ChildLoginBadge[];
+  // Set while too many wrong passwords or pictures have locked the account
+  locked_until: string | null;
+}
+
+export interface IssuedPicturePassword {
+  pictures: PictureIconId[];
+}
+
+export interface IssuedLoginBadge {
+  badge: ChildLoginBadge;
+  token: string;
+  login_url: string;
+  qr_svg: string;
+}
+
+export interface PictureLoginRequest {
+  username: string;
+  pictures: PictureIconId[];
+}
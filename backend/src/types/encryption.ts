@@ -0,0 +1,45 @@
+/**
+ * Encryption Types
+ */
+
+/**
+ * Columns whose values are stored as encrypted envelopes
+ */
+export type EncryptedFieldName =
+  | 'children.eval_data'
+  | 'iep_goals.comments'
+  | 'session_responses.child_response'
+  | 'therapist_two_factor.secret';
+
+/**
+ * On-disk keyfile format (ENCRYPTION_KEYFILE)
+ */
+export interface EncryptionKeyfile {
+  active: string;
+  keys: Record<string, string>;
+}
+
+/**
+ * How many values of a field (or documents) are plaintext or under each KEK
+ */
+export interface EncryptionCoverage {
+  name: string;
+  total: number;
+  plaintext: number;
+  by_key: Record<string, number>;
+}
+
+export interface EncryptionStatus {
+  active_key: string;
+  available_keys: string[];
+  fields: EncryptionCoverage[];
+  documents: EncryptionCoverage;
+}
+
+export interface EncryptionRotationResult {
+  encrypted: number;
+  rewrapped: number;
+  unchanged: number;
+  missing: number;
+  failed: number;
+}
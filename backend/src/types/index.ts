@@ -9,8 +9,27 @@ export type {
   LoginRequest,
   Therapist,
   TherapistAuthResult,
+  MemberAuthResult,
+  AuthSubjectType,
+  AuthSession,
+  ActiveAuthSession,
+  AuthClientInfo,
+  AuthTokens,
+  LockableSubjectType,
+  PasswordResetSubjectType,
+  PasswordResetSubject,
 } from './auth.js';
 
+// Two-factor authentication types
+export type {
+  TwoFactorChallengePurpose,
+  TwoFactorChallenge,
+  TherapistLoginResult,
+  TwoFactorStatus,
+  TwoFactorSetup,
+  TwoFactorRecoveryCodes,
+} from './two-factor.js';
+
 // Student/Child types
 export type {
   EvalData,
@@ -19,8 +38,44 @@ export type {
   ChildAuthResult,
   CreateChildRequest,
   UpdateChildRequest,
+  ArchiveChildRequest,
+  StudentStatusFilter,
+  StudentListFilter,
+  StudentSort,
+  StudentListQuery,
+  StudentPage,
 } from './student.js';
 
+// Student import types
+export type {
+  StudentImportField,
+  StudentImportMapping,
+  StudentImportRow,
+  StudentImportPreview,
+  StudentImportCredential,
+  StudentImportResult,
+} from './student-import.js';
+
+// Student sharing types
+export type {
+  StudentShareAccess,
+  StudentShare,
+  StudentTransfer,
+  ShareStudentRequest,
+  TransferStudentRequest,
+} from './student-sharing.js';
+
+// Child login types (picture passwords and QR badges)
+export type {
+  PictureIconId,
+  PicturePasswordStatus,
+  ChildLoginBadge,
+  ChildLoginMethods,
+  IssuedPicturePassword,
+  IssuedLoginBadge,
+  PictureLoginRequest,
+} from './child-login.js';
+
 // Evaluation types
 export type {
   ExtractedField,
@@ -65,12 +120,51 @@ export type {
 } from './voice.js';
 
 // Voice validation schemas
-export { ClientMessageSchema, CardContextSchema } from './voice.js';
+export { ClientMessageSchema, CardContextSchema, VoiceAuthMessageSchema, VoiceCloseCode } from './voice.js';
+
+// Organization types
+export type { Organization } from './organization.js';
+
+// Access control types
+export type { Permission, AccessActor, StudentScope, StudentVisibility, ActorPermissions } from './access.js';
+
+// Report types
+export type { SchoolReportStudent, SchoolReport } from './report.js';
+
+// Service minutes types
+export type {
+  ServicePeriod,
+  ServiceMandate,
+  ServiceLog,
+  CreateServiceLogRequest,
+  ServiceLedgerEntry,
+  ServicePeriodStatus,
+  ServicePeriodSummary,
+  ServiceLedger,
+  ServiceComplianceStatus,
+  ServiceComplianceStudent,
+  ServiceComplianceOverview,
+} from './service-minutes.js';
+
+// Parent portal types
+export type {
+  ScheduledSession,
+  CreateScheduledSessionRequest,
+  ParentSharingSettings,
+  UpdateParentSharingRequest,
+  ParentChild,
+  ParentSessionSummary,
+  ParentGoalProgress,
+  HomePracticeSuggestion,
+  ParentProgressView,
+} from './parent-portal.js';
 
 // Member and School types
 export type {
   Member,
   MemberResponse,
+  MemberInviteStatus,
+  MemberInviteDetails,
   CreateMemberRequest,
   UpdateMemberRequest,
   School,
@@ -78,12 +172,93 @@ export type {
   UpdateSchoolRequest,
 } from './member.js';
 
+// Migration types
+export type {
+  Migration,
+  AppliedMigration,
+  MigrationStatus,
+} from './migration.js';
+
+// Document storage types
+export type {
+  DocumentStoreDriver,
+  DocumentStore,
+  DocumentMigrationResult,
+} from './storage.js';
+
+// Mail types
+export type { MailDriverName, MailMessage, Mailer } from './mail.js';
+
+// Rate limit types
+export type { RateLimitStoreDriver, RateLimitCounter, RateLimitStore } from './rate-limit.js';
+
+// LLM provider types
+export type {
+  LLMProviderName,
+  LLMModelTier,
+  LLMTask,
+  LLMContentPart,
+  LLMMessage,
+  LLMChatRequest,
+  LLMChatResponse,
+  LLMProvider,
+} from './llm.js';
+
+// Metrics types
+export type { MetricType, MetricLabels } from './metrics.js';
+
+// Logging types
+export type { LogLevel, LogFormat, LogFields } from './logging.js';
+
+// Backup types
+export type {
+  BackupFileEntry,
+  BackupManifest,
+  BackupInfo,
+  RestoreResult,
+} from './backup.js';
+
+// Encryption types
+export type {
+  EncryptedFieldName,
+  EncryptionKeyfile,
+  EncryptionCoverage,
+  EncryptionStatus,
+  EncryptionRotationResult,
+} from './encryption.js';
+
+// Student data export and erasure types
+export type {
+  StudentExportDocument,
+  StudentExportBundle,
+  ErasureRequestStatus,
+  ErasureRequest,
+} from './privacy.js';
+
+// Audit log types
+export type {
+  AuditActorType,
+  AuditAction,
+  AuditResourceType,
+  AuditEvent,
+  AuditLogEntry,
+  AuditLogQuery,
+  AuditLogPage,
+  AuditActor,
+  AuditChainVerification,
+} from './audit.js';
+
 // Express extensions
+import type { AccessActor } from './access.js';
+
 declare global {
   namespace Express {
     interface Request {
-      therapist?: { therapist_id: number };
-      child?: { child_id: number };
+      therapist?: { therapist_id: number; organization_id: number; session_id: string };
+      member?: { member_id: number; organization_id: number; session_id: string };
+      // Set by authenticate for therapists and members alike
+      actor?: AccessActor;
+      child?: { child_id: number; session_id: string };
     }
   }
 }
@@ -0,0 +1,58 @@
+/**
+ * LLM Provider Types
+ */
+
+export type LLMProviderName = 'openai' | 'mock';
+
+/**
+ * Model tier a caller asks for; each provider maps it to a concrete model
+ * - fast: short classification calls (answer check, signal detection)
+ * - smart: generation and document extraction (vision)
+ */
+export type LLMModelTier = 'fast' | 'smart';
+
+/**
+ * What a call is for. The mock provider uses it to pick a fixture or rule.
+ */
+export type LLMTask =
+  | 'answer-check'
+  | 'signal-detection'
+  | 'response-generation'
+  | 'evaluation-extraction'
+  | 'goal-extraction';
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; url: string; detail?: 'low' | 'high' | 'auto' };
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | LLMContentPart[];
+}
+
+export interface LLMChatRequest {
+  task: LLMTask;
+  model: LLMModelTier;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  /** Ask for a single JSON object as the response */
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMChatResponse {
+  /** Response text ('' if the model returned nothing) */
+  content: string;
+  /** Concrete model that produced the response */
+  model: string;
+}
+
+/**
+ * Chat-completion backend used by the safety gate and PDF extraction
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+}
@@ -0,0 +1,17 @@
+/**
+ * Logging Types
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * json: one JSON object per line (production)
+ * pretty: `[LEVEL] message key=value` lines (development)
+ */
+export type LogFormat = 'json' | 'pretty';
+
+/**
+ * Fields attached to every entry written in a context, e.g.
+ * request_id, correlation_id, voice_session_id, gameplay_session_id, child_id
+ */
+export type LogFields = Record<string, unknown>;
@@ -0,0 +1,22 @@
+/**
+ * Mail Types
+ */
+
+export type MailDriverName = 'smtp' | 'file' | 'console';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Outgoing mail transport (password reset links, notifications)
+ */
+export interface Mailer {
+  readonly driver: MailDriverName;
+
+  /** Deliver a message; rejects if the transport refused it */
+  send(message: MailMessage): Promise<void>;
+}
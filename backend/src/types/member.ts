@@ -10,24 +10,51 @@ import type { ValidRole } from '../config/auth.js';
 
 export interface Member {
   id: number;
+  organization_id: number;
   name: string;
   email: string;
   roles: string; // JSON string in DB
   school_id: number | null;
   created_at: string;
+  activated_at: string | null; // Null until the member accepts their invite
   school_name?: string | null;
 }
 
 export interface MemberResponse extends Omit<Member, 'roles'> {
   roles: ValidRole[];
+  student_ids: number[]; // Children a Parent/Student member is linked to
+  invite: MemberInviteStatus | null; // Set while the member has not accepted their invite
 }
 
+/**
+ * The outstanding invite of a pending member
+ */
+export interface MemberInviteStatus {
+  sent_at: string;
+  expires_at: string;
+  expired: boolean;
+}
+
+/**
+ * What the invitee sees on the accept-invite page before choosing a password
+ */
+export interface MemberInviteDetails {
+  name: string;
+  email: string;
+  roles: ValidRole[];
+  organization_name: string;
+  expires_at: string;
+}
+
+/**
+ * New members are invited: they choose their own password from the emailed link
+ */
 export interface CreateMemberRequest {
   name: string;
   email: string;
-  password: string;
   roles: ValidRole[];
   school_id?: number | null;
+  student_ids?: number[];
 }
 
 export interface UpdateMemberRequest {
@@ -36,6 +63,7 @@ export interface UpdateMemberRequest {
   password?: string;
   roles?: ValidRole[];
   school_id?: number | null;
+  student_ids?: number[];
 }
 
 // =============================================================================
@@ -44,6 +72,7 @@ export interface UpdateMemberRequest {
 
 export interface School {
   id: number;
+  organization_id: number;
   name: string;
   contact_name: string | null;
   contact_email: string | null;
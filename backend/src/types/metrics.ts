@@ -0,0 +1,10 @@
+/**
+ * Metrics Types
+ */
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Label values keyed by label name
+ */
+export type MetricLabels = Record<string, string | number>;
@@ -0,0 +1,29 @@
+/**
+ * Migration Types
+ * Types for the versioned schema migration system
+ */
+
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+  down: (db: Database.Database) => void;
+  // Table rebuilds (changing CHECK constraints, renaming columns) need
+  // foreign key enforcement switched off while the old table is swapped out
+  disableForeignKeys?: boolean;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  applied_at: string | null;
+}
@@ -0,0 +1,10 @@
+/**
+ * Organization Types
+ * An organization is a therapist's practice; schools and members belong to one
+ */
+
+export interface Organization {
+  id: number;
+  name: string;
+  created_at: string;
+}
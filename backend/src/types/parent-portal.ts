@@ -0,0 +1,89 @@
+/**
+ * Parent Portal Types
+ * Read-only progress view for Parent members and the therapist's sharing choices
+ */
+
+import type { GoalType } from './goal.js';
+import type { EvalData } from './student.js';
+
+export interface ScheduledSession {
+  id: number;
+  student_id: number;
+  scheduled_for: string;
+  duration_minutes: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface CreateScheduledSessionRequest {
+  scheduled_for: string;
+  duration_minutes?: number;
+  notes?: string;
+}
+
+/**
+ * What parents see beyond the default progress view. Everything is off until
+ * the therapist turns it on.
+ */
+export interface ParentSharingSettings {
+  student_id: number;
+  share_eval_data: boolean;
+  share_safety_signals: boolean;
+  home_practice_note: string | null;
+  updated_at: string | null;
+}
+
+export interface UpdateParentSharingRequest {
+  share_eval_data?: boolean;
+  share_safety_signals?: boolean;
+  home_practice_note?: string | null;
+}
+
+export interface ParentChild {
+  id: number;
+  first_name: string;
+  last_name: string;
+  grade_level: string | null;
+}
+
+export interface ParentSessionSummary {
+  id: number;
+  started_at: string;
+  ended_at: string | null;
+  minutes: number;
+  cards_practiced: number;
+  correct_responses: number;
+  accuracy: number | null; // Percentage of correct responses, null before any cards
+  categories: string[];
+  safety_signals?: string[]; // Only when the therapist shares safety signals
+}
+
+export interface ParentGoalProgress {
+  id: number;
+  goal_type: GoalType;
+  goal_description: string;
+  target_percentage: number;
+  current_percentage: number;
+  target_date: string | null;
+  status: 'active' | 'achieved' | 'discontinued';
+}
+
+export interface HomePracticeSuggestion {
+  category: string;
+  reason: 'goal' | 'needs_practice';
+  accuracy: number | null; // Recent accuracy in the category, null if not practiced lately
+  suggestion: string;
+}
+
+export interface ParentProgressView {
+  child: ParentChild;
+  upcoming_sessions: ScheduledSession[];
+  recent_sessions: ParentSessionSummary[];
+  goals: ParentGoalProgress[];
+  home_practice: {
+    note: string | null;
+    suggestions: HomePracticeSuggestion[];
+  };
+  eval_data?: EvalData | null; // Only when the therapist shares evaluation details
+  generated_at: string;
+}
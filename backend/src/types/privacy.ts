@@ -0,0 +1,61 @@
+/**
+ * Student Data Export and Erasure Types
+ */
+
+import type { Child, EvalData } from './student.js';
+import type { IEPGoal, Objective } from './goal.js';
+import type { GameplaySession, SessionResponse } from './session.js';
+import type { ParentSharingSettings, ScheduledSession } from './parent-portal.js';
+import type { ChildLoginMethods } from './child-login.js';
+import type { ServiceLog } from './service-minutes.js';
+
+export interface StudentExportDocument {
+  kind: 'evaluation' | 'goals';
+  original_name: string | null;
+  uploaded_at: string | null;
+  // Path inside the zip, null if the stored file could not be read
+  file: string | null;
+}
+
+/**
+ * student.json at the root of an export zip
+ */
+export interface StudentExportBundle {
+  format_version: number;
+  exported_at: string;
+  student: Omit<Child, 'eval_data' | 'eval_pdf_path' | 'goals_pdf_path'> & {
+    eval_data: EvalData | null;
+  };
+  goals: (Omit<IEPGoal, 'boardgame_categories' | 'objectives'> & {
+    boardgame_categories: string[];
+    objectives: Objective[];
+  })[];
+  sessions: (Omit<GameplaySession, 'categories_selected'> & {
+    categories_selected: string[];
+    responses: (Omit<SessionResponse, 'signals_detected'> & { signals_detected: string[] })[];
+  })[];
+  calibration: Record<string, unknown> | null;
+  scheduled_sessions: ScheduledSession[];
+  service_logs: ServiceLog[];
+  parent_sharing: ParentSharingSettings;
+  // Picture password status and active badges; never the sequences or tokens
+  login_methods: ChildLoginMethods;
+  documents: StudentExportDocument[];
+}
+
+export type ErasureRequestStatus = 'pending' | 'cancelled' | 'completed';
+
+export interface ErasureRequest {
+  id: number;
+  student_id: number;
+  organization_id: number;
+  requested_by: number;
+  status: ErasureRequestStatus;
+  requested_at: string;
+  expires_at: string;
+  resolved_by: number | null;
+  resolved_at: string | null;
+  purged_rows: number | null;
+  purged_documents: number | null; // Files actually deleted
+  missing_documents: string[] | null; // Kinds ('evaluations', 'goals') referenced but already gone
+}
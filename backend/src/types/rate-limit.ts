@@ -0,0 +1,27 @@
+/**
+ * Rate Limit Types
+ */
+
+export type RateLimitStoreDriver = 'memory' | 'sqlite';
+
+/**
+ * Hits counted against one key in the current window
+ */
+export interface RateLimitCounter {
+  count: number;
+  /** When the window ends (ms since epoch) */
+  reset_at: number;
+}
+
+/**
+ * Where rate limit counters are kept
+ */
+export interface RateLimitStore {
+  readonly driver: RateLimitStoreDriver;
+
+  /** Count a hit against a key; a window of windowMs starts with the first hit */
+  hit(key: string, windowMs: number): Promise<RateLimitCounter>;
+
+  /** Forget a key's counter */
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,35 @@
+/**
+ * Report Types
+ * School-wide progress reports for therapists and School Admins
+ */
+
+import type { StudentStatusFilter } from './student.js';
+
+export interface SchoolReportStudent {
+  student_id: number;
+  student_name: string;
+  grade_level: string | null;
+  slp_name: string | null;
+  sessions_completed: number;
+  total_minutes: number;
+  cards_played: number;
+  correct_responses: number;
+  accuracy: number | null; // Percentage of correct responses, null before any cards
+  last_session_at: string | null;
+  discharged_on: string | null; // Set for archived (discharged) students
+}
+
+export interface SchoolReport {
+  school: { id: number; name: string };
+  from: string | null;
+  to: string | null;
+  status: StudentStatusFilter; // Which students are included: active, archived or all
+  generated_at: string;
+  totals: Omit<
+    SchoolReportStudent,
+    'student_id' | 'student_name' | 'grade_level' | 'slp_name' | 'last_session_at' | 'discharged_on'
+  > & {
+    students: number;
+  };
+  students: SchoolReportStudent[];
+}
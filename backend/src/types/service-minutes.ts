@@ -0,0 +1,99 @@
+/**
+ * Service Minutes Types
+ * IEP service-time mandates compared with the minutes actually delivered
+ */
+
+export type ServicePeriod = 'week' | 'month';
+
+/**
+ * What an IEP requires per period, parsed from the student's service
+ * frequency and session length
+ */
+export interface ServiceMandate {
+  period: ServicePeriod;
+  sessions: number | null; // Null when the IEP only gives a minutes total ("60 minutes per week")
+  minutes_per_session: number | null;
+  minutes_per_period: number;
+}
+
+/**
+ * Service delivered outside the boardgame (in person, teletherapy), logged by hand
+ */
+export interface ServiceLog {
+  id: number;
+  student_id: number;
+  delivered_on: string; // YYYY-MM-DD
+  minutes: number;
+  notes: string | null;
+  recorded_by_name: string | null;
+  created_at: string;
+}
+
+export interface CreateServiceLogRequest {
+  delivered_on: string;
+  minutes: number;
+  notes?: string;
+}
+
+export interface ServiceLedgerEntry {
+  source: 'session' | 'log';
+  id: number; // Gameplay session id or service log id
+  date: string; // YYYY-MM-DD
+  minutes: number;
+  notes: string | null;
+}
+
+/**
+ * met and under are final; in_progress is the current period while it is still short
+ */
+export type ServicePeriodStatus = 'met' | 'under' | 'in_progress' | 'no_mandate';
+
+export interface ServicePeriodSummary {
+  start: string; // YYYY-MM-DD, Monday or the 1st of the month
+  end: string; // Last day of the period
+  required_minutes: number | null;
+  delivered_minutes: number;
+  shortfall_minutes: number | null;
+  status: ServicePeriodStatus;
+}
+
+/**
+ * Per-period minutes for an IEP meeting, every session and log listed
+ */
+export interface ServiceLedger {
+  student_id: number;
+  student_name: string;
+  session_frequency: string | null;
+  session_duration_minutes: number | null;
+  mandate: ServiceMandate | null;
+  from: string;
+  to: string;
+  generated_at: string;
+  periods: (ServicePeriodSummary & { entries: ServiceLedgerEntry[] })[];
+  totals: {
+    required_minutes: number | null;
+    delivered_minutes: number;
+    shortfall_minutes: number | null;
+  };
+}
+
+/**
+ * under_served: the last full period fell short
+ * behind: the current period is short of the pace needed by today
+ */
+export type ServiceComplianceStatus = 'on_track' | 'behind' | 'under_served' | 'no_mandate';
+
+export interface ServiceComplianceStudent {
+  student_id: number;
+  student_name: string;
+  mandate: ServiceMandate | null;
+  previous_period: ServicePeriodSummary | null; // Null while the student is newer than the period
+  current_period: ServicePeriodSummary;
+  status: ServiceComplianceStatus;
+}
+
+export interface ServiceComplianceOverview {
+  generated_at: string;
+  counts: Record<ServiceComplianceStatus, number>;
+  students: ServiceComplianceStudent[]; // Under-served first, then behind, on track and no mandate
+}
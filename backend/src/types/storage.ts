@@ -0,0 +1,36 @@
+/**
+ * Document Storage Types
+ */
+
+export type DocumentStoreDriver = 'local' | 's3';
+
+/**
+ * Storage backend for uploaded documents (evaluation and goal PDFs)
+ *
+ * Keys are relative, slash-separated paths such as
+ * `evaluations/12/2b1c....pdf`; they are what gets stored in the database.
+ */
+export interface DocumentStore {
+  readonly driver: DocumentStoreDriver;
+
+  /** Write a document, replacing any existing document with the same key */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /** Read a document, or null if it does not exist */
+  get(key: string): Promise<Buffer | null>;
+
+  exists(key: string): Promise<boolean>;
+
+  /** Delete a document (no-op if it does not exist) */
+  delete(key: string): Promise<void>;
+
+  /** Keys of every document whose key starts with the prefix */
+  list(prefix: string): Promise<string[]>;
+}
+
+export interface DocumentMigrationResult {
+  migrated: number;
+  skipped: number;
+  missing: number;
+  failed: number;
+}
@@ -0,0 +1,70 @@
+/**
+ * Student Import Types
+ * Types for importing a caseload from a CSV or XLSX spreadsheet
+ */
+
+import type { Child } from './student.js';
+
+// What a spreadsheet column can fill in on the new student
+export type StudentImportField =
+  | 'first_name'
+  | 'last_name'
+  | 'date_of_birth'
+  | 'grade_level'
+  | 'problem_type'
+  | 'school'
+  | 'slp'
+  | 'username'
+  | 'password'
+  | 'session_duration_minutes'
+  | 'session_frequency';
+
+// Which column (zero-based) feeds each field; unmapped fields are left empty or generated
+export type StudentImportMapping = Partial<Record<StudentImportField, number>>;
+
+export interface StudentImportRow {
+  row: number; // Row number as shown in the spreadsheet (the header is row 1)
+  first_name: string;
+  last_name: string;
+  date_of_birth: string | null;
+  grade_level: string | null;
+  problem_type: 'language' | 'articulation' | 'both' | null;
+  school_id: number | null;
+  school_name: string | null;
+  slp_id: number | null;
+  slp_name: string | null;
+  username: string;
+  username_generated: boolean;
+  password_generated: boolean; // The password itself is only returned once the import runs
+  session_duration_minutes: number | null;
+  session_frequency: string | null;
+  errors: string[];
+}
+
+export interface StudentImportPreview {
+  headers: string[];
+  mapping: StudentImportMapping;
+  rows: StudentImportRow[];
+  valid_rows: number;
+  invalid_rows: number;
+}
+
+// One line of the printable credential sheet
+export interface StudentImportCredential {
+  row: number;
+  student_id: number;
+  first_name: string;
+  last_name: string;
+  username: string;
+  password: string;
+  grade_level: string | null;
+  school_name: string | null;
+  slp_name: string | null;
+}
+
+export interface StudentImportResult {
+  imported: number;
+  skipped: number;
+  students: Child[];
+  credentials: StudentImportCredential[];
+}
@@ -0,0 +1,35 @@
+/**
+ * Student Sharing Types
+ * Types for sharing a student with other therapists and transferring ownership
+ */
+
+// 'view' reads the student's records; 'treat' also edits them (co-treatment)
+export type StudentShareAccess = 'view' | 'treat';
+
+export interface StudentShare {
+  id: number;
+  student_id: number;
+  therapist_id: number;
+  therapist_name: string;
+  therapist_email: string;
+  access: StudentShareAccess;
+  created_at: string;
+}
+
+export interface StudentTransfer {
+  id: number;
+  student_id: number;
+  from_therapist_name: string | null; // null once that therapist's account is gone
+  to_therapist_name: string | null;
+  transferred_at: string;
+}
+
+export interface ShareStudentRequest {
+  email: string;
+  access: StudentShareAccess;
+}
+
+export interface TransferStudentRequest {
+  email: string;
+  keep_access?: StudentShareAccess; // The previous owner keeps this access after the transfer
+}
@@ -3,6 +3,9 @@
  * Types for child data and CRUD operations
  */
 
+import type { AuthTokens } from './auth.js';
+import type { StudentShareAccess } from './student-sharing.js';
+
 export interface EvalData {
   languages_spoken?: string;
   family_religion?: string;
@@ -37,7 +40,15 @@ export interface Child {
   goals_pdf_original_name?: string;
   session_duration_minutes?: number; // IEP service time: duration per session
   session_frequency?: string; // IEP service time: e.g., "2x weekly"
+  slp_id?: number | null; // Member (SLP) assigned to the student
+  school_id?: number | null;
   created_at: string;
+  archived_at?: string | null; // Set while the student is archived (discharged)
+  discharged_on?: string | null; // YYYY-MM-DD, alongside archived_at
+  archive_reason?: string | null;
+  last_session_at?: string | null; // Start of the latest gameplay session, in caseload listings
+  shared_access?: StudentShareAccess; // Set when the student is shared with the caller rather than owned
+  owner_name?: string; // The owning therapist, alongside shared_access
 }
 
 export interface ChildLoginRequest {
@@ -45,9 +56,8 @@ export interface ChildLoginRequest {
   password: string;
 }
 
-export interface ChildAuthResult {
+export interface ChildAuthResult extends AuthTokens {
   child: Child;
-  token: string;
 }
 
 export interface CreateChildRequest {
@@ -60,6 +70,51 @@ export interface CreateChildRequest {
   problem_type?: 'language' | 'articulation' | 'both';
   slp_id?: number;
   school_id?: number;
+  session_duration_minutes?: number;
+  session_frequency?: string;
+}
+
+export interface ArchiveChildRequest {
+  reason: string;
+  discharged_on?: string; // YYYY-MM-DD, today if omitted
+}
+
+/**
+ * Which students a caseload listing returns (active unless asked otherwise)
+ */
+export type StudentStatusFilter = 'active' | 'archived' | 'all';
+
+export interface StudentListFilter {
+  status?: StudentStatusFilter;
+  q?: string; // Matches first name, last name or username
+  school_id?: number;
+  slp_id?: number;
+  problem_type?: 'language' | 'articulation' | 'both';
+  grade?: string; // Exact grade level, case ignored
+  goal_status?: 'active' | 'achieved' | 'discontinued' | 'none'; // Has a goal with this status ('none': no goals)
+  last_session_from?: string; // Latest session on or after this date
+  last_session_to?: string; // Latest session on or before this date, or no session at all
+}
+
+/**
+ * Caseload order; a leading '-' sorts descending
+ */
+export type StudentSort =
+  | 'name' | '-name'
+  | 'last_name' | '-last_name'
+  | 'created_at' | '-created_at'
+  | 'last_session_at' | '-last_session_at';
+
+export interface StudentListQuery extends StudentListFilter {
+  sort?: StudentSort;
+  cursor?: string; // next_cursor of the previous page
+  limit?: number;
+}
+
+export interface StudentPage {
+  students: Child[];
+  next_cursor: string | null;
+  total: number; // Students matching the filters, across all pages
 }
 
 export interface UpdateChildRequest {
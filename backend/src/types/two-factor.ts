@@ -0,0 +1,46 @@
+/**
+ * Two-Factor Authentication Types
+ * TOTP codes and recovery codes as a second login step for therapists
+ */
+
+import type { TherapistAuthResult } from './auth.js';
+
+/**
+ * What a login challenge is waiting for: a code from an enrolled
+ * authenticator, or enrollment because the organization requires two-factor
+ */
+export type TwoFactorChallengePurpose = 'verify' | 'enroll';
+
+/**
+ * Returned by POST /login instead of tokens when a second step is needed
+ */
+export interface TwoFactorChallenge {
+  two_factor: TwoFactorChallengePurpose;
+  challenge_token: string;
+  expires_in: number;
+}
+
+export type TherapistLoginResult = TherapistAuthResult | TwoFactorChallenge;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+  required_by_organization: boolean;
+}
+
+/**
+ * A new authenticator secret awaiting confirmation; only returned when created
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_svg: string;
+}
+
+/**
+ * Recovery codes are only shown when generated; afterwards only hashes are kept
+ */
+export interface TwoFactorRecoveryCodes {
+  recovery_codes: string[];
+}
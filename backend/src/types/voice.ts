@@ -56,6 +56,27 @@ export const ClientMessageSchema = z.object({
 // Derive type from schema (single source of truth)
 export type ClientMessage = z.infer<typeof ClientMessageSchema>;
 
+// First message on /api/voice when the token is not passed as ?token=
+export const VoiceAuthMessageSchema = z.object({
+  type: z.literal('auth'),
+  token: z.string().min(1),
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CLOSE CODES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const VoiceCloseCode = {
+  // No token in the query string or first message
+  AUTH_REQUIRED: 4001,
+  // Token invalid, expired or revoked
+  INVALID_TOKEN: 4002,
+  // Voice session linked to another child's gameplay session
+  CHILD_MISMATCH: 4003,
+  // No auth message before the handshake timeout
+  AUTH_TIMEOUT: 4008,
+} as const;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // SERVER MESSAGE TYPES
 // ─────────────────────────────────────────────────────────────────────────────
@@ -1,9 +1,111 @@
-export const logger = {
-  debug: (...args: unknown[]) => {}, // Silent by default, enable for verbose logging
-  info: (...args: unknown[]) => console.log('[INFO]', ...args),
-  warn: (...args: unknown[]) => console.warn('[WARN]', ...args),
-  error: (...args: unknown[]) => console.error('[ERROR]', ...args),
-};
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import util from 'util';
+import { config } from '../config/index.js';
+import type { LogLevel, LogFields } from '../types/index.js';
+
+// ============================================
+// STRUCTURED LOGGER
+// Levels from LOG_LEVEL, JSON lines or pretty text from LOG_FORMAT.
+// Fields bound with runWithLogContext/bindLogContext are added to every entry
+// written in that async context (HTTP request, WebSocket message, ...).
+// ============================================
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const contextStorage = new AsyncLocalStorage<LogFields>();
+
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+  /** Logger that adds `fields` to every entry */
+  child(fields: LogFields): Logger;
+}
+
+/**
+ * Run `fn` with `fields` added to the current log context
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn);
+}
+
+/**
+ * Add fields to the current log context (no-op outside runWithLogContext)
+ */
+export function bindLogContext(fields: LogFields): void {
+  const store = contextStorage.getStore();
+  if (store) {
+    Object.assign(store, fields);
+  }
+}
+
+export function getLogContext(): LogFields {
+  return { ...contextStorage.getStore() };
+}
+
+export function newCorrelationId(): string {
+  return crypto.randomUUID();
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+function formatPrettyFields(fields: LogFields, color: boolean): string {
+  const parts = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : String(value)}`);
+  if (parts.length === 0) {
+    return '';
+  }
+  return color ? `\x1b[90m${parts.join(' ')}\x1b[0m` : parts.join(' ');
+}
+
+function write(level: LogLevel, bound: LogFields, args: unknown[]): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[config.logging.level]) {
+    return;
+  }
+
+  const fields = { ...contextStorage.getStore(), ...bound };
+  const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+
+  if (config.logging.format === 'pretty') {
+    const context = formatPrettyFields(fields, stream.isTTY === true);
+    const line = util.format(`[${level.toUpperCase()}]`, ...args);
+    stream.write(context ? `${line} ${context}\n` : `${line}\n`);
+    return;
+  }
+
+  const errors = args.filter((arg): arg is Error => arg instanceof Error);
+  const message = util.formatWithOptions(
+    { breakLength: Infinity, depth: 4 },
+    ...args.filter((arg) => !(arg instanceof Error))
+  );
+  const entry: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    msg: message.replace(/:\s*$/, ''),
+    ...fields,
+  };
+  if (errors.length > 0) {
+    entry.error = serializeError(errors[0]);
+  }
+  stream.write(`${JSON.stringify(entry)}\n`);
+}
+
+function createLogger(bound: LogFields): Logger {
+  return {
+    debug: (...args: unknown[]) => write('debug', bound, args),
+    info: (...args: unknown[]) => write('info', bound, args),
+    warn: (...args: unknown[]) => write('warn', bound, args),
+    error: (...args: unknown[]) => write('error', bound, args),
+    child: (fields: LogFields) => createLogger({ ...bound, ...fields }),
+  };
+}
+
+export const logger: Logger = createLogger({});
 
 // ============================================
 // PIPELINE FLOW LOGGER
@@ -92,6 +194,12 @@ export const pipelineLogger = {
    * Shows all steps: Event → Signals → State → Level → Interventions → Config → LLM → UIPackage
    */
   logFlow(data: PipelineFlowData): void {
+    // The colored printout is for reading a dev console; JSON logs get one structured entry
+    if (config.logging.format === 'json') {
+      logger.child({ pipeline: data }).info('Safety-gate pipeline flow');
+      return;
+    }
+
     const C = {
       reset: '\x1b[0m',
       bold: '\x1b[1m',
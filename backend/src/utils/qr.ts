@@ -0,0 +1,454 @@
+/**
+ * QR Code Renderer
+ *
+ * Encodes a short string (a badge login URL, an authenticator setup URI) as a
+ * QR code and renders it as SVG. Only what those need is implemented: byte
+ * mode, error correction level M and versions 1-10 (up to 213 bytes), which
+ * keeps a QR library out of the dependency tree.
+ */
+
+// Level M tables, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+const MAX_VERSION = 10;
+
+// Format bits for level M
+const ECC_FORMAT_BITS = 0;
+
+// Modules of blank border required around the symbol
+const QUIET_ZONE = 4;
+
+type Grid = boolean[][];
+
+interface QrMatrix {
+  size: number;
+  modules: Grid;
+  isFunction: Grid;
+}
+
+// ============================================
+// REED-SOLOMON
+// ============================================
+
+/**
+ * Multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+ */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// ============================================
+// CODEWORDS
+// ============================================
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function dataCodewords(version: number): number {
+  return Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+}
+
+/**
+ * Mode indicator, length and data, padded to the version's capacity
+ */
+function encodeData(bytes: Buffer, version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number): void => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  for (const byte of bytes) {
+    append(byte, 8);
+  }
+
+  const capacityBits = dataCodewords(version) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+/**
+ * Split data into blocks, append each block's error correction and interleave
+ */
+function addErrorCorrection(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) {
+      block.push(0);
+    }
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte added to short blocks
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+// ============================================
+// MATRIX
+// ============================================
+
+function setFunctionModule(matrix: QrMatrix, x: number, y: number, dark: boolean): void {
+  matrix.modules[y][x] = dark;
+  matrix.isFunction[y][x] = true;
+}
+
+function alignmentPatternPositions(version: number, size: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < numAlign; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+function drawFormatBits(matrix: QrMatrix, mask: number): void {
+  const data = (ECC_FORMAT_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number): boolean => ((bits >>> i) & 1) !== 0;
+  const { size } = matrix;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) {
+    setFunctionModule(matrix, 8, i, bit(i));
+  }
+  setFunctionModule(matrix, 8, 7, bit(6));
+  setFunctionModule(matrix, 8, 8, bit(7));
+  setFunctionModule(matrix, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) {
+    setFunctionModule(matrix, 14 - i, 8, bit(i));
+  }
+
+  // Split between the other two finders
+  for (let i = 0; i < 8; i++) {
+    setFunctionModule(matrix, size - 1 - i, 8, bit(i));
+  }
+  for (let i = 8; i < 15; i++) {
+    setFunctionModule(matrix, 8, size - 15 + i, bit(i));
+  }
+  setFunctionModule(matrix, 8, size - 8, true);
+}
+
+function drawVersionBits(matrix: QrMatrix, version: number): void {
+  if (version < 7) {
+    return;
+  }
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  const bits = (version << 12) | remainder;
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) !== 0;
+    const a = matrix.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(matrix, a, b, dark);
+    setFunctionModule(matrix, b, a, dark);
+  }
+}
+
+function drawFunctionPatterns(matrix: QrMatrix, version: number): void {
+  const { size } = matrix;
+
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(matrix, 6, i, i % 2 === 0);
+    setFunctionModule(matrix, i, 6, i % 2 === 0);
+  }
+
+  // Finders (with their separators)
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunctionModule(matrix, x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  const positions = alignmentPatternPositions(version, size);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      // The three corners already hold finders
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+        return;
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(matrix, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format areas; the real bits are drawn once the mask is chosen
+  drawFormatBits(matrix, 0);
+  drawVersionBits(matrix, version);
+}
+
+/**
+ * Place codewords in the zigzag column pairs, right to left
+ */
+function drawCodewords(matrix: QrMatrix, codewords: number[]): void {
+  const { size } = matrix;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) {
+      right = 5;
+    }
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!matrix.isFunction[y][x] && i < codewords.length * 8) {
+          matrix.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * XOR a mask over the data modules (applying it twice undoes it)
+ */
+function applyMask(matrix: QrMatrix, mask: number): void {
+  for (let y = 0; y < matrix.size; y++) {
+    for (let x = 0; x < matrix.size; x++) {
+      if (!matrix.isFunction[y][x] && MASKS[mask](x, y)) {
+        matrix.modules[y][x] = !matrix.modules[y][x];
+      }
+    }
+  }
+}
+
+// ============================================
+// MASK SELECTION
+// ============================================
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+function linePenalty(line: boolean[]): number {
+  let penalty = 0;
+
+  // Runs of five or more modules of one color
+  let runLength = 1;
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      runLength++;
+      continue;
+    }
+    if (runLength >= 5) {
+      penalty += runLength - 2;
+    }
+    runLength = 1;
+  }
+
+  // Patterns that look like a finder (1:1:3:1:1 next to four light modules)
+  for (let i = 0; i + 11 <= line.length; i++) {
+    if (FINDER_LIKE.some((pattern) => pattern.every((dark, k) => line[i + k] === dark))) {
+      penalty += 40;
+    }
+  }
+
+  return penalty;
+}
+
+/**
+ * Penalty score from the standard's four rules; the lowest-scoring mask is used
+ */
+function maskPenalty(matrix: QrMatrix): number {
+  const { size, modules } = matrix;
+  let penalty = 0;
+
+  for (let i = 0; i < size; i++) {
+    penalty += linePenalty(modules[i]);
+    penalty += linePenalty(modules.map((row) => row[i]));
+  }
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) {
+        dark++;
+      }
+      const color = modules[y][x];
+      if (x + 1 < size && y + 1 < size &&
+          modules[y][x + 1] === color && modules[y + 1][x] === color && modules[y + 1][x + 1] === color) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const percentDark = (dark * 100) / (size * size);
+  penalty += Math.floor(Math.abs(percentDark - 50) / 5) * 10;
+
+  return penalty;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Encode text as a QR matrix (true = dark), picking the smallest version that fits
+ */
+export function encodeQrCode(text: string): boolean[][] {
+  const bytes = Buffer.from(text, 'utf-8');
+
+  let version = 1;
+  while (version <= MAX_VERSION && dataCodewords(version) < bytes.length + (version < 10 ? 2 : 3)) {
+    version++;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error('Text is too long for a QR code');
+  }
+
+  const size = version * 4 + 17;
+  const grid = (): Grid => Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const matrix: QrMatrix = { size, modules: grid(), isFunction: grid() };
+
+  drawFunctionPatterns(matrix, version);
+  drawCodewords(matrix, addErrorCorrection(encodeData(bytes, version), version));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(matrix, mask);
+    drawFormatBits(matrix, mask);
+    const penalty = maskPenalty(matrix);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(matrix, mask);
+  }
+
+  applyMask(matrix, bestMask);
+  drawFormatBits(matrix, bestMask);
+  return matrix.modules;
+}
+
+/**
+ * Render text as a QR code SVG (one unit per module, scaled by the viewer)
+ */
+export function renderQrSvg(text: string): string {
+  const modules = encodeQrCode(text);
+  const size = modules.length + QUIET_ZONE * 2;
+
+  let path = '';
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {
+        path += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      }
+    });
+  });
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/>` +
+    `<path d="${path}" fill="#000"/>` +
+    '</svg>'
+  );
+}
@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, readSpreadsheet } from './spreadsheet.js';
+
+/**
+ * A ZIP archive of uncompressed files (the reader does not check CRCs)
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = Buffer.from(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+function workbook(sheetData: string, sharedStrings?: string): Buffer {
+  return zip({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Caseload" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels':
+      '<Relationships><Relationship Id="rId1" Target="worksheets/caseload.xml"/></Relationships>',
+    'xl/worksheets/caseload.xml': `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`,
+    ...(sharedStrings !== undefined && { 'xl/sharedStrings.xml': `<sst>${sharedStrings}</sst>` }),
+  });
+}
+
+test('CSV fields may be quoted, contain the delimiter, quotes and line breaks', () => {
+  const csv = 'first_name,notes\r\n"Ava","likes ""trains"", dogs\nand cats"\r\nBen,\n';
+  assert.deepEqual(parseCsv(Buffer.from(csv)), [
+    ['first_name', 'notes'],
+    ['Ava', 'likes "trains", dogs\nand cats'],
+    ['Ben', ''],
+  ]);
+});
+
+test('the CSV delimiter is taken from the header line', () => {
+  assert.deepEqual(parseCsv(Buffer.from('a;b;c\n1,5;2;3')), [['a', 'b', 'c'], ['1,5', '2', '3']]);
+  assert.deepEqual(parseCsv(Buffer.from('a\tb\n1\t2')), [['a', 'b'], ['1', '2']]);
+});
+
+test('CSV text may be UTF-8 with a byte order mark or UTF-16', () => {
+  assert.deepEqual(parseCsv(Buffer.from('\uFEFFnom,école\n')), [['nom', 'école']]);
+  const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('name,grade\nZoë,2\n', 'utf16le')]);
+  assert.deepEqual(parseCsv(utf16), [['name', 'grade'], ['Zoë', '2']]);
+});
+
+test('an XLSX sheet reads shared, inline, boolean and number cells in place', () => {
+  const rows = readSpreadsheet(workbook(
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+    '<row r="3"><c r="A3" t="inlineStr"><is><t>Tom &amp; Jerry</t></is></c>' +
+    '<c r="B3" t="b"><v>1</v></c><c r="C3"><v>7.5</v></c></row>' +
+    '<row r="4"/>',
+    '<si><t>name</t></si><si><r><t>gra</t></r><r><t>de</t></r><rPh><t>x</t></rPh></si>'
+  ));
+
+  assert.deepEqual(rows, [
+    ['name', '', 'grade'],
+    [],
+    ['Tom & Jerry', 'TRUE', '7.5'],
+  ]);
+});
+
+test('an XLSX cell beyond the last Excel column is refused as damaged', () => {
+  for (const ref of ['ZZZZZZZ1', 'XFE1']) {
+    assert.throws(
+      () => readSpreadsheet(workbook(`<row r="1"><c r="${ref}" t="inlineStr"><is><t>x</t></is></c></row>`)),
+      /The spreadsheet file is damaged/,
+      ref
+    );
+  }
+
+  const last = readSpreadsheet(workbook('<row r="1"><c r="XFD1"><v>1</v></c></row>'));
+  assert.equal(last[0].length, 16384);
+});
+
+test('an XLSX sheet claiming too many rows is refused', () => {
+  assert.throws(
+    () => readSpreadsheet(workbook('<row r="10001"><c r="A10001"><v>1</v></c></row>')),
+    /more than 10000 rows/
+  );
+});
+
+test('truncated archives and old .xls files are refused', () => {
+  const archive = workbook('<row r="1"><c r="A1"><v>1</v></c></row>');
+  assert.throws(() => readSpreadsheet(archive.subarray(0, archive.length - 30)), /The spreadsheet file is damaged/);
+  assert.throws(
+    () => readSpreadsheet(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])),
+    /Old \.xls files are not supported/
+  );
+});
+
+test('blank rows at the end are dropped', () => {
+  assert.deepEqual(readSpreadsheet(Buffer.from('a,b\n1,2\n,\n \n')), [['a', 'b'], ['1', '2']]);
+});
@@ -0,0 +1,294 @@
+/**
+ * Spreadsheet Reader
+ *
+ * Reads the first sheet of an uploaded CSV or XLSX file into rows of cell
+ * text. Only what a caseload import needs is implemented: delimited text
+ * (comma, semicolon or tab, UTF-8 or UTF-16) and the cell values of an Excel
+ * workbook (no formulas, formatting or dates beyond the stored number), which
+ * keeps a spreadsheet library out of the dependency tree.
+ */
+
+import zlib from 'zlib';
+
+// Unpacked workbook parts larger than this are refused (zip bombs)
+const MAX_XLSX_PART_BYTES = 50 * 1024 * 1024;
+
+// Sheets claiming more rows than this are refused rather than padded out
+const MAX_XLSX_ROWS = 10000;
+
+// Excel's own limit (column XFD); cells further right mean the file is corrupt
+const MAX_XLSX_COLUMNS = 16384;
+
+export type SpreadsheetRows = string[][];
+
+// ============================================
+// CSV
+// ============================================
+
+function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return buffer.subarray(2).toString('utf16le');
+  }
+  const text = buffer.toString('utf8');
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Pick the delimiter that splits the header line into the most columns
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of [',', ';', '\t']) {
+    const count = firstLine.split(delimiter).length;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse delimited text (RFC 4180 quoting)
+ */
+export function parseCsv(buffer: Buffer): SpreadsheetRows {
+  const text = decodeText(buffer);
+  const delimiter = detectDelimiter(text);
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+/**
+ * Unpack every file of a ZIP archive, keyed by path
+ */
+function readZip(buffer: Buffer): Map<string, () => Buffer> {
+  // The end of central directory record sits in the last 64 KB (after an optional comment)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('The spreadsheet file is damaged');
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let n = 0; n < count; n++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('The spreadsheet file is damaged');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, () => {
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        return data;
+      }
+      if (method === 8) {
+        return zlib.inflateRawSync(data, { maxOutputLength: MAX_XLSX_PART_BYTES });
+      }
+      throw new Error('The spreadsheet file uses an unsupported compression method');
+    });
+  }
+
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|lt|gt|amp|quot|apos);/gi, (match, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+  });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * The text of a string item (plain or rich text runs, without phonetic hints)
+ */
+function itemText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  return Array.from(withoutPhonetics.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join('');
+}
+
+function columnIndex(cellRef: string): number {
+  let index = 0;
+  for (const char of cellRef.replace(/[0-9]+$/, '')) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Where the workbook's first sheet is stored
+ */
+function firstSheetPath(parts: Map<string, () => Buffer>): string {
+  const workbook = parts.get('xl/workbook.xml')?.().toString('utf8') ?? '';
+  const rels = parts.get('xl/_rels/workbook.xml.rels')?.().toString('utf8') ?? '';
+  const sheet = workbook.match(/<sheet\b[^>]*>/)?.[0];
+  const relId = sheet && attribute(sheet, 'r:id');
+
+  for (const [rel] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (relId && attribute(rel, 'Id') === relId) {
+      const target = attribute(rel, 'Target') ?? '';
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Read the cell values of an Excel workbook's first sheet
+ */
+export function parseXlsx(buffer: Buffer): SpreadsheetRows {
+  const parts = readZip(buffer);
+  const sheetPart = parts.get(firstSheetPath(parts));
+  if (!sheetPart) {
+    throw new Error('The spreadsheet has no worksheet');
+  }
+
+  const sharedStringsXml = parts.get('xl/sharedStrings.xml')?.().toString('utf8') ?? '';
+  const sharedStrings = Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), (match) => itemText(match[1]));
+
+  const rows: SpreadsheetRows = [];
+  const sheetXml = sheetPart().toString('utf8');
+
+  for (const rowMatch of sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = parseInt(attribute(rowMatch[1], 'r') ?? '', 10);
+    const rowIndex = Number.isNaN(rowNumber) ? rows.length : rowNumber - 1;
+    if (rowIndex >= MAX_XLSX_ROWS) {
+      throw new Error(`The spreadsheet has more than ${MAX_XLSX_ROWS} rows`);
+    }
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attribute(cellMatch[1], 'r');
+      const index = ref ? columnIndex(ref) : cells.length;
+      if (index < 0 || index >= MAX_XLSX_COLUMNS) {
+        throw new Error('The spreadsheet file is damaged');
+      }
+      const type = attribute(cellMatch[1], 't');
+      const body = cellMatch[2] ?? '';
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') {
+        text = sharedStrings[parseInt(value ?? '', 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = itemText(body);
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+
+      while (cells.length < index) {
+        cells.push('');
+      }
+      cells[index] = text;
+    }
+
+    while (rows.length < rowIndex) {
+      rows.push([]);
+    }
+    rows[rowIndex] = cells;
+  }
+
+  return rows;
+}
+
+// ============================================
+// ENTRY POINT
+// ============================================
+
+/**
+ * Read an uploaded spreadsheet, telling CSV and XLSX apart by content
+ * Blank rows at the end are dropped.
+ */
+export function readSpreadsheet(buffer: Buffer): SpreadsheetRows {
+  let rows: SpreadsheetRows;
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50) {
+    try {
+      rows = parseXlsx(buffer);
+    } catch (error) {
+      // Truncated archives and bad deflate streams surface as buffer or zlib errors
+      const ours = error instanceof Error && error.message.startsWith('The spreadsheet');
+      throw ours ? error : new Error('The spreadsheet file is damaged');
+    }
+  } else if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0xd0cf11e0) {
+    throw new Error('Old .xls files are not supported, save the sheet as .xlsx or CSV');
+  } else {
+    rows = parseCsv(buffer);
+  }
+
+  while (rows.length > 0 && rows[rows.length - 1].every((cell) => cell.trim() === '')) {
+    rows.pop();
+  }
+  return rows;
+}
@@ -6,6 +6,7 @@
 /// <reference types="vite/client" />
 
 import { CATEGORY_HANDLER_MAP } from '@shared/categories';
+import { PICTURE_PASSWORD_ICONS, PICTURE_PASSWORD_LENGTH, type PictureIconId } from '@shared/picture-passwords';
 import { HANDLERS, renderCard, allCardData, languageData, articulationData, loadAllCardData } from '../cards/index';
 import { hideLoadingScreen } from '@common/components/LoadingScreen';
 import { voiceService, VoiceState, UIPackage, CardData } from './services/voice';
@@ -23,6 +24,7 @@ const authState = {
     childId: null as number | null,
     childName: '',
     token: null as string | null,
+    refreshToken: null as string | null,
     sessionId: null as number | null,
 };
 
@@ -59,6 +61,13 @@ let loginButton: HTMLButtonElement;
 let loginError: HTMLElement;
 let usernameInput: HTMLInputElement;
 let passwordInput: HTMLInputElement;
+let pictureLoginForm: HTMLElement;
+let pictureUsernameInput: HTMLInputElement;
+let pictureSlots: HTMLElement;
+let pictureGrid: HTMLElement;
+let recentPlayers: HTMLElement;
+let badgeVideo: HTMLVideoElement;
+let badgeUnsupported: HTMLElement;
 let targetModal: HTMLElement;
 let categoryTabs: HTMLElement;
 let categoryGrid: HTMLElement;
@@ -908,6 +917,62 @@ function updateThemeDecorations() {
     });
 }
 
+interface ChildLoginResponse {
+    child: { id: number; username: string; first_name: string; last_name: string };
+    token: string;
+    refresh_token: string;
+}
+
+// Players who signed in on this device, so picture login can skip typing
+const RECENT_PLAYERS_KEY = 'piper-recent-players';
+const MAX_RECENT_PLAYERS = 6;
+
+interface RecentPlayer {
+    username: string;
+    first_name: string;
+}
+
+/**
+ * Post to one of the child login endpoints (password, pictures or badge)
+ */
+async function requestChildLogin(path: string, body: Record<string, unknown>): Promise<ChildLoginResponse> {
+    const response = await fetch(`${API_BASE}/api/child/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+        throw new Error(data.error || 'Login failed');
+    }
+    return data as ChildLoginResponse;
+}
+
+/**
+ * Store auth info and move on to target selection
+ */
+function completeLogin(data: ChildLoginResponse) {
+    authState.isLoggedIn = true;
+    authState.childId = data.child.id;
+    authState.childName = `${data.child.first_name} ${data.child.last_name}`;
+    authState.token = data.token;
+    authState.refreshToken = data.refresh_token;
+
+    // Store token in sessionStorage for API calls
+    sessionStorage.setItem('childToken', data.token);
+    rememberPlayer({ username: data.child.username, first_name: data.child.first_name });
+
+    gameLogger.info(`Logged in as ${authState.childName} (ID: ${authState.childId})`);
+
+    // Hide login modal, show target selection
+    stopBadgeScanner();
+    loginModal.classList.add('hidden');
+    targetModal.classList.remove('hidden');
+    renderCategorySelection('language');
+}
+
 /**
  * Handle login form submission
  */
@@ -925,46 +990,320 @@ async function handleLogin() {
     loginError.classList.add('hidden');
 
     try {
-        const response = await fetch(`${API_BASE}/api/child/login`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ username, password }),
+        completeLogin(await requestChildLogin('login', { username, password }));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Login failed';
+        showLoginError(message);
+        gameLogger.error('Login error:', message);
+    } finally {
+        loginButton.disabled = false;
+    }
+}
+
+function showLoginError(message: string) {
+    loginError.textContent = message;
+    loginError.classList.remove('hidden');
+}
+
+function showLoginPanel(method: string) {
+    document.querySelectorAll<HTMLElement>('.login-tab').forEach(tab => {
+        tab.classList.toggle('active', tab.dataset.loginMethod === method);
+    });
+    document.querySelectorAll<HTMLElement>('[data-login-panel]').forEach(panel => {
+        panel.classList.toggle('hidden', panel.dataset.loginPanel !== method);
+    });
+    loginError.classList.add('hidden');
+}
+
+/**
+ * Switch login method tabs (the badge tab runs the camera while it is open)
+ */
+function switchLoginMethod(method: string) {
+    showLoginPanel(method);
+
+    if (method === 'badge') {
+        startBadgeScanner();
+    } else {
+        stopBadgeScanner();
+    }
+    if (method === 'pictures') {
+        renderRecentPlayers();
+        resetPictureSequence();
+    }
+}
+
+// ============================================
+// PICTURE PASSWORD LOGIN
+// ============================================
+
+let pictureSequence: PictureIconId[] = [];
+
+function getRecentPlayers(): RecentPlayer[] {
+    try {
+        return JSON.parse(localStorage.getItem(RECENT_PLAYERS_KEY) || '[]') as RecentPlayer[];
+    } catch {
+        return [];
+    }
+}
+
+function rememberPlayer(player: RecentPlayer) {
+    const others = getRecentPlayers().filter(p => p.username !== player.username);
+    localStorage.setItem(RECENT_PLAYERS_KEY, JSON.stringify([player, ...others].slice(0, MAX_RECENT_PLAYERS)));
+}
+
+function renderRecentPlayers() {
+    recentPlayers.innerHTML = '';
+    getRecentPlayers().forEach(player => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'recent-player';
+        button.textContent = player.first_name;
+        button.classList.toggle('selected', pictureUsernameInput.value === player.username);
+        button.addEventListener('click', () => {
+            pictureUsernameInput.value = player.username;
+            renderRecentPlayers();
         });
+        recentPlayers.appendChild(button);
+    });
+}
 
-        const data = await response.json();
+function renderPictureGrid() {
+    pictureGrid.innerHTML = '';
+    PICTURE_PASSWORD_ICONS.forEach(icon => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'picture-option';
+        button.textContent = icon.emoji;
+        button.setAttribute('aria-label', icon.label);
+        button.addEventListener('click', () => handlePictureTap(icon.id));
+        pictureGrid.appendChild(button);
+    });
+}
 
-        if (!response.ok) {
-            throw new Error(data.error || 'Login failed');
-        }
+function renderPictureSlots() {
+    pictureSlots.innerHTML = '';
+    for (let i = 0; i < PICTURE_PASSWORD_LENGTH; i++) {
+        const slot = document.createElement('span');
+        const icon = PICTURE_PASSWORD_ICONS.find(p => p.id === pictureSequence[i]);
+        slot.className = icon ? 'picture-slot filled' : 'picture-slot';
+        slot.textContent = icon ? icon.emoji : '';
+        pictureSlots.appendChild(slot);
+    }
+}
 
-        // Store auth info
-        authState.isLoggedIn = true;
-        authState.childId = data.child.id;
-        authState.childName = `${data.child.first_name} ${data.child.last_name}`;
-        authState.token = data.token;
+function resetPictureSequence() {
+    pictureSequence = [];
+    renderPictureSlots();
+}
 
-        // Store token in sessionStorage for API calls
-        sessionStorage.setItem('childToken', data.token);
+function setPictureGridEnabled(enabled: boolean) {
+    pictureGrid.querySelectorAll<HTMLButtonElement>('.picture-option').forEach(b => { b.disabled = !enabled; });
+}
 
-        gameLogger.info(`Logged in as ${authState.childName} (ID: ${authState.childId})`);
+async function handlePictureTap(id: PictureIconId) {
+    if (pictureSequence.length >= PICTURE_PASSWORD_LENGTH) return;
 
-        // Hide login modal, show target selection
-        loginModal.classList.add('hidden');
-        targetModal.classList.remove('hidden');
-        renderCategorySelection('language');
+    const username = pictureUsernameInput.value.trim();
+    if (!username) {
+        showLoginError('Tap your name first');
+        return;
+    }
 
+    loginError.classList.add('hidden');
+    pictureSequence.push(id);
+    renderPictureSlots();
+    if (pictureSequence.length < PICTURE_PASSWORD_LENGTH) return;
+
+    // Last picture tapped: try it
+    setPictureGridEnabled(false);
+    try {
+        completeLogin(await requestChildLogin('picture-login', { username, pictures: pictureSequence }));
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Login failed';
         showLoginError(message);
-        gameLogger.error('Login error:', message);
+        gameLogger.error('Picture login error:', message);
+        resetPictureSequence();
     } finally {
-        loginButton.disabled = false;
+        setPictureGridEnabled(true);
     }
 }
 
-function showLoginError(message: string) {
-    loginError.textContent = message;
-    loginError.classList.remove('hidden');
+// ============================================
+// QR BADGE LOGIN
+// ============================================
+
+// Shape-detection API (Chrome, Edge, Android); not in the DOM typings yet
+interface BarcodeDetectorLike {
+    detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const BADGE_SCAN_INTERVAL_MS = 300;
+
+let badgeScannerActive = false;
+let badgeStream: MediaStream | null = null;
+let badgeScanTimer: ReturnType<typeof setTimeout> | null = null;
+let badgeLoginInProgress = false;
+
+/**
+ * Badges encode a boardgame URL with ?badge=; accept a bare token too
+ */
+function badgeTokenFrom(value: string): string {
+    try {
+        return new URL(value).searchParams.get('badge') || '';
+    } catch {
+        return value.trim();
+    }
+}
+
+async function loginWithBadge(token: string) {
+    if (badgeLoginInProgress) return;
+    badgeLoginInProgress = true;
+    loginError.classList.add('hidden');
+
+    try {
+        completeLogin(await requestChildLogin('badge-login', { token }));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Login failed';
+        showLoginError(message);
+        gameLogger.error('Badge login error:', message);
+    } finally {
+        badgeLoginInProgress = false;
+    }
+}
+
+async function startBadgeScanner() {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+        // Scanning the badge with the device's camera app opens the login link instead
+        badgeVideo.classList.add('hidden');
+        badgeUnsupported.classList.remove('hidden');
+        return;
+    }
+    if (badgeScannerActive) return;
+    badgeScannerActive = true;
+
+    try {
+        const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        // The child may have left the badge tab while the camera permission prompt was open
+        if (!badgeScannerActive) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+        badgeStream = stream;
+        badgeVideo.srcObject = badgeStream;
+        badgeVideo.classList.remove('hidden');
+        badgeUnsupported.classList.add('hidden');
+        await badgeVideo.play();
+    } catch (error) {
+        gameLogger.error('Badge camera error:', error);
+        stopBadgeScanner();
+        badgeUnsupported.classList.remove('hidden');
+        return;
+    }
+
+    const detector = new Detector({ formats: ['qr_code'] });
+    const scan = async () => {
+        if (!badgeStream) return;
+        try {
+            const codes = await detector.detect(badgeVideo);
+            const token = codes.map(code => badgeTokenFrom(code.rawValue)).find(Boolean);
+            if (token && !badgeLoginInProgress) {
+                await loginWithBadge(token);
+            }
+        } catch (error) {
+            gameLogger.debug('Badge scan failed:', error);
+        }
+        if (badgeStream) {
+            badgeScanTimer = setTimeout(scan, BADGE_SCAN_INTERVAL_MS);
+        }
+    };
+    scan();
+}
+
+function stopBadgeScanner() {
+    badgeScannerActive = false;
+    if (badgeScanTimer) {
+        clearTimeout(badgeScanTimer);
+        badgeScanTimer = null;
+    }
+    badgeStream?.getTracks().forEach(track => track.stop());
+    badgeStream = null;
+    if (badgeVideo) {
+        badgeVideo.srcObject = null;
+        badgeVideo.classList.add('hidden');
+    }
+}
+
+/**
+ * Swap the refresh token for a new access/refresh pair (access tokens are short-lived)
+ */
+async function refreshChildToken(): Promise<boolean> {
+    if (!authState.refreshToken) return false;
+
+    try {
+        const response = await fetch(`${API_BASE}/api/child/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refresh_token: authState.refreshToken }),
+        });
+
+        if (!response.ok) {
+            // Only a 401 means the token was rejected; a 429 or 5xx keeps the child logged in
+            if (response.status === 401) {
+                authState.refreshToken = null;
+            }
+            return false;
+        }
+
+        const data = await response.json();
+        authState.token = data.token;
+        authState.refreshToken = data.refresh_token;
+        sessionStorage.setItem('childToken', data.token);
+        return true;
+    } catch (error) {
+        gameLogger.error('Failed to refresh token:', error);
+        return false;
+    }
+}
+
+/**
+ * True if a JWT's exp claim is less than a minute away (or can't be read)
+ */
+function tokenExpiresSoon(token: string): boolean {
+    try {
+        const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+        return typeof payload.exp !== 'number' || payload.exp * 1000 - Date.now() < 60 * 1000;
+    } catch {
+        return true;
+    }
+}
+
+/**
+ * Access token for the voice WebSocket handshake, refreshed first if about to expire
+ */
+async function getChildAccessToken(): Promise<string | null> {
+    if (authState.token && tokenExpiresSoon(authState.token)) {
+        await refreshChildToken();
+    }
+    return authState.token;
+}
+
+/**
+ * fetch() with the child's access token; refreshes and retries once on a 401
+ */
+async function childFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const send = (): Promise<Response> => {
+        const headers = new Headers(init.headers);
+        headers.set('Authorization', `Bearer ${authState.token}`);
+        return fetch(url, { ...init, headers });
+    };
+
+    const response = await send();
+    if (response.status === 401 && await refreshChildToken()) {
+        return send();
+    }
+    return response;
 }
 
 /**
@@ -980,12 +1319,9 @@ async function startGameplaySession(): Promise<number | null> {
         // Get voice session ID to link gameplay session with voice session
         const voiceSessionId = voiceService.getSessionId();
 
-        const response = await fetch(`${API_BASE}/api/session/start`, {
+        const response = await childFetch(`${API_BASE}/api/session/start`, {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${authState.token}`,
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
                 categories: state.selectedTargets,
                 theme: state.selectedTheme,
@@ -1023,11 +1359,7 @@ async function getExistingCalibration(): Promise<{
     if (!authState.token) return null;
 
     try {
-        const response = await fetch(`${API_BASE}/api/child/calibration`, {
-            headers: {
-                'Authorization': `Bearer ${authState.token}`,
-            },
-        });
+        const response = await childFetch(`${API_BASE}/api/child/calibration`);
 
         if (!response.ok) return null;
         return await response.json();
@@ -1048,12 +1380,9 @@ async function saveCalibration(result: {
     if (!authState.token) return false;
 
     try {
-        const response = await fetch(`${API_BASE}/api/child/calibration`, {
+        const response = await childFetch(`${API_BASE}/api/child/calibration`, {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${authState.token}`,
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(result),
         });
 
@@ -1081,12 +1410,9 @@ async function endGameplaySession(status: 'completed' | 'abandoned' = 'completed
     try {
         const voiceSessionId = voiceService.getSessionId();
 
-        await fetch(`${API_BASE}/api/session/${authState.sessionId}/end`, {
+        await childFetch(`${API_BASE}/api/session/${authState.sessionId}/end`, {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${authState.token}`,
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
                 finalScore: state.score,
                 boardPosition: state.currentPosition,
@@ -1255,6 +1581,13 @@ async function init() {
     loginError = document.getElementById('loginError')!;
     usernameInput = document.getElementById('username') as HTMLInputElement;
     passwordInput = document.getElementById('password') as HTMLInputElement;
+    pictureLoginForm = document.getElementById('pictureLoginForm')!;
+    pictureUsernameInput = document.getElementById('pictureUsername') as HTMLInputElement;
+    pictureSlots = document.getElementById('pictureSlots')!;
+    pictureGrid = document.getElementById('pictureGrid')!;
+    recentPlayers = document.getElementById('recentPlayers')!;
+    badgeVideo = document.getElementById('badgeVideo') as HTMLVideoElement;
+    badgeUnsupported = document.getElementById('badgeUnsupported')!;
     targetModal = document.getElementById('targetModal')!;
     categoryTabs = document.querySelector('.category-tabs')!;
     categoryGrid = document.getElementById('targetList')!;
@@ -1295,6 +1628,29 @@ async function init() {
         await handleLogin();
     });
 
+    // Picture password and badge login
+    document.querySelectorAll<HTMLElement>('.login-tab').forEach(tab => {
+        tab.addEventListener('click', () => switchLoginMethod(tab.dataset.loginMethod || 'password'));
+    });
+    renderPictureGrid();
+    pictureLoginForm.addEventListener('submit', (e) => e.preventDefault());
+    pictureUsernameInput.addEventListener('input', renderRecentPlayers);
+    document.getElementById('pictureClear')!.addEventListener('click', () => {
+        loginError.classList.add('hidden');
+        resetPictureSequence();
+    });
+
+    // Opened from a scanned badge (boardgame.html?badge=...): sign straight in
+    const badgeToken = new URLSearchParams(window.location.search).get('badge');
+    if (badgeToken) {
+        // Keep the token out of the history and address bar
+        window.history.replaceState(null, '', window.location.pathname);
+        playOverlay.classList.add('hidden');
+        loginModal.classList.remove('hidden');
+        showLoginPanel('badge');
+        loginWithBadge(badgeToken);
+    }
+
     categoryTabs?.querySelectorAll('.category-tab').forEach(tab => {
         tab.addEventListener('click', (e) => {
             categoryTabs.querySelectorAll('.category-tab').forEach(t => t.classList.remove('active'));
@@ -1347,6 +1703,7 @@ async function init() {
 
     // Set up voice service callbacks
     voiceService.onStateChange = updateVoiceUI;
+    voiceService.getAuthToken = getChildAccessToken;
     voiceService.onError = (message) => {
         voiceLogger.error('Error:', message);
         voiceStatus.textContent = message;
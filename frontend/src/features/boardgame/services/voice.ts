@@ -156,6 +156,9 @@ export class VoiceService {
   // Callback for errors
   onError?: (message: string) => void;
 
+  // Supplies the child's access token for the voice WebSocket handshake
+  getAuthToken?: () => Promise<string | null>;
+
   // Callback for safety-gate response
   // shouldSkipCard is true when taskTimeExceeded
   onSafetyGateResponse?: (uiPackage: UIPackage, isCorrect: boolean, shouldSkipCard: boolean) => void;
@@ -293,6 +296,13 @@ export class VoiceService {
 
     this.setState('connecting');
 
+    const token = await this.getAuthToken?.();
+    if (!token) {
+      this.onError?.('Please log in to use voice mode');
+      this.setState('idle');
+      return false;
+    }
+
     // Initialize audio capture (request microphone permission)
     const audioInitialized = await this.audioCapture.initialize();
     if (!audioInitialized) {
@@ -302,7 +312,7 @@ export class VoiceService {
     }
 
     // Connect to backend WebSocket
-    const connected = await this.connectWebSocket();
+    const connected = await this.connectWebSocket(token);
     if (!connected) {
       this.audioCapture.dispose();
       this.setState('idle');
@@ -676,7 +686,7 @@ export class VoiceService {
   /**
    * Connect to backend WebSocket
    */
-  private connectWebSocket(): Promise<boolean> {
+  private connectWebSocket(token: string): Promise<boolean> {
     return new Promise((resolve) => {
       try {
         // Determine WebSocket URL:
@@ -703,6 +713,8 @@ export class VoiceService {
 
         this.ws.onopen = () => {
           voiceLogger.info('WebSocket connected');
+          // Authenticate before the server creates a voice session
+          this.sendMessage({ type: 'auth', token });
         };
 
         this.ws.onmessage = (event) => {
@@ -725,12 +737,14 @@ export class VoiceService {
           resolve(false);
         };
 
-        this.ws.onclose = () => {
-          voiceLogger.info('WebSocket closed');
+        this.ws.onclose = (event) => {
+          voiceLogger.info('WebSocket closed', event.code);
           if (this.state !== 'idle') {
             this.setState('idle');
-            this.onError?.('Voice connection closed');
+            // 4xxx: rejected by the server (auth failed, session mismatch); reason says why
+            this.onError?.(event.code >= 4000 && event.reason ? event.reason : 'Voice connection closed');
           }
+          resolve(false);
         };
 
         // Timeout after 10 seconds
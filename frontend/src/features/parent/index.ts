@@ -0,0 +1,271 @@
+/**
+ * Parent Portal Controller
+ * Read-only view of a linked child's sessions, goals and home practice
+ */
+
+import { api, type ApiError, type ParentChild, type ParentProgressView } from '../therapist/services/api';
+import { hideLoadingScreen } from '@common/components/LoadingScreen';
+
+// Evaluation fields shown when the therapist shares the evaluation
+const EVAL_FIELD_LABELS: Record<string, string> = {
+  languages_spoken: 'Languages Spoken',
+  speech_diagnoses: 'Speech/Language Diagnoses',
+  baseline_accuracy: 'Baseline Accuracy',
+  goals_benchmarks: 'Goals & Benchmarks',
+  strengths: 'Strengths',
+  weaknesses: 'Areas to Work On',
+  target_sounds: 'Target Sounds',
+  notes: 'Notes',
+};
+
+// State
+let children: ParentChild[] = [];
+
+// DOM helpers
+function $(id: string): HTMLElement {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`Element #${id} not found`);
+  return el;
+}
+
+function hide(el: HTMLElement): void {
+  el.classList.add('hidden');
+}
+
+function show(el: HTMLElement): void {
+  el.classList.remove('hidden');
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+function formatDateTime(iso: string): string {
+  const date = new Date(iso);
+  return `${date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })} at ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+function showAuthScreen(): void {
+  hide($('portal-screen'));
+  show($('auth-screen'));
+}
+
+function showPortal(): void {
+  hide($('auth-screen'));
+  show($('portal-screen'));
+}
+
+// ==========================================================================
+// RENDERING
+// ==========================================================================
+
+function renderUpcomingSessions(view: ParentProgressView): void {
+  const container = $('upcoming-sessions');
+  if (view.upcoming_sessions.length === 0) {
+    container.innerHTML = '<p class="empty-state">No sessions scheduled</p>';
+    return;
+  }
+
+  container.innerHTML = `<ul class="parent-list">${view.upcoming_sessions.map((s) => `
+    <li>
+      <strong>${formatDateTime(s.scheduled_for)}</strong>
+      ${s.duration_minutes ? `<span class="parent-muted">${s.duration_minutes} min</span>` : ''}
+      ${s.notes ? `<p>${escapeHtml(s.notes)}</p>` : ''}
+    </li>
+  `).join('')}</ul>`;
+}
+
+function renderGoals(view: ParentProgressView): void {
+  const container = $('goal-progress');
+  if (view.goals.length === 0) {
+    container.innerHTML = '<p class="empty-state">No goals yet</p>';
+    return;
+  }
+
+  container.innerHTML = view.goals.map((goal) => {
+    const percent = Math.min(100, Math.round((goal.current_percentage / goal.target_percentage) * 100) || 0);
+    return `
+      <div class="parent-goal">
+        <p>${escapeHtml(goal.goal_description)}</p>
+        <div class="parent-progress-bar"><div class="parent-progress-fill" style="width: ${percent}%"></div></div>
+        <p class="parent-muted">
+          ${goal.status === 'achieved' ? 'Achieved 🎉' : `${goal.current_percentage}% of ${goal.target_percentage}% target`}
+          ${goal.target_date ? ` · by ${new Date(goal.target_date).toLocaleDateString()}` : ''}
+        </p>
+      </div>
+    `;
+  }).join('');
+}
+
+function renderRecentSessions(view: ParentProgressView): void {
+  const container = $('recent-sessions');
+  if (view.recent_sessions.length === 0) {
+    container.innerHTML = '<p class="empty-state">No sessions completed yet</p>';
+    return;
+  }
+
+  container.innerHTML = `<ul class="parent-list">${view.recent_sessions.map((s) => `
+    <li>
+      <strong>${new Date(s.started_at).toLocaleDateString()}</strong>
+      <span class="parent-muted">
+        ${s.minutes} min · ${s.cards_practiced} cards · ${s.accuracy === null ? 'no answers yet' : `${s.accuracy}% correct`}
+      </span>
+      ${s.categories.length > 0 ? `<p>${s.categories.map(escapeHtml).join(', ')}</p>` : ''}
+      ${s.safety_signals && s.safety_signals.length > 0
+        ? `<p class="parent-signals">Noted by your therapist: ${s.safety_signals.map(escapeHtml).join(', ')}</p>`
+        : ''}
+    </li>
+  `).join('')}</ul>`;
+}
+
+function renderHomePractice(view: ParentProgressView): void {
+  const container = $('home-practice');
+  const { note, suggestions } = view.home_practice;
+
+  if (!note && suggestions.length === 0) {
+    container.innerHTML = '<p class="empty-state">No suggestions yet</p>';
+    return;
+  }
+
+  container.innerHTML = `
+    ${note ? `<p class="parent-note">${escapeHtml(note)}</p>` : ''}
+    <ul class="parent-list">${suggestions.map((s) => `
+      <li>
+        <strong>${escapeHtml(s.category)}</strong>
+        ${s.reason === 'needs_practice' && s.accuracy !== null
+          ? `<span class="parent-muted">${s.accuracy}% correct lately</span>`
+          : '<span class="parent-muted">IEP goal</span>'}
+        <p>${escapeHtml(s.suggestion)}</p>
+      </li>
+    `).join('')}</ul>
+  `;
+}
+
+function renderEvaluation(view: ParentProgressView): void {
+  const card = $('evaluation-card');
+  if (view.eval_data === undefined) {
+    hide(card);
+    return;
+  }
+  show(card);
+
+  // Confirmed evaluations may hold plain values or { value, confidence } fields
+  const rows = Object.entries(EVAL_FIELD_LABELS).flatMap(([key, label]) => {
+    const raw = view.eval_data?.[key];
+    const value = raw && typeof raw === 'object' && 'value' in raw ? (raw as { value: unknown }).value : raw;
+    if (value === null || value === undefined || value === '') return [];
+    const text = Array.isArray(value) ? value.join(', ') : String(value);
+    return [`<p><strong>${label}:</strong> ${escapeHtml(text)}</p>`];
+  });
+
+  $('evaluation-summary').innerHTML = rows.length > 0
+    ? rows.join('')
+    : '<p class="empty-state">No evaluation details yet</p>';
+}
+
+async function loadChild(childId: number): Promise<void> {
+  try {
+    const view = await api.getParentProgress(childId);
+    $('child-name').textContent = `${view.child.first_name} ${view.child.last_name}`;
+    renderUpcomingSessions(view);
+    renderGoals(view);
+    renderRecentSessions(view);
+    renderHomePractice(view);
+    renderEvaluation(view);
+    show($('progress-view'));
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function loadChildren(): Promise<void> {
+  children = await api.listParentChildren();
+
+  const select = $('child-select') as HTMLSelectElement;
+  select.innerHTML = children
+    .map((child) => `<option value="${child.id}">${escapeHtml(`${child.first_name} ${child.last_name}`)}</option>`)
+    .join('');
+
+  if (children.length === 0) {
+    hide(select);
+    hide($('progress-view'));
+    show($('no-children'));
+    return;
+  }
+
+  // A single child needs no picker
+  select.classList.toggle('hidden', children.length === 1);
+  hide($('no-children'));
+  await loadChild(children[0].id);
+}
+
+// ==========================================================================
+// AUTH
+// ==========================================================================
+
+async function handleLogin(e: Event): Promise<void> {
+  e.preventDefault();
+  const email = ($('login-email') as HTMLInputElement).value;
+  const password = ($('login-password') as HTMLInputElement).value;
+  const errorEl = $('login-error');
+
+  try {
+    await api.loginMember({ email, password });
+    hide(errorEl);
+    showPortal();
+    await loadChildren();
+  } catch (err) {
+    // Members without the Parent role get a 403 from the portal API
+    await api.logout();
+    showAuthScreen();
+    errorEl.textContent = (err as ApiError).status === 403
+      ? 'This account does not have parent portal access'
+      : (err as ApiError).message;
+    show(errorEl);
+  }
+}
+
+async function handleLogout(): Promise<void> {
+  await api.logout();
+  children = [];
+  hide($('progress-view'));
+  showAuthScreen();
+}
+
+async function checkAuth(): Promise<void> {
+  if (!api.isAuthenticated()) {
+    showAuthScreen();
+    return;
+  }
+
+  try {
+    showPortal();
+    await loadChildren();
+  } catch {
+    await api.logout();
+    showAuthScreen();
+  }
+}
+
+function bindEvents(): void {
+  $('login-form').addEventListener('submit', handleLogin);
+  $('logout-btn').addEventListener('click', handleLogout);
+  $('child-select').addEventListener('change', (e) => {
+    loadChild(parseInt((e.target as HTMLSelectElement).value));
+  });
+}
+
+export async function init(): Promise<void> {
+  bindEvents();
+  await checkAuth();
+  hideLoadingScreen(300);
+}
+
+// Auto-initialize on DOM ready
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', init);
+} else {
+  init();
+}
@@ -3,10 +3,12 @@
  * Handles UI state and user interactions
  */
 
-import { api, type Therapist, type Student, type ApiError, type EvalData, type ExtractedGoal, type IEPGoal, type GameplaySession, type SessionWithResponses, type LiveSessionInfo, type School, type Member, type Objective } from './services/api';
+import { api, type Therapist, type Student, type StudentListQuery, type StudentSort, type AccessInfo, type MeResponse, type Permission, type ApiError, type EvalData, type ExtractedGoal, type IEPGoal, type GameplaySession, type SessionWithResponses, type LiveSessionInfo, type ScheduledSession, type ChildLoginMethods, type IssuedLoginBadge, type ActiveDevice, type TwoFactorChallenge, type TwoFactorSetup, type TwoFactorStatus, type School, type Member, type Objective, type AuditLogEntry, type AuditLogFilters, type StudentImportField, type StudentImportMapping, type StudentImportPreview, type StudentImportCredential, type StudentShare, type StudentShareAccess, type StudentTransfer, type ServiceMandate, type ServiceLedger, type ServiceComplianceStatus, type ServicePeriodSummary } from './services/api';
 import { therapistLiveService, type LiveCardEvent, type LiveResponseEvent, type SessionSummary } from './services/live';
+import { PICTURE_PASSWORD_ICONS, type PictureIconId } from '@shared/picture-passwords';
 // Categories imported from @shared/categories are defined in ORGANIZED_*_CATEGORIES below
 import { hideLoadingScreen } from '@common/components/LoadingScreen';
+import { debounce } from '@common/utils';
 
 /**
  * Organized category groups for goal type selection UI
@@ -245,8 +247,13 @@ function show(el: HTMLElement): void {
 
 // State
 let currentTherapist: Therapist | null = null;
-let students: Student[] = [];
+let currentMember: Member | null = null;
+let currentAccess: AccessInfo | null = null;
+let students: Student[] = []; // The pages of the student picker loaded so far
+let studentsTotal = 0;
+let studentsNextCursor: string | null = null;
 let selectedStudentId: number | null = null;
+let selectedStudent: Student | null = null; // Kept apart, the picker's filters may leave it out
 
 // Navigation state
 let currentPage = 'dashboard';
@@ -268,37 +275,129 @@ let currentGoalIndex = 0;
 // Sessions state
 let liveSessions: LiveSessionInfo[] = [];
 let sessionHistory: GameplaySession[] = [];
+let scheduledSessions: ScheduledSession[] = [];
+let serviceLedger: ServiceLedger | null = null;
 let currentLiveCard: { sessionId: number; cardQuestion: string } | null = null;
 
+// Access log state
+let auditEntries: AuditLogEntry[] = [];
+let auditNextBefore: number | null = null;
+
+// Login waiting on its two-factor step
+let pendingTwoFactor: TwoFactorChallenge | null = null;
+
+// Caseload import state
+let pendingImportFile: File | null = null;
+let importPreview: StudentImportPreview | null = null;
+let importCredentials: StudentImportCredential[] = [];
+
 // Screens
 function showAuthScreen(): void {
   show($('auth-screen'));
   hide($('dashboard-screen'));
 }
 
+const AUTH_FORMS = ['login-form', 'two-factor-form', 'register-form', 'forgot-form', 'reset-form', 'invite-form'];
+
+function showAuthForm(formId: string): void {
+  AUTH_FORMS.forEach((id) => (id === formId ? show($(id)) : hide($(id))));
+}
+
 function showDashboard(): void {
   hide($('auth-screen'));
   show($('dashboard-screen'));
 
-  if (currentTherapist) {
-    $('therapist-name').textContent =
-      `${currentTherapist.first_name} ${currentTherapist.last_name}`;
-    // Update sidebar therapist info
+  const displayName = currentTherapist
+    ? `${currentTherapist.first_name} ${currentTherapist.last_name}`
+    : currentMember?.name;
+  const email = currentTherapist?.email ?? currentMember?.email;
+
+  if (displayName) {
+    $('therapist-name').textContent = displayName;
+    // Update sidebar user info
     const sidebarName = document.getElementById('sidebar-therapist-name');
     if (sidebarName) {
-      sidebarName.textContent = `${currentTherapist.first_name} ${currentTherapist.last_name}`;
+      sidebarName.textContent = displayName;
     }
     const sidebarEmail = document.getElementById('sidebar-therapist-email');
     if (sidebarEmail) {
-      sidebarEmail.textContent = currentTherapist.email;
+      sidebarEmail.textContent = currentMember
+        ? `${email} · ${currentMember.roles.join(', ')}`
+        : email ?? '';
     }
   }
 
+  applyPermissions();
+
   // Initialize navigation to dashboard page
   navigate('dashboard');
 
-  // Initialize live WebSocket for real-time session monitoring
-  initLiveWebSocket();
+  // Live session monitoring is for the therapist running the sessions
+  if (currentAccess?.kind === 'therapist') {
+    initLiveWebSocket();
+  }
+}
+
+// ============================================
+// Access Control
+// ============================================
+
+function can(permission: Permission): boolean {
+  return currentAccess?.permissions.includes(permission) ?? false;
+}
+
+// What a therapist may do with a student another therapist shared with them
+// (mirrors SHARE_PERMISSIONS in the backend's access service)
+const SHARE_PERMISSIONS: Record<StudentShareAccess, Permission[]> = {
+  view: ['students:read', 'evaluations:read', 'goals:read', 'sessions:read', 'reports:read'],
+  treat: [
+    'students:read', 'evaluations:read', 'goals:read', 'sessions:read', 'reports:read',
+    'students:update', 'evaluations:write', 'goals:write',
+  ],
+};
+
+function canForStudent(student: Student, permission: Permission): boolean {
+  if (student.shared_access) {
+    return SHARE_PERMISSIONS[student.shared_access].includes(permission);
+  }
+  return can(permission);
+}
+
+function setCurrentUser(me: MeResponse): void {
+  currentTherapist = me.therapist ?? null;
+  currentMember = me.member ?? null;
+  currentAccess = me.access;
+}
+
+function clearCurrentUser(): void {
+  currentTherapist = null;
+  currentMember = null;
+  currentAccess = null;
+}
+
+/**
+ * Hide navigation and actions the signed-in user is not allowed to use
+ * (elements carry the permission they need in data-permission, or
+ * data-therapist-only for the therapist's own account settings). The server
+ * enforces the same rules; this only keeps the UI honest.
+ */
+function applyPermissions(): void {
+  document.querySelectorAll<HTMLElement>('[data-permission]').forEach(el => {
+    el.classList.toggle('no-permission', !can(el.dataset.permission as Permission));
+  });
+  document.querySelectorAll<HTMLElement>('[data-therapist-only]').forEach(el => {
+    el.classList.toggle('no-permission', currentAccess?.kind !== 'therapist');
+  });
+}
+
+/**
+ * Narrow the profile's actions to what the caller may do with this student
+ * (less than usual when it was shared with them)
+ */
+function applyStudentPermissions(student: Student): void {
+  document.querySelectorAll<HTMLElement>('#student-profile [data-permission]').forEach(el => {
+    el.classList.toggle('no-permission', !canForStudent(student, el.dataset.permission as Permission));
+  });
 }
 
 // ============================================
@@ -327,16 +426,15 @@ function navigate(page: string): void {
     loadMembers();
   } else if (page === 'students') {
     loadStudentsPage();
+  } else if (page === 'audit') {
+    loadAuditPage();
+  } else if (page === 'security') {
+    loadSecurityPage();
   }
 }
 
 async function loadStudentsPage(): Promise<void> {
-  // Load students list
-  try {
-    students = await api.listStudents();
-  } catch (err) {
-    console.error('Failed to load students:', err);
-  }
+  await loadStudents();
 
   // If no student selected, show empty state and open modal
   if (!selectedStudentId) {
@@ -344,49 +442,125 @@ async function loadStudentsPage(): Promise<void> {
     hide($('student-profile'));
     // Open the select student modal
     openSelectStudentModal();
-  } else {
-    // Refresh the selected student's data
-    const student = students.find(s => s.id === selectedStudentId);
-    if (student) {
-      selectStudent(student.id);
-    } else {
-      // Student no longer exists
-      selectedStudentId = null;
-      show($('no-student-selected'));
-      hide($('student-profile'));
-    }
+    return;
+  }
+
+  // Refresh the selected student's data
+  try {
+    selectedStudent = await api.getStudent(selectedStudentId);
+    selectStudent(selectedStudent.id);
+  } catch {
+    // Student no longer exists (or is no longer ours)
+    clearSelectedStudent();
   }
 }
 
+function clearSelectedStudent(): void {
+  selectedStudentId = null;
+  selectedStudent = null;
+  show($('no-student-selected'));
+  hide($('student-profile'));
+}
+
 function openSelectStudentModal(): void {
-  renderStudentModalList();
+  populateStudentFilters();
   openModal('select-student-modal');
+  loadStudents();
+}
+
+function findStudent(id: number | null): Student | undefined {
+  if (selectedStudent && selectedStudent.id === id) return selectedStudent;
+  return students.find((s) => s.id === id);
+}
+
+function replaceStudent(student: Student): void {
+  students = students.map((s) => (s.id === student.id ? student : s));
+  if (selectedStudent?.id === student.id) selectedStudent = student;
+}
+
+// The picker's search, filters and sort as a list query
+function studentPickerQuery(): StudentListQuery {
+  const value = (id: string) => ($(id) as HTMLInputElement | HTMLSelectElement).value.trim();
+  const number = (id: string) => (value(id) ? parseInt(value(id)) : undefined);
+  return {
+    status: value('student-filter-status') as StudentListQuery['status'],
+    q: value('student-search') || undefined,
+    school_id: number('student-filter-school'),
+    slp_id: number('student-filter-slp'),
+    problem_type: (value('student-filter-problem') || undefined) as StudentListQuery['problem_type'],
+    grade: value('student-filter-grade') || undefined,
+    goal_status: (value('student-filter-goals') || undefined) as StudentListQuery['goal_status'],
+    last_session_from: value('student-filter-session-from') || undefined,
+    last_session_to: value('student-filter-session-to') || undefined,
+    sort: value('student-sort') as StudentSort,
+  };
+}
+
+// School and SLP choices come from the schools and members already loaded
+function populateStudentFilters(): void {
+  const fill = (id: string, emptyLabel: string, options: { value: number; label: string }[]) => {
+    const select = $(id) as HTMLSelectElement;
+    const current = select.value;
+    select.innerHTML = `<option value="">${emptyLabel}</option>` +
+      options.map((o) => `<option value="${o.value}">${escapeHtml(o.label)}</option>`).join('');
+    select.value = options.some((o) => String(o.value) === current) ? current : '';
+    select.closest('.form-group')?.classList.toggle('hidden', options.length === 0);
+  };
+  fill('student-filter-school', 'All schools', schools.map((s) => ({ value: s.id, label: s.name })));
+  fill('student-filter-slp', 'All SLPs', members
+    .filter((m) => m.roles.includes('SLP'))
+    .map((m) => ({ value: m.id, label: m.name })));
+}
+
+// Latest picker request, so a slow response cannot overwrite a newer one
+let studentListRequest = 0;
+
+async function loadStudents(append = false): Promise<void> {
+  const request = ++studentListRequest;
+  try {
+    const query = studentPickerQuery();
+    if (append && studentsNextCursor) query.cursor = studentsNextCursor;
+
+    const page = await api.listStudents(query);
+    if (request !== studentListRequest) return;
+    students = append ? [...students, ...page.students] : page.students;
+    studentsTotal = page.total;
+    studentsNextCursor = page.next_cursor;
+    renderStudentModalList();
+  } catch (err) {
+    console.error('Failed to load students:', err);
+  }
 }
 
-function renderStudentModalList(filter = ''): void {
+const searchStudents = debounce(() => {
+  loadStudents();
+}, 300);
+
+function renderStudentModalList(): void {
   const listEl = document.getElementById('student-modal-list');
   if (!listEl) return;
 
-  const filteredStudents = filter
-    ? students.filter(s =>
-        `${s.first_name} ${s.last_name}`.toLowerCase().includes(filter.toLowerCase())
-      )
-    : students;
+  const query = studentPickerQuery();
+  const filtered = Object.entries(query).some(([key, value]) =>
+    value !== undefined && !(key === 'status' && value === 'active') && key !== 'sort'
+  );
+  $('student-modal-count').textContent = studentsTotal === 1 ? '1 student' : `${studentsTotal} students`;
+  $('student-load-more-btn').classList.toggle('hidden', studentsNextCursor === null);
 
-  if (filteredStudents.length === 0) {
-    listEl.innerHTML = filter
+  if (students.length === 0) {
+    listEl.innerHTML = filtered
       ? '<p class="empty-state">No students match your search</p>'
       : '<p class="empty-state">No students yet. Click "+ ADD NEW" to create one.</p>';
     return;
   }
 
-  listEl.innerHTML = filteredStudents
+  listEl.innerHTML = students
     .map(s => `
-      <div class="student-item" data-id="${s.id}">
+      <div class="student-item${s.archived_at ? ' archived' : ''}" data-id="${s.id}">
         <div class="student-avatar">${s.first_name.charAt(0)}${s.last_name.charAt(0)}</div>
         <div class="student-info">
           <span class="student-name">${escapeHtml(s.first_name)} ${escapeHtml(s.last_name)}</span>
-          <span class="student-grade">${s.grade_level || 'No grade'}</span>
+          <span class="student-grade">${s.archived_at ? `Discharged ${formatDischargeDate(s)}` : escapeHtml(s.grade_level || 'No grade')}${s.last_session_at ? ` · Last session ${new Date(s.last_session_at).toLocaleDateString()}` : ''}</span>
         </div>
       </div>
     `)
@@ -405,15 +579,14 @@ function renderStudentModalList(filter = ''): void {
 async function loadDashboardStats(): Promise<void> {
   // Load all data for stats
   try {
-    const [schoolsData, membersData, studentsData] = await Promise.all([
-      api.listSchools(),
-      api.listMembers(),
-      api.listStudents()
+    const [schoolsData, membersData, studentPage] = await Promise.all([
+      can('schools:read') ? api.listSchools() : Promise.resolve([]),
+      can('members:read') ? api.listMembers() : Promise.resolve([]),
+      api.listStudents({ limit: 1 })
     ]);
 
     schools = schoolsData;
     members = membersData;
-    students = studentsData;
 
     // Update stats display
     const statsSchools = document.getElementById('stats-schools');
@@ -422,10 +595,14 @@ async function loadDashboardStats(): Promise<void> {
 
     if (statsSchools) statsSchools.textContent = String(schools.length);
     if (statsMembers) statsMembers.textContent = String(members.length);
-    if (statsStudents) statsStudents.textContent = String(students.length);
+    if (statsStudents) statsStudents.textContent = String(studentPage.total);
   } catch (err) {
     console.error('Failed to load dashboard stats:', err);
   }
+
+  if (can('sessions:read')) {
+    loadServiceCompliance();
+  }
 }
 
 // ============================================
@@ -611,21 +788,42 @@ function renderMembersList(): void {
       return `<span class="role-badge ${roleClass}">${escapeHtml(role)}</span>`;
     }).join('');
 
+    // Pending members can have their invite resent or revoked instead of being deleted
+    const invite = member.invite;
+    const inviteStatus = member.activated_at ? '' : `
+      <div class="member-invite-status${invite?.expired ? ' expired' : ''}">
+        ${!invite ? 'Invite pending'
+          : invite.expired ? `Invite expired ${new Date(invite.expires_at).toLocaleDateString()}`
+          : `Invite sent ${new Date(invite.sent_at).toLocaleDateString()} · expires ${new Date(invite.expires_at).toLocaleDateString()}`}
+      </div>`;
+    const actions = member.activated_at
+      ? `<button class="btn-delete-small" data-delete-member="${member.id}">Delete</button>`
+      : `<button class="btn btn-small btn-secondary" data-resend-invite="${member.id}">Resend</button>
+         <button class="btn-delete-small" data-revoke-invite="${member.id}">Revoke</button>`;
+
     return `
       <div class="data-list-item" data-id="${member.id}">
         <div class="data-list-item-info">
           <div class="data-list-item-name">${escapeHtml(member.name)}</div>
           <div class="data-list-item-detail">${escapeHtml(member.email)}</div>
           <div class="role-badges">${roleBadges}</div>
+          ${inviteStatus}
         </div>
         <div class="data-list-item-actions">
           ${member.school_name ? `<span class="data-list-item-meta">${escapeHtml(member.school_name)}</span>` : ''}
-          <button class="btn-delete-small" data-delete-member="${member.id}">Delete</button>
+          ${actions}
         </div>
       </div>
     `;
   }).join('');
 
+  listEl.querySelectorAll<HTMLElement>('[data-resend-invite]').forEach(btn => {
+    btn.addEventListener('click', () => handleResendInvite(parseInt(btn.dataset.resendInvite || '0')));
+  });
+  listEl.querySelectorAll<HTMLElement>('[data-revoke-invite]').forEach(btn => {
+    btn.addEventListener('click', () => handleRevokeInvite(parseInt(btn.dataset.revokeInvite || '0')));
+  });
+
   // Add delete handlers
   listEl.querySelectorAll('[data-delete-member]').forEach(btn => {
     btn.addEventListener('click', (e) => {
@@ -641,7 +839,6 @@ async function handleInviteMember(e: Event): Promise<void> {
 
   const nameInput = document.getElementById('member-name') as HTMLInputElement;
   const emailInput = document.getElementById('member-email') as HTMLInputElement;
-  const passwordInput = document.getElementById('member-password') as HTMLInputElement;
   const schoolSelect = document.getElementById('member-school') as HTMLSelectElement;
   const errorEl = document.getElementById('invite-member-error');
 
@@ -666,7 +863,6 @@ async function handleInviteMember(e: Event): Promise<void> {
     const member = await api.inviteMember({
       name: nameInput.value,
       email: emailInput.value,
-      password: passwordInput.value,
       roles: selectedRoles,
       school_id: schoolSelect.value ? parseInt(schoolSelect.value) : undefined,
     });
@@ -685,6 +881,35 @@ async function handleInviteMember(e: Event): Promise<void> {
   }
 }
 
+async function handleResendInvite(id: number): Promise<void> {
+  const member = members.find(m => m.id === id);
+  if (!member) return;
+
+  try {
+    const updated = await api.resendMemberInvite(id);
+    members = members.map(m => (m.id === id ? updated : m));
+    renderMembersList();
+    alert(`A new invite is on its way to ${member.email}. Earlier invite links no longer work.`);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleRevokeInvite(id: number): Promise<void> {
+  const member = members.find(m => m.id === id);
+  if (!member) return;
+
+  if (!confirm(`Revoke the invite for "${member.name}"? Their invite link will stop working.`)) return;
+
+  try {
+    await api.revokeMemberInvite(id);
+    members = members.filter(m => m.id !== id);
+    renderMembersList();
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
 async function handleDeleteMember(id: number): Promise<void> {
   const member = members.find(m => m.id === id);
   if (!member) return;
@@ -730,20 +955,12 @@ function closeModal(modalId: string): void {
 
 // Modal close functionality is now handled via event listeners
 
-// Student list - now loaded via loadStudentsPage
-async function loadStudents(): Promise<void> {
-  try {
-    students = await api.listStudents();
-  } catch (err) {
-    console.error('Failed to load students:', err);
-  }
-}
-
 function selectStudent(id: number): void {
   selectedStudentId = id;
-  const student = students.find((s) => s.id === id);
+  const student = findStudent(id);
 
   if (!student) return;
+  selectedStudent = student;
 
   // Show profile
   hide($('no-student-selected'));
@@ -752,7 +969,19 @@ function selectStudent(id: number): void {
   // Populate profile
   $('profile-avatar').textContent = `${student.first_name.charAt(0)}${student.last_name.charAt(0)}`;
   $('profile-name').textContent = `${student.first_name} ${student.last_name}`;
-  $('profile-details').textContent = student.grade_level || 'No grade level set';
+  $('profile-details').textContent = [
+    student.grade_level || 'No grade level set',
+    student.archived_at ? `Archived: discharged ${formatDischargeDate(student)} (${student.archive_reason})` : null,
+    student.shared_access
+      ? `Shared with you by ${student.owner_name} (${student.shared_access === 'treat' ? 'can treat' : 'view only'})`
+      : null,
+  ].filter(Boolean).join(' · ');
+  applyStudentPermissions(student);
+
+  // Discharged students are archived; deleting is for archived records only
+  $('archive-student-btn').classList.toggle('hidden', !!student.archived_at);
+  $('restore-student-btn').classList.toggle('hidden', !student.archived_at);
+  $('delete-student-btn').classList.toggle('hidden', !student.archived_at);
 
   // Populate student info card
   $('child-first-name').textContent = student.first_name || '—';
@@ -771,6 +1000,8 @@ function selectStudent(id: number): void {
   $('child-school').textContent = school?.name || '—';
 
   $('child-username').textContent = student.username || '—';
+  $('child-owner').textContent = student.owner_name || '—';
+  $('child-owner-row').classList.toggle('hidden', !student.shared_access);
 
   // Render evaluation data
   renderEvalData(student);
@@ -779,8 +1010,24 @@ function selectStudent(id: number): void {
   loadStudentGoals(student.id);
 
   // Load and render sessions
-  loadSessionHistory(student.id);
-  renderLiveSessions(); // Update live sessions to show only this student's sessions
+  if (canForStudent(student, 'sessions:read')) {
+    loadSessionHistory(student.id);
+    renderLiveSessions(); // Update live sessions to show only this student's sessions
+    loadServiceLedger(student.id);
+  }
+
+  // Upcoming sessions and what parents can see
+  loadScheduledSessions(student.id);
+  if (canForStudent(student, 'privacy:manage')) {
+    loadParentSharing(student.id);
+    loadStudentSharing(student.id);
+  }
+
+  // Picture password, QR badges and the devices the student is signed in on
+  if (canForStudent(student, 'students:update')) {
+    loadLoginMethods(student.id);
+    loadStudentDevices(student.id);
+  }
 }
 
 function renderEvalData(student: Student): void {
@@ -987,9 +1234,10 @@ async function handleAddStudent(e: Event): Promise<void> {
       school_id: schoolSelect.value ? parseInt(schoolSelect.value) : undefined,
     });
 
-    // Add to list and select
-    students.push(student);
+    // Select it and refresh the picker
+    selectedStudent = student;
     selectStudent(student.id);
+    loadStudents();
 
     // Close modal and reset form
     closeModal('add-student-modal');
@@ -1000,129 +1248,573 @@ async function handleAddStudent(e: Event): Promise<void> {
   }
 }
 
-// Delete student
-async function handleDeleteStudent(): Promise<void> {
-  if (!selectedStudentId) return;
+// Caseload import
+const IMPORT_FIELDS: { field: StudentImportField; label: string }[] = [
+  { field: 'first_name', label: 'First Name *' },
+  { field: 'last_name', label: 'Last Name *' },
+  { field: 'grade_level', label: 'Grade' },
+  { field: 'date_of_birth', label: 'Date of Birth' },
+  { field: 'problem_type', label: 'Problem Type' },
+  { field: 'school', label: 'School' },
+  { field: 'slp', label: 'SLP (name or email)' },
+  { field: 'session_duration_minutes', label: 'Service Minutes' },
+  { field: 'session_frequency', label: 'Service Frequency' },
+  { field: 'username', label: 'Username' },
+  { field: 'password', label: 'Password' },
+];
 
-  const student = students.find((s) => s.id === selectedStudentId);
-  if (!student) return;
+function openImportStudentsModal(): void {
+  pendingImportFile = null;
+  importPreview = null;
+  importCredentials = [];
+  ($('import-students-form') as HTMLFormElement).reset();
+  show($('import-students-form'));
+  hide($('import-done'));
+  renderImportPreview();
+  openModal('import-students-modal');
+}
 
-  const confirmed = confirm(`Delete ${student.first_name} ${student.last_name}? This cannot be undone.`);
-  if (!confirmed) return;
+function renderImportPreview(): void {
+  const mappingEl = $('import-mapping');
+  const rowsEl = $('import-rows');
+  const summaryEl = $('import-summary');
+  const skipLabel = $('import-skip-invalid-label');
+  const importBtn = $('import-students-btn') as HTMLButtonElement;
+
+  if (!importPreview) {
+    [mappingEl, rowsEl, summaryEl, skipLabel].forEach(hide);
+    importBtn.disabled = true;
+    importBtn.textContent = 'IMPORT';
+    return;
+  }
 
-  try {
-    await api.deleteStudent(selectedStudentId);
-    students = students.filter((s) => s.id !== selectedStudentId);
-    selectedStudentId = null;
+  const preview = importPreview;
+  const columnOptions = (selected: number | undefined) => [
+    `<option value="">Not in file</option>`,
+    ...preview.headers.map((header, i) =>
+      `<option value="${i}" ${selected === i ? 'selected' : ''}>${escapeHtml(header || `Column ${i + 1}`)}</option>`),
+  ].join('');
+
+  mappingEl.innerHTML = IMPORT_FIELDS.map(({ field, label }) => `
+    <div class="form-group">
+      <label for="import-map-${field}">${label}</label>
+      <select id="import-map-${field}" data-import-field="${field}">${columnOptions(preview.mapping[field])}</select>
+    </div>
+  `).join('');
+  mappingEl.querySelectorAll('select').forEach((select) => {
+    select.addEventListener('change', handleImportMappingChange);
+  });
 
-    // Hide profile and show placeholder
-    hide($('student-profile'));
-    show($('no-student-selected'));
+  rowsEl.innerHTML = preview.rows.map((row) => {
+    const details = [
+      `${escapeHtml(row.username)}${row.username_generated ? ' (generated)' : ''}`,
+      row.grade_level && escapeHtml(row.grade_level),
+      row.school_name && escapeHtml(row.school_name),
+      row.slp_name && escapeHtml(row.slp_name),
+      row.problem_type,
+      row.session_duration_minutes && `${row.session_duration_minutes} min${row.session_frequency ? `, ${escapeHtml(row.session_frequency)}` : ''}`,
+    ].filter(Boolean).join(' • ');
 
-    renderStudentModalList();
-  } catch (err) {
-    alert((err as ApiError).message);
-  }
+    return `
+      <div class="data-list-item import-row ${row.errors.length ? 'invalid' : ''}">
+        <div class="data-list-item-info">
+          <div class="data-list-item-name">${escapeHtml(row.first_name)} ${escapeHtml(row.last_name)}</div>
+          <div class="data-list-item-detail">${details}</div>
+          ${row.errors.map((error) => `<div class="import-row-error">${escapeHtml(error)}</div>`).join('')}
+        </div>
+        <div class="data-list-item-actions">
+          <span class="data-list-item-meta">Row ${row.row}</span>
+        </div>
+      </div>
+    `;
+  }).join('');
+
+  summaryEl.textContent = preview.invalid_rows
+    ? `${preview.valid_rows} of ${preview.rows.length} rows are ready. Fix the rows with errors in the file and choose it again, or skip them.`
+    : `All ${preview.rows.length} rows are ready to import.`;
+  [mappingEl, rowsEl, summaryEl].forEach(show);
+  skipLabel.classList.toggle('hidden', preview.invalid_rows === 0);
+
+  const skipInvalid = ($('import-skip-invalid') as HTMLInputElement).checked;
+  importBtn.disabled = preview.valid_rows === 0 || (preview.invalid_rows > 0 && !skipInvalid);
+  importBtn.textContent = `IMPORT ${preview.valid_rows} STUDENT${preview.valid_rows === 1 ? '' : 'S'}`;
 }
 
-// ============================================
-// Evaluation Upload Functions
-// ============================================
+async function loadImportPreview(mapping?: StudentImportMapping): Promise<void> {
+  if (!pendingImportFile) return;
+  const errorEl = $('import-error');
+  hide(errorEl);
 
-function resetEvalUploadModal(): void {
-  // Clean up blob URL to prevent memory leak
-  if (currentPdfUrl) {
-    URL.revokeObjectURL(currentPdfUrl);
+  try {
+    importPreview = await api.previewStudentImport(pendingImportFile, mapping);
+  } catch (err) {
+    // A rejected mapping change keeps the last good preview
+    if (!mapping) importPreview = null;
+    errorEl.textContent = (err as ApiError).message;
+    show(errorEl);
   }
+  renderImportPreview();
+}
 
-  // Reset state
-  pendingEvalFile = null;
-  extractedEvalData = null;
-  currentPdfUrl = null;
+async function handleImportFileChange(): Promise<void> {
+  const input = $('import-file') as HTMLInputElement;
+  pendingImportFile = input.files?.[0] ?? null;
+  importPreview = null;
+  await loadImportPreview();
+}
 
-  // Clear iframe
-  const pdfFrame = document.getElementById('eval-pdf-frame') as HTMLIFrameElement | null;
-  if (pdfFrame) pdfFrame.src = '';
+async function handleImportMappingChange(): Promise<void> {
+  const mapping: StudentImportMapping = {};
+  $('import-mapping').querySelectorAll<HTMLSelectElement>('select[data-import-field]').forEach((select) => {
+    if (select.value !== '') {
+      mapping[select.dataset.importField as StudentImportField] = parseInt(select.value);
+    }
+  });
+  await loadImportPreview(mapping);
+}
 
-  // Show upload state, hide others
-  show($('eval-upload-state'));
-  hide($('eval-loading-state'));
-  hide($('eval-review-state'));
+async function handleImportStudents(e: Event): Promise<void> {
+  e.preventDefault();
+  if (!pendingImportFile || !importPreview) return;
 
-  // Reset file input
-  ($('eval-file-input') as HTMLInputElement).value = '';
+  const errorEl = $('import-error');
+  const importBtn = $('import-students-btn') as HTMLButtonElement;
+  const skipInvalid = ($('import-skip-invalid') as HTMLInputElement).checked;
+  hide(errorEl);
+  importBtn.disabled = true;
 
-  // Hide password field and error
-  hide($('eval-password-field'));
-  hide($('eval-upload-error'));
-  ($('eval-pdf-password') as HTMLInputElement).value = '';
+  try {
+    const result = await api.importStudents(pendingImportFile, importPreview.mapping, skipInvalid);
+    importCredentials = result.credentials;
+    await loadStudents();
+
+    $('import-done-message').textContent = result.skipped
+      ? `Imported ${result.imported} students and skipped ${result.skipped} rows with errors.`
+      : `Imported ${result.imported} students.`;
+    hide($('import-students-form'));
+    show($('import-done'));
+  } catch (err) {
+    errorEl.textContent = (err as ApiError).message;
+    show(errorEl);
+    importBtn.disabled = false;
+  }
 }
 
-function showEvalLoading(): void {
-  hide($('eval-upload-state'));
-  show($('eval-loading-state'));
-  hide($('eval-review-state'));
+/**
+ * Open the new students' logins in their own window and print them, one card
+ * per student to cut out (the passwords are not shown anywhere else)
+ */
+function printImportCredentials(): void {
+  const win = window.open('', '_blank', 'width=800,height=900');
+  if (!win) {
+    alert('Allow pop-ups for this site to print the credential sheet.');
+    return;
+  }
+
+  const cards = importCredentials.map((credential) => `
+    <div class="card">
+      <h2>${escapeHtml(credential.first_name)} ${escapeHtml(credential.last_name)}</h2>
+      <p class="meta">${[credential.grade_level, credential.school_name, credential.slp_name].filter(Boolean).map((value) => escapeHtml(value!)).join(' • ')}</p>
+      <p>Username: <strong>${escapeHtml(credential.username)}</strong></p>
+      <p>Password: <strong>${escapeHtml(credential.password)}</strong></p>
+    </div>
+  `).join('');
+
+  win.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>PIPER student logins</title>
+  <style>
+    body { font-family: sans-serif; margin: 24px; }
+    h1 { font-size: 20px; margin: 0 0 16px; }
+    .cards { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+    .card { padding: 12px 16px; border: 2px dashed #999; border-radius: 8px; break-inside: avoid; }
+    .card h2 { margin: 0 0 4px; font-size: 18px; }
+    .card p { margin: 4px 0; font-size: 15px; }
+    .card .meta { font-size: 12px; color: #666; }
+    .card strong { font-family: monospace; font-size: 17px; }
+  </style>
+</head>
+<body>
+  <h1>PIPER student logins</h1>
+  <div class="cards">${cards}</div>
+</body>
+</html>`);
+  win.document.close();
+  win.focus();
+  win.print();
 }
 
-function showEvalReview(): void {
-  hide($('eval-upload-state'));
-  hide($('eval-loading-state'));
-  show($('eval-review-state'));
+// Archive and restore student
+function formatDischargeDate(student: Student): string {
+  // discharged_on is a calendar date; read it as local midnight so it does not shift a day
+  return student.discharged_on
+    ? new Date(`${student.discharged_on}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+    : '';
 }
 
-function showEvalError(message: string): void {
-  const errorEl = $('eval-upload-error');
-  errorEl.textContent = message;
-  show(errorEl);
+function openArchiveStudentModal(): void {
+  const today = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  ($('archive-student-form') as HTMLFormElement).reset();
+  ($('archive-discharged-on') as HTMLInputElement).value =
+    `${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`;
+  hide($('archive-error'));
+  openModal('archive-student-modal');
 }
 
-function populateEvalForm(data: EvalData): void {
-  console.log('🔍 populateEvalForm - Full data:', JSON.stringify(data, null, 2));
+// Archive (discharge) the student: off the caseload, records kept
+async function handleArchiveStudent(e: Event): Promise<void> {
+  e.preventDefault();
+  if (!selectedStudentId) return;
 
-  const fields = [
-    'service_type',
-    'languages_spoken',
-    'family_religion',
-    'medical_history',
-    'other_diagnoses',
-    'speech_diagnoses',
-    'prior_therapy',
-    'baseline_accuracy',
-    'goals_benchmarks',
-    'strengths',
-    'weaknesses',
-    'target_sounds',
-    'teachers',
-    'notes',
-  ];
+  const errorEl = $('archive-error');
+  const reason = ($('archive-reason') as HTMLInputElement).value.trim();
+  const dischargedOn = ($('archive-discharged-on') as HTMLInputElement).value;
+  hide(errorEl);
 
-  for (const field of fields) {
-    const fieldData = data[field as keyof EvalData];
-    const inputEl = document.getElementById(`extracted-${field}`) as
-      | HTMLInputElement
-      | HTMLSelectElement
-      | HTMLTextAreaElement
-      | null;
-    const fieldContainer = document.getElementById(`field-${field}`);
-    const hintEl = fieldContainer?.querySelector('.field-hint') as HTMLElement | null;
+  try {
+    const archived = await api.archiveStudent(selectedStudentId, reason, dischargedOn || undefined);
+    selectedStudent = archived;
+    closeModal('archive-student-modal');
+    selectStudent(archived.id);
+    await loadStudents();
+  } catch (err) {
+    errorEl.textContent = (err as ApiError).message;
+    show(errorEl);
+  }
+}
 
-    if (!inputEl) continue;
+async function handleRestoreStudent(): Promise<void> {
+  if (!selectedStudentId) return;
 
-    console.log(`🔍 Field "${field}":`, fieldData);
+  const student = findStudent(selectedStudentId);
+  if (!student) return;
+  if (!confirm(`Restore ${student.first_name} ${student.last_name} to the active caseload?`)) return;
 
-    // Set value
-    if (fieldData && typeof fieldData === 'object' && 'value' in fieldData) {
-      const value = fieldData.value;
-      if (Array.isArray(value)) {
-        inputEl.value = value.join(', ');
-      } else if (value !== null && value !== undefined) {
-        inputEl.value = String(value);
-      } else {
-        inputEl.value = '';
-      }
+  try {
+    const restored = await api.restoreStudent(student.id);
+    selectedStudent = restored;
+    selectStudent(restored.id);
+    await loadStudents();
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
 
-      // Set confidence styling - yellow for missing or uncertain (< 0.7)
-      const confidence = fieldData.confidence ?? 0;
+// Delete student (archived students only, admins only): request a code, then type it back
+async function handleDeleteStudent(): Promise<void> {
+  if (!selectedStudentId) return;
+
+  const studentId = selectedStudentId;
+  const student = findStudent(studentId);
+  if (!student) return;
+
+  const confirmed = confirm(`Delete ${student.first_name} ${student.last_name}? This cannot be undone.`);
+  if (!confirmed) return;
+
+  try {
+    const { confirmation_code } = await api.requestErasure(studentId);
+    const entered = prompt(
+      `To confirm, type the code ${confirmation_code} below. The code expires in 24 hours.`
+    );
+
+    if (entered === null || entered.trim() === '') {
+      await api.cancelErasure(studentId);
+      return;
+    }
+
+    await api.deleteStudent(studentId, entered);
+
+    // Hide profile and show placeholder
+    clearSelectedStudent();
+    await loadStudents();
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+// Download everything held about the student as a zip
+async function handleExportStudent(): Promise<void> {
+  if (!selectedStudentId) return;
+
+  try {
+    const { blob, fileName } = await api.exportStudentData(selectedStudentId);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+// Erase student: request a code, then type it back to confirm
+async function handleEraseStudent(): Promise<void> {
+  if (!selectedStudentId) return;
+
+  const studentId = selectedStudentId;
+  const student = findStudent(studentId);
+  if (!student) return;
+
+  const confirmed = confirm(
+    `Permanently erase all data for ${student.first_name} ${student.last_name}? ` +
+    'This removes the profile, goals, session history and uploaded documents. ' +
+    'Export the data first if it needs to be kept.'
+  );
+  if (!confirmed) return;
+
+  try {
+    const { confirmation_code } = await api.requestErasure(studentId);
+    const entered = prompt(
+      `To confirm, type the code ${confirmation_code} below. The code expires in 24 hours.`
+    );
+
+    if (entered === null || entered.trim() === '') {
+      await api.cancelErasure(studentId);
+      return;
+    }
+
+    const { request } = await api.confirmErasure(studentId, entered);
+    if (request.missing_documents && request.missing_documents.length > 0) {
+      alert(`Erased. These documents were already missing from storage: ${request.missing_documents.join(', ')}.`);
+    }
+    clearSelectedStudent();
+    await loadStudents();
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+// ============================================
+// Access Log Functions
+// ============================================
+
+const AUDIT_ACTION_LABELS: Record<AuditLogEntry['action'], string> = {
+  read: 'Viewed',
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  erase: 'Erased',
+};
+
+// Every active student the caller can see, page by page
+async function listAllStudents(): Promise<Student[]> {
+  const all: Student[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await api.listStudents({ limit: 200, cursor });
+    all.push(...page.students);
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+  return all;
+}
+
+async function loadAuditPage(): Promise<void> {
+  try {
+    const [studentsData, actorsData] = await Promise.all([
+      listAllStudents(),
+      api.getAuditActors(),
+    ]);
+
+    const studentSelect = $('audit-student-filter') as HTMLSelectElement;
+    const selectedAuditStudent = studentSelect.value;
+    studentSelect.innerHTML = '<option value="">All students</option>' +
+      studentsData
+        .map(s => `<option value="${s.id}">${escapeHtml(s.first_name)} ${escapeHtml(s.last_name)}</option>`)
+        .join('');
+    studentSelect.value = selectedAuditStudent;
+
+    const actorSelect = $('audit-actor-filter') as HTMLSelectElement;
+    const selectedActor = actorSelect.value;
+    actorSelect.innerHTML = '<option value="">Anyone</option>' +
+      actorsData.actors
+        .map(a => {
+          const name = a.actor_name ? escapeHtml(a.actor_name) : `#${a.actor_id}`;
+          const kind = a.actor_type === 'child' ? 'Student' : a.actor_type === 'member' ? 'Member' : 'Therapist';
+          return `<option value="${a.actor_type}:${a.actor_id}">${name} (${kind})</option>`;
+        })
+        .join('');
+    actorSelect.value = selectedActor;
+  } catch (err) {
+    console.error('Failed to load access log filters:', err);
+  }
+
+  await loadAuditEntries();
+}
+
+function getAuditFilters(): AuditLogFilters {
+  const filters: AuditLogFilters = {};
+
+  const studentId = ($('audit-student-filter') as HTMLSelectElement).value;
+  if (studentId) filters.student_id = parseInt(studentId);
+
+  const actor = ($('audit-actor-filter') as HTMLSelectElement).value;
+  if (actor) {
+    const [actorType, actorId] = actor.split(':');
+    filters.actor_type = actorType as AuditLogFilters['actor_type'];
+    filters.actor_id = parseInt(actorId);
+  }
+
+  return filters;
+}
+
+async function loadAuditEntries(append = false): Promise<void> {
+  const listEl = document.getElementById('audit-list');
+  if (!listEl) return;
+
+  try {
+    const filters = getAuditFilters();
+    if (append && auditNextBefore) filters.before = auditNextBefore;
+
+    const page = await api.getAuditLog(filters);
+    auditEntries = append ? [...auditEntries, ...page.entries] : page.entries;
+    auditNextBefore = page.next_before;
+    renderAuditList();
+  } catch (err) {
+    listEl.innerHTML = '<p class="empty-state">Failed to load access log</p>';
+  }
+}
+
+function renderAuditList(): void {
+  const listEl = document.getElementById('audit-list');
+  const loadMoreBtn = document.getElementById('audit-load-more-btn');
+  if (!listEl) return;
+
+  if (loadMoreBtn) {
+    loadMoreBtn.classList.toggle('hidden', auditNextBefore === null);
+  }
+
+  if (auditEntries.length === 0) {
+    listEl.innerHTML = '<p class="empty-state">No access recorded for this filter.</p>';
+    return;
+  }
+
+  listEl.innerHTML = auditEntries.map(entry => {
+    const actor = entry.actor_name ? escapeHtml(entry.actor_name) : `${entry.actor_type} #${entry.actor_id ?? '?'}`;
+    const student = entry.student_id
+      ? (entry.student_name ? escapeHtml(entry.student_name) : `student #${entry.student_id}`)
+      : 'all students';
+    const denied = entry.status_code >= 400;
+
+    return `
+      <div class="data-list-item audit-entry${denied ? ' denied' : ''}">
+        <div class="data-list-item-info">
+          <div class="data-list-item-name">
+            ${actor} &middot; ${AUDIT_ACTION_LABELS[entry.action]} ${entry.resource_type} &middot; ${student}
+          </div>
+          <div class="data-list-item-detail">
+            ${escapeHtml(entry.method)} ${escapeHtml(entry.path)} &middot; ${entry.status_code}${entry.ip ? ` &middot; ${escapeHtml(entry.ip)}` : ''}
+          </div>
+        </div>
+        <div class="data-list-item-actions">
+          <span class="data-list-item-meta">${new Date(entry.created_at).toLocaleString()}</span>
+        </div>
+      </div>
+    `;
+  }).join('');
+}
+
+// ============================================
+// Evaluation Upload Functions
+// ============================================
+
+function resetEvalUploadModal(): void {
+  // Clean up blob URL to prevent memory leak
+  if (currentPdfUrl) {
+    URL.revokeObjectURL(currentPdfUrl);
+  }
+
+  // Reset state
+  pendingEvalFile = null;
+  extractedEvalData = null;
+  currentPdfUrl = null;
+
+  // Clear iframe
+  const pdfFrame = document.getElementById('eval-pdf-frame') as HTMLIFrameElement | null;
+  if (pdfFrame) pdfFrame.src = '';
+
+  // Show upload state, hide others
+  show($('eval-upload-state'));
+  hide($('eval-loading-state'));
+  hide($('eval-review-state'));
+
+  // Reset file input
+  ($('eval-file-input') as HTMLInputElement).value = '';
+
+  // Hide password field and error
+  hide($('eval-password-field'));
+  hide($('eval-upload-error'));
+  ($('eval-pdf-password') as HTMLInputElement).value = '';
+}
+
+function showEvalLoading(): void {
+  hide($('eval-upload-state'));
+  show($('eval-loading-state'));
+  hide($('eval-review-state'));
+}
+
+function showEvalReview(): void {
+  hide($('eval-upload-state'));
+  hide($('eval-loading-state'));
+  show($('eval-review-state'));
+}
+
+function showEvalError(message: string): void {
+  const errorEl = $('eval-upload-error');
+  errorEl.textContent = message;
+  show(errorEl);
+}
+
+function populateEvalForm(data: EvalData): void {
+  console.log('🔍 populateEvalForm - Full data:', JSON.stringify(data, null, 2));
+
+  const fields = [
+    'service_type',
+    'languages_spoken',
+    'family_religion',
+    'medical_history',
+    'other_diagnoses',
+    'speech_diagnoses',
+    'prior_therapy',
+    'baseline_accuracy',
+    'goals_benchmarks',
+    'strengths',
+    'weaknesses',
+    'target_sounds',
+    'teachers',
+    'notes',
+  ];
+
+  for (const field of fields) {
+    const fieldData = data[field as keyof EvalData];
+    const inputEl = document.getElementById(`extracted-${field}`) as
+      | HTMLInputElement
+      | HTMLSelectElement
+      | HTMLTextAreaElement
+      | null;
+    const fieldContainer = document.getElementById(`field-${field}`);
+    const hintEl = fieldContainer?.querySelector('.field-hint') as HTMLElement | null;
+
+    if (!inputEl) continue;
+
+    console.log(`🔍 Field "${field}":`, fieldData);
+
+    // Set value
+    if (fieldData && typeof fieldData === 'object' && 'value' in fieldData) {
+      const value = fieldData.value;
+      if (Array.isArray(value)) {
+        inputEl.value = value.join(', ');
+      } else if (value !== null && value !== undefined) {
+        inputEl.value = String(value);
+      } else {
+        inputEl.value = '';
+      }
+
+      // Set confidence styling - yellow for missing or uncertain (< 0.7)
+      const confidence = fieldData.confidence ?? 0;
       const hasValue = value !== null && value !== undefined && value !== '';
       if (fieldContainer) {
         fieldContainer.classList.remove('low-confidence');
@@ -1316,10 +2008,7 @@ async function confirmEvalData(): Promise<void> {
     const result = await api.confirmEvaluation(selectedStudentId, evalData, serviceType);
 
     // Update local student data
-    const idx = students.findIndex((s) => s.id === selectedStudentId);
-    if (idx !== -1) {
-      students[idx] = result.student;
-    }
+    replaceStudent(result.student);
 
     // Close modal and reset
     resetEvalUploadModal();
@@ -1643,7 +2332,7 @@ function showGoalsError(message: string): void {
 // ============================================
 
 function openAddGoalModal(): void {
-  const student = students.find(s => s.id === selectedStudentId);
+  const student = findStudent(selectedStudentId);
 
   // Reset form fields
   const baselineInput = document.getElementById('add-goal-baseline') as HTMLInputElement;
@@ -2251,8 +2940,7 @@ async function confirmGoalsData(): Promise<void> {
 // ============================================
 
 function initLiveWebSocket(): void {
-  const token = api.getToken();
-  if (!token) return;
+  if (!api.isAuthenticated()) return;
 
   therapistLiveService.setCallbacks({
     onConnected: () => {
@@ -2266,17 +2954,14 @@ function initLiveWebSocket(): void {
       renderLiveSessions();
     },
     onSessionStarted: (session) => {
-      // Add to live sessions if it's for one of our students
-      const student = students.find(s => s.id === session.childId);
-      if (student) {
-        const existingIdx = liveSessions.findIndex(s => s.sessionId === session.sessionId);
-        if (existingIdx === -1) {
-          liveSessions.push(session);
-        } else {
-          liveSessions[existingIdx] = session;
-        }
-        renderLiveSessions();
+      // The server only announces sessions of students we can see
+      const existingIdx = liveSessions.findIndex(s => s.sessionId === session.sessionId);
+      if (existingIdx === -1) {
+        liveSessions.push(session);
+      } else {
+        liveSessions[existingIdx] = session;
       }
+      renderLiveSessions();
     },
     onCardShown: (data: LiveCardEvent) => {
       currentLiveCard = { sessionId: data.sessionId, cardQuestion: data.cardQuestion };
@@ -2312,7 +2997,7 @@ function initLiveWebSocket(): void {
     },
   });
 
-  therapistLiveService.connect(token);
+  void therapistLiveService.connect(() => api.getFreshToken());
 }
 
 function renderLiveSessions(): void {
@@ -2551,58 +3236,1075 @@ async function showSessionDetails(sessionId: number): Promise<void> {
   }
 }
 
-function formatDuration(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  if (mins === 0) return `${secs}s`;
-  return `${mins}m ${secs}s`;
+// ==========================================================================
+// SERVICE MINUTES
+// ==========================================================================
+
+const SERVICE_STATUS_LABELS: Record<ServiceComplianceStatus | ServicePeriodSummary['status'], string> = {
+  under_served: 'Under-served',
+  behind: 'Behind',
+  on_track: 'On track',
+  no_mandate: 'No mandate',
+  met: 'Met',
+  under: 'Short',
+  in_progress: 'In progress',
+};
+
+function formatServiceDay(day: string): string {
+  // Calendar dates; read them as local midnight so they do not shift a day
+  return new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
 }
 
-function escapeHtml(text: string): string {
-  const div = document.createElement('div');
-  div.textContent = text;
-  return div.innerHTML;
+function describeMandate(mandate: ServiceMandate | null, frequency: string | null): string {
+  if (!mandate) {
+    return frequency
+      ? `The service frequency "${frequency}" does not give minutes. Set a session length or a frequency like "2x weekly, 30 minutes".`
+      : 'No service frequency set for this student.';
+  }
+  return mandate.sessions
+    ? `${mandate.sessions} × ${mandate.minutes_per_session} min per ${mandate.period} (${mandate.minutes_per_period} min)`
+    : `${mandate.minutes_per_period} min per ${mandate.period}`;
 }
 
-// Auth handlers
-async function handleLogin(e: Event): Promise<void> {
-  e.preventDefault();
+function formatServicePeriod(label: string, period: ServicePeriodSummary): string {
+  return `
+    <span class="session-stat">${label}:
+      <span class="session-stat-value">${period.delivered_minutes} / ${period.required_minutes ?? '—'} min</span>
+    </span>
+  `;
+}
 
-  const email = ($('login-email') as HTMLInputElement).value;
-  const password = ($('login-password') as HTMLInputElement).value;
-  const errorEl = $('login-error');
+async function loadServiceCompliance(): Promise<void> {
+  const list = $('service-compliance-list');
+  try {
+    const overview = await api.getServiceCompliance();
+    const { counts } = overview;
+    $('service-compliance-counts').textContent =
+      `${counts.under_served} under-served · ${counts.behind} behind · ${counts.on_track} on track`;
+
+    // The dashboard lists only the students who need attention
+    const flagged = overview.students.filter((s) => s.status === 'under_served' || s.status === 'behind');
+    if (flagged.length === 0) {
+      list.innerHTML = '<p class="empty-state">No students are behind on their service minutes</p>';
+      return;
+    }
 
-  hide(errorEl);
+    list.innerHTML = flagged.map((s) => `
+      <div class="session-history-item service-compliance-item" data-student-id="${s.student_id}">
+        <div class="session-history-header">
+          <span class="session-date">${escapeHtml(s.student_name)}</span>
+          <span class="session-status ${s.status}">${SERVICE_STATUS_LABELS[s.status]}</span>
+        </div>
+        <div class="session-history-stats">
+          ${s.previous_period ? formatServicePeriod(`Last ${s.mandate!.period}`, s.previous_period) : ''}
+          ${formatServicePeriod(`This ${s.mandate!.period}`, s.current_period)}
+        </div>
+      </div>
+    `).join('');
+
+    list.querySelectorAll<HTMLElement>('[data-student-id]').forEach((item) => {
+      item.addEventListener('click', () => {
+        // The students page loads the selected student, even if the picker has not
+        selectedStudentId = parseInt(item.dataset.studentId || '0');
+        selectedStudent = null;
+        navigate('students');
+      });
+    });
+  } catch (err) {
+    console.error('Failed to load service minutes:', err);
+    list.innerHTML = '<p class="empty-state">Failed to load service minutes</p>';
+  }
+}
 
+async function loadServiceLedger(studentId: number): Promise<void> {
+  serviceLedger = null;
   try {
-    const result = await api.login({ email, password });
-    currentTherapist = result.therapist;
-    showDashboard();
+    serviceLedger = await api.getServiceLedger(studentId);
+    renderServiceLedger();
   } catch (err) {
-    errorEl.textContent = (err as ApiError).message;
-    show(errorEl);
+    console.error('Failed to load service minutes:', err);
+    $('service-ledger-list').innerHTML = '<p class="empty-state">Failed to load service minutes</p>';
   }
 }
 
-async function handleRegister(e: Event): Promise<void> {
-  e.preventDefault();
+function renderServiceLedger(): void {
+  const list = $('service-ledger-list');
+  const student = findStudent(selectedStudentId);
+  if (!student || !serviceLedger) return;
+  const { mandate, totals } = serviceLedger;
+
+  $('service-mandate').textContent = [
+    describeMandate(mandate, serviceLedger.session_frequency),
+    mandate && totals.shortfall_minutes
+      ? `${totals.shortfall_minutes} min short since ${formatServiceDay(serviceLedger.from)}`
+      : null,
+  ].filter(Boolean).join(' · ');
+
+  // Newest period first
+  const periods = [...serviceLedger.periods].reverse();
+  if (periods.every((p) => p.entries.length === 0) && !mandate) {
+    list.innerHTML = '<p class="empty-state">No service minutes yet</p>';
+    return;
+  }
 
-  const firstName = ($('reg-first') as HTMLInputElement).value;
-  const lastName = ($('reg-last') as HTMLInputElement).value;
-  const email = ($('reg-email') as HTMLInputElement).value;
-  const password = ($('reg-password') as HTMLInputElement).value;
-  const errorEl = $('register-error');
+  const canLog = canForStudent(student, 'students:update');
+  list.innerHTML = periods.map((p) => `
+    <div class="session-history-item service-period-item">
+      <div class="session-history-header">
+        <span class="session-date">${formatServiceDay(p.start)} – ${formatServiceDay(p.end)}</span>
+        ${p.status !== 'no_mandate' ? `<span class="session-status ${p.status}">${SERVICE_STATUS_LABELS[p.status]}</span>` : ''}
+      </div>
+      <div class="session-history-stats">
+        ${formatServicePeriod('Delivered', p)}
+      </div>
+      ${p.entries.length > 0 ? `
+        <ul class="service-entries">
+          ${p.entries.map((entry) => `
+            <li>
+              <span>${formatServiceDay(entry.date)}</span>
+              <span class="service-entry-source">${entry.source === 'session' ? 'Boardgame session' : escapeHtml(entry.notes || 'Logged service')}</span>
+              <span class="session-stat-value">${entry.minutes} min</span>
+              ${entry.source === 'log' && canLog ? `<button class="btn-delete-small" data-delete-service-log="${entry.id}">Delete</button>` : ''}
+            </li>
+          `).join('')}
+        </ul>
+      ` : ''}
+    </div>
+  `).join('');
 
-  hide(errorEl);
+  list.querySelectorAll<HTMLElement>('[data-delete-service-log]').forEach((btn) => {
+    btn.addEventListener('click', () => handleDeleteServiceLog(parseInt(btn.dataset.deleteServiceLog || '0')));
+  });
+}
+
+async function handleLogService(e: Event): Promise<void> {
+  e.preventDefault();
+  if (!selectedStudentId) return;
+
+  const deliveredOn = ($('service-log-date') as HTMLInputElement).value;
+  const minutes = ($('service-log-minutes') as HTMLInputElement).value;
+  const notes = ($('service-log-notes') as HTMLInputElement).value.trim();
+  if (!deliveredOn || !minutes) return;
+
+  try {
+    await api.createServiceLog(selectedStudentId, {
+      delivered_on: deliveredOn,
+      minutes: parseInt(minutes),
+      notes: notes || undefined,
+    });
+    ($('service-log-form') as HTMLFormElement).reset();
+    await loadServiceLedger(selectedStudentId);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleDeleteServiceLog(logId: number): Promise<void> {
+  if (!selectedStudentId || !logId) return;
+  if (!confirm('Delete this service log?')) return;
+
+  try {
+    await api.deleteServiceLog(selectedStudentId, logId);
+    await loadServiceLedger(selectedStudentId);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+/**
+ * Open the minutes ledger in its own window and print it for an IEP meeting
+ */
+function printServiceLedger(): void {
+  if (!serviceLedger) return;
+  const ledger = serviceLedger;
+
+  const win = window.open('', '_blank', 'width=800,height=900');
+  if (!win) {
+    alert('Allow pop-ups for this site to print the ledger.');
+    return;
+  }
+
+  const rows = ledger.periods.map((p) => `
+    <tr class="period">
+      <td>${formatServiceDay(p.start)} – ${formatServiceDay(p.end)}</td>
+      <td>${p.required_minutes ?? '—'}</td>
+      <td>${p.delivered_minutes}</td>
+      <td>${p.status === 'no_mandate' ? '—' : SERVICE_STATUS_LABELS[p.status]}</td>
+    </tr>
+    ${p.entries.map((entry) => `
+      <tr class="entry">
+        <td>${formatServiceDay(entry.date)}</td>
+        <td colspan="2">${entry.source === 'session' ? 'Boardgame session' : escapeHtml(entry.notes || 'Logged service')}</td>
+        <td>${entry.minutes} min</td>
+      </tr>
+    `).join('')}
+  `).join('');
+
+  win.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>Service minutes: ${escapeHtml(ledger.student_name)}</title>
+  <style>
+    body { font-family: sans-serif; margin: 24px; }
+    h1 { font-size: 20px; margin: 0 0 4px; }
+    p { margin: 4px 0; font-size: 14px; }
+    table { width: 100%; margin-top: 16px; border-collapse: collapse; font-size: 13px; }
+    th, td { padding: 6px 8px; text-align: left; border-bottom: 1px solid #ddd; }
+    tr.period td { font-weight: bold; background: #f4f4f4; }
+    tr.entry td:first-child { padding-left: 24px; color: #666; }
+  </style>
+</head>
+<body>
+  <h1>Service minutes: ${escapeHtml(ledger.student_name)}</h1>
+  <p>${formatServiceDay(ledger.from)} – ${formatServiceDay(ledger.to)}</p>
+  <p>Mandate: ${escapeHtml(describeMandate(ledger.mandate, ledger.session_frequency))}</p>
+  <p>Delivered: ${ledger.totals.delivered_minutes} min${ledger.totals.required_minutes !== null ? ` of ${ledger.totals.required_minutes} min` : ''}${ledger.totals.shortfall_minutes ? ` (${ledger.totals.shortfall_minutes} min short in finished periods)` : ''}</p>
+  <table>
+    <thead><tr><th>Period</th><th>Required</th><th>Delivered</th><th>Status</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</body>
+</html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+}
+
+// ==========================================================================
+// PARENT PORTAL
+// ==========================================================================
+
+async function loadScheduledSessions(studentId: number): Promise<void> {
+  try {
+    scheduledSessions = await api.listScheduledSessions(studentId);
+    renderScheduledSessions();
+  } catch (err) {
+    console.error('Failed to load scheduled sessions:', err);
+    $('scheduled-sessions-list').innerHTML = '<p class="empty-state">Failed to load scheduled sessions</p>';
+  }
+}
+
+function renderScheduledSessions(): void {
+  const list = $('scheduled-sessions-list');
+  const student = findStudent(selectedStudentId);
+  if (!student) return;
+  const now = new Date().toISOString();
+  const upcoming = scheduledSessions.filter((s) => s.scheduled_for >= now);
+
+  if (upcoming.length === 0) {
+    list.innerHTML = '<p class="empty-state">No sessions scheduled</p>';
+    return;
+  }
+
+  list.innerHTML = upcoming.map((s) => {
+    const date = new Date(s.scheduled_for);
+    const when = `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+    return `
+      <div class="session-history-item scheduled-session-item">
+        <div class="session-history-header">
+          <span class="session-date">${when}</span>
+          ${s.duration_minutes ? `<span class="session-stat-value">${s.duration_minutes} min</span>` : ''}
+          ${canForStudent(student, 'students:update') ? `<button class="btn-delete-small" data-cancel-schedule="${s.id}">Cancel</button>` : ''}
+        </div>
+      </div>
+    `;
+  }).join('');
+
+  list.querySelectorAll<HTMLElement>('[data-cancel-schedule]').forEach((btn) => {
+    btn.addEventListener('click', () => handleCancelScheduledSession(parseInt(btn.dataset.cancelSchedule || '0')));
+  });
+}
+
+async function handleScheduleSession(e: Event): Promise<void> {
+  e.preventDefault();
+  if (!selectedStudentId) return;
+
+  const at = ($('schedule-session-at') as HTMLInputElement).value;
+  const minutes = ($('schedule-session-minutes') as HTMLInputElement).value;
+  if (!at) return;
+
+  try {
+    await api.scheduleSession(selectedStudentId, {
+      // datetime-local has no zone; send it as the browser's local time
+      scheduled_for: new Date(at).toISOString(),
+      duration_minutes: minutes ? parseInt(minutes) : undefined,
+    });
+    ($('schedule-session-form') as HTMLFormElement).reset();
+    await loadScheduledSessions(selectedStudentId);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleCancelScheduledSession(sessionId: number): Promise<void> {
+  if (!selectedStudentId || !sessionId) return;
+  if (!confirm('Cancel this scheduled session?')) return;
+
+  try {
+    await api.cancelScheduledSession(selectedStudentId, sessionId);
+    await loadScheduledSessions(selectedStudentId);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function loadParentSharing(studentId: number): Promise<void> {
+  try {
+    const sharing = await api.getParentSharing(studentId);
+    ($('share-eval-data') as HTMLInputElement).checked = sharing.share_eval_data;
+    ($('share-safety-signals') as HTMLInputElement).checked = sharing.share_safety_signals;
+    ($('home-practice-note') as HTMLTextAreaElement).value = sharing.home_practice_note || '';
+  } catch (err) {
+    console.error('Failed to load parent sharing settings:', err);
+  }
+}
+
+async function handleSaveParentSharing(): Promise<void> {
+  if (!selectedStudentId) return;
+
+  try {
+    await api.updateParentSharing(selectedStudentId, {
+      share_eval_data: ($('share-eval-data') as HTMLInputElement).checked,
+      share_safety_signals: ($('share-safety-signals') as HTMLInputElement).checked,
+      home_practice_note: ($('home-practice-note') as HTMLTextAreaElement).value.trim() || null,
+    });
+    alert('Parent sharing settings saved');
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+// ==========================================================================
+// STUDENT SHARING
+// ==========================================================================
+
+async function loadStudentSharing(studentId: number): Promise<void> {
+  try {
+    const [shares, transfers] = await Promise.all([
+      api.listStudentShares(studentId),
+      api.listStudentTransfers(studentId),
+    ]);
+    renderStudentShares(shares);
+    renderStudentTransfers(transfers);
+  } catch (err) {
+    console.error('Failed to load student sharing:', err);
+    $('student-shares-list').innerHTML = '<p class="empty-state">Failed to load sharing</p>';
+  }
+}
+
+function renderStudentShares(shares: StudentShare[]): void {
+  const list = $('student-shares-list');
+  if (shares.length === 0) {
+    list.innerHTML = '<p class="empty-state">Not shared with anyone</p>';
+    return;
+  }
+
+  list.innerHTML = shares.map((share) => `
+    <div class="session-history-item">
+      <div class="session-history-header">
+        <span class="session-date" title="${escapeHtml(share.therapist_email)}">${escapeHtml(share.therapist_name)}</span>
+        <span class="session-stat-value">${share.access === 'treat' ? 'Can treat' : 'Can view'}</span>
+        <button class="btn-delete-small" data-revoke-share="${share.id}">Remove</button>
+      </div>
+    </div>
+  `).join('');
+
+  list.querySelectorAll<HTMLElement>('[data-revoke-share]').forEach((btn) => {
+    const share = shares.find((s) => s.id === parseInt(btn.dataset.revokeShare || '0'));
+    if (share) btn.addEventListener('click', () => handleRevokeStudentShare(share));
+  });
+}
+
+function renderStudentTransfers(transfers: StudentTransfer[]): void {
+  const list = $('student-transfers-list');
+  if (transfers.length === 0) {
+    list.innerHTML = '<p class="empty-state">Never transferred</p>';
+    return;
+  }
+
+  list.innerHTML = transfers.map((transfer) => `
+    <div class="session-history-item">
+      <div class="session-history-header">
+        <span class="session-date">${new Date(transfer.transferred_at).toLocaleDateString()}</span>
+        <span class="session-stat-value">
+          ${escapeHtml(transfer.from_therapist_name ?? 'A former therapist')} → ${escapeHtml(transfer.to_therapist_name ?? 'A former therapist')}
+        </span>
+      </div>
+    </div>
+  `).join('');
+}
+
+async function handleShareStudent(e: Event): Promise<void> {
+  e.preventDefault();
+  if (!selectedStudentId) return;
+
+  const email = ($('share-student-email') as HTMLInputElement).value.trim();
+  const access = ($('share-student-access') as HTMLSelectElement).value as StudentShareAccess;
+  if (!email) return;
+
+  try {
+    await api.shareStudent(selectedStudentId, email, access);
+    ($('share-student-form') as HTMLFormElement).reset();
+    await loadStudentSharing(selectedStudentId);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleRevokeStudentShare(share: StudentShare): Promise<void> {
+  if (!selectedStudentId) return;
+  if (!confirm(`Stop sharing this student with ${share.therapist_name}?`)) return;
+
+  try {
+    await api.revokeStudentShare(selectedStudentId, share.id);
+    await loadStudentSharing(selectedStudentId);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleTransferStudent(e: Event): Promise<void> {
+  e.preventDefault();
+  if (!selectedStudentId) return;
+
+  const student = findStudent(selectedStudentId);
+  const email = ($('transfer-student-email') as HTMLInputElement).value.trim();
+  const keepAccess = ($('transfer-keep-access') as HTMLSelectElement).value as StudentShareAccess | '';
+  if (!student || !email) return;
+
+  const confirmed = confirm(
+    `Transfer ${student.first_name} ${student.last_name} to ${email}? They become the student's therapist, with the evaluation, goals and session history.`
+  );
+  if (!confirmed) return;
+
+  try {
+    await api.transferStudent(student.id, email, keepAccess || undefined);
+    ($('transfer-student-form') as HTMLFormElement).reset();
+
+    // Without kept access the student is no longer ours to show
+    try {
+      selectedStudent = await api.getStudent(student.id);
+      selectStudent(student.id);
+    } catch {
+      clearSelectedStudent();
+    }
+    await loadStudents();
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+// ==========================================================================
+// KID-FRIENDLY LOGIN
+// ==========================================================================
+
+function renderPictureSequence(pictures: PictureIconId[]): string {
+  return pictures.map((id) => {
+    const icon = PICTURE_PASSWORD_ICONS.find((i) => i.id === id)!;
+    return `<span title="${icon.label}">${icon.emoji}</span>`;
+  }).join('');
+}
+
+async function loadLoginMethods(studentId: number): Promise<void> {
+  try {
+    renderLoginMethods(await api.getLoginMethods(studentId));
+  } catch (err) {
+    console.error('Failed to load login methods:', err);
+    $('login-badges-list').innerHTML = '<p class="empty-state">Failed to load login methods</p>';
+  }
+}
+
+function renderLoginMethods(methods: ChildLoginMethods): void {
+  const status = $('picture-password-status');
+  const picture = methods.picture_password;
+
+  $('account-lock-notice').classList.toggle('hidden', !methods.locked_until);
+  if (methods.locked_until) {
+    const until = new Date(methods.locked_until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    $('account-lock-text').textContent = `Locked until ${until} after too many wrong tries`;
+  }
+
+  if (!picture) {
+    status.innerHTML = '<p class="empty-state">No picture password</p>';
+    hide($('remove-picture-password-btn'));
+  } else {
+    status.innerHTML = `<p>Set ${new Date(picture.created_at).toLocaleDateString()}</p>`;
+    show($('remove-picture-password-btn'));
+  }
+
+  const list = $('login-badges-list');
+  if (methods.badges.length === 0) {
+    list.innerHTML = '<p class="empty-state">No badges printed</p>';
+    return;
+  }
+
+  list.innerHTML = methods.badges.map((badge) => `
+    <div class="session-history-item login-badge-item">
+      <div class="session-history-header">
+        <span class="session-date">${escapeHtml(badge.label || 'Badge')} · ${new Date(badge.created_at).toLocaleDateString()}</span>
+        <span class="session-stat-value">${badge.last_used_at ? `Last used ${new Date(badge.last_used_at).toLocaleDateString()}` : 'Never used'}</span>
+        <button class="btn-delete-small" data-revoke-badge="${badge.id}">Revoke</button>
+      </div>
+    </div>
+  `).join('');
+
+  list.querySelectorAll<HTMLElement>('[data-revoke-badge]').forEach((btn) => {
+    btn.addEventListener('click', () => handleRevokeBadge(parseInt(btn.dataset.revokeBadge || '0')));
+  });
+}
+
+async function handleGeneratePicturePassword(): Promise<void> {
+  const student = findStudent(selectedStudentId);
+  if (!student) return;
+
+  const replacing = !$('remove-picture-password-btn').classList.contains('hidden');
+  if (replacing && !confirm(`Give ${student.first_name} new pictures? The old ones will stop working.`)) return;
+
+  try {
+    const { pictures } = await api.setPicturePassword(student.id);
+    await loadLoginMethods(student.id);
+    // Only shown now: the server keeps just a hash of the sequence
+    $('picture-password-status').insertAdjacentHTML('beforeend', `
+      <div class="picture-sequence">${renderPictureSequence(pictures)}</div>
+      <p>Show ${escapeHtml(student.first_name)} these pictures in this order. They won't be shown again.</p>
+    `);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleRemovePicturePassword(): Promise<void> {
+  const student = findStudent(selectedStudentId);
+  if (!student) return;
+  if (!confirm(`Turn off picture login for ${student.first_name}?`)) return;
+
+  try {
+    await api.removePicturePassword(student.id);
+    await loadLoginMethods(student.id);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handlePrintBadge(): Promise<void> {
+  const student = findStudent(selectedStudentId);
+  if (!student) return;
+
+  const label = prompt('Label for this badge (optional), e.g. "Classroom tablet"', '');
+  if (label === null) return;
+
+  try {
+    const issued = await api.createLoginBadge(student.id, label.trim() || undefined);
+    printLoginBadge(student, issued);
+    await loadLoginMethods(student.id);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+/**
+ * Open the badge in its own window and print it (the token is not kept anywhere else)
+ */
+function printLoginBadge(student: Student, issued: IssuedLoginBadge): void {
+  const win = window.open('', '_blank', 'width=480,height=640');
+  if (!win) {
+    alert('Allow pop-ups for this site to print the badge. The badge was created; revoke it and print a new one.');
+    return;
+  }
+
+  win.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <title>Login badge - ${escapeHtml(student.first_name)}</title>
+  <style>
+    body { font-family: sans-serif; display: flex; justify-content: center; padding: 24px; }
+    .badge { width: 3.2in; padding: 16px; border: 2px dashed #999; border-radius: 12px; text-align: center; }
+    .badge h1 { margin: 0 0 8px; font-size: 28px; }
+    .badge svg { width: 2.6in; height: 2.6in; }
+    .badge p { margin: 8px 0 0; font-size: 16px; }
+  </style>
+</head>
+<body>
+  <div class="badge">
+    <h1>${escapeHtml(student.first_name)}</h1>
+    ${issued.qr_svg}
+    <p>Scan me to play PIPER!</p>
+  </div>
+</body>
+</html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+}
+
+async function handleUnlockStudent(): Promise<void> {
+  if (!selectedStudentId) return;
+
+  try {
+    await api.unlockStudent(selectedStudentId);
+    await loadLoginMethods(selectedStudentId);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleRevokeBadge(badgeId: number): Promise<void> {
+  if (!selectedStudentId || !badgeId) return;
+  if (!confirm('Revoke this badge? It will stop working right away.')) return;
+
+  try {
+    await api.revokeLoginBadge(selectedStudentId, badgeId);
+    await loadLoginMethods(selectedStudentId);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+// ==========================================================================
+// SECURITY (TWO-FACTOR AUTHENTICATION)
+// ==========================================================================
+
+function renderTwoFactorSetup(setup: TwoFactorSetup, qrId: string, secretId: string): void {
+  // The QR code is an SVG rendered by the server from the otpauth:// URI
+  $(qrId).innerHTML = setup.qr_svg;
+  $(secretId).textContent = setup.secret.replace(/(.{4})/g, '$1 ').trim();
+}
+
+function showRecoveryCodes(codes: string[]): void {
+  const display = $('recovery-codes-display');
+  display.innerHTML = `
+    <p>Recovery codes: each one signs you in once if you lose your phone. Save them somewhere safe. They won't be shown again.</p>
+    <ul>${codes.map((code) => `<li>${escapeHtml(code)}</li>`).join('')}</ul>
+  `;
+  show(display);
+}
+
+async function loadSecurityPage(): Promise<void> {
+  hide($('two-factor-enroll'));
+  hide($('recovery-codes-display'));
+  loadMyDevices();
+  try {
+    renderTwoFactorStatus(await api.getTwoFactorStatus());
+  } catch (err) {
+    console.error('Failed to load two-factor status:', err);
+    $('two-factor-status').innerHTML = '<p class="empty-state">Failed to load two-factor status</p>';
+  }
+}
+
+// ==========================================================================
+// SIGNED-IN DEVICES
+// ==========================================================================
+
+/**
+ * Short description of a browser from its user agent, e.g. "Chrome on Windows"
+ */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /(Chrome|CriOS)\//.test(userAgent) ? 'Chrome'
+    : /(Firefox|FxiOS)\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /iPad/.test(userAgent) ? 'iPad'
+    : /iPhone/.test(userAgent) ? 'iPhone'
+    : /Android/.test(userAgent) ? 'Android'
+    : /CrOS/.test(userAgent) ? 'Chromebook'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'Mac'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function renderDevices(listEl: HTMLElement, devices: ActiveDevice[], onSignOut: (device: ActiveDevice) => void): void {
+  if (devices.length === 0) {
+    listEl.innerHTML = '<p class="empty-state">Not signed in anywhere</p>';
+    return;
+  }
+
+  listEl.innerHTML = devices.map((device) => `
+    <div class="session-history-item device-item">
+      <div class="session-history-header">
+        <span class="session-date" title="${escapeHtml(device.user_agent || '')}">
+          ${escapeHtml(describeDevice(device.user_agent))}${device.ip ? ` · ${escapeHtml(device.ip)}` : ''}
+        </span>
+        <span class="session-stat-value">
+          Signed in ${new Date(device.created_at).toLocaleDateString()} · last seen ${new Date(device.last_used_at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+        </span>
+        ${device.current
+          // The sidebar's sign out buttons cover the device in use
+          ? '<span class="device-current">This device</span>'
+          : `<button class="btn-delete-small" data-sign-out-device="${escapeHtml(device.id)}">Sign out</button>`}
+      </div>
+    </div>
+  `).join('');
+
+  listEl.querySelectorAll<HTMLElement>('[data-sign-out-device]').forEach((btn) => {
+    const device = devices.find((d) => d.id === btn.dataset.signOutDevice);
+    if (device) btn.addEventListener('click', () => onSignOut(device));
+  });
+}
+
+async function loadMyDevices(): Promise<void> {
+  const listEl = $('my-devices-list');
+  try {
+    renderDevices(listEl, await api.listDevices(), handleSignOutMyDevice);
+  } catch (err) {
+    console.error('Failed to load devices:', err);
+    listEl.innerHTML = '<p class="empty-state">Failed to load devices</p>';
+  }
+}
+
+async function handleSignOutMyDevice(device: ActiveDevice): Promise<void> {
+  if (!confirm(`Sign out ${describeDevice(device.user_agent)}? It will need to log in again.`)) return;
+
+  try {
+    await api.signOutDevice(device.id);
+    await loadMyDevices();
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function loadStudentDevices(studentId: number): Promise<void> {
+  const listEl = $('student-devices-list');
+  try {
+    renderDevices(listEl, await api.listStudentDevices(studentId), handleSignOutStudentDevice);
+  } catch (err) {
+    console.error('Failed to load student devices:', err);
+    listEl.innerHTML = '<p class="empty-state">Failed to load devices</p>';
+  }
+}
+
+async function handleSignOutStudentDevice(device: ActiveDevice): Promise<void> {
+  const student = findStudent(selectedStudentId);
+  if (!student) return;
+  if (!confirm(`Sign ${student.first_name} out of ${describeDevice(device.user_agent)}?`)) return;
+
+  try {
+    await api.signOutStudentDevice(student.id, device.id);
+    await loadStudentDevices(student.id);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+function renderTwoFactorStatus(status: TwoFactorStatus): void {
+  const required = status.required_by_organization ? ' Your organization requires it.' : '';
+  $('two-factor-status').innerHTML = status.enabled
+    ? `<p>On since ${new Date(status.enabled_at!).toLocaleDateString()} · ${status.recovery_codes_remaining} recovery codes left.${required}</p>`
+    : `<p>Off. Turn it on so signing in also needs a code from your phone.${required}</p>`;
+
+  $('setup-two-factor-btn').classList.toggle('hidden', status.enabled);
+  $('regenerate-recovery-codes-btn').classList.toggle('hidden', !status.enabled);
+  // Turning it off is refused while the organization requires it
+  $('disable-two-factor-btn').classList.toggle('hidden', !status.enabled || status.required_by_organization);
+  ($('require-two-factor') as HTMLInputElement).checked = status.required_by_organization;
+}
+
+async function handleSetupTwoFactor(): Promise<void> {
+  try {
+    renderTwoFactorSetup(await api.beginTwoFactorSetup(), 'two-factor-enroll-qr', 'two-factor-enroll-secret');
+    ($('two-factor-enroll-code') as HTMLInputElement).value = '';
+    show($('two-factor-enroll'));
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleEnableTwoFactor(e: Event): Promise<void> {
+  e.preventDefault();
+  const code = ($('two-factor-enroll-code') as HTMLInputElement).value.trim();
+
+  try {
+    const { recovery_codes } = await api.enableTwoFactor(code);
+    hide($('two-factor-enroll'));
+    renderTwoFactorStatus(await api.getTwoFactorStatus());
+    showRecoveryCodes(recovery_codes);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleDisableTwoFactor(): Promise<void> {
+  const code = prompt('Enter a code from your authenticator app (or a recovery code) to turn two-factor off.');
+  if (code === null || code.trim() === '') return;
+
+  try {
+    await api.disableTwoFactor(code.trim());
+    hide($('recovery-codes-display'));
+    renderTwoFactorStatus(await api.getTwoFactorStatus());
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleRegenerateRecoveryCodes(): Promise<void> {
+  const code = prompt('Enter a code from your authenticator app to get new recovery codes. The old ones will stop working.');
+  if (code === null || code.trim() === '') return;
+
+  try {
+    const { recovery_codes } = await api.regenerateRecoveryCodes(code.trim());
+    renderTwoFactorStatus(await api.getTwoFactorStatus());
+    showRecoveryCodes(recovery_codes);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleRequireTwoFactorChange(): Promise<void> {
+  const checkbox = $('require-two-factor') as HTMLInputElement;
+  const required = checkbox.checked;
+  if (required && !confirm('Require two-factor for every therapist? Anyone without it will have to set it up at their next login.')) {
+    checkbox.checked = false;
+    return;
+  }
+
+  try {
+    renderTwoFactorStatus(await api.setOrganizationTwoFactorRequired(required));
+  } catch (err) {
+    checkbox.checked = !required;
+    alert((err as ApiError).message);
+  }
+}
+
+function formatDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  if (mins === 0) return `${secs}s`;
+  return `${mins}m ${secs}s`;
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+// Auth handlers
+async function handleLogin(e: Event): Promise<void> {
+  e.preventDefault();
+
+  const email = ($('login-email') as HTMLInputElement).value;
+  const password = ($('login-password') as HTMLInputElement).value;
+  const errorEl = $('login-error');
+
+  hide(errorEl);
+
+  const asMember = ($('login-as-member') as HTMLInputElement).checked;
+
+  try {
+    if (asMember) {
+      await api.loginMember({ email, password });
+    } else {
+      const result = await api.login({ email, password });
+      if ('challenge_token' in result) {
+        await showTwoFactorStep(result);
+        return;
+      }
+    }
+    setCurrentUser(await api.getMe());
+    showDashboard();
+  } catch (err) {
+    errorEl.textContent = (err as ApiError).message;
+    show(errorEl);
+  }
+}
+
+/**
+ * Ask for the authenticator code, or set one up first when the organization
+ * requires two-factor and this therapist has none yet
+ */
+async function showTwoFactorStep(challenge: TwoFactorChallenge): Promise<void> {
+  pendingTwoFactor = challenge;
+  ($('two-factor-code') as HTMLInputElement).value = '';
+  hide($('two-factor-error'));
+
+  if (challenge.two_factor === 'enroll') {
+    const setup = await api.beginLoginTwoFactorSetup(challenge.challenge_token);
+    renderTwoFactorSetup(setup, 'two-factor-login-qr', 'two-factor-login-secret');
+    show($('two-factor-login-setup'));
+    hide($('two-factor-login-prompt'));
+  } else {
+    hide($('two-factor-login-setup'));
+    show($('two-factor-login-prompt'));
+  }
+  showAuthForm('two-factor-form');
+}
+
+async function handleTwoFactorLogin(e: Event): Promise<void> {
+  e.preventDefault();
+  const code = ($('two-factor-code') as HTMLInputElement).value.trim();
+  const errorEl = $('two-factor-error');
+
+  hide(errorEl);
+  if (!pendingTwoFactor) {
+    showAuthForm('login-form');
+    return;
+  }
+
+  try {
+    let recoveryCodes: string[] | null = null;
+    if (pendingTwoFactor.two_factor === 'enroll') {
+      recoveryCodes = (await api.enableLoginTwoFactor(pendingTwoFactor.challenge_token, code)).recovery_codes;
+    } else {
+      await api.loginTwoFactor(pendingTwoFactor.challenge_token, code);
+    }
+    pendingTwoFactor = null;
+    setCurrentUser(await api.getMe());
+    showDashboard();
+
+    // First sign-in with a new authenticator: the recovery codes are only shown now
+    if (recoveryCodes) {
+      navigate('security');
+      showRecoveryCodes(recoveryCodes);
+    }
+  } catch (err) {
+    errorEl.textContent = (err as ApiError).message;
+    show(errorEl);
+  }
+}
+
+async function handleForgotPassword(e: Event): Promise<void> {
+  e.preventDefault();
+  const email = ($('forgot-email') as HTMLInputElement).value;
+  const noticeEl = $('forgot-notice');
+  const errorEl = $('forgot-error');
+
+  hide(noticeEl);
+  hide(errorEl);
 
   try {
-    const result = await api.register({
+    const result = await api.requestPasswordReset(email);
+    noticeEl.textContent = result.message;
+    show(noticeEl);
+  } catch (err) {
+    errorEl.textContent = (err as ApiError).message;
+    show(errorEl);
+  }
+}
+
+// Reset link from the email: /therapist.html?reset_token=...
+async function handleResetPassword(e: Event): Promise<void> {
+  e.preventDefault();
+  const token = new URLSearchParams(window.location.search).get('reset_token');
+  const password = ($('reset-password') as HTMLInputElement).value;
+  const confirmation = ($('reset-password-confirm') as HTMLInputElement).value;
+  const errorEl = $('reset-error');
+
+  hide(errorEl);
+
+  if (password !== confirmation) {
+    errorEl.textContent = 'Passwords do not match';
+    show(errorEl);
+    return;
+  }
+
+  try {
+    const result = await api.confirmPasswordReset(token || '', password);
+    // Drop the spent token from the address bar
+    window.history.replaceState(null, '', window.location.pathname);
+    ($('login-as-member') as HTMLInputElement).checked = result.account_type === 'member';
+    $('login-notice').textContent = 'Your password has been changed. Please log in.';
+    show($('login-notice'));
+    showAuthForm('login-form');
+  } catch (err) {
+    errorEl.textContent = (err as ApiError).message;
+    show(errorEl);
+  }
+}
+
+// Invite link from the email: /therapist.html?invite_token=...
+async function showInviteForm(): Promise<void> {
+  const token = new URLSearchParams(window.location.search).get('invite_token') || '';
+  const detailsEl = $('invite-details');
+  showAuthForm('invite-form');
+
+  try {
+    const invite = await api.getMemberInvite(token);
+    detailsEl.textContent = `Hi ${invite.name}, you've been invited to join ${invite.organization_name} ` +
+      `as ${invite.roles.join(', ')}. Choose a password for ${invite.email} to finish setting up your account.`;
+  } catch (err) {
+    detailsEl.textContent = `${(err as ApiError).message}. Ask whoever invited you to send a new invite.`;
+  }
+}
+
+async function handleAcceptInvite(e: Event): Promise<void> {
+  e.preventDefault();
+  const token = new URLSearchParams(window.location.search).get('invite_token');
+  const password = ($('invite-password') as HTMLInputElement).value;
+  const confirmation = ($('invite-password-confirm') as HTMLInputElement).value;
+  const errorEl = $('invite-error');
+
+  hide(errorEl);
+
+  if (password !== confirmation) {
+    errorEl.textContent = 'Passwords do not match';
+    show(errorEl);
+    return;
+  }
+
+  try {
+    const result = await api.acceptMemberInvite(token || '', password);
+    // Parents sign in to the parent portal rather than the dashboard
+    if (result.roles.length === 1 && result.roles[0] === 'Parent') {
+      window.location.replace('/parent.html');
+      return;
+    }
+    // Drop the spent token from the address bar
+    window.history.replaceState(null, '', window.location.pathname);
+    ($('login-as-member') as HTMLInputElement).checked = true;
+    ($('login-email') as HTMLInputElement).value = result.email;
+    $('login-notice').textContent = 'Your account is ready. Please log in.';
+    show($('login-notice'));
+    showAuthForm('login-form');
+  } catch (err) {
+    errorEl.textContent = (err as ApiError).message;
+    show(errorEl);
+  }
+}
+
+async function handleResetStudentPassword(): Promise<void> {
+  if (!selectedStudentId) return;
+
+  const student = findStudent(selectedStudentId);
+  if (!student) return;
+
+  const password = prompt(
+    `New password for ${student.first_name} ${student.last_name} ` +
+    '(at least 6 characters with a letter and a number). They will be signed out of every device.'
+  );
+  if (password === null || password.trim() === '') return;
+
+  try {
+    await api.resetStudentPassword(student.id, password.trim());
+    alert(`Password updated. ${student.first_name} can now log in with username "${student.username}" and the new password.`);
+  } catch (err) {
+    alert((err as ApiError).message);
+  }
+}
+
+async function handleRegister(e: Event): Promise<void> {
+  e.preventDefault();
+
+  const firstName = ($('reg-first') as HTMLInputElement).value;
+  const lastName = ($('reg-last') as HTMLInputElement).value;
+  const email = ($('reg-email') as HTMLInputElement).value;
+  const password = ($('reg-password') as HTMLInputElement).value;
+  const errorEl = $('register-error');
+
+  hide(errorEl);
+
+  try {
+    await api.register({
       first_name: firstName,
       last_name: lastName,
       email,
       password,
     });
-    currentTherapist = result.therapist;
+    setCurrentUser(await api.getMe());
     showDashboard();
   } catch (err) {
     errorEl.textContent = (err as ApiError).message;
@@ -2610,26 +4312,58 @@ async function handleRegister(e: Event): Promise<void> {
   }
 }
 
-function handleLogout(): void {
+async function handleLogout(): Promise<void> {
   therapistLiveService.disconnect();
-  api.logout();
-  currentTherapist = null;
+  await api.logout();
+  clearCurrentUser();
   showAuthScreen();
 }
 
+async function handleLogoutAllDevices(): Promise<void> {
+  if (!confirm('Sign out of PIPER on every device, including this one?')) {
+    return;
+  }
+
+  try {
+    therapistLiveService.disconnect();
+    await api.logoutAllDevices();
+    clearCurrentUser();
+    showAuthScreen();
+  } catch (err) {
+    alert(`Failed to sign out all devices: ${(err as ApiError).message}`);
+  }
+}
+
 // Auth check
 async function checkAuth(): Promise<void> {
+  // Links from a reset or invite email (or the parent portal's "forgot password") open a form directly
+  const params = new URLSearchParams(window.location.search);
+  if (params.has('reset_token')) {
+    showAuthScreen();
+    showAuthForm('reset-form');
+    return;
+  }
+  if (params.has('invite_token')) {
+    showAuthScreen();
+    await showInviteForm();
+    return;
+  }
+  if (params.has('forgot')) {
+    showAuthScreen();
+    showAuthForm('forgot-form');
+    return;
+  }
+
   if (!api.isAuthenticated()) {
     showAuthScreen();
     return;
   }
 
   try {
-    const result = await api.getMe();
-    currentTherapist = result.therapist;
+    setCurrentUser(await api.getMe());
     showDashboard();
   } catch {
-    api.logout();
+    await api.logout();
     showAuthScreen();
   }
 }
@@ -2770,14 +4504,34 @@ function bindEvents(): void {
   // Form switching
   $('show-register').addEventListener('click', (e) => {
     e.preventDefault();
-    hide($('login-form'));
-    show($('register-form'));
+    showAuthForm('register-form');
   });
 
   $('show-login').addEventListener('click', (e) => {
     e.preventDefault();
-    hide($('register-form'));
-    show($('login-form'));
+    showAuthForm('login-form');
+  });
+
+  // Two-factor login step
+  $('two-factor-form').addEventListener('submit', handleTwoFactorLogin);
+  $('two-factor-show-login').addEventListener('click', (e) => {
+    e.preventDefault();
+    pendingTwoFactor = null;
+    showAuthForm('login-form');
+  });
+
+  // Password reset
+  $('forgot-form').addEventListener('submit', handleForgotPassword);
+  $('reset-form').addEventListener('submit', handleResetPassword);
+  $('invite-form').addEventListener('submit', handleAcceptInvite);
+  $('show-forgot').addEventListener('click', (e) => {
+    e.preventDefault();
+    ($('forgot-email') as HTMLInputElement).value = ($('login-email') as HTMLInputElement).value;
+    showAuthForm('forgot-form');
+  });
+  $('forgot-show-login').addEventListener('click', (e) => {
+    e.preventDefault();
+    showAuthForm('login-form');
   });
 
   // Logout (both header and sidebar buttons)
@@ -2786,6 +4540,14 @@ function bindEvents(): void {
   if (sidebarLogoutBtn) {
     sidebarLogoutBtn.addEventListener('click', handleLogout);
   }
+  $('sidebar-logout-all-btn').addEventListener('click', handleLogoutAllDevices);
+
+  // Security page
+  $('setup-two-factor-btn').addEventListener('click', handleSetupTwoFactor);
+  $('two-factor-enroll-form').addEventListener('submit', handleEnableTwoFactor);
+  $('disable-two-factor-btn').addEventListener('click', handleDisableTwoFactor);
+  $('regenerate-recovery-codes-btn').addEventListener('click', handleRegenerateRecoveryCodes);
+  $('require-two-factor').addEventListener('change', handleRequireTwoFactorChange);
 
   // Navigation items
   document.querySelectorAll('.nav-item').forEach(item => {
@@ -2824,6 +4586,19 @@ function bindEvents(): void {
     });
   }
 
+  // Access log filters
+  ['audit-student-filter', 'audit-actor-filter'].forEach(id => {
+    const filterEl = document.getElementById(id);
+    if (filterEl) {
+      filterEl.addEventListener('change', () => loadAuditEntries());
+    }
+  });
+
+  const auditLoadMoreBtn = document.getElementById('audit-load-more-btn');
+  if (auditLoadMoreBtn) {
+    auditLoadMoreBtn.addEventListener('click', () => loadAuditEntries(true));
+  }
+
   // Invite member form
   const inviteMemberForm = document.getElementById('invite-member-form');
   if (inviteMemberForm) {
@@ -2842,9 +4617,35 @@ function bindEvents(): void {
   }
 
   $('add-student-form').addEventListener('submit', handleAddStudent);
+  $('import-students-form').addEventListener('submit', handleImportStudents);
+  $('import-file').addEventListener('change', handleImportFileChange);
+  $('import-skip-invalid').addEventListener('change', renderImportPreview);
+  $('print-credentials-btn').addEventListener('click', printImportCredentials);
+  $('import-done-btn').addEventListener('click', () => {
+    closeModal('import-students-modal');
+    openSelectStudentModal();
+  });
 
   // Delete student
   $('delete-student-btn').addEventListener('click', handleDeleteStudent);
+  $('archive-student-btn').addEventListener('click', openArchiveStudentModal);
+  $('restore-student-btn').addEventListener('click', handleRestoreStudent);
+  $('archive-student-form').addEventListener('submit', handleArchiveStudent);
+  $('export-student-btn').addEventListener('click', handleExportStudent);
+  $('reset-student-password-btn').addEventListener('click', handleResetStudentPassword);
+  $('schedule-session-form').addEventListener('submit', handleScheduleSession);
+  $('service-log-form').addEventListener('submit', handleLogService);
+  $('print-service-ledger-btn').addEventListener('click', printServiceLedger);
+  $('save-parent-sharing-btn').addEventListener('click', handleSaveParentSharing);
+  $('share-student-form').addEventListener('submit', handleShareStudent);
+  $('transfer-student-form').addEventListener('submit', handleTransferStudent);
+
+  // Kid-friendly login
+  $('generate-picture-password-btn').addEventListener('click', handleGeneratePicturePassword);
+  $('remove-picture-password-btn').addEventListener('click', handleRemovePicturePassword);
+  $('unlock-student-btn').addEventListener('click', handleUnlockStudent);
+  $('print-badge-btn').addEventListener('click', handlePrintBadge);
+  $('erase-student-btn').addEventListener('click', handleEraseStudent);
 
   // Select student modal buttons
   const selectStudentBtn = document.getElementById('select-student-btn');
@@ -2857,6 +4658,11 @@ function bindEvents(): void {
     changeStudentBtn.addEventListener('click', openSelectStudentModal);
   }
 
+  $('import-students-from-modal-btn').addEventListener('click', () => {
+    closeModal('select-student-modal');
+    openImportStudentsModal();
+  });
+
   const addStudentFromModalBtn = document.getElementById('add-student-from-modal-btn');
   if (addStudentFromModalBtn) {
     addStudentFromModalBtn.addEventListener('click', async () => {
@@ -2869,10 +4675,14 @@ function bindEvents(): void {
 
   const studentSearchInput = document.getElementById('student-search') as HTMLInputElement;
   if (studentSearchInput) {
-    studentSearchInput.addEventListener('input', () => {
-      renderStudentModalList(studentSearchInput.value);
-    });
+    studentSearchInput.addEventListener('input', () => searchStudents());
   }
+  $('student-filter-grade').addEventListener('input', () => searchStudents());
+  [
+    'student-filter-status', 'student-sort', 'student-filter-school', 'student-filter-slp',
+    'student-filter-problem', 'student-filter-goals', 'student-filter-session-from', 'student-filter-session-to',
+  ].forEach((id) => $(id).addEventListener('change', () => loadStudents()));
+  $('student-load-more-btn').addEventListener('click', () => loadStudents(true));
 
   // Upload PDF button
   $('upload-eval-btn').addEventListener('click', () => {
@@ -3,6 +3,8 @@
  * Handles all HTTP communication with the backend
  */
 
+import type { PictureIconId } from '@shared/picture-passwords';
+
 // Types
 export interface Therapist {
   id: number;
@@ -12,9 +14,72 @@ export interface Therapist {
   created_at: string;
 }
 
-export interface AuthResponse {
-  therapist: Therapist;
+export interface AuthTokens {
   token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
+export interface AuthResponse extends AuthTokens {
+  therapist: Therapist;
+}
+
+export interface MemberAuthResponse extends AuthTokens {
+  member: Member;
+}
+
+// Returned by login instead of tokens when a two-factor step is needed
+export interface TwoFactorChallenge {
+  two_factor: 'verify' | 'enroll';
+  challenge_token: string;
+  expires_in: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at: string | null;
+  recovery_codes_remaining: number;
+  required_by_organization: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  qr_svg: string;
+}
+
+// What the signed-in user may do (mirrors the backend permission matrix)
+export type Permission =
+  | 'students:read'
+  | 'students:create'
+  | 'students:update'
+  | 'students:delete'
+  | 'students:archive'
+  | 'evaluations:read'
+  | 'evaluations:write'
+  | 'goals:read'
+  | 'goals:write'
+  | 'sessions:read'
+  | 'reports:read'
+  | 'portal:read'
+  | 'schools:read'
+  | 'schools:manage'
+  | 'members:read'
+  | 'members:manage'
+  | 'privacy:manage'
+  | 'audit:read';
+
+export interface AccessInfo {
+  kind: 'therapist' | 'member';
+  roles: string[];
+  permissions: Permission[];
+}
+
+// The therapist or the member, whichever is signed in
+export interface MeResponse {
+  therapist?: Therapist;
+  member?: Member;
+  access: AccessInfo;
 }
 
 export interface RegisterData {
@@ -47,9 +112,43 @@ export interface Student {
   session_frequency?: string; // IEP service time: e.g., "2x weekly"
   slp_id?: number;
   school_id?: number;
+  archived_at?: string | null; // Set while the student is archived (discharged)
+  discharged_on?: string | null; // YYYY-MM-DD
+  archive_reason?: string | null;
+  last_session_at?: string | null; // Start of the student's latest game session
+  shared_access?: StudentShareAccess; // Set when another therapist shared this student with you
+  owner_name?: string; // The owning therapist, for shared students
   created_at: string;
 }
 
+export type StudentSort =
+  | 'name' | '-name'
+  | 'last_name' | '-last_name'
+  | 'created_at' | '-created_at'
+  | 'last_session_at' | '-last_session_at';
+
+// Filters, sort and page of a student list request; dates are YYYY-MM-DD
+export interface StudentListQuery {
+  status?: 'active' | 'archived' | 'all';
+  q?: string; // Searches names and usernames
+  school_id?: number;
+  slp_id?: number;
+  problem_type?: 'language' | 'articulation' | 'both';
+  grade?: string;
+  goal_status?: 'active' | 'achieved' | 'discontinued' | 'none'; // 'none' means no goals at all
+  last_session_from?: string;
+  last_session_to?: string; // Also matches students who never played
+  sort?: StudentSort;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface StudentPage {
+  students: Student[];
+  next_cursor: string | null; // Pass back as cursor for the next page
+  total: number; // Matches across all pages
+}
+
 export interface Objective {
   description: string;
   target_percentage: number;
@@ -119,6 +218,68 @@ export interface CreateStudentData {
   school_id?: number;
 }
 
+// Spreadsheet columns (zero-based) feeding each field of an imported student
+export type StudentImportField =
+  | 'first_name'
+  | 'last_name'
+  | 'date_of_birth'
+  | 'grade_level'
+  | 'problem_type'
+  | 'school'
+  | 'slp'
+  | 'username'
+  | 'password'
+  | 'session_duration_minutes'
+  | 'session_frequency';
+
+export type StudentImportMapping = Partial<Record<StudentImportField, number>>;
+
+export interface StudentImportRow {
+  row: number;
+  first_name: string;
+  last_name: string;
+  date_of_birth: string | null;
+  grade_level: string | null;
+  problem_type: 'language' | 'articulation' | 'both' | null;
+  school_id: number | null;
+  school_name: string | null;
+  slp_id: number | null;
+  slp_name: string | null;
+  username: string;
+  username_generated: boolean;
+  password_generated: boolean;
+  session_duration_minutes: number | null;
+  session_frequency: string | null;
+  errors: string[];
+}
+
+export interface StudentImportPreview {
+  headers: string[];
+  mapping: StudentImportMapping;
+  rows: StudentImportRow[];
+  valid_rows: number;
+  invalid_rows: number;
+}
+
+export interface StudentImportCredential {
+  row: number;
+  student_id: number;
+  first_name: string;
+  last_name: string;
+  username: string;
+  password: string;
+  grade_level: string | null;
+  school_name: string | null;
+  slp_name: string | null;
+}
+
+export interface StudentImportResult {
+  imported: number;
+  skipped: number;
+  students: Student[];
+  credentials: StudentImportCredential[];
+}
+
 export interface ExtractedField {
   value: string | number | string[] | null;
   confidence: number;
@@ -168,33 +329,109 @@ export class ApiError extends Error {
 
 // Storage keys
 const TOKEN_KEY = 'piper_therapist_token';
+const REFRESH_TOKEN_KEY = 'piper_therapist_refresh_token';
+
+/**
+ * True if a JWT's exp claim falls within `withinMs` from now (or can't be read)
+ */
+function tokenExpiresSoon(token: string, withinMs: number): boolean {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp !== 'number' || payload.exp * 1000 - Date.now() < withinMs;
+  } catch {
+    return true;
+  }
+}
 
 // API Service
 class ApiService {
   private baseUrl = '/api/therapist';
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshInFlight: Promise<boolean> | null = null;
 
   constructor() {
     this.token = localStorage.getItem(TOKEN_KEY);
+    this.refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
   }
 
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
+  private setTokens(tokens: AuthTokens | null): void {
+    this.token = tokens?.token ?? null;
+    this.refreshToken = tokens?.refresh_token ?? null;
+    if (tokens) {
+      localStorage.setItem(TOKEN_KEY, tokens.token);
+      localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+    } else {
+      localStorage.removeItem(TOKEN_KEY);
+      localStorage.removeItem(REFRESH_TOKEN_KEY);
     }
-    return headers;
   }
 
-  private setToken(token: string | null): void {
-    this.token = token;
-    if (token) {
-      localStorage.setItem(TOKEN_KEY, token);
-    } else {
-      localStorage.removeItem(TOKEN_KEY);
+  /**
+   * Trade the refresh token for a new pair. Concurrent callers share one request;
+   * a rejected refresh token ends the local session.
+   */
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.performRefresh().finally(() => {
+        this.refreshInFlight = null;
+      });
     }
+    return this.refreshInFlight;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    // Another tab may already have rotated the shared refresh token
+    const stored = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (stored && stored !== this.refreshToken) {
+      this.token = localStorage.getItem(TOKEN_KEY);
+      this.refreshToken = stored;
+      return true;
+    }
+    if (!this.refreshToken) {
+      return false;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh_token: this.refreshToken }),
+      });
+    } catch {
+      return false;
+    }
+
+    if (!response.ok) {
+      // Only a 401 means the token was rejected; a 429 or 5xx leaves it for a later retry
+      if (response.status === 401) {
+        this.setTokens(null);
+      }
+      return false;
+    }
+    this.setTokens(await response.json());
+    return true;
+  }
+
+  /**
+   * fetch() with the access token attached; on a 401 the token is refreshed
+   * and the request retried once
+   */
+  private async authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const send = (): Promise<Response> => {
+      const headers = new Headers(init.headers);
+      if (this.token) {
+        headers.set('Authorization', `Bearer ${this.token}`);
+      }
+      return fetch(url, { ...init, headers });
+    };
+
+    const response = await send();
+    if (response.status !== 401 || !this.refreshToken || !(await this.refreshSession())) {
+      return response;
+    }
+    return send();
   }
 
   private async request<T>(
@@ -203,13 +440,13 @@ class ApiService {
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
     const config: RequestInit = {
-      headers: this.getHeaders(),
+      headers: { 'Content-Type': 'application/json' },
       ...options,
     };
 
     let response: Response;
     try {
-      response = await fetch(url, config);
+      response = await this.authorizedFetch(url, config);
     } catch {
       throw new ApiError('Network error - is the server running?', 0);
     }
@@ -234,25 +471,166 @@ class ApiService {
       method: 'POST',
       body: JSON.stringify(data),
     });
-    this.setToken(result.token);
+    this.setTokens(result);
     return result;
   }
 
-  async login(data: LoginData): Promise<AuthResponse> {
-    const result = await this.request<AuthResponse>('/login', {
+  /**
+   * Signs in, unless the account needs a two-factor step first; then the
+   * challenge is returned for loginTwoFactor (or the enrollment methods)
+   */
+  async login(data: LoginData): Promise<AuthResponse | TwoFactorChallenge> {
+    const result = await this.request<AuthResponse | TwoFactorChallenge>('/login', {
       method: 'POST',
       body: JSON.stringify(data),
     });
-    this.setToken(result.token);
+    if ('token' in result) {
+      this.setTokens(result);
+    }
     return result;
   }
 
-  async getMe(): Promise<{ therapist: Therapist }> {
-    return this.request<{ therapist: Therapist }>('/me');
+  async loginTwoFactor(challengeToken: string, code: string): Promise<AuthResponse> {
+    const result = await this.request<AuthResponse>('/login/2fa', {
+      method: 'POST',
+      body: JSON.stringify({ challenge_token: challengeToken, code }),
+    });
+    this.setTokens(result);
+    return result;
+  }
+
+  async beginLoginTwoFactorSetup(challengeToken: string): Promise<TwoFactorSetup> {
+    return this.request<TwoFactorSetup>('/login/2fa/setup', {
+      method: 'POST',
+      body: JSON.stringify({ challenge_token: challengeToken }),
+    });
+  }
+
+  async enableLoginTwoFactor(
+    challengeToken: string,
+    code: string
+  ): Promise<AuthResponse & { recovery_codes: string[] }> {
+    const result = await this.request<AuthResponse & { recovery_codes: string[] }>('/login/2fa/enable', {
+      method: 'POST',
+      body: JSON.stringify({ challenge_token: challengeToken, code }),
+    });
+    this.setTokens(result);
+    return result;
+  }
+
+  async loginMember(data: LoginData): Promise<MemberAuthResponse> {
+    const result = await this.request<MemberAuthResponse>('/member/login', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+    this.setTokens(result);
+    return result;
   }
 
-  logout(): void {
-    this.setToken(null);
+  async getMe(): Promise<MeResponse> {
+    return this.request<MeResponse>('/me');
+  }
+
+  async logout(): Promise<void> {
+    if (this.token) {
+      // Best effort: the local session is cleared even if the server can't be reached
+      try {
+        await this.authorizedFetch(`${this.baseUrl}/logout`, { method: 'POST' });
+      } catch {
+        // Offline
+      }
+    }
+    this.setTokens(null);
+  }
+
+  async logoutAllDevices(): Promise<{ revoked: number }> {
+    const result = await this.request<{ success: boolean; revoked: number }>('/logout-all', {
+      method: 'POST',
+    });
+    this.setTokens(null);
+    return { revoked: result.revoked };
+  }
+
+  // Devices the signed-in therapist or member is signed in on
+  async listDevices(): Promise<ActiveDevice[]> {
+    return this.request<ActiveDevice[]>('/devices');
+  }
+
+  async signOutDevice(sessionId: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/devices/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async requestPasswordReset(email: string): Promise<{ success: boolean; message: string }> {
+    return this.request<{ success: boolean; message: string }>('/password-reset/request', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async getMemberInvite(token: string): Promise<MemberInviteDetails> {
+    return this.request<MemberInviteDetails>('/member/invite', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async acceptMemberInvite(
+    token: string,
+    password: string
+  ): Promise<{ success: boolean; email: string; roles: string[] }> {
+    return this.request<{ success: boolean; email: string; roles: string[] }>('/member/invite/accept', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  async confirmPasswordReset(
+    token: string,
+    password: string
+  ): Promise<{ success: boolean; account_type: 'therapist' | 'member' }> {
+    return this.request<{ success: boolean; account_type: 'therapist' | 'member' }>('/password-reset/confirm', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  // Two-factor settings (therapist only)
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    return this.request<TwoFactorStatus>('/two-factor');
+  }
+
+  async beginTwoFactorSetup(): Promise<TwoFactorSetup> {
+    return this.request<TwoFactorSetup>('/two-factor/setup', { method: 'POST' });
+  }
+
+  async enableTwoFactor(code: string): Promise<{ recovery_codes: string[] }> {
+    return this.request<{ recovery_codes: string[] }>('/two-factor/enable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async disableTwoFactor(code: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>('/two-factor/disable', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<{ recovery_codes: string[] }> {
+    return this.request<{ recovery_codes: string[] }>('/two-factor/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async setOrganizationTwoFactorRequired(required: boolean): Promise<TwoFactorStatus> {
+    return this.request<TwoFactorStatus>('/two-factor/organization', {
+      method: 'PUT',
+      body: JSON.stringify({ required }),
+    });
   }
 
   isAuthenticated(): boolean {
@@ -260,8 +638,14 @@ class ApiService {
   }
 
   // Student methods
-  async listStudents(): Promise<Student[]> {
-    return this.request<Student[]>('/students');
+  // One page of active students unless the status says otherwise
+  async listStudents(query: StudentListQuery = {}): Promise<StudentPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params.append(key, String(value));
+    }
+    const search = params.toString() ? `?${params.toString()}` : '';
+    return this.request<StudentPage>(`/students${search}`);
   }
 
   async createStudent(data: CreateStudentData): Promise<Student> {
@@ -275,12 +659,70 @@ class ApiService {
     return this.request<Student>(`/students/${id}`);
   }
 
-  async deleteStudent(id: number): Promise<{ success: boolean }> {
-    return this.request<{ success: boolean }>(`/students/${id}`, {
+  async resetStudentPassword(id: number, password: string): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/students/${id}/password`, {
+      method: 'PUT',
+      body: JSON.stringify({ password }),
+    });
+  }
+
+  async archiveStudent(id: number, reason: string, dischargedOn?: string): Promise<Student> {
+    return this.request<Student>(`/students/${id}/archive`, {
+      method: 'POST',
+      body: JSON.stringify({ reason, discharged_on: dischargedOn }),
+    });
+  }
+
+  async restoreStudent(id: number): Promise<Student> {
+    return this.request<Student>(`/students/${id}/restore`, {
+      method: 'POST',
+    });
+  }
+
+  // Confirmed with the code from requestErasure, like an erasure
+  async deleteStudent(id: number, confirmationCode: string): Promise<{ success: boolean; request: ErasureRequest }> {
+    return this.request<{ success: boolean; request: ErasureRequest }>(`/students/${id}`, {
       method: 'DELETE',
+      body: JSON.stringify({ confirmation_code: confirmationCode }),
     });
   }
 
+  // Caseload import (the same file is sent for the preview and the import)
+  private async postImportForm<T>(path: string, file: File, mapping?: StudentImportMapping, skipInvalid?: boolean): Promise<T> {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (mapping) {
+      formData.append('mapping', JSON.stringify(mapping));
+    }
+    if (skipInvalid) {
+      formData.append('skip_invalid', 'true');
+    }
+
+    let response: Response;
+    try {
+      response = await this.authorizedFetch(`${this.baseUrl}${path}`, {
+        method: 'POST',
+        body: formData,
+      });
+    } catch {
+      throw new ApiError('Network error - is the server running?', 0);
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new ApiError(data.error || 'Import failed', response.status);
+    }
+    return data;
+  }
+
+  async previewStudentImport(file: File, mapping?: StudentImportMapping): Promise<StudentImportPreview> {
+    return this.postImportForm<StudentImportPreview>('/students/import/preview', file, mapping);
+  }
+
+  async importStudents(file: File, mapping: StudentImportMapping, skipInvalid: boolean): Promise<StudentImportResult> {
+    return this.postImportForm<StudentImportResult>('/students/import', file, mapping, skipInvalid);
+  }
+
   // Evaluation methods
   async uploadEvaluation(
     studentId: number,
@@ -294,16 +736,10 @@ class ApiService {
     }
 
     const url = `${this.baseUrl}/students/${studentId}/evaluation/upload`;
-    const headers: HeadersInit = {};
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
-
     let response: Response;
     try {
-      response = await fetch(url, {
+      response = await this.authorizedFetch(url, {
         method: 'POST',
-        headers,
         body: formData,
       });
     } catch {
@@ -342,12 +778,7 @@ class ApiService {
 
   async getEvaluationPdfBlob(studentId: number): Promise<Blob> {
     const url = `${this.baseUrl}/students/${studentId}/evaluation/pdf`;
-    const headers: HeadersInit = {};
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
-
-    const response = await fetch(url, { headers });
+    const response = await this.authorizedFetch(url);
     if (!response.ok) {
       throw new ApiError('Failed to load PDF', response.status);
     }
@@ -374,16 +805,10 @@ class ApiService {
     }
 
     const url = `${this.baseUrl}/students/${studentId}/goals/upload`;
-    const headers: HeadersInit = {};
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
-
     let response: Response;
     try {
-      response = await fetch(url, {
+      response = await this.authorizedFetch(url, {
         method: 'POST',
-        headers,
         body: formData,
       });
     } catch {
@@ -435,12 +860,7 @@ class ApiService {
 
   async getGoalsPdfBlob(studentId: number): Promise<Blob> {
     const url = `${this.baseUrl}/students/${studentId}/goals/pdf`;
-    const headers: HeadersInit = {};
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
-    }
-
-    const response = await fetch(url, { headers });
+    const response = await this.authorizedFetch(url);
     if (!response.ok) {
       throw new ApiError('Failed to load PDF', response.status);
     }
@@ -456,9 +876,7 @@ class ApiService {
 
   // Session methods
   async getActiveSessions(): Promise<{ sessions: LiveSessionInfo[] }> {
-    const response = await fetch('/api/session/therapist/active', {
-      headers: this.getHeaders(),
-    });
+    const response = await this.authorizedFetch('/api/session/therapist/active');
     if (!response.ok) {
       throw new ApiError('Failed to load active sessions', response.status);
     }
@@ -471,9 +889,7 @@ class ApiService {
     if (limit) params.append('limit', String(limit));
     const query = params.toString() ? `?${params.toString()}` : '';
 
-    const response = await fetch(`/api/session/therapist/history${query}`, {
-      headers: this.getHeaders(),
-    });
+    const response = await this.authorizedFetch(`/api/session/therapist/history${query}`);
     if (!response.ok) {
       throw new ApiError('Failed to load session history', response.status);
     }
@@ -481,16 +897,20 @@ class ApiService {
   }
 
   async getSessionDetails(sessionId: number): Promise<{ session: SessionWithResponses }> {
-    const response = await fetch(`/api/session/therapist/${sessionId}`, {
-      headers: this.getHeaders(),
-    });
+    const response = await this.authorizedFetch(`/api/session/therapist/${sessionId}`);
     if (!response.ok) {
       throw new ApiError('Failed to load session details', response.status);
     }
     return response.json();
   }
 
-  getToken(): string | null {
+  /**
+   * Access token for the live WebSocket, refreshed first if it is about to expire
+   */
+  async getFreshToken(): Promise<string | null> {
+    if (this.token && this.refreshToken && tokenExpiresSoon(this.token, 60 * 1000)) {
+      await this.refreshSession();
+    }
     return this.token;
   }
 
@@ -524,11 +944,222 @@ class ApiService {
     });
   }
 
+  async resendMemberInvite(id: number): Promise<Member> {
+    return this.request<Member>(`/members/${id}/invite`, {
+      method: 'POST',
+    });
+  }
+
+  async revokeMemberInvite(id: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/members/${id}/invite`, {
+      method: 'DELETE',
+    });
+  }
+
   async deleteMember(id: number): Promise<{ success: boolean }> {
     return this.request<{ success: boolean }>(`/members/${id}`, {
       method: 'DELETE',
     });
   }
+
+  // Audit log methods
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') params.append(key, String(value));
+    }
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return this.request<AuditLogPage>(`/audit${query}`);
+  }
+
+  async getAuditActors(): Promise<{ actors: AuditActor[] }> {
+    return this.request<{ actors: AuditActor[] }>('/audit/actors');
+  }
+
+  // Privacy methods
+  async exportStudentData(studentId: number): Promise<{ blob: Blob; fileName: string }> {
+    const url = `${this.baseUrl}/students/${studentId}/export`;
+    const response = await this.authorizedFetch(url);
+    if (!response.ok) {
+      throw new ApiError('Failed to export student data', response.status);
+    }
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const match = disposition.match(/filename="([^"]+)"/);
+    return {
+      blob: await response.blob(),
+      fileName: match ? match[1] : `student-${studentId}-export.zip`,
+    };
+  }
+
+  async requestErasure(studentId: number): Promise<ErasureRequestResponse> {
+    return this.request<ErasureRequestResponse>(`/students/${studentId}/erasure`, {
+      method: 'POST',
+    });
+  }
+
+  async confirmErasure(
+    studentId: number,
+    confirmationCode: string
+  ): Promise<{ success: boolean; request: ErasureRequest }> {
+    return this.request<{ success: boolean; request: ErasureRequest }>(
+      `/students/${studentId}/erasure/confirm`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ confirmation_code: confirmationCode }),
+      }
+    );
+  }
+
+  async cancelErasure(studentId: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/students/${studentId}/erasure`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Student sharing methods
+  async listStudentShares(studentId: number): Promise<StudentShare[]> {
+    const data = await this.request<{ shares: StudentShare[] }>(`/students/${studentId}/shares`);
+    return data.shares;
+  }
+
+  async shareStudent(studentId: number, email: string, access: StudentShareAccess): Promise<StudentShare> {
+    const data = await this.request<{ share: StudentShare }>(`/students/${studentId}/shares`, {
+      method: 'POST',
+      body: JSON.stringify({ email, access }),
+    });
+    return data.share;
+  }
+
+  async revokeStudentShare(studentId: number, shareId: number): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/students/${studentId}/shares/${shareId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async transferStudent(studentId: number, email: string, keepAccess?: StudentShareAccess): Promise<{ success: boolean }> {
+    return this.request<{ success: boolean }>(`/students/${studentId}/transfer`, {
+      method: 'POST',
+      body: JSON.stringify({ email, keep_access: keepAccess }),
+    });
+  }
+
+  async listStudentTransfers(studentId: number): Promise<StudentTransfer[]> {
+    const data = await this.request<{ transfers: StudentTransfer[] }>(`/students/${studentId}/transfers`);
+    return data.transfers;
+  }
+
+  // Parent portal methods
+  async listScheduledSessions(studentId: number): Promise<ScheduledSession[]> {
+    return this.request<ScheduledSession[]>(`/students/${studentId}/schedule`);
+  }
+
+  async scheduleSession(studentId: number, data: CreateScheduledSessionData): Promise<ScheduledSession> {
+    return this.request<ScheduledSession>(`/students/${studentId}/schedule`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async cancelScheduledSession(studentId: number, sessionId: number): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/students/${studentId}/schedule/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Service minutes methods
+  async getServiceCompliance(): Promise<ServiceComplianceOverview> {
+    return this.request<ServiceComplianceOverview>('/service-minutes');
+  }
+
+  async getServiceLedger(studentId: number, range: { from?: string; to?: string } = {}): Promise<ServiceLedger> {
+    const params = new URLSearchParams();
+    if (range.from) params.append('from', range.from);
+    if (range.to) params.append('to', range.to);
+    const query = params.toString() ? `?${params.toString()}` : '';
+    return this.request<ServiceLedger>(`/students/${studentId}/service-minutes${query}`);
+  }
+
+  async createServiceLog(studentId: number, data: CreateServiceLogData): Promise<ServiceLog> {
+    return this.request<ServiceLog>(`/students/${studentId}/service-logs`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteServiceLog(studentId: number, logId: number): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/students/${studentId}/service-logs/${logId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async getParentSharing(studentId: number): Promise<ParentSharingSettings> {
+    return this.request<ParentSharingSettings>(`/students/${studentId}/parent-sharing`);
+  }
+
+  async updateParentSharing(
+    studentId: number,
+    data: Partial<Pick<ParentSharingSettings, 'share_eval_data' | 'share_safety_signals' | 'home_practice_note'>>
+  ): Promise<ParentSharingSettings> {
+    return this.request<ParentSharingSettings>(`/students/${studentId}/parent-sharing`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Kid-friendly login methods
+  async getLoginMethods(studentId: number): Promise<ChildLoginMethods> {
+    return this.request<ChildLoginMethods>(`/students/${studentId}/login-methods`);
+  }
+
+  async setPicturePassword(studentId: number, pictures?: PictureIconId[]): Promise<{ pictures: PictureIconId[] }> {
+    return this.request<{ pictures: PictureIconId[] }>(`/students/${studentId}/picture-password`, {
+      method: 'PUT',
+      body: JSON.stringify({ pictures }),
+    });
+  }
+
+  async removePicturePassword(studentId: number): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/students/${studentId}/picture-password`, {
+      method: 'DELETE',
+    });
+  }
+
+  async createLoginBadge(studentId: number, label?: string): Promise<IssuedLoginBadge> {
+    return this.request<IssuedLoginBadge>(`/students/${studentId}/badges`, {
+      method: 'POST',
+      body: JSON.stringify({ label }),
+    });
+  }
+
+  async unlockStudent(studentId: number): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/students/${studentId}/unlock`, {
+      method: 'POST',
+    });
+  }
+
+  async listStudentDevices(studentId: number): Promise<ActiveDevice[]> {
+    return this.request<ActiveDevice[]>(`/students/${studentId}/devices`);
+  }
+
+  async signOutStudentDevice(studentId: number, sessionId: string): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/students/${studentId}/devices/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async revokeLoginBadge(studentId: number, badgeId: number): Promise<{ message: string }> {
+    return this.request<{ message: string }>(`/students/${studentId}/badges/${badgeId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async listParentChildren(): Promise<ParentChild[]> {
+    return this.request<ParentChild[]>('/parent/children');
+  }
+
+  async getParentProgress(childId: number): Promise<ParentProgressView> {
+    return this.request<ParentProgressView>(`/parent/children/${childId}`);
+  }
 }
 
 // Session types
@@ -612,15 +1243,293 @@ export interface Member {
   roles: string[];
   school_id: number | null;
   school_name: string | null;
+  student_ids: number[]; // Children a Parent/Student member is linked to
   created_at: string;
+  activated_at: string | null; // Null until the member accepts their invite
+  invite: MemberInvite | null;
+}
+
+export interface MemberInvite {
+  sent_at: string;
+  expires_at: string;
+  expired: boolean;
+}
+
+// Shown on the accept-invite form
+export interface MemberInviteDetails {
+  name: string;
+  email: string;
+  roles: string[];
+  organization_name: string;
+  expires_at: string;
 }
 
 export interface InviteMemberData {
   name: string;
   email: string;
-  password: string;
   roles: string[];
   school_id?: number;
+  student_ids?: number[];
+}
+
+// Audit log types
+export type AuditActorType = 'therapist' | 'child' | 'member' | 'system';
+
+export interface AuditLogEntry {
+  id: number;
+  actor_type: AuditActorType;
+  actor_id: number | null;
+  actor_name: string | null;
+  action: 'read' | 'create' | 'update' | 'delete' | 'erase';
+  resource_type: 'student' | 'evaluation' | 'goal' | 'session';
+  resource_id: number | null;
+  student_id: number | null;
+  student_name: string | null;
+  method: string;
+  path: string;
+  status_code: number;
+  ip: string | null;
+  created_at: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  next_before: number | null;
+}
+
+export interface AuditLogFilters {
+  student_id?: number;
+  actor_type?: AuditActorType;
+  actor_id?: number;
+  before?: number;
+  limit?: number;
+}
+
+export interface AuditActor {
+  actor_type: AuditActorType;
+  actor_id: number;
+  actor_name: string | null;
+  event_count: number;
+}
+
+// Privacy types
+export interface ErasureRequest {
+  id: number;
+  student_id: number;
+  status: 'pending' | 'cancelled' | 'completed';
+  requested_at: string;
+  expires_at: string;
+  resolved_at: string | null;
+  purged_rows: number | null;
+  purged_documents: number | null;
+  missing_documents: string[] | null; // Document kinds that were already gone from storage
+}
+
+export interface ErasureRequestResponse {
+  request: ErasureRequest;
+  confirmation_code: string;
+}
+
+// Student sharing types
+export type StudentShareAccess = 'view' | 'treat';
+
+export interface StudentShare {
+  id: number;
+  student_id: number;
+  therapist_id: number;
+  therapist_name: string;
+  therapist_email: string;
+  access: StudentShareAccess;
+  created_at: string;
+}
+
+export interface StudentTransfer {
+  id: number;
+  student_id: number;
+  from_therapist_name: string | null;
+  to_therapist_name: string | null;
+  transferred_at: string;
+}
+
+// Parent portal types
+export interface ScheduledSession {
+  id: number;
+  student_id: number;
+  scheduled_for: string;
+  duration_minutes: number | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface CreateScheduledSessionData {
+  scheduled_for: string;
+  duration_minutes?: number;
+  notes?: string;
+}
+
+// Service minutes types
+export interface ServiceMandate {
+  period: 'week' | 'month';
+  sessions: number | null; // Null when the IEP only gives a minutes total
+  minutes_per_session: number | null;
+  minutes_per_period: number;
+}
+
+export interface ServiceLog {
+  id: number;
+  student_id: number;
+  delivered_on: string; // YYYY-MM-DD
+  minutes: number;
+  notes: string | null;
+  recorded_by_name: string | null;
+  created_at: string;
+}
+
+export interface CreateServiceLogData {
+  delivered_on: string;
+  minutes: number;
+  notes?: string;
+}
+
+export interface ServiceLedgerEntry {
+  source: 'session' | 'log';
+  id: number;
+  date: string;
+  minutes: number;
+  notes: string | null;
+}
+
+export interface ServicePeriodSummary {
+  start: string;
+  end: string;
+  required_minutes: number | null;
+  delivered_minutes: number;
+  shortfall_minutes: number | null;
+  status: 'met' | 'under' | 'in_progress' | 'no_mandate';
+}
+
+export interface ServiceLedger {
+  student_id: number;
+  student_name: string;
+  session_frequency: string | null;
+  session_duration_minutes: number | null;
+  mandate: ServiceMandate | null;
+  from: string;
+  to: string;
+  generated_at: string;
+  periods: (ServicePeriodSummary & { entries: ServiceLedgerEntry[] })[];
+  totals: {
+    required_minutes: number | null;
+    delivered_minutes: number;
+    shortfall_minutes: number | null;
+  };
+}
+
+export type ServiceComplianceStatus = 'on_track' | 'behind' | 'under_served' | 'no_mandate';
+
+export interface ServiceComplianceStudent {
+  student_id: number;
+  student_name: string;
+  mandate: ServiceMandate | null;
+  previous_period: ServicePeriodSummary | null;
+  current_period: ServicePeriodSummary;
+  status: ServiceComplianceStatus;
+}
+
+export interface ServiceComplianceOverview {
+  generated_at: string;
+  counts: Record<ServiceComplianceStatus, number>;
+  students: ServiceComplianceStudent[];
+}
+
+export interface ParentSharingSettings {
+  student_id: number;
+  share_eval_data: boolean;
+  share_safety_signals: boolean;
+  home_practice_note: string | null;
+  updated_at: string | null;
+}
+
+export interface ParentChild {
+  id: number;
+  first_name: string;
+  last_name: string;
+  grade_level: string | null;
+}
+
+export interface ParentSessionSummary {
+  id: number;
+  started_at: string;
+  ended_at: string | null;
+  minutes: number;
+  cards_practiced: number;
+  correct_responses: number;
+  accuracy: number | null;
+  categories: string[];
+  safety_signals?: string[];
+}
+
+export interface ParentGoalProgress {
+  id: number;
+  goal_type: 'language' | 'articulation';
+  goal_description: string;
+  target_percentage: number;
+  current_percentage: number;
+  target_date: string | null;
+  status: 'active' | 'achieved' | 'discontinued';
+}
+
+export interface HomePracticeSuggestion {
+  category: string;
+  reason: 'goal' | 'needs_practice';
+  accuracy: number | null;
+  suggestion: string;
+}
+
+export interface ParentProgressView {
+  child: ParentChild;
+  upcoming_sessions: ScheduledSession[];
+  recent_sessions: ParentSessionSummary[];
+  goals: ParentGoalProgress[];
+  home_practice: {
+    note: string | null;
+    suggestions: HomePracticeSuggestion[];
+  };
+  eval_data?: Record<string, unknown> | null;
+  generated_at: string;
+}
+
+// Kid-friendly login types
+export interface ChildLoginBadge {
+  id: number;
+  child_id: number;
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface ChildLoginMethods {
+  picture_password: { created_at: string } | null;
+  badges: ChildLoginBadge[];
+  locked_until: string | null;
+}
+
+// A signed-in device (auth session); last_used_at moves on at each token refresh
+export interface ActiveDevice {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_used_at: string;
+  current: boolean;
+}
+
+export interface IssuedLoginBadge {
+  badge: ChildLoginBadge;
+  token: string;
+  login_url: string;
+  qr_svg: string;
 }
 
 // Export singleton instance
@@ -68,14 +68,22 @@ class TherapistLiveService {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 2000;
-  private token: string | null = null;
+  private tokenProvider: (() => Promise<string | null>) | null = null;
 
-  connect(token: string): void {
+  /**
+   * Connect with a fresh access token; reconnects ask the provider again so an
+   * expired token is never reused
+   */
+  async connect(tokenProvider: () => Promise<string | null>): Promise<void> {
     if (this.ws?.readyState === WebSocket.OPEN) {
       return;
     }
 
-    this.token = token;
+    this.tokenProvider = tokenProvider;
+    const token = await tokenProvider();
+    if (!token) {
+      return;
+    }
 
     // Build WebSocket URL from VITE_API_URL or fall back to same-origin
     const apiUrl = import.meta.env.VITE_API_URL;
@@ -140,7 +148,7 @@ class TherapistLiveService {
   }
 
   private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts || !this.token) {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts || !this.tokenProvider) {
       return;
     }
 
@@ -148,8 +156,8 @@ class TherapistLiveService {
     console.log(`[TherapistLive] Reconnecting (attempt ${this.reconnectAttempts})...`);
 
     setTimeout(() => {
-      if (this.token) {
-        this.connect(this.token);
+      if (this.tokenProvider) {
+        void this.connect(this.tokenProvider);
       }
     }, this.reconnectDelay * this.reconnectAttempts);
   }
@@ -16,6 +16,7 @@ export default defineConfig({
         main: resolve(__dirname, 'index.html'),
         boardgame: resolve(__dirname, 'boardgame.html'),
         therapist: resolve(__dirname, 'therapist.html'),
+        parent: resolve(__dirname, 'parent.html'),
         'cards': resolve(__dirname, 'cards.html'),
       },
       output: {
@@ -46,8 +47,9 @@ export default defineConfig({
       '@services': resolve(__dirname, 'src/services'),
       '@common': resolve(__dirname, 'src/common'),
       '@styles': resolve(__dirname, 'src/styles'),
-      // Explicit mapping for @shared/categories to include .ts extension
+      // Explicit mappings for @shared modules to include .ts extension
       '@shared/categories': resolve(__dirname, '../shared/categories.ts'),
+      '@shared/picture-passwords': resolve(__dirname, '../shared/picture-passwords.ts'),
       '@shared': resolve(__dirname, '../shared'),
     }
   }
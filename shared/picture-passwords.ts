@@ -0,0 +1,26 @@
+/**
+ * PICTURE PASSWORD ICONS
+ *
+ * Shared between frontend and backend. Children who cannot type yet sign in
+ * to the boardgame by tapping a short sequence of these pictures; the backend
+ * stores the sequence of ids, the frontend draws the 3x3 grid.
+ */
+
+export const PICTURE_PASSWORD_ICONS = [
+    { id: 'cat', emoji: '🐱', label: 'Cat' },
+    { id: 'dog', emoji: '🐶', label: 'Dog' },
+    { id: 'fish', emoji: '🐟', label: 'Fish' },
+    { id: 'apple', emoji: '🍎', label: 'Apple' },
+    { id: 'star', emoji: '⭐', label: 'Star' },
+    { id: 'sun', emoji: '☀️', label: 'Sun' },
+    { id: 'car', emoji: '🚗', label: 'Car' },
+    { id: 'ball', emoji: '⚽', label: 'Ball' },
+    { id: 'tree', emoji: '🌳', label: 'Tree' },
+] as const;
+
+export type PictureIconId = typeof PICTURE_PASSWORD_ICONS[number]['id'];
+
+export const PICTURE_ICON_IDS = PICTURE_PASSWORD_ICONS.map((icon) => icon.id) as PictureIconId[];
+
+// Pictures tapped per sign-in (the same picture may repeat)
+export const PICTURE_PASSWORD_LENGTH = 3;